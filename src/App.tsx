@@ -14,9 +14,13 @@ import CreatePrediction from "./pages/CreatePrediction";
 import Trades from "./pages/Trades";
 import TradeJournal from "./pages/TradeJournal";
 import PastTrades from "./pages/PastTrades";
+import RejectedEvents from "./pages/RejectedEvents";
 import TraderProfile from "./pages/TraderProfile";
 import Auth from "./pages/Auth";
 import Onboarding from "./pages/Onboarding";
+import AdminInstruments from "./pages/AdminInstruments";
+import AdminRateLimits from "./pages/AdminRateLimits";
+import AdminIntegrity from "./pages/AdminIntegrity";
 import NotFound from "./pages/NotFound";
 
 import BetaBadge from "@/components/BetaBadge";
@@ -37,9 +41,13 @@ function RouterContent() {
       <Route path="/trades" element={<Trades />} />
       <Route path="/journal" element={<TradeJournal />} />
       <Route path="/past-trades" element={<PastTrades />} />
+      <Route path="/rejected-events" element={<RejectedEvents />} />
       <Route path="/create-prediction" element={<CreatePrediction />} />
       <Route path="/auth" element={<Auth />} />
       <Route path="/onboarding" element={<Onboarding />} />
+      <Route path="/admin/instruments" element={<AdminInstruments />} />
+      <Route path="/admin/rate-limits" element={<AdminRateLimits />} />
+      <Route path="/admin/integrity" element={<AdminIntegrity />} />
       <Route path="*" element={<NotFound />} />
     </Routes>
   );
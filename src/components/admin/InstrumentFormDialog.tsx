@@ -0,0 +1,338 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import {
+  INSTRUMENT_ASSET_CLASS_LABELS,
+  Instrument,
+  InstrumentAssetClass,
+  InstrumentInput,
+  defaultInstrumentPattern,
+  isValidPattern,
+} from '@/lib/instruments';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface InstrumentFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  instrument: Instrument | null;
+  onSubmit: (input: InstrumentInput) => Promise<string | null>;
+}
+
+interface FormState {
+  symbol: string;
+  description: string;
+  pattern: string;
+  priority: string;
+  assetClass: InstrumentAssetClass;
+  tickSize: string;
+  tickValue: string;
+  multiplier: string;
+  pipSize: string;
+  quoteCurrency: string;
+  volatilityPct: string;
+  timezone: string;
+  sessionOpen: string;
+  sessionClose: string;
+  days: string[];
+  isActive: boolean;
+}
+
+function toFormState(instrument: Instrument | null): FormState {
+  return {
+    symbol: instrument?.symbol ?? '',
+    description: instrument?.description ?? '',
+    pattern: instrument?.pattern ?? '',
+    priority: String(instrument?.priority ?? 0),
+    assetClass: instrument?.asset_class ?? 'futures',
+    tickSize: instrument ? String(instrument.tick_size) : '',
+    tickValue: instrument ? String(instrument.tick_value) : '',
+    multiplier: String(instrument?.contract_multiplier ?? 1),
+    pipSize: instrument?.pip_size != null ? String(instrument.pip_size) : '',
+    quoteCurrency: instrument?.quote_currency ?? 'USD',
+    volatilityPct: instrument?.daily_volatility != null ? String(instrument.daily_volatility * 100) : '',
+    timezone: instrument?.trading_hours?.timezone ?? '',
+    sessionOpen: instrument?.trading_hours?.open ?? '',
+    sessionClose: instrument?.trading_hours?.close ?? '',
+    days: (instrument?.trading_hours?.days ?? []).map(String),
+    isActive: instrument?.is_active ?? true,
+  };
+}
+
+function optionalNumber(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+/** Create/edit form for one instruments registry row. */
+export function InstrumentFormDialog({ open, onOpenChange, instrument, onSubmit }: InstrumentFormDialogProps) {
+  const [form, setForm] = useState<FormState>(() => toFormState(instrument));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm(toFormState(instrument));
+      setError(null);
+    }
+  }, [open, instrument]);
+
+  const set = <K extends keyof FormState>(key: K, value: FormState[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const validate = (): string | null => {
+    if (!form.symbol.trim()) return 'Symbol is required';
+    const pattern = form.pattern.trim() || defaultInstrumentPattern(form.symbol);
+    if (!isValidPattern(pattern)) return 'Pattern is not a valid regular expression';
+    if (!(Number(form.tickSize) > 0)) return 'Tick size must be greater than 0';
+    if (!(Number(form.tickValue) > 0)) return 'Tick value must be greater than 0';
+    if (!(Number(form.multiplier) > 0)) return 'Multiplier must be greater than 0';
+    if (!/^[A-Z]{3}$/.test(form.quoteCurrency)) return 'Quote currency must be a 3-letter code';
+    const hasHours = form.timezone || form.sessionOpen || form.sessionClose;
+    if (hasHours && !(form.timezone && form.sessionOpen && form.sessionClose && form.days.length > 0)) {
+      return 'Trading hours need a timezone, open and close time and at least one day';
+    }
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const volatilityPct = optionalNumber(form.volatilityPct);
+    const input: InstrumentInput = {
+      symbol: form.symbol.trim().toUpperCase(),
+      description: form.description.trim() || null,
+      pattern: form.pattern.trim() || defaultInstrumentPattern(form.symbol),
+      priority: Number(form.priority) || 0,
+      asset_class: form.assetClass,
+      tick_size: Number(form.tickSize),
+      tick_value: Number(form.tickValue),
+      contract_multiplier: Number(form.multiplier),
+      pip_size: optionalNumber(form.pipSize),
+      quote_currency: form.quoteCurrency,
+      daily_volatility: volatilityPct !== null ? volatilityPct / 100 : null,
+      trading_hours: form.timezone
+        ? {
+            timezone: form.timezone.trim(),
+            days: form.days.map(Number).sort((a, b) => a - b),
+            open: form.sessionOpen,
+            close: form.sessionClose,
+          }
+        : null,
+      is_active: form.isActive,
+    };
+
+    setSaving(true);
+    const submitError = await onSubmit(input);
+    setSaving(false);
+
+    if (submitError) {
+      setError(submitError);
+    } else {
+      onOpenChange(false);
+    }
+  };
+
+  const suggestedTickValue =
+    Number(form.tickSize) > 0 && Number(form.multiplier) > 0 ? Number(form.tickSize) * Number(form.multiplier) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{instrument ? `Edit ${instrument.symbol}` : 'Add Instrument'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="instrument-symbol">Symbol</Label>
+              <Input
+                id="instrument-symbol"
+                placeholder="e.g. ES"
+                value={form.symbol}
+                onChange={(e) => set('symbol', e.target.value.toUpperCase())}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Asset Class</Label>
+              <Select value={form.assetClass} onValueChange={(v) => set('assetClass', v as InstrumentAssetClass)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(INSTRUMENT_ASSET_CLASS_LABELS) as InstrumentAssetClass[]).map((ac) => (
+                    <SelectItem key={ac} value={ac}>{INSTRUMENT_ASSET_CLASS_LABELS[ac]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="instrument-description">Description</Label>
+            <Input
+              id="instrument-description"
+              placeholder="e.g. E-mini S&P 500"
+              value={form.description}
+              onChange={(e) => set('description', e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-[1fr_5rem] gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="instrument-pattern">Symbol Pattern</Label>
+              <Input
+                id="instrument-pattern"
+                className="font-mono text-xs"
+                placeholder={form.symbol ? defaultInstrumentPattern(form.symbol) : 'Regular expression'}
+                value={form.pattern}
+                onChange={(e) => set('pattern', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="instrument-priority">Priority</Label>
+              <Input
+                id="instrument-priority"
+                type="number"
+                value={form.priority}
+                onChange={(e) => set('priority', e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            Matched against the upper-case symbol without its exchange prefix. Leave empty to match the
+            root, contract months and continuous contracts.
+          </p>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="instrument-tick-size">Tick Size</Label>
+              <Input
+                id="instrument-tick-size"
+                type="number"
+                step="any"
+                value={form.tickSize}
+                onChange={(e) => set('tickSize', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="instrument-multiplier">Multiplier</Label>
+              <Input
+                id="instrument-multiplier"
+                type="number"
+                step="any"
+                value={form.multiplier}
+                onChange={(e) => set('multiplier', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="instrument-tick-value">Tick Value</Label>
+              <Input
+                id="instrument-tick-value"
+                type="number"
+                step="any"
+                placeholder={suggestedTickValue !== null ? String(suggestedTickValue) : undefined}
+                value={form.tickValue}
+                onChange={(e) => set('tickValue', e.target.value)}
+                onFocus={() => {
+                  if (!form.tickValue && suggestedTickValue !== null) set('tickValue', String(suggestedTickValue));
+                }}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="instrument-pip-size">Pip Size</Label>
+              <Input
+                id="instrument-pip-size"
+                type="number"
+                step="any"
+                placeholder="Optional"
+                value={form.pipSize}
+                onChange={(e) => set('pipSize', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="instrument-currency">Quote Currency</Label>
+              <Input
+                id="instrument-currency"
+                maxLength={3}
+                value={form.quoteCurrency}
+                onChange={(e) => set('quoteCurrency', e.target.value.toUpperCase())}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="instrument-volatility">Daily Vol %</Label>
+              <Input
+                id="instrument-volatility"
+                type="number"
+                step="any"
+                placeholder="Optional"
+                value={form.volatilityPct}
+                onChange={(e) => set('volatilityPct', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2 rounded-lg border border-border/50 p-3">
+            <Label>Trading Hours</Label>
+            <div className="grid grid-cols-3 gap-3">
+              <Input
+                placeholder="America/Chicago"
+                value={form.timezone}
+                onChange={(e) => set('timezone', e.target.value)}
+              />
+              <Input type="time" value={form.sessionOpen} onChange={(e) => set('sessionOpen', e.target.value)} />
+              <Input type="time" value={form.sessionClose} onChange={(e) => set('sessionClose', e.target.value)} />
+            </div>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start flex-wrap"
+              value={form.days}
+              onValueChange={(days) => set('days', days)}
+            >
+              {WEEKDAYS.map((day, i) => (
+                <ToggleGroupItem key={day} value={String(i)} className="text-xs">
+                  {day}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <p className="text-xs text-muted-foreground">
+              Days a session opens. A close time before the open time ends the session the next day.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="instrument-active">Active</Label>
+            <Switch id="instrument-active" checked={form.isActive} onCheckedChange={(v) => set('isActive', v)} />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {instrument ? 'Save Changes' : 'Add Instrument'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
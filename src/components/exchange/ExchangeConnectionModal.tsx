@@ -11,7 +11,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useExchangeConnections, ExchangeConnection } from "@/hooks/useExchangeConnections";
+import { useTradingAccounts } from "@/hooks/useTradingAccounts";
 import { toast } from "@/hooks/use-toast";
 import { 
   AlertTriangle, 
@@ -50,9 +52,11 @@ const EXCHANGES: ExchangeInfo[] = [
 
 export function ExchangeConnectionModal({ open, onOpenChange }: ExchangeConnectionModalProps) {
   const { connections, connectExchange, disconnectExchange, loading } = useExchangeConnections();
+  const { accounts, getAccountName } = useTradingAccounts();
   const [selectedExchange, setSelectedExchange] = useState<Exchange | null>(null);
   const [apiKey, setApiKey] = useState("");
   const [apiSecret, setApiSecret] = useState("");
+  const [accountId, setAccountId] = useState("default");
   const [showSecret, setShowSecret] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
@@ -61,6 +65,7 @@ export function ExchangeConnectionModal({ open, onOpenChange }: ExchangeConnecti
     setSelectedExchange(exchange);
     setApiKey("");
     setApiSecret("");
+    setAccountId(connections.find(c => c.exchange === exchange)?.account_id ?? "default");
     setFormError(null);
     setShowSecret(false);
   };
@@ -84,7 +89,12 @@ export function ExchangeConnectionModal({ open, onOpenChange }: ExchangeConnecti
     setIsSubmitting(true);
     setFormError(null);
 
-    const result = await connectExchange(selectedExchange, apiKey.trim(), apiSecret.trim());
+    const result = await connectExchange(
+      selectedExchange,
+      apiKey.trim(),
+      apiSecret.trim(),
+      accountId === "default" ? undefined : accountId
+    );
 
     // Clear sensitive data immediately after submission
     setApiKey("");
@@ -146,6 +156,9 @@ export function ExchangeConnectionModal({ open, onOpenChange }: ExchangeConnecti
                         {connection.last_sync_at && (
                           <>Last sync: {formatDistanceToNow(new Date(connection.last_sync_at), { addSuffix: true })}</>
                         )}
+                        {getAccountName(connection.account_id) && (
+                          <> · {getAccountName(connection.account_id)}</>
+                        )}
                       </div>
                     )}
                   </div>
@@ -286,6 +299,26 @@ export function ExchangeConnectionModal({ open, onOpenChange }: ExchangeConnecti
               Read-only API access required (no withdrawals)
             </p>
           </div>
+
+          {accounts.length > 0 && (
+            <div className="space-y-2">
+              <Label>Trading Account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default account</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Trades synced from this exchange are assigned to this account
+              </p>
+            </div>
+          )}
         </div>
 
         {formError && (
@@ -0,0 +1,78 @@
+import { useNavigate } from "react-router-dom";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { AvatarDisplay } from "@/components/profile/AvatarDisplay";
+import { VerificationTierBadge } from "@/components/metrics/VerificationTierBadge";
+import { useVerifiedLeaderboard } from "@/hooks/useVerifiedLeaderboard";
+import { cn } from "@/lib/utils";
+
+/** Exchange-verified traders, ranked by verification tier and ranking score. */
+export function VerifiedLeaderboardList() {
+  const navigate = useNavigate();
+  const { leaders, loading } = useVerifiedLeaderboard();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (leaders.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <ShieldCheck className="w-12 h-12 mx-auto mb-3 opacity-50" />
+        <p className="text-sm">No verified traders yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {leaders.map((leader, index) => (
+        <Card
+          key={leader.user_id}
+          variant="interactive"
+          className="animate-fade-in"
+          onClick={() => navigate(`/trader/${leader.user_id}`)}
+        >
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm bg-muted text-muted-foreground">
+                {index + 1}
+              </div>
+              <AvatarDisplay avatarUrl={leader.avatar_url} displayName={leader.display_name || "Trader"} size={36} />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-sm truncate">{leader.display_name || "Trader"}</div>
+                <div className="flex items-center gap-2 mt-0.5">
+                  <VerificationTierBadge tier={leader.verification_tier} className="text-[10px] px-1.5 py-0" />
+                  <span className="text-xs text-muted-foreground">{leader.total_verified_trades} trades</span>
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="font-mono font-bold text-lg text-primary" title="Ranking score">
+                  {leader.ranking_score != null ? leader.ranking_score.toFixed(0) : "--"}
+                </div>
+                {leader.win_rate != null && (
+                  <div
+                    className={cn("text-xs font-mono", leader.win_rate >= 50 ? "text-gain" : "text-loss")}
+                    title="Win rate with its 95% confidence interval"
+                  >
+                    {leader.win_rate.toFixed(0)}% WR
+                    {leader.win_rate_ci_low != null && leader.win_rate_ci_high != null && (
+                      <span className="text-muted-foreground">
+                        {" "}
+                        ({leader.win_rate_ci_low.toFixed(0)}–{leader.win_rate_ci_high.toFixed(0)})
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Lightbulb, ListChecks } from "lucide-react";
+import { AccuracyBreakdown, AccuracyComponent } from "@/hooks/useTradingMetrics";
+
+type ComponentKey = keyof AccuracyBreakdown;
+
+const COMPONENT_ORDER: ComponentKey[] = ["average_r", "positive_r", "consistency"];
+
+function formatR(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+function formatPoints(value: number): string {
+  return value.toFixed(1);
+}
+
+interface ComponentCopy {
+  label: string;
+  formatValue: (value: number) => string;
+  // How far the input moves per step of guidance, in the input's own units
+  step: number;
+  advice: (component: AccuracyComponent, stepPoints: number) => { title: string; detail: string };
+}
+
+const COMPONENTS: Record<ComponentKey, ComponentCopy> = {
+  average_r: {
+    label: "Average R",
+    formatValue: formatR,
+    step: 0.5,
+    advice: (c, stepPoints) => ({
+      title: "Raise your average R",
+      detail: `Your trades average ${formatR(c.value)}. Each +0.5R adds ${formatPoints(stepPoints)} points, and ${formatR(
+        c.full_at,
+      )} or better earns all ${c.max_points}. Cut losers at your stop and let winners reach their targets.`,
+    }),
+  },
+  positive_r: {
+    label: "Positive R trades",
+    formatValue: (value) => `${value.toFixed(0)}%`,
+    step: 10,
+    advice: (c, stepPoints) => ({
+      title: "Close more trades in profit",
+      detail: `${c.value.toFixed(0)}% of your trades end with positive R. Every extra 10% adds ${formatPoints(
+        stepPoints,
+      )} points. Passing on marginal setups usually helps more than trading more.`,
+    }),
+  },
+  consistency: {
+    label: "Consistency",
+    formatValue: (value) => `${value.toFixed(2)} variance`,
+    step: 0.5,
+    advice: (c, stepPoints) => ({
+      title: "Make your results more consistent",
+      detail: `Your R-multiples have a variance of ${c.value.toFixed(2)}. Each 0.5 lower adds ${formatPoints(
+        stepPoints,
+      )} points, and ${c.full_at} earns all ${c.max_points}. Keep risk per trade steady so a few outsized results don't dominate.`,
+    }),
+  },
+};
+
+interface Guidance {
+  key: ComponentKey;
+  title: string;
+  detail: string;
+  available: number;
+}
+
+function pointsAt(component: AccuracyComponent, value: number): number {
+  const share = (value - component.zero_at) / (component.full_at - component.zero_at);
+  return Math.min(1, Math.max(0, share)) * component.max_points;
+}
+
+// Components with points left to earn, most available first
+function scoreGuidance(breakdown: AccuracyBreakdown): Guidance[] {
+  return COMPONENT_ORDER.map((key) => {
+    const component = breakdown[key];
+    const available = component.max_points - component.points;
+    // One step towards full_at, which earns nothing while still short of zero_at
+    const direction = Math.sign(component.full_at - component.zero_at);
+    const stepPoints = pointsAt(component, component.value + direction * COMPONENTS[key].step) - component.points;
+    return { key, available, ...COMPONENTS[key].advice(component, stepPoints) };
+  })
+    .filter((guidance) => guidance.available >= 0.5)
+    .sort((a, b) => b.available - a.available);
+}
+
+interface AccuracyBreakdownDialogProps {
+  breakdown: AccuracyBreakdown;
+  // Null until there are enough trades; the breakdown is then provisional
+  score: number | null;
+}
+
+/** What each component contributes to the accuracy score, and how to raise it. */
+export function AccuracyBreakdownDialog({ breakdown, score }: AccuracyBreakdownDialogProps) {
+  const total = COMPONENT_ORDER.reduce((sum, key) => sum + breakdown[key].points, 0);
+  const guidance = scoreGuidance(breakdown);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs">
+          See breakdown
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5 text-primary" />
+            Accuracy Score Breakdown
+          </DialogTitle>
+          <DialogDescription>
+            {score != null
+              ? "Your score is the sum of three components, each earned on a sliding scale."
+              : "Provisional: your score is shown once you have 30 verified trades."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {COMPONENT_ORDER.map((key) => {
+            const component = breakdown[key];
+            return (
+              <div key={key} className="space-y-1">
+                <div className="flex items-baseline justify-between text-sm">
+                  <span className="font-medium">{COMPONENTS[key].label}</span>
+                  <span className="font-mono">
+                    {formatPoints(component.points)}
+                    <span className="text-muted-foreground"> / {component.max_points}</span>
+                  </span>
+                </div>
+                <Progress value={(component.points / component.max_points) * 100} className="h-2" />
+                <div className="text-xs text-muted-foreground">
+                  {COMPONENTS[key].formatValue(component.value)}: nothing at{" "}
+                  {COMPONENTS[key].formatValue(component.zero_at)}, full points at{" "}
+                  {COMPONENTS[key].formatValue(component.full_at)}
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex items-baseline justify-between border-t border-border/50 pt-2 text-sm font-semibold">
+            <span>Total</span>
+            <span className="font-mono">
+              {formatPoints(total)}
+              <span className="text-muted-foreground"> / 100</span>
+            </span>
+          </div>
+        </div>
+
+        {guidance.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-1 text-sm font-medium">
+              <Lightbulb className="h-4 w-4 text-warning" />
+              What would raise your score
+            </div>
+            {guidance.map((item) => (
+              <div key={item.key} className="bg-muted/30 rounded-lg p-3 border border-border/50">
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="text-sm font-medium">{item.title}</span>
+                  <span className="text-xs font-mono text-gain whitespace-nowrap">
+                    up to +{formatPoints(item.available)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">{item.detail}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
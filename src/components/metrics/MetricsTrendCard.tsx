@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { LineChart as LineChartIcon, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import { MetricSnapshot, MonthOverMonth, TrendMetric } from "@/hooks/useMetricSnapshots";
+
+interface MetricsTrendCardProps {
+  snapshots: MetricSnapshot[];
+  comparison: Record<TrendMetric, MonthOverMonth> | null;
+  loading?: boolean;
+}
+
+interface TrendDefinition {
+  label: string;
+  // Label for the month-over-month row; equity compares PnL made in the month
+  monthLabel: string;
+  format: (value: number) => string;
+}
+
+const TRENDS: Record<TrendMetric, TrendDefinition> = {
+  accuracy_score: {
+    label: "Accuracy",
+    monthLabel: "Accuracy Score",
+    format: (value) => value.toFixed(0),
+  },
+  win_rate: {
+    label: "Win Rate",
+    monthLabel: "Win Rate",
+    format: (value) => `${value.toFixed(1)}%`,
+  },
+  average_r: {
+    label: "Avg R",
+    monthLabel: "Avg R",
+    format: (value) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`,
+  },
+  total_net_pnl: {
+    label: "Equity",
+    monthLabel: "Net PnL",
+    format: (value) => `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`,
+  },
+};
+
+const TREND_ORDER: TrendMetric[] = ["accuracy_score", "win_rate", "average_r", "total_net_pnl"];
+
+function MonthDelta({ metric, values }: { metric: TrendMetric; values: MonthOverMonth }) {
+  const { monthLabel, format: formatValue } = TRENDS[metric];
+  const delta = values.current != null && values.previous != null ? values.current - values.previous : null;
+
+  return (
+    <div className="bg-background/50 rounded-lg p-2 border border-border/50">
+      <div className="text-xs text-muted-foreground">{monthLabel}</div>
+      <div className="font-mono font-semibold text-foreground">
+        {values.current != null ? formatValue(values.current) : "--"}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        was {values.previous != null ? formatValue(values.previous) : "--"}
+        {delta != null && delta !== 0 && (
+          <span className={cn("ml-1 font-mono", delta > 0 ? "text-gain" : "text-loss")}>
+            ({delta > 0 ? "▲" : "▼"} {formatValue(Math.abs(delta)).replace(/^[+-]/, "")})
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Daily metric snapshots as a line chart per metric, with this month against
+ * last month underneath.
+ */
+export function MetricsTrendCard({ snapshots, comparison, loading = false }: MetricsTrendCardProps) {
+  const [metric, setMetric] = useState<TrendMetric>("accuracy_score");
+
+  if (loading) {
+    return (
+      <Card className="bg-card/50 backdrop-blur-sm">
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const trend = TRENDS[metric];
+  const chartConfig = {
+    [metric]: { label: trend.label, color: "hsl(var(--primary))" },
+  } satisfies ChartConfig;
+  const points = snapshots.filter((snapshot) => snapshot[metric] != null);
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2">
+          <LineChartIcon className="h-5 w-5 text-primary" />
+          Trends
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <Tabs value={metric} onValueChange={(value) => setMetric(value as TrendMetric)}>
+          <TabsList className="w-full bg-card border border-border">
+            {TREND_ORDER.map((key) => (
+              <TabsTrigger key={key} value={key} className="flex-1 text-xs">
+                {TRENDS[key].label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {points.length < 2 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            Not enough history yet. A snapshot of your metrics is taken every day.
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+            <LineChart data={points} margin={{ left: 4, right: 8, top: 8, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="snapshot_date"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={24}
+                tickFormatter={(value: string) => format(parseISO(value), "MMM d")}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={48}
+                domain={["auto", "auto"]}
+                tickFormatter={(value: number) => trend.format(value)}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) =>
+                      payload?.[0] ? format(parseISO(payload[0].payload.snapshot_date), "MMM d, yyyy") : null
+                    }
+                    formatter={(value) => (
+                      <span className="font-mono font-medium text-foreground">{trend.format(Number(value))}</span>
+                    )}
+                  />
+                }
+              />
+              <Line
+                dataKey={metric}
+                type="monotone"
+                stroke={`var(--color-${metric})`}
+                strokeWidth={2}
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {comparison && (
+          <div>
+            <div className="text-xs font-medium text-muted-foreground mb-2">This month vs last month</div>
+            <div className="grid grid-cols-2 gap-2">
+              {TREND_ORDER.map((key) => (
+                <MonthDelta key={key} metric={key} values={comparison[key]} />
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,43 @@
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Mirrors VERIFICATION_TIERS in supabase/functions/_shared/tradeMetrics.ts
+const TIERS: Record<number, { label: string; description: string; className: string }> = {
+  0: {
+    label: "Unverified",
+    description: "Needs an active exchange connection and 30+ verified trades.",
+    className: "text-muted-foreground",
+  },
+  1: {
+    label: "Verified",
+    description: "30+ verified trades from a connected exchange.",
+    className: "bg-gain/20 text-gain border-gain/30",
+  },
+  2: {
+    label: "Established",
+    description: "100+ verified trades, with win rate known to within 20 points and average R to within 1R.",
+    className: "bg-primary/20 text-primary border-primary/30",
+  },
+  3: {
+    label: "Proven",
+    description: "300+ verified trades, with win rate known to within 12 points and average R to within 0.5R.",
+    className: "bg-violet-400/20 text-violet-400 border-violet-400/30",
+  },
+};
+
+/** Graded verification: how much the trader's numbers can be relied on. */
+export function VerificationTierBadge({ tier, className }: { tier: number; className?: string }) {
+  const info = TIERS[tier] ?? TIERS[0];
+
+  return (
+    <Badge
+      variant={tier > 0 ? "default" : "outline"}
+      className={cn("gap-1", info.className, className)}
+      title={info.description}
+    >
+      {tier > 0 ? <ShieldCheck className="h-3 w-3" /> : <ShieldAlert className="h-3 w-3" />}
+      {info.label}
+    </Badge>
+  );
+}
@@ -3,9 +3,11 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { ShieldCheck, ShieldAlert, TrendingUp, Target, RefreshCw, HelpCircle, Clock, Loader2 } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 import { cn } from "@/lib/utils";
 import { TradingMetrics } from "@/hooks/useTradingMetrics";
+import { AccuracyBreakdownDialog } from "./AccuracyBreakdownDialog";
+import { VerificationTierBadge } from "./VerificationTierBadge";
 
 interface VerifiedMetricsCardProps {
   metrics: TradingMetrics | null;
@@ -15,6 +17,135 @@ interface VerifiedMetricsCardProps {
   compact?: boolean;
 }
 
+function formatRatio(value: number | null): string {
+  return value != null ? value.toFixed(2) : "--";
+}
+
+function formatMoney(value: number | null): string {
+  if (value == null) return "--";
+  return `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+}
+
+function formatDrawdownDates(metrics: TradingMetrics): string | null {
+  if (!metrics.max_drawdown_start_at || !metrics.max_drawdown_end_at) return null;
+  return `${format(new Date(metrics.max_drawdown_start_at), "MMM d, yyyy")} – ${format(
+    new Date(metrics.max_drawdown_end_at),
+    "MMM d, yyyy",
+  )}`;
+}
+
+interface StatProps {
+  label: string;
+  value: string;
+  hint: string;
+  tone?: "gain" | "loss";
+}
+
+function Stat({ label, value, hint, tone }: StatProps) {
+  return (
+    <div className="text-center" title={hint}>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div
+        className={cn(
+          "font-mono font-semibold",
+          tone === "gain" ? "text-gain" : tone === "loss" ? "text-loss" : "text-foreground",
+        )}
+      >
+        {value}
+      </div>
+    </div>
+  );
+}
+
+// Profit factor, expectancy, risk-adjusted ratios and drawdown
+export function PerformanceStats({ metrics }: { metrics: TradingMetrics }) {
+  const drawdownDates = formatDrawdownDates(metrics);
+  const toneOf = (value: number | null, breakeven = 0) =>
+    value == null ? undefined : value > breakeven ? "gain" : "loss";
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-2">
+        <Stat
+          label="Profit Factor"
+          value={formatRatio(metrics.profit_factor)}
+          hint="Gross profit divided by gross loss"
+          tone={toneOf(metrics.profit_factor, 1)}
+        />
+        <Stat
+          label="Expectancy"
+          value={formatMoney(metrics.expectancy)}
+          hint="Average net profit per trade, after fees"
+          tone={toneOf(metrics.expectancy)}
+        />
+        <Stat
+          label="Expectancy (R)"
+          value={
+            metrics.expectancy_r != null
+              ? `${metrics.expectancy_r >= 0 ? "+" : ""}${metrics.expectancy_r.toFixed(2)}R`
+              : "--"
+          }
+          hint="Average R-multiple per trade"
+          tone={toneOf(metrics.expectancy_r)}
+        />
+        <Stat
+          label="Win/Loss"
+          value={formatRatio(metrics.avg_win_loss_ratio)}
+          hint="Average winning trade divided by average losing trade"
+        />
+        <Stat
+          label="Sharpe"
+          value={formatRatio(metrics.sharpe_ratio)}
+          hint="Per-trade Sharpe ratio: mean R over its standard deviation"
+        />
+        <Stat
+          label="Sortino"
+          value={formatRatio(metrics.sortino_ratio)}
+          hint="Per-trade Sortino ratio: mean R over its downside deviation"
+        />
+        <Stat
+          label="Daily Sharpe"
+          value={formatRatio(metrics.daily_sharpe_ratio)}
+          hint="Annualized Sharpe ratio of daily R"
+        />
+        <Stat
+          label="Daily Sortino"
+          value={formatRatio(metrics.daily_sortino_ratio)}
+          hint="Annualized Sortino ratio of daily R"
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <Stat
+          label="Max Drawdown"
+          value={
+            metrics.max_drawdown != null
+              ? `$${metrics.max_drawdown.toFixed(2)}${
+                  metrics.max_drawdown_pct != null ? ` (${metrics.max_drawdown_pct.toFixed(1)}%)` : ""
+                }`
+              : "--"
+          }
+          hint="Largest fall in cumulative profit from a previous high; the percentage is of the account balance"
+          tone={metrics.max_drawdown ? "loss" : undefined}
+        />
+        <Stat
+          label="Recovery"
+          value={formatRatio(metrics.recovery_factor)}
+          hint="Net profit divided by maximum drawdown"
+          tone={toneOf(metrics.recovery_factor)}
+        />
+        <Stat
+          label="Losing Streak"
+          value={String(metrics.max_consecutive_losses)}
+          hint="Most consecutive losing trades"
+        />
+      </div>
+      {drawdownDates && (
+        <div className="text-xs text-muted-foreground text-center">Max drawdown: {drawdownDates}</div>
+      )}
+    </div>
+  );
+}
+
 export function VerifiedMetricsCard({
   metrics,
   loading = false,
@@ -52,17 +183,7 @@ export function VerifiedMetricsCard({
             Trading Metrics
           </CardTitle>
           <div className="flex items-center gap-2">
-            {isVerified ? (
-              <Badge variant="default" className="bg-gain/20 text-gain border-gain/30 gap-1">
-                <ShieldCheck className="h-3 w-3" />
-                Verified
-              </Badge>
-            ) : (
-              <Badge variant="outline" className="gap-1 text-muted-foreground">
-                <ShieldAlert className="h-3 w-3" />
-                Unverified
-              </Badge>
-            )}
+            <VerificationTierBadge tier={isVerified ? Math.max(1, metrics.verification_tier) : 0} />
           </div>
         </div>
         {metrics?.last_api_sync_at && (
@@ -112,6 +233,11 @@ export function VerifiedMetricsCard({
                 {metrics.total_wins}W / {metrics.total_losses}L
               </div>
             )}
+            {metrics?.win_rate_ci_low != null && metrics.win_rate_ci_high != null && !compact && (
+              <div className="text-xs text-muted-foreground" title="95% confidence interval (Wilson)">
+                95% CI {metrics.win_rate_ci_low.toFixed(0)}–{metrics.win_rate_ci_high.toFixed(0)}%
+              </div>
+            )}
           </div>
 
           {/* Accuracy Score Card */}
@@ -130,12 +256,12 @@ export function VerifiedMetricsCard({
                       trade or how long you hold positions.
                     </p>
                     <p className="text-xs mb-2 text-muted-foreground">
-                      <strong>Risk Estimation:</strong> We estimate risk based on your position size and how much the
-                      asset typically moves. This allows fair comparison between different trading styles — even when
-                      stop-loss data isn't available.
+                      <strong>Risk:</strong> When a trade has a stop loss, its risk is the distance from entry to that
+                      stop. Trades without one are estimated from position size and how much the asset typically
+                      moves.
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      Risk is estimated conservatively to prevent overstating performance.
+                      Estimated risk is conservative to prevent overstating performance.
                     </p>
                     {!hasEnoughTrades && (
                       <p className="text-xs text-warning mt-2">Requires 30+ verified trades to display.</p>
@@ -167,12 +293,18 @@ export function VerifiedMetricsCard({
             {!hasEnoughTrades && metrics && (
               <div className="text-xs text-muted-foreground mt-1">{metrics.total_verified_trades}/30 trades needed</div>
             )}
+            {metrics?.accuracy_breakdown && !compact && (
+              <AccuracyBreakdownDialog
+                breakdown={metrics.accuracy_breakdown}
+                score={hasEnoughTrades ? accuracyScore ?? null : null}
+              />
+            )}
           </div>
         </div>
 
         {/* Additional Stats */}
         {metrics && !compact && (
-          <div className="grid grid-cols-3 gap-2 pt-2 border-t border-border/50">
+          <div className="grid grid-cols-4 gap-2 pt-2 border-t border-border/50">
             <div className="text-center">
               <div className="text-xs text-muted-foreground">Avg R</div>
               <div className={cn("font-mono font-semibold", (metrics.average_r ?? 0) > 0 ? "text-gain" : "text-loss")}>
@@ -180,6 +312,11 @@ export function VerifiedMetricsCard({
                   ? `${metrics.average_r >= 0 ? "+" : ""}${metrics.average_r.toFixed(2)}R`
                   : "--"}
               </div>
+              {metrics.average_r_ci_low != null && metrics.average_r_ci_high != null && (
+                <div className="text-[10px] text-muted-foreground" title="95% confidence interval (bootstrap)">
+                  {metrics.average_r_ci_low.toFixed(2)} to {metrics.average_r_ci_high.toFixed(2)}
+                </div>
+              )}
             </div>
             <div className="text-center">
               <div className="text-xs text-muted-foreground">+R Rate</div>
@@ -187,6 +324,14 @@ export function VerifiedMetricsCard({
                 {metrics.positive_r_percentage != null ? `${metrics.positive_r_percentage.toFixed(0)}%` : "--"}
               </div>
             </div>
+            <div className="text-center">
+              <div className="text-xs text-muted-foreground" title="Trades whose R uses a real stop loss">
+                Real Stops
+              </div>
+              <div className="font-mono font-semibold text-foreground">
+                {metrics.stop_based_percentage != null ? `${metrics.stop_based_percentage.toFixed(0)}%` : "--"}
+              </div>
+            </div>
             <div className="text-center">
               <div className="text-xs text-muted-foreground">Trades</div>
               {metrics.total_verified_trades > 0 && (
@@ -196,6 +341,13 @@ export function VerifiedMetricsCard({
           </div>
         )}
 
+        {/* Performance Statistics */}
+        {metrics && !compact && metrics.total_verified_trades > 0 && (
+          <div className="pt-2 border-t border-border/50">
+            <PerformanceStats metrics={metrics} />
+          </div>
+        )}
+
         {/* Recalculate Button */}
         {onRecalculate && !compact && (
           <Button variant="outline" size="sm" className="w-full" onClick={onRecalculate} disabled={calculating}>
@@ -213,8 +365,19 @@ export function VerifiedMetricsCard({
           </Button>
         )}
 
+        {/* Integrity Notice */}
+        {metrics?.integrity_flagged && !compact && (
+          <div className="bg-warning/10 rounded-lg p-3 border border-warning/30">
+            <p className="text-xs text-warning">
+              <ShieldAlert className="h-3 w-3 inline mr-1" />
+              Verification is suspended while flagged activity on your account, such as deleted closed trades, is
+              reviewed.
+            </p>
+          </div>
+        )}
+
         {/* Verification Notice */}
-        {!isVerified && !compact && (
+        {!isVerified && !metrics?.integrity_flagged && !compact && (
           <div className="bg-muted/30 rounded-lg p-3 border border-border/50">
             <p className="text-xs text-muted-foreground">
               <ShieldAlert className="h-3 w-3 inline mr-1" />
@@ -1,27 +1,151 @@
 import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Copy, Eye, EyeOff, RefreshCw, Check } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Eye, EyeOff, RefreshCw, Check, ShieldCheck, Plus, Pencil, Ban, Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { useApiKeys, isApiKeyActive, API_KEY_SCOPES, ApiKey, ApiKeyScope } from '@/hooks/useApiKeys';
+
+const EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+  { value: 'never', label: 'Never', days: null },
+  { value: '30', label: '30 days', days: 30 },
+  { value: '90', label: '90 days', days: 90 },
+  { value: '365', label: '1 year', days: 365 },
+];
+
+const SCOPE_LABELS = Object.fromEntries(API_KEY_SCOPES.map((s) => [s.value, s.label])) as Record<ApiKeyScope, string>;
+
+function keyStatus(key: ApiKey): { label: string; className: string } | null {
+  if (key.revoked_at) return { label: 'Revoked', className: 'bg-destructive/20 text-destructive border-destructive/30' };
+  if (!isApiKeyActive(key)) return { label: 'Expired', className: 'bg-muted text-muted-foreground border-border' };
+  if (key.expires_at) {
+    return {
+      label: `Expires ${formatDistanceToNow(new Date(key.expires_at), { addSuffix: true })}`,
+      className: 'text-muted-foreground',
+    };
+  }
+  return null;
+}
+
+function describeUsage(key: ApiKey): string {
+  if (!key.last_used_at) return 'Never used';
+  const parts = [
+    `Last used ${formatDistanceToNow(new Date(key.last_used_at), { addSuffix: true })}`,
+    key.last_used_ip ? `from ${key.last_used_ip}` : null,
+  ];
+  return `${parts.filter(Boolean).join(' ')} · ${key.request_count.toLocaleString()} ${key.request_count === 1 ? 'request' : 'requests'}`;
+}
 
 interface ApiKeySectionProps {
+  // The key synced to the Chrome extension (profiles.api_key)
   apiKey: string | null;
   userId: string;
   onKeyRegenerated: (newKey: string) => void;
 }
 
 export function ApiKeySection({ apiKey, userId, onKeyRegenerated }: ApiKeySectionProps) {
-  const [showKey, setShowKey] = useState(false);
+  const { apiKeys, loading, createKey, renameKey, revokeKey, regenerateSigningSecret, setRequireSigned, refetch } =
+    useApiKeys();
   const [isRegenerating, setIsRegenerating] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['trades:write']);
+  const [expiry, setExpiry] = useState('never');
+  const [creating, setCreating] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [showKey, setShowKey] = useState(false);
+  const [signingKeyId, setSigningKeyId] = useState<string | null>(null);
+  const [showSecret, setShowSecret] = useState(false);
+  const [isRegeneratingSecret, setIsRegeneratingSecret] = useState(false);
+  const [isUpdatingSigned, setIsUpdatingSigned] = useState(false);
+
+  const isExtensionKey = (key: ApiKey) => Boolean(apiKey && apiKey.startsWith(key.key_prefix));
+
+  // The key whose signing settings are open
+  const signingKey = apiKeys.find((key) => key.id === signingKeyId) ?? null;
+  const signingSecret = signingKey?.signing_secret ?? null;
+
+  const handleSigningOpenChange = (open: boolean) => {
+    if (!open) {
+      setSigningKeyId(null);
+      setShowSecret(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setDialogOpen(open);
+    if (!open) {
+      setName('');
+      setScopes(['trades:write']);
+      setExpiry('never');
+      setCreatedKey(null);
+      setShowKey(false);
+    }
+  };
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || scopes.length === 0) return;
+
+    const days = EXPIRY_OPTIONS.find((o) => o.value === expiry)?.days ?? null;
+    setCreating(true);
+    const key = await createKey({
+      name: name.trim(),
+      scopes,
+      expiresAt: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null,
+    });
+    setCreating(false);
+
+    if (key) {
+      setCreatedKey(key);
+      toast.success(`API key "${name.trim()}" created`);
+    } else {
+      toast.error('Failed to create API key');
+    }
+  };
+
+  const handleRename = async (key: ApiKey) => {
+    const next = prompt('Rename API key', key.name)?.trim();
+    if (!next || next === key.name) return;
+
+    if (await renameKey(key.id, next)) {
+      toast.success('API key renamed');
+    } else {
+      toast.error('Failed to rename API key');
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Anything using this key will stop working immediately.`)) {
+      return;
+    }
+
+    if (await revokeKey(key.id)) {
+      toast.success('API key revoked');
+    } else {
+      toast.error('Failed to revoke API key');
+    }
+  };
 
   const handleCopy = async () => {
-    if (!apiKey) return;
-    
+    if (!createdKey) return;
+
     try {
-      await navigator.clipboard.writeText(apiKey);
+      await navigator.clipboard.writeText(createdKey);
       setCopied(true);
       toast.success('API key copied to clipboard');
       setTimeout(() => setCopied(false), 2000);
@@ -31,7 +155,7 @@ export function ApiKeySection({ apiKey, userId, onKeyRegenerated }: ApiKeySectio
   };
 
   const handleRegenerate = async () => {
-    if (!confirm('Are you sure you want to regenerate your API key? Your Chrome extension will need to be updated with the new key.')) {
+    if (!confirm('Are you sure you want to regenerate the Chrome extension key? The extension picks up the new key the next time you open the app.')) {
       return;
     }
 
@@ -44,6 +168,7 @@ export function ApiKeySection({ apiKey, userId, onKeyRegenerated }: ApiKeySectio
       if (error) throw error;
 
       onKeyRegenerated(data as string);
+      await refetch();
       toast.success('API key regenerated successfully');
     } catch (error) {
       console.error('Error regenerating API key:', error);
@@ -53,61 +178,312 @@ export function ApiKeySection({ apiKey, userId, onKeyRegenerated }: ApiKeySectio
     }
   };
 
-  const maskedKey = apiKey ? `${apiKey.substring(0, 7)}${'•'.repeat(20)}${apiKey.substring(apiKey.length - 4)}` : '';
+  const handleCopySecret = async () => {
+    if (!signingSecret) return;
+
+    try {
+      await navigator.clipboard.writeText(signingSecret);
+      toast.success('Signing secret copied to clipboard');
+    } catch {
+      toast.error('Failed to copy signing secret');
+    }
+  };
+
+  const handleRegenerateSecret = async () => {
+    if (!signingKey) return;
+    if (signingSecret && !confirm('Regenerate this key\'s signing secret? Signed requests using the old secret will be rejected.')) {
+      return;
+    }
+
+    setIsRegeneratingSecret(true);
+    const secret = await regenerateSigningSecret(signingKey.id);
+    setIsRegeneratingSecret(false);
+
+    if (secret) {
+      toast.success('Signing secret generated');
+    } else {
+      toast.error('Failed to generate signing secret');
+    }
+  };
+
+  const handleRequireSignedChange = async (required: boolean) => {
+    if (!signingKey) return;
+    if (required && !signingSecret) {
+      toast.error('Generate a signing secret first');
+      return;
+    }
+
+    setIsUpdatingSigned(true);
+    const updated = await setRequireSigned(signingKey.id, required);
+    setIsUpdatingSigned(false);
+
+    if (updated) {
+      toast.success(required ? 'Signed requests are now required for this key' : 'Unsigned requests are allowed again');
+    } else {
+      toast.error('Failed to update signed mode');
+    }
+  };
+
+  const maskedSecret = signingSecret ? `${signingSecret.substring(0, 6)}${'•'.repeat(20)}` : '';
 
   return (
     <Card className="bg-card border-border">
       <CardHeader>
-        <CardTitle className="text-lg">Chrome Extension API Key</CardTitle>
-        <CardDescription>
-          Use this key to authenticate your Chrome extension for real-time trade capture.
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        <div className="flex items-center gap-2">
-          <div className="relative flex-1">
-            <Input
-              type="text"
-              value={showKey ? (apiKey || '') : maskedKey}
-              readOnly
-              className="pr-10 font-mono text-sm bg-muted"
-            />
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg">API Keys</CardTitle>
+            <CardDescription>
+              Create a key per device or integration so each one can be revoked on its own.
+            </CardDescription>
           </div>
-          <Button
-            variant="outline"
-            size="icon"
-            onClick={() => setShowKey(!showKey)}
-            title={showKey ? 'Hide API key' : 'Show API key'}
-          >
-            {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-          </Button>
-          <Button
-            variant="outline"
-            size="icon"
-            onClick={handleCopy}
-            disabled={!apiKey}
-            title="Copy API key"
-          >
-            {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
-          </Button>
-        </div>
-        
-        <div className="flex items-center justify-between">
-          <p className="text-xs text-muted-foreground">
-            Set this as the <code className="bg-muted px-1 rounded">x-api-key</code> header in your extension.
-          </p>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleRegenerate}
-            disabled={isRegenerating}
-            className="text-destructive hover:text-destructive"
-          >
-            <RefreshCw className={`h-4 w-4 mr-2 ${isRegenerating ? 'animate-spin' : ''}`} />
-            Regenerate
+          <Button variant="outline" size="sm" className="gap-1.5 shrink-0" onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4" />
+            New key
           </Button>
         </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : apiKeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No API keys yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {apiKeys.map((key) => {
+              const status = keyStatus(key);
+              const extensionKey = isExtensionKey(key);
+              return (
+                <div
+                  key={key.id}
+                  className={`flex items-start justify-between gap-2 rounded-lg border border-border/50 bg-muted/20 px-3 py-2 ${
+                    isApiKeyActive(key) ? '' : 'opacity-60'
+                  }`}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium truncate">{key.name}</span>
+                      <code className="text-xs text-muted-foreground">{key.key_prefix}…</code>
+                      {extensionKey && <Badge variant="outline" className="text-xs">Extension</Badge>}
+                      {key.require_signed_requests && (
+                        <Badge variant="outline" className="text-xs text-primary border-primary/30">Signed</Badge>
+                      )}
+                      {status && (
+                        <Badge variant="outline" className={`text-xs ${status.className}`}>{status.label}</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 flex-wrap">
+                      {key.scopes.map((scope) => (
+                        <Badge key={scope} variant="secondary" className="text-xs font-normal">
+                          {SCOPE_LABELS[scope] ?? scope}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{describeUsage(key)}</p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Rename"
+                      onClick={() => handleRename(key)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {!key.revoked_at && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Request signing"
+                        onClick={() => setSigningKeyId(key.id)}
+                      >
+                        <ShieldCheck className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {extensionKey ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        title="Regenerate extension key"
+                        onClick={handleRegenerate}
+                        disabled={isRegenerating}
+                      >
+                        <RefreshCw className={`h-4 w-4 ${isRegenerating ? 'animate-spin' : ''}`} />
+                      </Button>
+                    ) : (
+                      !key.revoked_at && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          title="Revoke"
+                          onClick={() => handleRevoke(key)}
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Send the key as the <code className="bg-muted px-1 rounded">x-api-key</code> header. The Chrome extension
+          key is synced automatically. Use the shield on a key to set up request signing for it.
+        </p>
       </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{createdKey ? 'API Key Created' : 'New API Key'}</DialogTitle>
+            {createdKey && (
+              <DialogDescription>
+                Copy this key now. It won't be shown again.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {createdKey ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Input
+                  type="text"
+                  value={showKey ? createdKey : `${createdKey.substring(0, 11)}${'•'.repeat(20)}`}
+                  readOnly
+                  className="flex-1 font-mono text-sm bg-muted"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setShowKey(!showKey)}
+                  title={showKey ? 'Hide API key' : 'Show API key'}
+                >
+                  {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+                <Button variant="outline" size="icon" onClick={handleCopy} title="Copy API key">
+                  {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <Button className="w-full" onClick={() => handleOpenChange(false)}>
+                Done
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  placeholder="e.g. MT5 VPS"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                {API_KEY_SCOPES.map((scope) => (
+                  <div key={scope.value} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`api-key-scope-${scope.value}`}
+                      checked={scopes.includes(scope.value)}
+                      onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                    />
+                    <div className="grid gap-0.5 leading-none">
+                      <Label htmlFor={`api-key-scope-${scope.value}`} className="text-sm">{scope.label}</Label>
+                      <p className="text-xs text-muted-foreground">{scope.description}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label>Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" className="w-full" disabled={creating || !name.trim() || scopes.length === 0}>
+                {creating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create Key
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={signingKey !== null} onOpenChange={handleSigningOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Request Signing</DialogTitle>
+            <DialogDescription>{signingKey?.name}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Sign each request with HMAC-SHA256 over <code className="bg-muted px-1 rounded">timestamp.body</code>,
+              using this key's secret, and send it as <code className="bg-muted px-1 rounded">x-signature</code> with{' '}
+              <code className="bg-muted px-1 rounded">x-signature-timestamp</code>. Stale or reused signatures are
+              rejected.
+            </p>
+
+            {signingSecret ? (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="text"
+                  value={showSecret ? signingSecret : maskedSecret}
+                  readOnly
+                  className="flex-1 font-mono text-sm bg-muted"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setShowSecret(!showSecret)}
+                  title={showSecret ? 'Hide signing secret' : 'Show signing secret'}
+                >
+                  {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+                <Button variant="outline" size="icon" onClick={handleCopySecret} title="Copy signing secret">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : null}
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="require-signed"
+                  checked={signingKey?.require_signed_requests ?? false}
+                  onCheckedChange={handleRequireSignedChange}
+                  disabled={isUpdatingSigned}
+                />
+                <Label htmlFor="require-signed" className="text-xs">
+                  Reject unsigned requests
+                </Label>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRegenerateSecret}
+                disabled={isRegeneratingSecret}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${isRegeneratingSecret ? 'animate-spin' : ''}`} />
+                {signingSecret ? 'Regenerate secret' : 'Generate secret'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
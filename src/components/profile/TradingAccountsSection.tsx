@@ -0,0 +1,335 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wallet, Plus, Star, Trash2, Loader2, Landmark } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  useTradingAccounts,
+  ACCOUNT_TYPE_LABELS,
+  AccountType,
+} from '@/hooks/useTradingAccounts';
+import { useBaseCurrency, ACCOUNT_CURRENCIES } from '@/hooks/useBaseCurrency';
+import { updateTradingMetrics } from '@/hooks/useTradingMetrics';
+
+const ACCOUNT_TYPE_STYLES: Record<AccountType, string> = {
+  live: 'bg-success/20 text-success border-success/30',
+  prop: 'bg-primary/20 text-primary border-primary/30',
+  demo: 'bg-muted text-muted-foreground border-border',
+};
+
+// Blank clears the balance; anything else must be a positive amount
+function parseBalance(value: string): number | null | undefined {
+  if (!value.trim()) return null;
+  const balance = Number(value);
+  return Number.isFinite(balance) && balance > 0 ? balance : undefined;
+}
+
+interface TradingAccountsSectionProps {
+  onAccountsChange?: () => void;
+}
+
+export function TradingAccountsSection({ onAccountsChange }: TradingAccountsSectionProps) {
+  const { accounts, loading, createAccount, updateAccount, setDefaultAccount, deleteAccount } = useTradingAccounts();
+  const { currency: baseCurrency, saving: savingCurrency, updateCurrency } = useBaseCurrency();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [accountType, setAccountType] = useState<AccountType>('live');
+  const [broker, setBroker] = useState('');
+  const [externalId, setExternalId] = useState('');
+  const [currency, setCurrency] = useState('default');
+  const [startingBalance, setStartingBalance] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const resetForm = () => {
+    setName('');
+    setAccountType('live');
+    setBroker('');
+    setExternalId('');
+    setCurrency('default');
+    setStartingBalance('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const balance = parseBalance(startingBalance);
+    if (balance === undefined) {
+      toast.error('Starting balance must be a positive amount');
+      return;
+    }
+
+    setSaving(true);
+    const account = await createAccount({
+      name: name.trim(),
+      account_type: accountType,
+      broker: broker.trim() || null,
+      external_account_id: externalId.trim() || null,
+      base_currency: currency === 'default' ? null : currency,
+      starting_balance: balance,
+    });
+    setSaving(false);
+
+    if (account) {
+      toast.success(`Account "${account.name}" created`);
+      onAccountsChange?.();
+      resetForm();
+      setDialogOpen(false);
+    } else {
+      toast.error('Failed to create account. The account ID may already be in use.');
+    }
+  };
+
+  const handleCurrencyChange = async (next: string) => {
+    if (await updateCurrency(next)) {
+      toast.success(`PnL will be reported in ${next}`);
+    } else {
+      toast.error('Failed to update currency');
+    }
+  };
+
+  const handleSetBalance = async (id: string, current: number | null) => {
+    const input = prompt('Starting balance (leave blank to clear)', current?.toString() ?? '');
+    if (input === null) return;
+
+    const balance = parseBalance(input);
+    if (balance === undefined) {
+      toast.error('Starting balance must be a positive amount');
+      return;
+    }
+
+    if (await updateAccount(id, { starting_balance: balance })) {
+      toast.success('Starting balance updated');
+      // The change flags the metric totals stale; this rebuilds them
+      await updateTradingMetrics();
+    } else {
+      toast.error('Failed to update starting balance');
+    }
+  };
+
+  const handleSetDefault = async (id: string) => {
+    if (await setDefaultAccount(id)) {
+      toast.success('Default account updated');
+      onAccountsChange?.();
+    } else {
+      toast.error('Failed to update default account');
+    }
+  };
+
+  const handleDelete = async (id: string, accountName: string) => {
+    if (!confirm(`Delete "${accountName}"? Its trades are kept but will no longer be assigned to an account.`)) {
+      return;
+    }
+
+    if (await deleteAccount(id)) {
+      toast.success('Account deleted');
+      onAccountsChange?.();
+    } else {
+      toast.error('Failed to delete account');
+    }
+  };
+
+  return (
+    <Card variant="glass" className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Wallet className="w-4 h-4 text-muted-foreground" />
+          <h3 className="font-medium">Trading Accounts</h3>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-1.5">
+              <Plus className="w-4 h-4" />
+              Add
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Add Trading Account</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="account-name">Name</Label>
+                <Input
+                  id="account-name"
+                  placeholder="e.g. FTMO Challenge"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={accountType} onValueChange={(v) => setAccountType(v as AccountType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Profile default ({baseCurrency})</SelectItem>
+                    {ACCOUNT_CURRENCIES.map((code) => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="account-starting-balance">Starting balance (optional)</Label>
+                <Input
+                  id="account-starting-balance"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="e.g. 10000"
+                  value={startingBalance}
+                  onChange={(e) => setStartingBalance(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Max drawdown is shown as a percentage of this balance.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="account-broker">Broker (optional)</Label>
+                <Input
+                  id="account-broker"
+                  placeholder="e.g. Bybit, FTMO"
+                  value={broker}
+                  onChange={(e) => setBroker(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="account-external-id">Account ID (optional)</Label>
+                <Input
+                  id="account-external-id"
+                  placeholder="Broker account number"
+                  value={externalId}
+                  onChange={(e) => setExternalId(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Webhook events and CSV rows carrying this ID are assigned to this account.
+                </p>
+              </div>
+              <Button type="submit" className="w-full" disabled={saving || !name.trim()}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create Account
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {loading ? (
+        <Skeleton className="h-12 w-full" />
+      ) : accounts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Add accounts to track live, prop firm and demo trading separately.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {accounts.map((account) => (
+            <div
+              key={account.id}
+              className="flex items-center justify-between gap-2 rounded-lg border border-border/50 bg-muted/20 px-3 py-2"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{account.name}</span>
+                  <Badge variant="outline" className={`text-xs ${ACCOUNT_TYPE_STYLES[account.account_type]}`}>
+                    {ACCOUNT_TYPE_LABELS[account.account_type]}
+                  </Badge>
+                  {account.is_default && (
+                    <Badge variant="outline" className="text-xs">Default</Badge>
+                  )}
+                  {account.base_currency && (
+                    <Badge variant="outline" className="text-xs">{account.base_currency}</Badge>
+                  )}
+                </div>
+                {(account.broker || account.external_account_id || account.starting_balance !== null) && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[
+                      account.broker,
+                      account.external_account_id,
+                      account.starting_balance !== null
+                        ? `Started at ${account.starting_balance.toLocaleString()}`
+                        : null,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Set starting balance"
+                  onClick={() => handleSetBalance(account.id, account.starting_balance)}
+                >
+                  <Landmark className="w-4 h-4" />
+                </Button>
+                {!account.is_default && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Make default"
+                    onClick={() => handleSetDefault(account.id)}
+                  >
+                    <Star className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  title="Delete account"
+                  onClick={() => handleDelete(account.id, account.name)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 pt-3 border-t border-border/50 flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium">PnL currency</p>
+          <p className="text-xs text-muted-foreground">
+            Closed trades are converted at the FX rate on their exit date.
+          </p>
+        </div>
+        <Select value={baseCurrency} onValueChange={handleCurrencyChange} disabled={savingCurrency}>
+          <SelectTrigger className="w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ACCOUNT_CURRENCIES.map((code) => (
+              <SelectItem key={code} value={code}>{code}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </Card>
+  );
+}
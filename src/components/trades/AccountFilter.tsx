@@ -0,0 +1,28 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ACCOUNT_TYPE_LABELS, TradingAccount } from '@/hooks/useTradingAccounts';
+
+interface AccountFilterProps {
+  accounts: TradingAccount[];
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+/** Select for narrowing a trade view to one trading account ('all' for every account). */
+export function AccountFilter({ accounts, value, onChange, className }: AccountFilterProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Account" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All Accounts</SelectItem>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.name} ({ACCOUNT_TYPE_LABELS[account.account_type]})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -3,6 +3,7 @@ import { Upload, FileText, X, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { updateTradingMetrics } from '@/hooks/useTradingMetrics';
 import { supabase } from '@/integrations/supabase/client';
 
 interface ParsedPosition {
@@ -87,12 +88,17 @@ export function CSVUpload({ onUploadComplete }: CSVUploadProps) {
         ...position,
         user_id: user.id,
         open: !position.exit_price,
+        source: 'csv_import',
       }));
 
       const { error } = await supabase.from('positions').insert(positionsWithUserId);
 
       if (error) throw error;
 
+      if (positionsWithUserId.some(position => !position.open)) {
+        await updateTradingMetrics();
+      }
+
       toast({ title: 'Success', description: `Imported ${positions.length} positions successfully` });
       setFile(null);
       onUploadComplete?.();
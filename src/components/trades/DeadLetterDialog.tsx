@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { DeadLetter } from '@/hooks/useDeadLetters';
+
+const EVENT_TYPES = ['TRADE_ENTRY', 'TRADE_EXIT', 'TRADE_MODIFY', 'FEE', 'FUNDING'];
+
+// Editable fields and the payload keys receive-trade accepts for each, canonical first
+const FIELD_ALIASES = {
+  type: ['type', 'event_type'],
+  symbol: ['symbol'],
+  side: ['side'],
+  price: ['price'],
+  quantity: ['quantity'],
+  timestamp: ['timestamp'],
+  stopLoss: ['stop_loss', 'stopLoss', 'sl'],
+  takeProfit: ['take_profit', 'takeProfit', 'tp'],
+  account: ['account_id', 'accountId', 'account'],
+} as const;
+
+type Field = keyof typeof FIELD_ALIASES;
+type FormState = Record<Field, string>;
+
+const NUMERIC_FIELD_LABELS: Partial<Record<Field, string>> = {
+  price: 'Price',
+  quantity: 'Quantity',
+  stopLoss: 'Stop loss',
+  takeProfit: 'Take profit',
+};
+const NUMERIC_FIELDS = Object.keys(NUMERIC_FIELD_LABELS) as Field[];
+
+function toFormState(payload: Record<string, unknown>): FormState {
+  const form = {} as FormState;
+  for (const field of Object.keys(FIELD_ALIASES) as Field[]) {
+    const key = FIELD_ALIASES[field].find((k) => payload[k] !== undefined && payload[k] !== null);
+    form[field] = key ? String(payload[key]) : '';
+  }
+  form.type = form.type.toUpperCase();
+  const side = form.side.toLowerCase().trim();
+  form.side = side === 'buy' || side === 'long' ? 'long' : side === 'sell' || side === 'short' ? 'short' : '';
+  return form;
+}
+
+// Corrected fields replace every alias so the original value can't win
+function toPayload(original: Record<string, unknown>, form: FormState): Record<string, unknown> {
+  const payload = { ...original };
+  for (const field of Object.keys(FIELD_ALIASES) as Field[]) {
+    const [canonical, ...aliases] = FIELD_ALIASES[field];
+    aliases.forEach((alias) => delete payload[alias]);
+
+    const value = form[field].trim();
+    if (value === '') {
+      delete payload[canonical];
+    } else {
+      payload[canonical] = NUMERIC_FIELDS.includes(field) ? Number(value) : value;
+    }
+  }
+  return payload;
+}
+
+interface DeadLetterDialogProps {
+  deadLetter: DeadLetter | null;
+  onOpenChange: (open: boolean) => void;
+  onResubmit: (event: Record<string, unknown>) => Promise<string | null>;
+}
+
+/** Fix the fields of a rejected trade event and resubmit it. */
+export function DeadLetterDialog({ deadLetter, onOpenChange, onResubmit }: DeadLetterDialogProps) {
+  const [form, setForm] = useState<FormState>(() => toFormState(deadLetter?.payload ?? {}));
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (deadLetter) {
+      setForm(toFormState(deadLetter.payload));
+      setError(null);
+    }
+  }, [deadLetter]);
+
+  const set = (field: Field, value: string) => setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deadLetter) return;
+
+    const invalid = NUMERIC_FIELDS.find((field) => form[field].trim() !== '' && !(Number(form[field]) > 0));
+    if (invalid) {
+      setError(`${NUMERIC_FIELD_LABELS[invalid]} must be a positive number`);
+      return;
+    }
+
+    setSubmitting(true);
+    const submitError = await onResubmit(toPayload(deadLetter.payload, form));
+    setSubmitting(false);
+
+    if (submitError) {
+      setError(submitError);
+    } else {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={deadLetter !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Fix Rejected Event</DialogTitle>
+          {deadLetter && (
+            <DialogDescription className="text-destructive">{deadLetter.error_reason}</DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Event Type</Label>
+              <Select value={form.type} onValueChange={(v) => set('type', v)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVENT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dead-letter-symbol">Symbol</Label>
+              <Input
+                id="dead-letter-symbol"
+                value={form.symbol}
+                onChange={(e) => set('symbol', e.target.value.toUpperCase())}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Side</Label>
+              <Select value={form.side || 'none'} onValueChange={(v) => set('side', v === 'none' ? '' : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="long">Long</SelectItem>
+                  <SelectItem value="short">Short</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dead-letter-price">Price</Label>
+              <Input
+                id="dead-letter-price"
+                type="number"
+                step="any"
+                value={form.price}
+                onChange={(e) => set('price', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dead-letter-quantity">Quantity</Label>
+              <Input
+                id="dead-letter-quantity"
+                type="number"
+                step="any"
+                value={form.quantity}
+                onChange={(e) => set('quantity', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="dead-letter-stop-loss">Stop Loss</Label>
+              <Input
+                id="dead-letter-stop-loss"
+                type="number"
+                step="any"
+                placeholder="Optional"
+                value={form.stopLoss}
+                onChange={(e) => set('stopLoss', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dead-letter-take-profit">Take Profit</Label>
+              <Input
+                id="dead-letter-take-profit"
+                type="number"
+                step="any"
+                placeholder="Optional"
+                value={form.takeProfit}
+                onChange={(e) => set('takeProfit', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="dead-letter-timestamp">Timestamp</Label>
+              <Input
+                id="dead-letter-timestamp"
+                placeholder="ISO 8601 or Unix time"
+                value={form.timestamp}
+                onChange={(e) => set('timestamp', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dead-letter-account">Account</Label>
+              <Input
+                id="dead-letter-account"
+                placeholder="Default account"
+                value={form.account}
+                onChange={(e) => set('account', e.target.value)}
+              />
+            </div>
+          </div>
+
+          {deadLetter && (
+            <details className="rounded-lg border border-border/50 p-3 text-xs">
+              <summary className="cursor-pointer text-muted-foreground">Original payload</summary>
+              <pre className="mt-2 overflow-x-auto whitespace-pre-wrap break-all font-mono">
+                {JSON.stringify(deadLetter.payload, null, 2)}
+              </pre>
+            </details>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button type="submit" className="w-full gap-2" disabled={submitting}>
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+            Resubmit
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
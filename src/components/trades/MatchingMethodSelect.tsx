@@ -0,0 +1,59 @@
+import { GitMerge, Loader2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { MATCHING_METHOD_LABELS, MatchingMethod } from '@/lib/tradeAnalyzer';
+
+interface MatchingMethodSelectProps {
+  method: MatchingMethod;
+  saving?: boolean;
+  onChange: (method: MatchingMethod) => Promise<boolean>;
+}
+
+const METHOD_DESCRIPTIONS: Record<MatchingMethod, string> = {
+  fifo: 'Closes your oldest open lot first',
+  lifo: 'Closes your newest open lot first',
+  average: 'Pools open lots at their average entry price',
+};
+
+export function MatchingMethodSelect({ method, saving, onChange }: MatchingMethodSelectProps) {
+  const handleChange = async (value: string) => {
+    const ok = await onChange(value as MatchingMethod);
+    if (ok) {
+      toast.success(`Position matching set to ${MATCHING_METHOD_LABELS[value as MatchingMethod]}`);
+    } else {
+      toast.error('Failed to update position matching');
+    }
+  };
+
+  return (
+    <Card className="border-border/50 bg-card/50">
+      <CardContent className="py-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <GitMerge className="h-4 w-4 text-muted-foreground shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium">Position matching</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {METHOD_DESCRIPTIONS[method]}. Applies to webhook trades and order imports.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {saving && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            <Select value={method} onValueChange={handleChange} disabled={saving}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MATCHING_METHOD_LABELS) as MatchingMethod[]).map((m) => (
+                  <SelectItem key={m} value={m}>{MATCHING_METHOD_LABELS[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
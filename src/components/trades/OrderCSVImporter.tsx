@@ -1,33 +1,65 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { Upload, FileText, X, Loader2, Download, CheckCircle2, BarChart3, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useTradingAccounts } from '@/hooks/useTradingAccounts';
+import { updateTradingMetrics } from '@/hooks/useTradingMetrics';
 import { supabase } from '@/integrations/supabase/client';
-import { analyzeTradesCSV, generateOrdersTestCSV, TradeAnalysisResult } from '@/lib/tradeAnalyzer';
+import {
+  analyzeTradesCSV,
+  generateOrdersTestCSV,
+  MATCHING_METHOD_LABELS,
+  MatchingMethod,
+  TradeAnalysisResult,
+} from '@/lib/tradeAnalyzer';
 import { TradeAnalysisView } from './TradeAnalysisView';
 import { Progress } from '@/components/ui/progress';
 
 interface OrderCSVImporterProps {
+  matchingMethod?: MatchingMethod;
   onImportComplete?: () => void;
 }
 
-export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
+export function OrderCSVImporter({ matchingMethod = 'fifo', onImportComplete }: OrderCSVImporterProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [file, setFile] = useState<File | null>(null);
+  const [csvText, setCsvText] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<TradeAnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
+  // 'csv' = use the file's account column, 'none' = unassigned, otherwise a trading_accounts id
+  const [targetAccount, setTargetAccount] = useState<string | null>(null);
   const { toast } = useToast();
+  const { accounts, defaultAccount, createAccount } = useTradingAccounts();
+
+  const csvHasAccounts = analysis?.matchedTrades.some(t => t.accountId) ?? false;
+  const selectedAccount = targetAccount ?? (csvHasAccounts ? 'csv' : defaultAccount?.id ?? 'none');
+
+  // Map the CSV's broker account numbers to trading accounts, creating any that don't exist yet
+  const resolveCsvAccounts = async (externalIds: string[]): Promise<Map<string, string>> => {
+    const resolved = new Map<string, string>();
+    for (const externalId of externalIds) {
+      const account = accounts.find(a => a.external_account_id === externalId)
+        ?? await createAccount(
+          { name: externalId, account_type: 'live', external_account_id: externalId },
+          { isDefault: false }
+        );
+      if (account) resolved.set(externalId, account.id);
+    }
+    return resolved;
+  };
 
   const handleFileAnalyze = useCallback(async (selectedFile: File) => {
     setIsAnalyzing(true);
     try {
       const text = await selectedFile.text();
-      const result = analyzeTradesCSV(text);
+      const result = analyzeTradesCSV(text, matchingMethod);
       setAnalysis(result);
       setFile(selectedFile);
+      setCsvText(text);
       
       toast({
         title: 'Analysis Complete',
@@ -42,7 +74,14 @@ export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
     } finally {
       setIsAnalyzing(false);
     }
-  }, [toast]);
+  }, [toast, matchingMethod]);
+
+  // Re-match the loaded file when the matching method changes
+  useEffect(() => {
+    if (csvText) {
+      setAnalysis(analyzeTradesCSV(csvText, matchingMethod));
+    }
+  }, [csvText, matchingMethod]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -106,11 +145,21 @@ export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
         });
         setFile(null);
         setAnalysis(null);
+        setCsvText(null);
         return;
       }
 
       const duplicateCount = trades.length - newTrades.length;
 
+      const csvAccounts = selectedAccount === 'csv'
+        ? await resolveCsvAccounts([...new Set(newTrades.map(t => t.accountId).filter((id): id is string => !!id))])
+        : new Map<string, string>();
+      const accountIdFor = (accountId?: string): string | null => {
+        if (selectedAccount === 'none') return null;
+        if (selectedAccount !== 'csv') return selectedAccount;
+        return (accountId && csvAccounts.get(accountId)) || defaultAccount?.id || null;
+      };
+
       // Process in batches
       const BATCH_SIZE = 50;
       let imported = 0;
@@ -127,9 +176,17 @@ export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
           entry_timestamp: trade.entryTime.toISOString(),
           exit_timestamp: trade.exitTime.toISOString(),
           quantity: trade.quantity,
-          pnl: trade.netPnL,
+          // pnl is gross; the database derives net_pnl = pnl - fees_total
+          pnl: trade.grossPnL,
+          commission: trade.totalCommission,
+          fees_total: trade.totalCommission,
+          initial_stop_loss: trade.stopLoss ?? null,
+          stop_loss: trade.stopLoss ?? null,
           platform: 'CSV Import',
+          source: 'csv_import',
           open: false,
+          matching_method: trade.matchingMethod,
+          account_id: accountIdFor(trade.accountId),
         }));
 
         const { error, data } = await supabase
@@ -146,6 +203,10 @@ export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
         setImportProgress(Math.round(((i + batch.length) / newTrades.length) * 100));
       }
 
+      if (imported > 0) {
+        await updateTradingMetrics();
+      }
+
       toast({
         title: 'Import Complete',
         description: `Imported ${imported} positions${duplicateCount > 0 ? ` (${duplicateCount} duplicates skipped)` : ''}`,
@@ -153,6 +214,8 @@ export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
 
       setFile(null);
       setAnalysis(null);
+      setCsvText(null);
+      setTargetAccount(null);
       onImportComplete?.();
     } catch (error) {
       toast({
@@ -180,6 +243,8 @@ export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
   const handleReset = () => {
     setFile(null);
     setAnalysis(null);
+    setCsvText(null);
+    setTargetAccount(null);
   };
 
   if (isAnalyzing) {
@@ -188,7 +253,7 @@ export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
         <CardContent className="py-12 flex flex-col items-center justify-center gap-4">
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
           <p className="text-muted-foreground">Analyzing trade orders...</p>
-          <p className="text-sm text-muted-foreground">Matching buy/sell pairs using FIFO...</p>
+          <p className="text-sm text-muted-foreground">Matching buy/sell pairs using {MATCHING_METHOD_LABELS[matchingMethod]}...</p>
         </CardContent>
       </Card>
     );
@@ -240,23 +305,39 @@ export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
                   </p>
                 </div>
               </div>
-              <Button 
-                onClick={handleImport} 
-                disabled={isImporting || analysis.matchedTrades.length === 0}
-                className="gap-2"
-              >
-                {isImporting ? (
-                  <>
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    Importing...
-                  </>
-                ) : (
-                  <>
-                    <CheckCircle2 className="h-4 w-4" />
-                    Import {analysis.matchedTrades.length} Positions
-                  </>
+              <div className="flex items-center gap-2">
+                {(accounts.length > 0 || csvHasAccounts) && (
+                  <Select value={selectedAccount} onValueChange={setTargetAccount} disabled={isImporting}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="Account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {csvHasAccounts && <SelectItem value="csv">Account column in CSV</SelectItem>}
+                      {accounts.map(account => (
+                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                      ))}
+                      <SelectItem value="none">No account</SelectItem>
+                    </SelectContent>
+                  </Select>
                 )}
-              </Button>
+                <Button 
+                  onClick={handleImport} 
+                  disabled={isImporting || analysis.matchedTrades.length === 0}
+                  className="gap-2"
+                >
+                  {isImporting ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Importing...
+                    </>
+                  ) : (
+                    <>
+                      <CheckCircle2 className="h-4 w-4" />
+                      Import {analysis.matchedTrades.length} Positions
+                    </>
+                  )}
+                </Button>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -278,7 +359,7 @@ export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
           <Upload className="h-12 w-12 text-muted-foreground" />
           <div className="text-center">
             <p className="font-medium">Drop your order history CSV here</p>
-            <p className="text-sm text-muted-foreground">Orders will be matched into positions using FIFO</p>
+            <p className="text-sm text-muted-foreground">Orders will be matched into positions using {MATCHING_METHOD_LABELS[matchingMethod]}</p>
           </div>
 
           <input
@@ -303,7 +384,7 @@ export function OrderCSVImporter({ onImportComplete }: OrderCSVImporterProps) {
         <div className="mt-4 text-xs text-muted-foreground">
           <p className="font-medium mb-1">Supported columns:</p>
           <p>symbol, side, quantity, fill_price, placing_time, commission, limit_price, stop_price</p>
-          <p className="mt-2">The importer automatically matches buy/sell orders by symbol using FIFO pairing.</p>
+          <p className="mt-2">The importer automatically matches buy/sell orders by symbol using {MATCHING_METHOD_LABELS[matchingMethod]} pairing.</p>
         </div>
       </CardContent>
     </Card>
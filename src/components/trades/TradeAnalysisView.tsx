@@ -5,7 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { TrendingUp, TrendingDown, AlertTriangle, CheckCircle2, BarChart3, Calendar, Target, DollarSign } from 'lucide-react';
-import { TradeAnalysisResult, MatchedTrade, DailySummary } from '@/lib/tradeAnalyzer';
+import { TradeAnalysisResult, MatchedTrade, DailySummary, MATCHING_METHOD_LABELS } from '@/lib/tradeAnalyzer';
 
 interface TradeAnalysisViewProps {
   analysis: TradeAnalysisResult;
@@ -39,6 +39,9 @@ export function TradeAnalysisView({ analysis }: TradeAnalysisViewProps) {
           <CardTitle className="text-lg flex items-center gap-2">
             <BarChart3 className="h-5 w-5 text-primary" />
             Analysis Summary
+            <Badge variant="outline" className="ml-auto text-xs font-normal">
+              {MATCHING_METHOD_LABELS[analysis.matchingMethod]}
+            </Badge>
           </CardTitle>
         </CardHeader>
         <CardContent>
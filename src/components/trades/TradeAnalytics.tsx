@@ -11,6 +11,8 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
+import { MATCHING_METHOD_LABELS, MatchingMethod } from '@/lib/tradeAnalyzer';
+import { useTradingAccounts } from '@/hooks/useTradingAccounts';
 import { 
   BarChart3, 
   TrendingUp, 
@@ -22,7 +24,8 @@ import {
   Activity,
   Tags,
   HelpCircle,
-  ChevronDown
+  ChevronDown,
+  Wallet
 } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
@@ -37,10 +40,13 @@ interface Position {
   pnl: number | null;
   open: boolean;
   tags: string[] | null;
+  matching_method: string | null;
+  account_id: string | null;
 }
 
 interface TradeAnalyticsProps {
   refreshTrigger?: number;
+  accountId?: string | null; // null/undefined = all accounts
 }
 
 type TimeFrame = 'today' | 'this_week' | 'this_month' | '30_days' | '90_days' | 'this_year' | 'all_time' | 'custom';
@@ -56,7 +62,8 @@ const timeFrameOptions: { value: TimeFrame; label: string }[] = [
   { value: 'custom', label: 'Custom Range' },
 ];
 
-export function TradeAnalytics({ refreshTrigger }: TradeAnalyticsProps) {
+export function TradeAnalytics({ refreshTrigger, accountId = null }: TradeAnalyticsProps) {
+  const { getAccountName } = useTradingAccounts();
   const [positions, setPositions] = useState<Position[]>([]);
   const [loading, setLoading] = useState(true);
   const [timeFrame, setTimeFrame] = useState<TimeFrame>('30_days');
@@ -104,12 +111,16 @@ export function TradeAnalytics({ refreshTrigger }: TradeAnalyticsProps) {
 
       const { from, to } = getDateRange(timeFrame);
       
+      // pnl is read as net PnL (after commission, swap and funding)
       let query = supabase
         .from('positions')
-        .select('id, symbol, side, entry_price, exit_price, entry_timestamp, exit_timestamp, pnl, open, tags')
+        .select('id, symbol, side, entry_price, exit_price, entry_timestamp, exit_timestamp, pnl:net_pnl, open, tags, matching_method, account_id')
         .eq('user_id', user.id)
         .eq('open', false);
       
+      if (accountId) {
+        query = query.eq('account_id', accountId);
+      }
       if (from) {
         query = query.gte('exit_timestamp', from.toISOString());
       }
@@ -125,7 +136,7 @@ export function TradeAnalytics({ refreshTrigger }: TradeAnalyticsProps) {
     } finally {
       setLoading(false);
     }
-  }, [timeFrame, getDateRange]);
+  }, [timeFrame, getDateRange, accountId]);
 
   useEffect(() => {
     fetchPositions();
@@ -270,6 +281,38 @@ export function TradeAnalytics({ refreshTrigger }: TradeAnalyticsProps) {
       .sort((a, b) => b.pnl - a.pnl);
   }, [positions]);
 
+  const accountSummaries = useMemo(() => {
+    const byAccount: Record<string, Position[]> = {};
+    positions.forEach(position => {
+      const key = position.account_id || 'unassigned';
+      if (!byAccount[key]) byAccount[key] = [];
+      byAccount[key].push(position);
+    });
+
+    return Object.entries(byAccount)
+      .map(([account, accountPositions]) => {
+        const pnl = accountPositions.reduce((sum, p) => sum + (p.pnl || 0), 0);
+        const w = accountPositions.filter(p => (p.pnl || 0) > 0).length;
+        return {
+          account,
+          trades: accountPositions.length,
+          pnl,
+          winRate: accountPositions.length > 0 ? (w / accountPositions.length) * 100 : 0
+        };
+      })
+      .sort((a, b) => b.pnl - a.pnl);
+  }, [positions]);
+
+  // Which lot-matching methods produced the positions in view
+  const matchingMethodCounts = useMemo(() => {
+    const counts: Partial<Record<MatchingMethod | 'manual', number>> = {};
+    for (const position of positions) {
+      const key = (position.matching_method as MatchingMethod | null) || 'manual';
+      counts[key] = (counts[key] || 0) + 1;
+    }
+    return Object.entries(counts) as [MatchingMethod | 'manual', number][];
+  }, [positions]);
+
   const selectedTimeFrameLabel = timeFrameOptions.find(o => o.value === timeFrame)?.label || 'Select';
 
   if (loading) {
@@ -445,6 +488,17 @@ export function TradeAnalytics({ refreshTrigger }: TradeAnalyticsProps) {
                   <span className="font-medium text-red-500">${overallMetrics.worstTrade.toFixed(2)}</span>
                 </div>
               </div>
+
+              {matchingMethodCounts.length > 0 && (
+                <div className="flex items-center gap-2 flex-wrap mt-4 text-xs text-muted-foreground">
+                  <span>Matched by:</span>
+                  {matchingMethodCounts.map(([method, count]) => (
+                    <Badge key={method} variant="outline" className="text-xs font-normal">
+                      {method === 'manual' ? 'Manual' : MATCHING_METHOD_LABELS[method]} · {count}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -602,6 +656,40 @@ export function TradeAnalytics({ refreshTrigger }: TradeAnalyticsProps) {
             </Card>
           )}
 
+          {/* By Account - only meaningful when viewing all accounts */}
+          {!accountId && accountSummaries.length > 1 && (
+            <Card className="border-border/50 bg-card/50">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Wallet className="h-5 w-5 text-primary" />
+                  Performance by Account
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {accountSummaries.map((item) => (
+                    <div key={item.account} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+                      <div className="flex items-center gap-3">
+                        <Badge variant="outline">
+                          {item.account === 'unassigned' ? 'Unassigned' : getAccountName(item.account) || 'Unknown'}
+                        </Badge>
+                        <span className="text-sm text-muted-foreground">{item.trades} trades</span>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <Badge variant={item.winRate >= 50 ? 'default' : 'secondary'}>
+                          {item.winRate.toFixed(0)}% win
+                        </Badge>
+                        <span className={`font-medium ${item.pnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                          {item.pnl >= 0 ? '+' : ''}${item.pnl.toFixed(2)}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* By Symbol */}
           {symbolSummaries.length > 0 && (
             <Card className="border-border/50 bg-card/50">
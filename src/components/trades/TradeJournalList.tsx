@@ -30,6 +30,7 @@ interface Position {
   exit_price: number | null;
   exit_timestamp: string | null;
   pnl: number | null;
+  net_pnl: number | null; // after commission, swap and funding
   platform: string | null;
   open: boolean;
   tags: string[] | null;
@@ -145,8 +146,8 @@ export function TradeJournalList({ refreshTrigger }: TradeJournalListProps) {
     : positions.filter(p => p.symbol === filterSymbol);
 
   // Calculate summary stats
-  const totalPnL = filteredPositions.reduce((sum, p) => sum + (p.pnl || 0), 0);
-  const wins = filteredPositions.filter(p => (p.pnl || 0) > 0).length;
+  const totalPnL = filteredPositions.reduce((sum, p) => sum + (p.net_pnl || 0), 0);
+  const wins = filteredPositions.filter(p => (p.net_pnl || 0) > 0).length;
   const closedCount = filteredPositions.filter(p => !p.open).length;
   const winRate = closedCount > 0 ? (wins / closedCount) * 100 : 0;
 
@@ -269,8 +270,8 @@ export function TradeJournalList({ refreshTrigger }: TradeJournalListProps) {
                           )}
                         </div>
                         <div className="flex items-center gap-3">
-                          <span className={`font-medium ${(position.pnl || 0) >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                            {(position.pnl || 0) >= 0 ? '+' : ''}${(position.pnl || 0).toFixed(2)}
+                          <span className={`font-medium ${(position.net_pnl || 0) >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                            {(position.net_pnl || 0) >= 0 ? '+' : ''}${(position.net_pnl || 0).toFixed(2)}
                           </span>
                           {expandedTrade === position.id ? (
                             <ChevronUp className="h-4 w-4 text-muted-foreground" />
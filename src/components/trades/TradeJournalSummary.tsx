@@ -68,7 +68,7 @@ export function TradeJournalSummary({ refreshTrigger }: TradeJournalSummaryProps
 
       const { data, error } = await supabase
         .from('positions')
-        .select('id, symbol, side, entry_price, exit_price, entry_timestamp, pnl, open, tags')
+        .select('id, symbol, side, entry_price, exit_price, entry_timestamp, pnl:net_pnl, open, tags')
         .eq('user_id', user.id)
         .order('entry_timestamp', { ascending: false });
 
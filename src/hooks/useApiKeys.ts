@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export type ApiKeyScope = 'trades:write' | 'metrics:read' | 'predictions:read';
+
+export const API_KEY_SCOPES: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'trades:write', label: 'Ingest trades', description: 'Send trade events to the webhook' },
+  { value: 'metrics:read', label: 'Read metrics', description: 'Read your verified trading metrics' },
+  { value: 'predictions:read', label: 'Read predictions', description: 'Read your predictions and outcomes' },
+];
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  request_count: number;
+  created_at: string;
+  signing_secret: string | null;
+  require_signed_requests: boolean;
+}
+
+export interface NewApiKey {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+}
+
+export function isApiKeyActive(key: ApiKey): boolean {
+  if (key.revoked_at) return false;
+  return !key.expires_at || new Date(key.expires_at).getTime() > Date.now();
+}
+
+/**
+ * The user's named API keys. Plaintext keys are only returned by create and
+ * never stored - the list carries a prefix to tell them apart.
+ */
+export function useApiKeys() {
+  const { user } = useAuth();
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchApiKeys = useCallback(async () => {
+    if (!user) {
+      setApiKeys([]);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select(
+        'id, name, key_prefix, scopes, expires_at, revoked_at, last_used_at, last_used_ip, request_count, created_at, signing_secret, require_signed_requests'
+      )
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching API keys:', error);
+    } else {
+      setApiKeys((data || []) as ApiKey[]);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
+  /** Returns the plaintext key, or null if creation failed. */
+  const createKey = async ({ name, scopes, expiresAt }: NewApiKey): Promise<string | null> => {
+    if (!user) return null;
+
+    const { data, error } = await supabase.rpc('create_api_key', {
+      target_user_id: user.id,
+      key_name: name,
+      key_scopes: scopes,
+      key_expires_at: expiresAt ?? undefined,
+    });
+
+    if (error) {
+      console.error('Error creating API key:', error);
+      return null;
+    }
+
+    await fetchApiKeys();
+    return data as string;
+  };
+
+  const renameKey = async (id: string, name: string): Promise<boolean> => {
+    const { error } = await supabase.from('api_keys').update({ name }).eq('id', id);
+
+    if (error) {
+      console.error('Error renaming API key:', error);
+      return false;
+    }
+
+    await fetchApiKeys();
+    return true;
+  };
+
+  const revokeKey = async (id: string): Promise<boolean> => {
+    const { error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error revoking API key:', error);
+      return false;
+    }
+
+    await fetchApiKeys();
+    return true;
+  };
+
+  /** Returns the new signing secret, or null if it could not be generated. */
+  const regenerateSigningSecret = async (id: string): Promise<string | null> => {
+    const { data, error } = await supabase.rpc('regenerate_api_key_signing_secret', { _key_id: id });
+
+    if (error) {
+      console.error('Error regenerating signing secret:', error);
+      return null;
+    }
+
+    await fetchApiKeys();
+    return data;
+  };
+
+  const setRequireSigned = async (id: string, required: boolean): Promise<boolean> => {
+    const { error } = await supabase.rpc('set_api_key_require_signed', { _key_id: id, _required: required });
+
+    if (error) {
+      console.error('Error updating signed mode:', error);
+      return false;
+    }
+
+    await fetchApiKeys();
+    return true;
+  };
+
+  return {
+    apiKeys,
+    loading,
+    createKey,
+    renameKey,
+    revokeKey,
+    regenerateSigningSecret,
+    setRequireSigned,
+    refetch: fetchApiKeys,
+  };
+}
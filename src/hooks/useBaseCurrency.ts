@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+/** Currencies offered for reporting PnL. Any ISO 4217 code is accepted server-side. */
+export const ACCOUNT_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'AUD', 'CAD', 'NZD'] as const;
+
+/**
+ * The user's default PnL currency. Closed positions are converted into it at the
+ * exit-time FX rate unless their trading account sets its own currency.
+ */
+export function useBaseCurrency() {
+  const { user } = useAuth();
+  const [currency, setCurrency] = useState('USD');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchCurrency = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('base_currency')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching base currency:', error);
+      } else if (data?.base_currency) {
+        setCurrency(data.base_currency);
+      }
+      setLoading(false);
+    };
+
+    fetchCurrency();
+  }, [user]);
+
+  const updateCurrency = useCallback(async (next: string) => {
+    if (!user) return false;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('profiles')
+      .update({ base_currency: next })
+      .eq('user_id', user.id);
+    setSaving(false);
+
+    if (error) {
+      console.error('Error updating base currency:', error);
+      return false;
+    }
+
+    setCurrency(next);
+    return true;
+  }, [user]);
+
+  return { currency, loading, saving, updateCurrency };
+}
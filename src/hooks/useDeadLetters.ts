@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export type DeadLetterStatus = 'pending' | 'resolved' | 'discarded';
+
+export interface DeadLetter {
+  id: string;
+  account_id: string | null;
+  event_type: string | null;
+  event_id: string | null;
+  payload: Record<string, unknown>;
+  error_status: string;
+  error_reason: string;
+  http_status: number;
+  attempts: number;
+  status: DeadLetterStatus;
+  last_failed_at: string;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface ResubmitResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Trade events receive-trade rejected or could not match, waiting for the
+ * user to fix and resubmit or discard them.
+ */
+export function useDeadLetters(status: DeadLetterStatus = 'pending') {
+  const { user } = useAuth();
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchDeadLetters = useCallback(async () => {
+    if (!user) {
+      setDeadLetters([]);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('trade_dead_letters')
+      .select(
+        'id, account_id, event_type, event_id, payload, error_status, error_reason, http_status, attempts, status, last_failed_at, resolved_at, created_at'
+      )
+      .eq('user_id', user.id)
+      .eq('status', status)
+      .order('last_failed_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.error('Error fetching dead letters:', error);
+    } else {
+      setDeadLetters((data || []) as DeadLetter[]);
+    }
+    setLoading(false);
+  }, [user, status]);
+
+  useEffect(() => {
+    fetchDeadLetters();
+  }, [fetchDeadLetters]);
+
+  const resubmit = async (id: string, event: Record<string, unknown>): Promise<ResubmitResult> => {
+    const { data, error } = await supabase.functions.invoke('receive-trade', {
+      body: { dead_letter_id: id, event },
+    });
+
+    await fetchDeadLetters();
+
+    if (error) {
+      // Rejections come back as non-2xx; the reason is in the response body
+      if (error instanceof FunctionsHttpError) {
+        const body = await error.context.json().catch(() => null);
+        return { success: false, error: body?.reason || body?.error || error.message };
+      }
+      return { success: false, error: error.message };
+    }
+
+    return { success: Boolean(data?.success), error: data?.reason };
+  };
+
+  const discard = async (id: string): Promise<boolean> => {
+    const { error } = await supabase
+      .from('trade_dead_letters')
+      .update({ status: 'discarded', resolved_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error discarding dead letter:', error);
+      return false;
+    }
+
+    await fetchDeadLetters();
+    return true;
+  };
+
+  return { deadLetters, loading, resubmit, discard, refetch: fetchDeadLetters };
+}
@@ -10,6 +10,7 @@ export interface ExchangeConnection {
   verified_trades_count: number;
   error_message: string | null;
   created_at: string;
+  account_id: string | null;
 }
 
 export function useExchangeConnections() {
@@ -51,7 +52,8 @@ export function useExchangeConnections() {
   const connectExchange = async (
     exchange: string,
     apiKey: string,
-    apiSecret: string
+    apiSecret: string,
+    accountId?: string | null
   ): Promise<{ success: boolean; error?: string }> => {
     if (!session) {
       return { success: false, error: "Not authenticated" };
@@ -60,7 +62,7 @@ export function useExchangeConnections() {
     try {
       const response = await supabase.functions.invoke("exchange-connect", {
         method: "POST",
-        body: { exchange, apiKey, apiSecret },
+        body: { exchange, apiKey, apiSecret, accountId },
       });
 
       if (response.error) {
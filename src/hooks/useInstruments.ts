@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { setInstrumentRegistry } from '@/lib/symbolNormalizer';
+import { fetchInstruments, toInstrumentRow, Instrument, InstrumentInput } from '@/lib/instruments';
+
+/**
+ * The instruments registry with admin CRUD. Writes are rejected by RLS for
+ * non-admins. Edge functions pick up changes within their cache window.
+ */
+export function useInstruments() {
+  const [instruments, setInstruments] = useState<Instrument[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    const data = await fetchInstruments();
+    setInstruments(data);
+    setInstrumentRegistry(data);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const createInstrument = async (input: InstrumentInput): Promise<string | null> => {
+    const { error } = await supabase.from('instruments').insert(toInstrumentRow(input));
+
+    if (error) {
+      console.error('Error creating instrument:', error);
+      return error.message;
+    }
+
+    await refetch();
+    return null;
+  };
+
+  const updateInstrument = async (id: string, input: InstrumentInput): Promise<string | null> => {
+    const { error } = await supabase.from('instruments').update(toInstrumentRow(input)).eq('id', id);
+
+    if (error) {
+      console.error('Error updating instrument:', error);
+      return error.message;
+    }
+
+    await refetch();
+    return null;
+  };
+
+  const deleteInstrument = async (id: string): Promise<boolean> => {
+    const { error } = await supabase.from('instruments').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting instrument:', error);
+      return false;
+    }
+
+    await refetch();
+    return true;
+  };
+
+  return { instruments, loading, createInstrument, updateInstrument, deleteInstrument, refetch };
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export type IntegrityFlagType = 'deleted_after_close' | 'below_min_notional' | 'simulated_trade' | 'wash_cluster';
+
+export interface IntegrityFlag {
+  id: string;
+  user_id: string;
+  account_id: string | null;
+  position_id: number | null;
+  trade_log_id: number | null;
+  flag_type: IntegrityFlagType;
+  details: Record<string, unknown>;
+  detected_at: string;
+  resolved_at: string | null;
+  resolution_note: string | null;
+}
+
+const FLAG_LIMIT = 500;
+
+/**
+ * Integrity flags for admin review (RLS limits other users to their own).
+ * Unresolved flags by default; pass true to include resolved ones.
+ */
+export function useIntegrityFlags(includeResolved = false) {
+  const [flags, setFlags] = useState<IntegrityFlag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    let query = supabase
+      .from('trade_integrity_flags')
+      .select('*')
+      .order('detected_at', { ascending: false })
+      .limit(FLAG_LIMIT);
+    if (!includeResolved) query = query.is('resolved_at', null);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching integrity flags:', error);
+    } else {
+      setFlags((data || []) as IntegrityFlag[]);
+    }
+    setLoading(false);
+  }, [includeResolved]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const resolveFlag = async (flagId: string, note?: string): Promise<boolean> => {
+    const { error } = await supabase.rpc('resolve_integrity_flag', { _flag_id: flagId, _note: note });
+
+    if (error) {
+      console.error('Error resolving integrity flag:', error);
+      return false;
+    }
+
+    await refetch();
+    return true;
+  };
+
+  return { flags, loading, refetch, resolveFlag };
+}
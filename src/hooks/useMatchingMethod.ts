@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { MatchingMethod } from '@/lib/tradeAnalyzer';
+
+function toMatchingMethod(value: string | null | undefined): MatchingMethod {
+  return value === 'lifo' || value === 'average' ? value : 'fifo';
+}
+
+/**
+ * The user's lot-matching method, honoured by both the receive-trade webhook
+ * and the CSV order importer.
+ */
+export function useMatchingMethod() {
+  const { user } = useAuth();
+  const [method, setMethod] = useState<MatchingMethod>('fifo');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchMethod = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('position_matching_method')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching matching method:', error);
+      } else if (data) {
+        setMethod(toMatchingMethod(data.position_matching_method));
+      }
+      setLoading(false);
+    };
+
+    fetchMethod();
+  }, [user]);
+
+  const updateMethod = useCallback(async (next: MatchingMethod) => {
+    if (!user) return false;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('profiles')
+      .update({ position_matching_method: next })
+      .eq('user_id', user.id);
+    setSaving(false);
+
+    if (error) {
+      console.error('Error updating matching method:', error);
+      return false;
+    }
+
+    setMethod(next);
+    return true;
+  }, [user]);
+
+  return { method, loading, saving, updateMethod };
+}
@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format, startOfMonth, subDays, subMonths } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface MetricSnapshot {
+  snapshot_date: string;
+  accuracy_score: number | null;
+  win_rate: number | null;
+  average_r: number | null;
+  total_net_pnl: number | null;
+  total_verified_trades: number;
+}
+
+export type TrendMetric = 'accuracy_score' | 'win_rate' | 'average_r' | 'total_net_pnl';
+
+export interface MonthOverMonth {
+  current: number | null;
+  previous: number | null;
+}
+
+const SNAPSHOT_COLUMNS = 'snapshot_date, accuracy_score, win_rate, average_r, total_net_pnl, total_verified_trades';
+
+// Days of history charted
+const TREND_DAYS = 180;
+
+function toDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Last snapshot dated before the given day
+function lastBefore(snapshots: MetricSnapshot[], date: string): MetricSnapshot | null {
+  let found: MetricSnapshot | null = null;
+  for (const snapshot of snapshots) {
+    if (snapshot.snapshot_date >= date) break;
+    found = snapshot;
+  }
+  return found;
+}
+
+/**
+ * This month against last month. Score, win rate and average R are cumulative,
+ * so each month shows where they stood at its end (or now); net PnL shows what
+ * was made during the month. Snapshots must be in date order.
+ */
+function compareMonths(
+  snapshots: MetricSnapshot[],
+  now: Date = new Date()
+): Record<TrendMetric, MonthOverMonth> {
+  const thisMonth = toDate(startOfMonth(now));
+  const lastMonth = toDate(startOfMonth(subMonths(now, 1)));
+
+  const latest = snapshots.length > 0 ? snapshots[snapshots.length - 1] : null;
+  const endOfLastMonth = lastBefore(snapshots, thisMonth);
+  const endOfMonthBefore = lastBefore(snapshots, lastMonth);
+
+  const pnlAt = (snapshot: MetricSnapshot | null) => snapshot?.total_net_pnl ?? 0;
+  const cumulative = (metric: Exclude<TrendMetric, 'total_net_pnl'>): MonthOverMonth => ({
+    current: latest?.[metric] ?? null,
+    previous: endOfLastMonth?.[metric] ?? null,
+  });
+
+  return {
+    accuracy_score: cumulative('accuracy_score'),
+    win_rate: cumulative('win_rate'),
+    average_r: cumulative('average_r'),
+    total_net_pnl: {
+      current: latest ? pnlAt(latest) - pnlAt(endOfLastMonth) : null,
+      previous: endOfLastMonth ? pnlAt(endOfLastMonth) - pnlAt(endOfMonthBefore) : null,
+    },
+  };
+}
+
+/**
+ * Daily metric snapshots for the current user over the last TREND_DAYS, for
+ * trend charts. Without an account these are the all-accounts snapshots.
+ */
+export function useMetricSnapshots(accountId: string | null = null) {
+  const { user } = useAuth();
+  const [snapshots, setSnapshots] = useState<MetricSnapshot[]>([]);
+  const [comparison, setComparison] = useState<Record<TrendMetric, MonthOverMonth> | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSnapshots = useCallback(async () => {
+    if (!user) {
+      setSnapshots([]);
+      setComparison(null);
+      setLoading(false);
+      return;
+    }
+
+    const since = toDate(subDays(new Date(), TREND_DAYS));
+    const snapshotQuery = () => {
+      const query = supabase
+        .from('user_trading_metric_snapshots')
+        .select(SNAPSHOT_COLUMNS)
+        .eq('user_id', user.id);
+      return accountId ? query.eq('account_id', accountId) : query.is('account_id', null);
+    };
+
+    const [recent, earlier] = await Promise.all([
+      snapshotQuery().gte('snapshot_date', since).order('snapshot_date', { ascending: true }),
+      // Where things stood before the window, so month comparisons have a baseline
+      snapshotQuery().lt('snapshot_date', since).order('snapshot_date', { ascending: false }).limit(1),
+    ]);
+
+    if (recent.error || earlier.error) {
+      console.error('Error fetching metric snapshots:', recent.error ?? earlier.error);
+    } else {
+      const charted = (recent.data || []) as MetricSnapshot[];
+      setSnapshots(charted);
+      setComparison(compareMonths([...((earlier.data || []) as MetricSnapshot[]), ...charted]));
+    }
+    setLoading(false);
+  }, [user, accountId]);
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  return { snapshots, comparison, loading, refetch: fetchSnapshots };
+}
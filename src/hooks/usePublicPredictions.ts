@@ -373,7 +373,7 @@ export function useUserTradePredictions(userId: string | null) {
         if (positionIds.length > 0) {
           const { data: positionsData } = await supabase
             .from("positions")
-            .select("id, pnl, pnl_pct")
+            .select("id, pnl:net_pnl, pnl_pct")
             .in("id", positionIds);
           
           if (positionsData) {
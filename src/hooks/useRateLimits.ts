@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface RateLimitBudget {
+  function_name: string;
+  max_requests: number;
+  window_seconds: number;
+  enabled: boolean;
+  updated_at: string;
+}
+
+export interface RateLimitHit {
+  id: number;
+  function_name: string;
+  subject: string;
+  subject_type: 'api_key' | 'user' | 'ip';
+  user_id: string | null;
+  ip: string | null;
+  window_start: string;
+  rejected_count: number;
+  first_hit_at: string;
+  last_hit_at: string;
+}
+
+const HITS_LOOKBACK_HOURS = 24;
+
+/**
+ * Edge function rate limit budgets and recent rejections (admin only - RLS
+ * returns nothing for other users).
+ */
+export function useRateLimits() {
+  const [budgets, setBudgets] = useState<RateLimitBudget[]>([]);
+  const [hits, setHits] = useState<RateLimitHit[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    const since = new Date(Date.now() - HITS_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString();
+
+    const [budgetsResult, hitsResult] = await Promise.all([
+      supabase.from('rate_limit_budgets').select('*').order('function_name'),
+      supabase
+        .from('rate_limit_hits')
+        .select('*')
+        .gte('last_hit_at', since)
+        .order('last_hit_at', { ascending: false })
+        .limit(500),
+    ]);
+
+    if (budgetsResult.error) {
+      console.error('Error fetching rate limit budgets:', budgetsResult.error);
+    } else {
+      setBudgets(budgetsResult.data as RateLimitBudget[]);
+    }
+
+    if (hitsResult.error) {
+      console.error('Error fetching rate limit hits:', hitsResult.error);
+    } else {
+      setHits(hitsResult.data as RateLimitHit[]);
+    }
+
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const updateBudget = async (
+    functionName: string,
+    update: Partial<Pick<RateLimitBudget, 'max_requests' | 'window_seconds' | 'enabled'>>
+  ): Promise<boolean> => {
+    const { error } = await supabase.from('rate_limit_budgets').update(update).eq('function_name', functionName);
+
+    if (error) {
+      console.error('Error updating rate limit budget:', error);
+      return false;
+    }
+
+    await refetch();
+    return true;
+  };
+
+  return { budgets, hits, loading, updateBudget, refetch, lookbackHours: HITS_LOOKBACK_HOURS };
+}
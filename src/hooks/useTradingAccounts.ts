@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export type AccountType = 'live' | 'prop' | 'demo';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  live: 'Live',
+  prop: 'Prop',
+  demo: 'Demo',
+};
+
+export interface TradingAccount {
+  id: string;
+  name: string;
+  account_type: AccountType;
+  broker: string | null;
+  external_account_id: string | null;
+  // null uses the profile's base currency
+  base_currency: string | null;
+  // Balance before the first trade, for drawdown as a percentage
+  starting_balance: number | null;
+  is_default: boolean;
+  created_at: string;
+}
+
+export interface TradingAccountInput {
+  name: string;
+  account_type: AccountType;
+  broker?: string | null;
+  external_account_id?: string | null;
+  base_currency?: string | null;
+  starting_balance?: number | null;
+}
+
+/**
+ * The current user's trading accounts (live, prop, demo). Positions, trade_log
+ * events, exchange connections and metrics rows are scoped to one of these.
+ */
+export function useTradingAccounts() {
+  const { user } = useAuth();
+  const [accounts, setAccounts] = useState<TradingAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAccounts = useCallback(async () => {
+    if (!user) {
+      setAccounts([]);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('trading_accounts')
+      .select('id, name, account_type, broker, external_account_id, base_currency, starting_balance, is_default, created_at')
+      .eq('user_id', user.id)
+      .order('is_default', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching trading accounts:', error);
+    } else {
+      setAccounts((data || []) as TradingAccount[]);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const createAccount = async (
+    input: TradingAccountInput,
+    options: { isDefault?: boolean } = {}
+  ): Promise<TradingAccount | null> => {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('trading_accounts')
+      .insert({
+        user_id: user.id,
+        name: input.name,
+        account_type: input.account_type,
+        broker: input.broker || null,
+        external_account_id: input.external_account_id || null,
+        base_currency: input.base_currency || null,
+        starting_balance: input.starting_balance ?? null,
+        // The first account becomes the default for events without an account
+        is_default: options.isDefault ?? accounts.length === 0,
+      })
+      .select('id, name, account_type, broker, external_account_id, base_currency, starting_balance, is_default, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error creating trading account:', error);
+      return null;
+    }
+
+    await fetchAccounts();
+    return data as TradingAccount;
+  };
+
+  const updateAccount = async (id: string, input: Partial<TradingAccountInput>): Promise<boolean> => {
+    const { error } = await supabase.from('trading_accounts').update(input).eq('id', id);
+
+    if (error) {
+      console.error('Error updating trading account:', error);
+      return false;
+    }
+
+    await fetchAccounts();
+    return true;
+  };
+
+  const setDefaultAccount = async (id: string): Promise<boolean> => {
+    if (!user) return false;
+
+    // Clear the current default first - only one default is allowed per user
+    const { error: clearError } = await supabase
+      .from('trading_accounts')
+      .update({ is_default: false })
+      .eq('user_id', user.id)
+      .eq('is_default', true);
+
+    const { error } = clearError
+      ? { error: clearError }
+      : await supabase.from('trading_accounts').update({ is_default: true }).eq('id', id);
+
+    if (error) {
+      console.error('Error setting default trading account:', error);
+      return false;
+    }
+
+    await fetchAccounts();
+    return true;
+  };
+
+  const deleteAccount = async (id: string): Promise<boolean> => {
+    const { error } = await supabase.from('trading_accounts').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting trading account:', error);
+      return false;
+    }
+
+    await fetchAccounts();
+    return true;
+  };
+
+  const getAccountName = (id: string | null | undefined): string | null =>
+    id ? accounts.find((a) => a.id === id)?.name ?? null : null;
+
+  return {
+    accounts,
+    loading,
+    defaultAccount: accounts.find((a) => a.is_default) ?? null,
+    createAccount,
+    updateAccount,
+    setDefaultAccount,
+    deleteAccount,
+    getAccountName,
+    refetch: fetchAccounts,
+  };
+}
@@ -2,6 +2,25 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 
+// One part of the accuracy score; the input earns nothing at zero_at and
+// full points at full_at, linearly between
+export interface AccuracyComponent {
+  points: number;
+  max_points: number;
+  value: number;
+  zero_at: number;
+  full_at: number;
+}
+
+export interface AccuracyBreakdown {
+  // Average R: 40 points
+  average_r: AccuracyComponent;
+  // Share of trades with R > 0: 40 points
+  positive_r: AccuracyComponent;
+  // R variance: 20 points
+  consistency: AccuracyComponent;
+}
+
 export interface TradingMetrics {
   total_verified_trades: number;
   total_wins: number;
@@ -12,13 +31,59 @@ export interface TradingMetrics {
   total_r: number | null;
   positive_r_percentage: number | null;
   r_variance: number | null;
+  // Share of trades whose R comes from a real stop rather than a volatility estimate
+  stop_based_percentage: number | null;
+  total_net_pnl: number | null;
+  profit_factor: number | null;
+  // Mean net PnL per trade in account currency, and the same in R
+  expectancy: number | null;
+  expectancy_r: number | null;
+  // Per-trade ratios on R, and annualized ratios on daily R
+  sharpe_ratio: number | null;
+  sortino_ratio: number | null;
+  daily_sharpe_ratio: number | null;
+  daily_sortino_ratio: number | null;
+  max_drawdown: number | null;
+  max_drawdown_pct: number | null;
+  max_drawdown_start_at: string | null;
+  max_drawdown_end_at: string | null;
+  recovery_factor: number | null;
+  avg_win_loss_ratio: number | null;
+  max_consecutive_losses: number;
   accuracy_score: number | null;
+  // Present from the first trade, before the score itself is shown
+  accuracy_breakdown: AccuracyBreakdown | null;
+  // 95% intervals: Wilson for win rate, bootstrap for average R
+  win_rate_ci_low: number | null;
+  win_rate_ci_high: number | null;
+  average_r_ci_low: number | null;
+  average_r_ci_high: number | null;
+  // 0 unverified, 1 verified, 2 established, 3 proven
+  verification_tier: number;
+  ranking_score: number | null;
+  // Unresolved integrity flags (deleted trades, wash clusters) suspend verification
+  integrity_flagged: boolean;
   is_verified: boolean;
   last_api_sync_at: string | null;
   api_status: 'connected' | 'disconnected';
 }
 
-export function useTradingMetrics() {
+/**
+ * Counts newly imported closed positions in the current user's metrics.
+ * Imports are already saved, so a failure is logged rather than thrown.
+ */
+export async function updateTradingMetrics(): Promise<void> {
+  const { error } = await supabase.functions.invoke('calculate-trade-metrics');
+  if (error) {
+    console.error('Error updating metrics:', error);
+  }
+}
+
+/**
+ * Verified metrics for the current user. Without an account this is the
+ * all-accounts row; pass a trading account id for that account's row.
+ */
+export function useTradingMetrics(accountId: string | null = null) {
   const { user } = useAuth();
   const [metrics, setMetrics] = useState<TradingMetrics | null>(null);
   const [loading, setLoading] = useState(true);
@@ -34,11 +99,15 @@ export function useTradingMetrics() {
 
     try {
       // Fetch from user_trading_metrics table
-      const { data, error: fetchError } = await supabase
+      const query = supabase
         .from('user_trading_metrics')
         .select('*')
-        .eq('user_id', user.id)
-        .maybeSingle();
+        .eq('user_id', user.id);
+
+      const { data, error: fetchError } = await (accountId
+        ? query.eq('account_id', accountId)
+        : query.is('account_id', null)
+      ).maybeSingle();
 
       if (fetchError) {
         console.error('Error fetching metrics:', fetchError);
@@ -57,7 +126,31 @@ export function useTradingMetrics() {
           total_r: data.total_r,
           positive_r_percentage: data.positive_r_percentage,
           r_variance: data.r_variance,
+          stop_based_percentage: data.stop_based_percentage,
+          total_net_pnl: data.total_net_pnl,
+          profit_factor: data.profit_factor,
+          expectancy: data.expectancy,
+          expectancy_r: data.expectancy_r,
+          sharpe_ratio: data.sharpe_ratio,
+          sortino_ratio: data.sortino_ratio,
+          daily_sharpe_ratio: data.daily_sharpe_ratio,
+          daily_sortino_ratio: data.daily_sortino_ratio,
+          max_drawdown: data.max_drawdown,
+          max_drawdown_pct: data.max_drawdown_pct,
+          max_drawdown_start_at: data.max_drawdown_start_at,
+          max_drawdown_end_at: data.max_drawdown_end_at,
+          recovery_factor: data.recovery_factor,
+          avg_win_loss_ratio: data.avg_win_loss_ratio,
+          max_consecutive_losses: data.max_consecutive_losses,
           accuracy_score: data.accuracy_score,
+          accuracy_breakdown: data.accuracy_breakdown as unknown as AccuracyBreakdown | null,
+          win_rate_ci_low: data.win_rate_ci_low,
+          win_rate_ci_high: data.win_rate_ci_high,
+          average_r_ci_low: data.average_r_ci_low,
+          average_r_ci_high: data.average_r_ci_high,
+          verification_tier: data.verification_tier,
+          ranking_score: data.ranking_score,
+          integrity_flagged: data.integrity_flagged,
           is_verified: data.is_verified,
           last_api_sync_at: data.last_api_sync_at,
           api_status: data.api_status as 'connected' | 'disconnected',
@@ -71,7 +164,7 @@ export function useTradingMetrics() {
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, accountId]);
 
   const recalculateMetrics = useCallback(async () => {
     if (!user) return;
@@ -87,30 +180,59 @@ export function useTradingMetrics() {
         throw new Error('Not authenticated');
       }
 
+      // Metrics are kept up to date as positions close; this re-scores every trade
       const response = await supabase.functions.invoke('calculate-trade-metrics', {
         headers: {
           Authorization: `Bearer ${token}`,
         },
+        body: { rebuild: true },
       });
 
       if (response.error) {
         throw new Error(response.error.message);
       }
 
-      if (response.data?.metrics) {
+      if (accountId) {
+        // The response only summarises each account, so reload the full row
+        await fetchMetrics();
+      } else if (response.data?.metrics) {
         setMetrics({
           total_verified_trades: response.data.metrics.total_verified_trades,
           total_wins: response.data.metrics.total_wins,
           total_losses: response.data.metrics.total_losses,
-          total_breakeven: 0,
+          total_breakeven: response.data.metrics.total_breakeven ?? 0,
           win_rate: response.data.metrics.win_rate,
           average_r: response.data.metrics.average_r,
-          total_r: null,
+          total_r: response.data.metrics.total_r ?? null,
           positive_r_percentage: response.data.metrics.positive_r_percentage,
           r_variance: null,
+          stop_based_percentage: response.data.metrics.stop_based_percentage ?? null,
+          total_net_pnl: response.data.metrics.total_net_pnl ?? null,
+          profit_factor: response.data.metrics.profit_factor ?? null,
+          expectancy: response.data.metrics.expectancy ?? null,
+          expectancy_r: response.data.metrics.expectancy_r ?? null,
+          sharpe_ratio: response.data.metrics.sharpe_ratio ?? null,
+          sortino_ratio: response.data.metrics.sortino_ratio ?? null,
+          daily_sharpe_ratio: response.data.metrics.daily_sharpe_ratio ?? null,
+          daily_sortino_ratio: response.data.metrics.daily_sortino_ratio ?? null,
+          max_drawdown: response.data.metrics.max_drawdown ?? null,
+          max_drawdown_pct: response.data.metrics.max_drawdown_pct ?? null,
+          max_drawdown_start_at: response.data.metrics.max_drawdown_start_at ?? null,
+          max_drawdown_end_at: response.data.metrics.max_drawdown_end_at ?? null,
+          recovery_factor: response.data.metrics.recovery_factor ?? null,
+          avg_win_loss_ratio: response.data.metrics.avg_win_loss_ratio ?? null,
+          max_consecutive_losses: response.data.metrics.max_consecutive_losses ?? 0,
           accuracy_score: response.data.metrics.accuracy_score,
+          accuracy_breakdown: response.data.metrics.accuracy_breakdown ?? null,
+          win_rate_ci_low: response.data.metrics.win_rate_ci_low ?? null,
+          win_rate_ci_high: response.data.metrics.win_rate_ci_high ?? null,
+          average_r_ci_low: response.data.metrics.average_r_ci_low ?? null,
+          average_r_ci_high: response.data.metrics.average_r_ci_high ?? null,
+          verification_tier: response.data.metrics.verification_tier ?? 0,
+          ranking_score: response.data.metrics.ranking_score ?? null,
+          integrity_flagged: response.data.metrics.integrity_flagged ?? false,
           is_verified: response.data.metrics.is_verified,
-          last_api_sync_at: response.data.metrics.last_sync_at,
+          last_api_sync_at: response.data.metrics.last_api_sync_at ?? null,
           api_status: response.data.metrics.api_status,
         });
       }
@@ -123,7 +245,7 @@ export function useTradingMetrics() {
     } finally {
       setCalculating(false);
     }
-  }, [user]);
+  }, [user, accountId, fetchMetrics]);
 
   useEffect(() => {
     fetchMetrics();
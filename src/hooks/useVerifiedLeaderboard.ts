@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface VerifiedLeader {
+  user_id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  verification_tier: number;
+  ranking_score: number | null;
+  accuracy_score: number | null;
+  win_rate: number | null;
+  win_rate_ci_low: number | null;
+  win_rate_ci_high: number | null;
+  average_r: number | null;
+  total_verified_trades: number;
+}
+
+const LEADERBOARD_SIZE = 50;
+
+/**
+ * Verified traders ranked by verification tier, then by ranking score: the
+ * accuracy score from the pessimistic end of their confidence intervals, so
+ * a long record outranks a short lucky one.
+ */
+export function useVerifiedLeaderboard() {
+  const [leaders, setLeaders] = useState<VerifiedLeader[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLeaders = useCallback(async () => {
+    const { data: metrics, error } = await supabase
+      .from('user_trading_metrics')
+      .select(
+        'user_id, verification_tier, ranking_score, accuracy_score, win_rate, win_rate_ci_low, win_rate_ci_high, average_r, total_verified_trades'
+      )
+      .is('account_id', null)
+      .eq('is_verified', true)
+      .gte('total_verified_trades', 30)
+      .order('verification_tier', { ascending: false })
+      .order('ranking_score', { ascending: false, nullsFirst: false })
+      .limit(LEADERBOARD_SIZE);
+
+    if (error) {
+      console.error('Error fetching leaderboard:', error);
+      setLoading(false);
+      return;
+    }
+
+    const userIds = (metrics || []).map((m) => m.user_id);
+    const { data: profiles } = userIds.length > 0
+      ? await supabase.from('profiles').select('user_id, display_name, avatar_url').in('user_id', userIds)
+      : { data: [] };
+
+    const profileMap = new Map((profiles || []).map((p) => [p.user_id, p]));
+    setLeaders(
+      (metrics || []).map((m) => ({
+        ...m,
+        display_name: profileMap.get(m.user_id)?.display_name ?? null,
+        avatar_url: profileMap.get(m.user_id)?.avatar_url ?? null,
+      }))
+    );
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchLeaders();
+  }, [fetchLeaders]);
+
+  return { leaders, loading, refetch: fetchLeaders };
+}
@@ -14,8 +14,60 @@ export type Database = {
   }
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          last_used_ip: string | null
+          name: string
+          request_count: number
+          require_signed_requests: boolean
+          revoked_at: string | null
+          scopes: string[]
+          signing_secret: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          last_used_ip?: string | null
+          name: string
+          request_count?: number
+          require_signed_requests?: boolean
+          revoked_at?: string | null
+          scopes?: string[]
+          signing_secret?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          last_used_ip?: string | null
+          name?: string
+          request_count?: number
+          require_signed_requests?: boolean
+          revoked_at?: string | null
+          scopes?: string[]
+          signing_secret?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       exchange_connections: {
         Row: {
+          account_id: string | null
           api_key_encrypted: string
           api_secret_encrypted: string
           created_at: string
@@ -30,6 +82,7 @@ export type Database = {
           verified_trades_count: number | null
         }
         Insert: {
+          account_id?: string | null
           api_key_encrypted: string
           api_secret_encrypted: string
           created_at?: string
@@ -44,6 +97,7 @@ export type Database = {
           verified_trades_count?: number | null
         }
         Update: {
+          account_id?: string | null
           api_key_encrypted?: string
           api_secret_encrypted?: string
           created_at?: string
@@ -57,7 +111,15 @@ export type Database = {
           user_id?: string
           verified_trades_count?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "exchange_connections_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       follows: {
         Row: {
@@ -80,6 +142,63 @@ export type Database = {
         }
         Relationships: []
       }
+      instruments: {
+        Row: {
+          asset_class: string
+          contract_multiplier: number
+          created_at: string
+          daily_volatility: number | null
+          description: string | null
+          id: string
+          is_active: boolean
+          pattern: string
+          pip_size: number | null
+          priority: number
+          quote_currency: string
+          symbol: string
+          tick_size: number
+          tick_value: number
+          trading_hours: Json | null
+          updated_at: string
+        }
+        Insert: {
+          asset_class: string
+          contract_multiplier?: number
+          created_at?: string
+          daily_volatility?: number | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          pattern: string
+          pip_size?: number | null
+          priority?: number
+          quote_currency?: string
+          symbol: string
+          tick_size: number
+          tick_value: number
+          trading_hours?: Json | null
+          updated_at?: string
+        }
+        Update: {
+          asset_class?: string
+          contract_multiplier?: number
+          created_at?: string
+          daily_volatility?: number | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          pattern?: string
+          pip_size?: number | null
+          priority?: number
+          quote_currency?: string
+          symbol?: string
+          tick_size?: number
+          tick_value?: number
+          trading_hours?: Json | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           actor_id: string | null
@@ -121,9 +240,87 @@ export type Database = {
           },
         ]
       }
+      position_rebuilds: {
+        Row: {
+          admin_id: string
+          created_at: string
+          dry_run: boolean
+          id: number
+          range_from: string
+          range_to: string
+          summary: Json
+          user_id: string
+        }
+        Insert: {
+          admin_id: string
+          created_at?: string
+          dry_run?: boolean
+          id?: never
+          range_from: string
+          range_to: string
+          summary?: Json
+          user_id: string
+        }
+        Update: {
+          admin_id?: string
+          created_at?: string
+          dry_run?: boolean
+          id?: never
+          range_from?: string
+          range_to?: string
+          summary?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
+      position_risk_history: {
+        Row: {
+          changed_at: string
+          created_at: string
+          id: number
+          position_id: number
+          source: string
+          stop_loss: number | null
+          take_profit: number | null
+          user_id: string
+        }
+        Insert: {
+          changed_at: string
+          created_at?: string
+          id?: never
+          position_id: number
+          source: string
+          stop_loss?: number | null
+          take_profit?: number | null
+          user_id: string
+        }
+        Update: {
+          changed_at?: string
+          created_at?: string
+          id?: never
+          position_id?: number
+          source?: string
+          stop_loss?: number | null
+          take_profit?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "position_risk_history_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       positions: {
         Row: {
+          account_currency: string | null
+          account_id: string | null
           asset_class: string | null
+          broker_position_id: string | null
+          commission: number
           created_at: string | null
           entry_price: number
           entry_timestamp: string
@@ -131,26 +328,41 @@ export type Database = {
           exchange_source: string | null
           exit_price: number | null
           exit_timestamp: string | null
-          fees_total: number | null
+          fees_total: number
+          funding: number
+          fx_rate: number | null
           id: number
+          initial_stop_loss: number | null
+          initial_take_profit: number | null
+          integrity_excluded: boolean
           is_exchange_verified: boolean | null
           is_simulation: boolean
           mae: number | null
+          matching_method: string | null
           metrics_calculated_at: string | null
           mfe: number | null
+          net_pnl: number | null
           open: boolean
           pip_size: number | null
           pip_value: number | null
           pips: number | null
           platform: string | null
           pnl: number | null
+          pnl_currency: string | null
+          pnl_native: number | null
           pnl_pct: number | null
+          pnl_unconverted: boolean
           quantity: number
           quantity_lots: number | null
           r_multiple: number | null
+          risk_method: string | null
           side: string
+          source: string
+          stop_loss: number | null
+          swap: number
           symbol: string
           tags: string[] | null
+          take_profit: number | null
           tick_size: number | null
           tick_value: number | null
           ticks: number | null
@@ -158,7 +370,11 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          account_currency?: string | null
+          account_id?: string | null
           asset_class?: string | null
+          broker_position_id?: string | null
+          commission?: number
           created_at?: string | null
           entry_price: number
           entry_timestamp: string
@@ -166,26 +382,41 @@ export type Database = {
           exchange_source?: string | null
           exit_price?: number | null
           exit_timestamp?: string | null
-          fees_total?: number | null
+          fees_total?: number
+          funding?: number
+          fx_rate?: number | null
           id?: never
+          initial_stop_loss?: number | null
+          initial_take_profit?: number | null
+          integrity_excluded?: boolean
           is_exchange_verified?: boolean | null
           is_simulation?: boolean
           mae?: number | null
+          matching_method?: string | null
           metrics_calculated_at?: string | null
           mfe?: number | null
+          net_pnl?: never
           open?: boolean
           pip_size?: number | null
           pip_value?: number | null
           pips?: number | null
           platform?: string | null
           pnl?: number | null
+          pnl_currency?: string | null
+          pnl_native?: number | null
           pnl_pct?: number | null
+          pnl_unconverted?: boolean
           quantity: number
           quantity_lots?: number | null
           r_multiple?: number | null
+          risk_method?: string | null
           side: string
+          source?: string
+          stop_loss?: number | null
+          swap?: number
           symbol: string
           tags?: string[] | null
+          take_profit?: number | null
           tick_size?: number | null
           tick_value?: number | null
           ticks?: number | null
@@ -193,7 +424,11 @@ export type Database = {
           user_id: string
         }
         Update: {
+          account_currency?: string | null
+          account_id?: string | null
           asset_class?: string | null
+          broker_position_id?: string | null
+          commission?: number
           created_at?: string | null
           entry_price?: number
           entry_timestamp?: string
@@ -201,33 +436,56 @@ export type Database = {
           exchange_source?: string | null
           exit_price?: number | null
           exit_timestamp?: string | null
-          fees_total?: number | null
+          fees_total?: number
+          funding?: number
+          fx_rate?: number | null
           id?: never
+          initial_stop_loss?: number | null
+          initial_take_profit?: number | null
+          integrity_excluded?: boolean
           is_exchange_verified?: boolean | null
           is_simulation?: boolean
           mae?: number | null
+          matching_method?: string | null
           metrics_calculated_at?: string | null
           mfe?: number | null
+          net_pnl?: never
           open?: boolean
           pip_size?: number | null
           pip_value?: number | null
           pips?: number | null
           platform?: string | null
           pnl?: number | null
+          pnl_currency?: string | null
+          pnl_native?: number | null
           pnl_pct?: number | null
+          pnl_unconverted?: boolean
           quantity?: number
           quantity_lots?: number | null
           r_multiple?: number | null
+          risk_method?: string | null
           side?: string
+          source?: string
+          stop_loss?: number | null
+          swap?: number
           symbol?: string
           tags?: string[] | null
+          take_profit?: number | null
           tick_size?: number | null
           tick_value?: number | null
           ticks?: number | null
           updated_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "positions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       predictions: {
         Row: {
@@ -373,11 +631,13 @@ export type Database = {
         Row: {
           api_key: string | null
           avatar_url: string | null
+          base_currency: string
           bio: string | null
           created_at: string
           current_streak: number | null
           display_name: string | null
           id: string
+          position_matching_method: string
           streak_type: string | null
           total_hits: number | null
           total_predictions: number | null
@@ -387,11 +647,13 @@ export type Database = {
         Insert: {
           api_key?: string | null
           avatar_url?: string | null
+          base_currency?: string
           bio?: string | null
           created_at?: string
           current_streak?: number | null
           display_name?: string | null
           id?: string
+          position_matching_method?: string
           streak_type?: string | null
           total_hits?: number | null
           total_predictions?: number | null
@@ -401,11 +663,13 @@ export type Database = {
         Update: {
           api_key?: string | null
           avatar_url?: string | null
+          base_currency?: string
           bio?: string | null
           created_at?: string
           current_streak?: number | null
           display_name?: string | null
           id?: string
+          position_matching_method?: string
           streak_type?: string | null
           total_hits?: number | null
           total_predictions?: number | null
@@ -414,6 +678,90 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_budgets: {
+        Row: {
+          enabled: boolean
+          function_name: string
+          max_requests: number
+          updated_at: string
+          window_seconds: number
+        }
+        Insert: {
+          enabled?: boolean
+          function_name: string
+          max_requests: number
+          updated_at?: string
+          window_seconds: number
+        }
+        Update: {
+          enabled?: boolean
+          function_name?: string
+          max_requests?: number
+          updated_at?: string
+          window_seconds?: number
+        }
+        Relationships: []
+      }
+      rate_limit_counters: {
+        Row: {
+          function_name: string
+          request_count: number
+          subject: string
+          window_start: string
+        }
+        Insert: {
+          function_name: string
+          request_count?: number
+          subject: string
+          window_start: string
+        }
+        Update: {
+          function_name?: string
+          request_count?: number
+          subject?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      rate_limit_hits: {
+        Row: {
+          first_hit_at: string
+          function_name: string
+          id: number
+          ip: string | null
+          last_hit_at: string
+          rejected_count: number
+          subject: string
+          subject_type: string
+          user_id: string | null
+          window_start: string
+        }
+        Insert: {
+          first_hit_at?: string
+          function_name: string
+          id?: never
+          ip?: string | null
+          last_hit_at?: string
+          rejected_count?: number
+          subject: string
+          subject_type: string
+          user_id?: string | null
+          window_start: string
+        }
+        Update: {
+          first_hit_at?: string
+          function_name?: string
+          id?: never
+          ip?: string | null
+          last_hit_at?: string
+          rejected_count?: number
+          subject?: string
+          subject_type?: string
+          user_id?: string | null
+          window_start?: string
+        }
+        Relationships: []
+      }
       trade_attachments: {
         Row: {
           content_type: string | null
@@ -455,10 +803,126 @@ export type Database = {
           },
         ]
       }
+      trade_dead_letters: {
+        Row: {
+          account_id: string | null
+          attempts: number
+          created_at: string
+          error_reason: string
+          error_status: string
+          event_id: string | null
+          event_type: string | null
+          http_status: number
+          id: string
+          last_failed_at: string
+          payload: Json
+          resolved_at: string | null
+          status: string
+          trade_log_id: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          attempts?: number
+          created_at?: string
+          error_reason: string
+          error_status: string
+          event_id?: string | null
+          event_type?: string | null
+          http_status: number
+          id?: string
+          last_failed_at?: string
+          payload: Json
+          resolved_at?: string | null
+          status?: string
+          trade_log_id?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          attempts?: number
+          created_at?: string
+          error_reason?: string
+          error_status?: string
+          event_id?: string | null
+          event_type?: string | null
+          http_status?: number
+          id?: string
+          last_failed_at?: string
+          payload?: Json
+          resolved_at?: string | null
+          status?: string
+          trade_log_id?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trade_dead_letters_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trade_dead_letters_trade_log_id_fkey"
+            columns: ["trade_log_id"]
+            isOneToOne: false
+            referencedRelation: "trade_log"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trade_integrity_flags: {
+        Row: {
+          account_id: string | null
+          details: Json
+          detected_at: string
+          flag_type: string
+          id: string
+          position_id: number | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          trade_log_id: number | null
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          details?: Json
+          detected_at?: string
+          flag_type: string
+          id?: string
+          position_id?: number | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          trade_log_id?: number | null
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          details?: Json
+          detected_at?: string
+          flag_type?: string
+          id?: string
+          position_id?: number | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          trade_log_id?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       trade_log: {
         Row: {
+          account_id: string | null
           asset_class: string | null
           created_at: string | null
+          event_id: string | null
           event_type: string
           id: number
           is_simulation: boolean
@@ -467,11 +931,14 @@ export type Database = {
           platform: string | null
           pnl: number | null
           pnl_pct: number | null
+          position_ids: number[] | null
           price: number | null
+          processed_at: string | null
           quantity: number | null
           quantity_lots: number | null
           raw: Json | null
           raw_quantity: number | null
+          result: Json | null
           side: string | null
           symbol: string | null
           tick_size: number | null
@@ -480,8 +947,10 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          account_id?: string | null
           asset_class?: string | null
           created_at?: string | null
+          event_id?: string | null
           event_type: string
           id?: never
           is_simulation?: boolean
@@ -490,11 +959,14 @@ export type Database = {
           platform?: string | null
           pnl?: number | null
           pnl_pct?: number | null
+          position_ids?: number[] | null
           price?: number | null
+          processed_at?: string | null
           quantity?: number | null
           quantity_lots?: number | null
           raw?: Json | null
           raw_quantity?: number | null
+          result?: Json | null
           side?: string | null
           symbol?: string | null
           tick_size?: number | null
@@ -503,8 +975,10 @@ export type Database = {
           user_id: string
         }
         Update: {
+          account_id?: string | null
           asset_class?: string | null
           created_at?: string | null
+          event_id?: string | null
           event_type?: string
           id?: never
           is_simulation?: boolean
@@ -513,11 +987,14 @@ export type Database = {
           platform?: string | null
           pnl?: number | null
           pnl_pct?: number | null
+          position_ids?: number[] | null
           price?: number | null
+          processed_at?: string | null
           quantity?: number | null
           quantity_lots?: number | null
           raw?: Json | null
           raw_quantity?: number | null
+          result?: Json | null
           side?: string | null
           symbol?: string | null
           tick_size?: number | null
@@ -525,7 +1002,15 @@ export type Database = {
           timestamp?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "trade_log_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       trader_profiles: {
         Row: {
@@ -572,6 +1057,48 @@ export type Database = {
         }
         Relationships: []
       }
+      trading_accounts: {
+        Row: {
+          account_type: string
+          base_currency: string | null
+          broker: string | null
+          created_at: string
+          external_account_id: string | null
+          id: string
+          is_default: boolean
+          name: string
+          starting_balance: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_type?: string
+          base_currency?: string | null
+          broker?: string | null
+          created_at?: string
+          external_account_id?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          starting_balance?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_type?: string
+          base_currency?: string | null
+          broker?: string | null
+          created_at?: string
+          external_account_id?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          starting_balance?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_activity: {
         Row: {
           created_at: string | null
@@ -620,63 +1147,324 @@ export type Database = {
         }
         Relationships: []
       }
+      user_trading_metric_snapshots: {
+        Row: {
+          account_id: string | null
+          accuracy_score: number | null
+          average_r: number | null
+          avg_win_loss_ratio: number | null
+          created_at: string
+          daily_sharpe_ratio: number | null
+          daily_sortino_ratio: number | null
+          expectancy: number | null
+          expectancy_r: number | null
+          id: string
+          is_verified: boolean
+          max_consecutive_losses: number
+          max_drawdown: number | null
+          max_drawdown_end_at: string | null
+          max_drawdown_pct: number | null
+          max_drawdown_start_at: string | null
+          positive_r_percentage: number | null
+          profit_factor: number | null
+          r_variance: number | null
+          recovery_factor: number | null
+          sharpe_ratio: number | null
+          snapshot_date: string
+          sortino_ratio: number | null
+          stop_based_percentage: number | null
+          total_breakeven: number
+          total_losses: number
+          total_net_pnl: number | null
+          total_r: number | null
+          total_verified_trades: number
+          total_wins: number
+          user_id: string
+          win_rate: number | null
+        }
+        Insert: {
+          account_id?: string | null
+          accuracy_score?: number | null
+          average_r?: number | null
+          avg_win_loss_ratio?: number | null
+          created_at?: string
+          daily_sharpe_ratio?: number | null
+          daily_sortino_ratio?: number | null
+          expectancy?: number | null
+          expectancy_r?: number | null
+          id?: string
+          is_verified?: boolean
+          max_consecutive_losses?: number
+          max_drawdown?: number | null
+          max_drawdown_end_at?: string | null
+          max_drawdown_pct?: number | null
+          max_drawdown_start_at?: string | null
+          positive_r_percentage?: number | null
+          profit_factor?: number | null
+          r_variance?: number | null
+          recovery_factor?: number | null
+          sharpe_ratio?: number | null
+          snapshot_date: string
+          sortino_ratio?: number | null
+          stop_based_percentage?: number | null
+          total_breakeven?: number
+          total_losses?: number
+          total_net_pnl?: number | null
+          total_r?: number | null
+          total_verified_trades?: number
+          total_wins?: number
+          user_id: string
+          win_rate?: number | null
+        }
+        Update: {
+          account_id?: string | null
+          accuracy_score?: number | null
+          average_r?: number | null
+          avg_win_loss_ratio?: number | null
+          created_at?: string
+          daily_sharpe_ratio?: number | null
+          daily_sortino_ratio?: number | null
+          expectancy?: number | null
+          expectancy_r?: number | null
+          id?: string
+          is_verified?: boolean
+          max_consecutive_losses?: number
+          max_drawdown?: number | null
+          max_drawdown_end_at?: string | null
+          max_drawdown_pct?: number | null
+          max_drawdown_start_at?: string | null
+          positive_r_percentage?: number | null
+          profit_factor?: number | null
+          r_variance?: number | null
+          recovery_factor?: number | null
+          sharpe_ratio?: number | null
+          snapshot_date?: string
+          sortino_ratio?: number | null
+          stop_based_percentage?: number | null
+          total_breakeven?: number
+          total_losses?: number
+          total_net_pnl?: number | null
+          total_r?: number | null
+          total_verified_trades?: number
+          total_wins?: number
+          user_id?: string
+          win_rate?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_trading_metric_snapshots_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_trading_metric_totals: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          id: string
+          stale: boolean
+          totals: Json
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          id?: string
+          stale?: boolean
+          totals: Json
+          updated_at?: string
+          user_id: string
+          version?: number
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          id?: string
+          stale?: boolean
+          totals?: Json
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_trading_metric_totals_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_trading_metrics: {
         Row: {
+          account_id: string | null
+          accuracy_breakdown: Json | null
           accuracy_score: number | null
           api_status: string | null
           average_r: number | null
+          average_r_ci_high: number | null
+          average_r_ci_low: number | null
+          avg_win_loss_ratio: number | null
           created_at: string
+          daily_sharpe_ratio: number | null
+          daily_sortino_ratio: number | null
+          expectancy: number | null
+          expectancy_r: number | null
           id: string
+          integrity_flagged: boolean
           is_verified: boolean
           last_api_sync_at: string | null
+          max_consecutive_losses: number
+          max_drawdown: number | null
+          max_drawdown_end_at: string | null
+          max_drawdown_pct: number | null
+          max_drawdown_start_at: string | null
           positive_r_percentage: number | null
+          profit_factor: number | null
           r_variance: number | null
+          ranking_score: number | null
+          recovery_factor: number | null
+          sharpe_ratio: number | null
+          sortino_ratio: number | null
+          stop_based_percentage: number | null
           total_breakeven: number
           total_losses: number
+          total_net_pnl: number | null
           total_r: number | null
           total_verified_trades: number
           total_wins: number
           updated_at: string
           user_id: string
+          verification_tier: number
           win_rate: number | null
+          win_rate_ci_high: number | null
+          win_rate_ci_low: number | null
         }
         Insert: {
+          account_id?: string | null
+          accuracy_breakdown?: Json | null
           accuracy_score?: number | null
           api_status?: string | null
           average_r?: number | null
+          average_r_ci_high?: number | null
+          average_r_ci_low?: number | null
+          avg_win_loss_ratio?: number | null
           created_at?: string
+          daily_sharpe_ratio?: number | null
+          daily_sortino_ratio?: number | null
+          expectancy?: number | null
+          expectancy_r?: number | null
           id?: string
+          integrity_flagged?: boolean
           is_verified?: boolean
           last_api_sync_at?: string | null
+          max_consecutive_losses: number
+          max_drawdown?: number | null
+          max_drawdown_end_at?: string | null
+          max_drawdown_pct?: number | null
+          max_drawdown_start_at?: string | null
           positive_r_percentage?: number | null
+          profit_factor?: number | null
           r_variance?: number | null
+          ranking_score?: number | null
+          recovery_factor?: number | null
+          sharpe_ratio?: number | null
+          sortino_ratio?: number | null
+          stop_based_percentage?: number | null
           total_breakeven?: number
           total_losses?: number
+          total_net_pnl?: number | null
           total_r?: number | null
           total_verified_trades?: number
           total_wins?: number
           updated_at?: string
           user_id: string
+          verification_tier?: number
           win_rate?: number | null
+          win_rate_ci_high?: number | null
+          win_rate_ci_low?: number | null
         }
         Update: {
+          account_id?: string | null
+          accuracy_breakdown?: Json | null
           accuracy_score?: number | null
           api_status?: string | null
           average_r?: number | null
+          average_r_ci_high?: number | null
+          average_r_ci_low?: number | null
+          avg_win_loss_ratio?: number | null
           created_at?: string
+          daily_sharpe_ratio?: number | null
+          daily_sortino_ratio?: number | null
+          expectancy?: number | null
+          expectancy_r?: number | null
           id?: string
+          integrity_flagged?: boolean
           is_verified?: boolean
           last_api_sync_at?: string | null
+          max_consecutive_losses?: number
+          max_drawdown?: number | null
+          max_drawdown_end_at?: string | null
+          max_drawdown_pct?: number | null
+          max_drawdown_start_at?: string | null
           positive_r_percentage?: number | null
+          profit_factor?: number | null
           r_variance?: number | null
+          ranking_score?: number | null
+          recovery_factor?: number | null
+          sharpe_ratio?: number | null
+          sortino_ratio?: number | null
+          stop_based_percentage?: number | null
           total_breakeven?: number
           total_losses?: number
+          total_net_pnl?: number | null
           total_r?: number | null
           total_verified_trades?: number
           total_wins?: number
           updated_at?: string
           user_id?: string
+          verification_tier?: number
           win_rate?: number | null
+          win_rate_ci_high?: number | null
+          win_rate_ci_low?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_trading_metrics_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "trading_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_signatures: {
+        Row: {
+          created_at: string
+          id: number
+          signature: string
+          signed_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          signature: string
+          signed_at: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          signature?: string
+          signed_at?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -744,6 +1532,39 @@ export type Database = {
       }
     }
     Functions: {
+      apply_position_rebuild: {
+        Args: {
+          _delete_ids: number[]
+          _inserts: Json
+          _updates: Json
+          _user_id: string
+        }
+        Returns: Json
+      }
+      check_rate_limit: {
+        Args: {
+          _function_name: string
+          _ip?: string
+          _subject: string
+          _subject_type: string
+          _user_id?: string
+        }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          request_limit: number
+          retry_after: number
+        }[]
+      }
+      create_api_key: {
+        Args: {
+          key_expires_at?: string
+          key_name: string
+          key_scopes?: string[]
+          target_user_id: string
+        }
+        Returns: string
+      }
       generate_api_key: { Args: never; Returns: string }
       get_user_role: { Args: { _user_id: string }; Returns: string }
       has_role: {
@@ -753,10 +1574,43 @@ export type Database = {
         }
         Returns: boolean
       }
+      hash_api_key: {
+        Args: { raw_key: string }
+        Returns: string
+      }
+      record_api_key_use: {
+        Args: {
+          _ip?: string
+          _key_id: string
+        }
+        Returns: undefined
+      }
+      regenerate_api_key_signing_secret: {
+        Args: { _key_id: string }
+        Returns: string
+      }
       regenerate_user_api_key: {
         Args: { target_user_id: string }
         Returns: string
       }
+      resolve_integrity_flag: {
+        Args: {
+          _flag_id: string
+          _note?: string
+        }
+        Returns: undefined
+      }
+      set_api_key_require_signed: {
+        Args: {
+          _key_id: string
+          _required: boolean
+        }
+        Returns: undefined
+      }
+      snapshot_trading_metrics: {
+        Args: { _snapshot_date?: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "developer" | "user"
@@ -0,0 +1,95 @@
+/**
+ * Instruments registry - contract specifications shared with the edge functions.
+ *
+ * receive-trade, rebuild-positions and calculate-trade-metrics read the same
+ * table for asset class, tick sizing, PnL multiplier, quote currency and
+ * volatility; the client uses it to classify symbols before normalization.
+ */
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { setInstrumentRegistry } from "./symbolNormalizer";
+
+export type InstrumentAssetClass = 'forex' | 'crypto' | 'stock' | 'index' | 'metal' | 'commodity' | 'futures';
+
+export const INSTRUMENT_ASSET_CLASS_LABELS: Record<InstrumentAssetClass, string> = {
+  forex: 'Forex',
+  crypto: 'Crypto',
+  stock: 'Stock',
+  index: 'Index',
+  metal: 'Metal',
+  commodity: 'Commodity',
+  futures: 'Futures',
+};
+
+export interface TradingHours {
+  timezone: string;
+  // Weekdays a session opens on, 0 = Sunday
+  days: number[];
+  open: string;
+  // Earlier than open when the session ends the next day
+  close: string;
+}
+
+export interface Instrument {
+  id: string;
+  symbol: string;
+  description: string | null;
+  pattern: string;
+  priority: number;
+  asset_class: InstrumentAssetClass;
+  tick_size: number;
+  tick_value: number;
+  contract_multiplier: number;
+  pip_size: number | null;
+  quote_currency: string;
+  daily_volatility: number | null;
+  trading_hours: TradingHours | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type InstrumentInput = Omit<Instrument, 'id' | 'created_at' | 'updated_at'>;
+
+/** Default pattern for a futures root: bare, with a contract month (ESZ4) or continuous (ES1!) */
+export function defaultInstrumentPattern(symbol: string): string {
+  const root = symbol.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return `^${root}([FGHJKMNQUVXZ][0-9]{1,4}|[0-9]!)?$`;
+}
+
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function toInstrumentRow(input: InstrumentInput) {
+  return { ...input, trading_hours: input.trading_hours as unknown as Json };
+}
+
+export async function fetchInstruments(): Promise<Instrument[]> {
+  const { data, error } = await supabase
+    .from('instruments')
+    .select('*')
+    .order('symbol', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching instruments:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as Instrument[];
+}
+
+let registryLoad: Promise<void> | null = null;
+
+/** Load the registry into the symbol normalizer once per session. */
+export function loadInstrumentRegistry(): Promise<void> {
+  if (!registryLoad) {
+    registryLoad = fetchInstruments().then(setInstrumentRegistry);
+  }
+  return registryLoad;
+}
@@ -1,5 +1,6 @@
 // Polygon.io API client - uses Edge Function proxy for secure API access
 import { supabase } from "@/integrations/supabase/client";
+import { polygonTicker } from "@shared/symbols";
 
 export const POLYGON_BASE_URL = "https://api.polygon.io";
 
@@ -243,8 +244,11 @@ export async function batchGetCurrentPrices(
   return results;
 }
 
-// Format ticker for different markets
+// Format ticker for different markets; the shared parser handles pairs and prefixes
 export function formatPolygonTicker(symbol: string, market: "stocks" | "crypto" | "forex"): string {
+  const ticker = polygonTicker(symbol, market);
+  if (ticker) return ticker;
+
   switch (market) {
     case "crypto":
       return `X:${symbol}USD`;
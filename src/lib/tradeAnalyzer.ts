@@ -1,11 +1,11 @@
 /**
  * Trade Analyzer Module
  * 
- * Handles FIFO order matching, P/L calculation, and trade analysis
- * for CSV files containing individual orders (not pre-matched trades).
+ * Handles order matching (FIFO, LIFO or average cost), P/L calculation, and
+ * trade analysis for CSV files containing individual orders (not pre-matched trades).
  * 
  * Key Assumptions:
- * - Orders are matched using FIFO (First-In-First-Out) within same symbol
+ * - Orders are matched within the same symbol and account using the user's matching method
  * - Buy orders are matched with Sell orders, and vice versa
  * - Quantity must match within a tolerance threshold (0.01%)
  * - Commission is deducted from P/L if provided
@@ -13,6 +13,20 @@
  * - Unmatched orders are tracked but not imported as trades
  */
 
+/**
+ * Lot-matching method, mirrors profiles.position_matching_method
+ * - fifo: close the oldest open order first
+ * - lifo: close the newest open order first
+ * - average: close at the volume-weighted average price of all open orders
+ */
+export type MatchingMethod = 'fifo' | 'lifo' | 'average';
+
+export const MATCHING_METHOD_LABELS: Record<MatchingMethod, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  average: 'Average cost',
+};
+
 export interface RawOrder {
   rowNumber: number;
   symbol: string;
@@ -22,10 +36,12 @@ export interface RawOrder {
   placingTime: Date;
   closingTime?: Date;
   commission?: number;
+  stopLoss?: number;
   leverage?: number;
   margin?: number;
   orderId?: string;
   orderType?: string;
+  accountId?: string; // Broker account number from the CSV, if present
   raw: Record<string, string>;
 }
 
@@ -44,12 +60,15 @@ export interface MatchedTrade {
   grossPnL: number;
   netPnL: number;
   pnlPercent: number;
+  stopLoss?: number; // Protective stop on the entry order, if the CSV has one
   leverage?: number;
   margin?: number;
   entryOrderId?: string;
   exitOrderId?: string;
   entryRow: number;
   exitRow: number;
+  matchingMethod: MatchingMethod;
+  accountId?: string;
 }
 
 export interface DailySummary {
@@ -90,6 +109,7 @@ export interface OrderParseResult {
 }
 
 export interface TradeAnalysisResult {
+  matchingMethod: MatchingMethod;
   matchedTrades: MatchedTrade[];
   unmatchedOrders: RawOrder[];
   summary: AnalysisSummary;
@@ -98,7 +118,7 @@ export interface TradeAnalysisResult {
 
 // Field aliases for auto-detection - case-insensitive fuzzy matching
 // CRITICAL: Fill Price is the ONLY price used for P/L calculation
-// Limit Price and Stop Price are OPTIONAL metadata and do NOT affect trade validity
+// Limit Price, Stop Price and Stop Loss are OPTIONAL metadata and do NOT affect trade validity
 // Note: 'type' is NOT included in 'side' aliases to avoid confusion with order type (Market/Limit/Stop)
 const ORDER_FIELD_ALIASES: Record<string, string[]> = {
   symbol: ['symbol', 'instrument', 'asset', 'ticker', 'pair', 'market', 'name', 'security', 'product', 'currency_pair', 'currencypair', 'trading_pair', 'tradingpair', 'stock', 'coin', 'token'],
@@ -108,7 +128,10 @@ const ORDER_FIELD_ALIASES: Record<string, string[]> = {
   fill_price: ['fill_price', 'fillprice', 'fill price', 'filled_price', 'filledprice', 'filled price', 'execution_price', 'exec_price', 'executed_price', 'avg_price', 'avgprice', 'average_price', 'avg fill', 'avgfill', 'fill', 'price', 'trade_price', 'tradeprice', 'deal_price', 'dealprice', 'executed_at', 'fill_rate', 'fillrate', 'rate'],
   // Limit Price and Stop Price are OPTIONAL - null values are acceptable
   limit_price: ['limit_price', 'limitprice', 'limit price', 'limit', 'order_price', 'orderprice'],
-  stop_price: ['stop_price', 'stopprice', 'stop price', 'stop', 'stop_loss', 'stoploss', 'sl', 'sl_price', 'slprice'],
+  stop_price: ['stop_price', 'stopprice', 'stop price', 'stop'],
+  // Stop Loss = protective stop on the position, used for stop-based R-multiples.
+  // A bare "SL" header still matches sl_price fuzzily; a bare 'sl' alias would also catch "Slippage".
+  stop_loss: ['stop_loss', 'stoploss', 'stop loss', 'sl_price', 'slprice'],
   placing_time: ['placing_time', 'placingtime', 'placing time', 'entry_time', 'entrytime', 'open_time', 'opentime', 'date', 'datetime', 'timestamp', 'time', 'trade_date', 'tradedate', 'created', 'created_at', 'order_time', 'ordertime', 'open_date', 'opendate', 'entry_date', 'entrydate', 'trade_time', 'tradetime', 'execution_time', 'executiontime', 'executed_at', 'filled_at', 'filledat', 'order_date', 'orderdate', 'transaction_time', 'transactiontime', 'deal_time', 'dealtime'],
   closing_time: ['closing_time', 'closingtime', 'closing time', 'exit_time', 'exittime', 'close_time', 'closetime', 'closed', 'closed_at', 'fill_time', 'filltime', 'close_date', 'closedate', 'exit_date', 'exitdate'],
   commission: ['commission', 'fees', 'fee', 'tradecost', 'trade_cost', 'brokerfee', 'broker_fee', 'cost', 'trading_fee', 'comm', 'transaction_fee', 'transactionfee', 'trading_cost', 'tradingcost', 'charges', 'charge', 'spread_cost', 'spreadcost'],
@@ -116,6 +139,7 @@ const ORDER_FIELD_ALIASES: Record<string, string[]> = {
   margin: ['margin', 'margin_used', 'marginused', 'collateral', 'margin_required', 'marginrequired', 'initial_margin', 'initialmargin', 'used_margin', 'usedmargin'],
   order_id: ['order_id', 'orderid', 'id', 'trade_id', 'tradeid', 'ticket', 'deal_id', 'dealid', 'transaction_id', 'transactionid', 'position_id', 'positionid', 'order_number', 'ordernumber', 'reference', 'ref', 'ticket_id', 'ticketid'],
   order_type: ['order_type', 'ordertype', 'exec_type', 'exectype', 'type'],
+  account: ['account', 'account_id', 'accountid', 'account_number', 'accountnumber', 'account_no', 'accountno', 'sub_account', 'subaccount', 'login'],
 };
 
 // Normalize field name for matching - removes all separators and converts to lowercase
@@ -491,10 +515,12 @@ export function parseOrdersCSV(text: string): OrderParseResult {
     const closingTimeStr = getValue(raw, 'closing_time');
     const closingTime = closingTimeStr ? parseOrderDateTime(closingTimeStr) : undefined;
     const commission = parseOrderNumeric(getValue(raw, 'commission')) ?? undefined;
+    const stopLoss = parseOrderNumeric(getValue(raw, 'stop_loss')) ?? undefined;
     const leverage = parseLeverage(getValue(raw, 'leverage')) ?? undefined;
     const margin = parseOrderNumeric(getValue(raw, 'margin')) ?? undefined;
     const orderId = getValue(raw, 'order_id')?.trim() || undefined;
     const orderType = getValue(raw, 'order_type')?.trim() || undefined;
+    const accountId = getValue(raw, 'account')?.trim() || undefined;
     
     orders.push({
       rowNumber: i + 1,
@@ -505,10 +531,12 @@ export function parseOrdersCSV(text: string): OrderParseResult {
       placingTime,
       closingTime,
       commission,
+      stopLoss: stopLoss && stopLoss > 0 ? stopLoss : undefined,
       leverage,
       margin,
       orderId,
       orderType,
+      accountId,
       raw,
     });
   }
@@ -517,32 +545,42 @@ export function parseOrdersCSV(text: string): OrderParseResult {
 }
 
 /**
- * FIFO Order Matching
- * Pairs buy orders with sell orders of the same symbol and quantity
+ * Order Matching
+ * Pairs buy orders with sell orders of the same symbol, account and quantity.
+ * FIFO takes the oldest open order, LIFO the newest; average cost takes the
+ * oldest but prices the entry at the running average of all open orders.
  */
-export function matchOrdersFIFO(orders: RawOrder[]): { matched: MatchedTrade[]; unmatched: RawOrder[] } {
+export function matchOrders(
+  orders: RawOrder[],
+  method: MatchingMethod = 'fifo'
+): { matched: MatchedTrade[]; unmatched: RawOrder[] } {
   const matched: MatchedTrade[] = [];
   const unmatched: RawOrder[] = [];
   
-  // Sort orders by time for FIFO
+  // Sort orders by time
   const sortedOrders = [...orders].sort((a, b) => a.placingTime.getTime() - b.placingTime.getTime());
   
-  // Separate by symbol
+  // Separate by account and symbol - orders never match across accounts
   const ordersBySymbol: Record<string, RawOrder[]> = {};
   sortedOrders.forEach(order => {
-    if (!ordersBySymbol[order.symbol]) {
-      ordersBySymbol[order.symbol] = [];
+    const key = `${order.accountId ?? ''}|${order.symbol}`;
+    if (!ordersBySymbol[key]) {
+      ordersBySymbol[key] = [];
     }
-    ordersBySymbol[order.symbol].push(order);
+    ordersBySymbol[key].push(order);
   });
   
   // Process each symbol
-  for (const symbol of Object.keys(ordersBySymbol)) {
-    const symbolOrders = ordersBySymbol[symbol];
+  for (const symbolOrders of Object.values(ordersBySymbol)) {
+    const { symbol, accountId } = symbolOrders[0];
     const buyQueue: RawOrder[] = [];
     const sellQueue: RawOrder[] = [];
     const matchedRows = new Set<number>();
     
+    // Running average entry price of each open queue (average cost only).
+    // Reductions don't change the average; it resets once the queue is empty.
+    const averagePrice = new Map<RawOrder[], number>([[buyQueue, 0], [sellQueue, 0]]);
+    
     // Quantity tolerance threshold (0.01% for rounding differences)
     const QUANTITY_TOLERANCE = 0.0001;
     
@@ -550,9 +588,10 @@ export function matchOrdersFIFO(orders: RawOrder[]): { matched: MatchedTrade[];
       const oppositeQueue = order.side === 'buy' ? sellQueue : buyQueue;
       const sameQueue = order.side === 'buy' ? buyQueue : sellQueue;
       
-      // Try to find a match in the opposite queue
+      // Try to find a match in the opposite queue (newest first for LIFO)
       let matchIndex = -1;
-      for (let i = 0; i < oppositeQueue.length; i++) {
+      for (let n = 0; n < oppositeQueue.length; n++) {
+        const i = method === 'lifo' ? oppositeQueue.length - 1 - n : n;
         const candidate = oppositeQueue[i];
         const qtyDiff = Math.abs(candidate.quantity - order.quantity) / order.quantity;
         
@@ -563,7 +602,9 @@ export function matchOrdersFIFO(orders: RawOrder[]): { matched: MatchedTrade[];
       }
       
       if (matchIndex >= 0) {
+        const pooledPrice = averagePrice.get(oppositeQueue) ?? 0;
         const matchedOrder = oppositeQueue.splice(matchIndex, 1)[0];
+        if (oppositeQueue.length === 0) averagePrice.set(oppositeQueue, 0);
         matchedRows.add(order.rowNumber);
         matchedRows.add(matchedOrder.rowNumber);
         
@@ -575,7 +616,7 @@ export function matchOrdersFIFO(orders: RawOrder[]): { matched: MatchedTrade[];
         // Determine trade direction (long = buy first, short = sell first)
         const isLong = entryOrder.side === 'buy';
         
-        const entryPrice = entryOrder.fillPrice;
+        const entryPrice = method === 'average' && entryOrder === matchedOrder ? pooledPrice : entryOrder.fillPrice;
         const exitPrice = exitOrder.fillPrice;
         const quantity = (entryOrder.quantity + exitOrder.quantity) / 2; // Use average for tolerance
         
@@ -608,15 +649,24 @@ export function matchOrdersFIFO(orders: RawOrder[]): { matched: MatchedTrade[];
           grossPnL,
           netPnL,
           pnlPercent,
+          stopLoss: entryOrder.stopLoss,
           leverage: entryOrder.leverage ?? exitOrder.leverage,
           margin: entryOrder.margin ?? exitOrder.margin,
           entryOrderId: entryOrder.orderId,
           exitOrderId: exitOrder.orderId,
           entryRow: entryOrder.rowNumber,
           exitRow: exitOrder.rowNumber,
+          matchingMethod: method,
+          accountId,
         });
       } else {
         // No match found, add to queue
+        const queuedQty = sameQueue.reduce((sum, o) => sum + o.quantity, 0);
+        const currentAverage = averagePrice.get(sameQueue) ?? 0;
+        averagePrice.set(
+          sameQueue,
+          (currentAverage * queuedQty + order.fillPrice * order.quantity) / (queuedQty + order.quantity)
+        );
         sameQueue.push(order);
       }
     }
@@ -721,12 +771,13 @@ function generateSummary(
 /**
  * Main analysis function
  */
-export function analyzeTradesCSV(csvText: string): TradeAnalysisResult {
+export function analyzeTradesCSV(csvText: string, method: MatchingMethod = 'fifo'): TradeAnalysisResult {
   const parseResult = parseOrdersCSV(csvText);
-  const { matched, unmatched } = matchOrdersFIFO(parseResult.orders);
+  const { matched, unmatched } = matchOrders(parseResult.orders, method);
   const summary = generateSummary(matched, unmatched, parseResult.skippedRows.length);
   
   return {
+    matchingMethod: method,
     matchedTrades: matched,
     unmatchedOrders: unmatched,
     summary,
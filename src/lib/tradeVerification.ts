@@ -4,6 +4,7 @@ import { getAggregates } from './polygon';
 import { getHistoricalOHLC as getFinnhubOHLC } from './finnhub';
 import { getHistoricalOHLC as getAlphaVantageOHLC } from './alphaVantage';
 import { normalizeSymbol, NormalizedSymbol, getPolygonMarketType } from './symbolNormalizer';
+import { loadInstrumentRegistry } from './instruments';
 
 export type DataProvider = 'polygon' | 'finnhub' | 'alphavantage' | 'none';
 
@@ -532,7 +533,8 @@ async function verifyLeg(
 
 // Verify a complete trade (entry + optional exit)
 export async function verifyTrade(trade: TradeToVerify): Promise<TradeVerificationResult> {
-  // Normalize the symbol first
+  // Normalize the symbol first (registry instruments take precedence)
+  await loadInstrumentRegistry();
   const normalizedSymbol = normalizeSymbol(trade.symbol, trade.instrument_type);
   
   // Verify entry leg
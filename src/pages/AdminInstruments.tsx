@@ -0,0 +1,195 @@
+import { useState, useEffect } from 'react';
+import { AppLayout } from "@/components/layout/AppLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useInstruments } from "@/hooks/useInstruments";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Pencil, Trash2, Search, Ruler } from "lucide-react";
+import { toast } from "sonner";
+import { InstrumentFormDialog } from "@/components/admin/InstrumentFormDialog";
+import { INSTRUMENT_ASSET_CLASS_LABELS, Instrument, InstrumentInput } from "@/lib/instruments";
+
+export default function AdminInstruments() {
+  const { user } = useAuth();
+  const { instruments, loading, createInstrument, updateInstrument, deleteInstrument } = useInstruments();
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Instrument | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchUserRole = async () => {
+      const { data } = await supabase.rpc('get_user_role', { _user_id: user.id });
+      setUserRole(data || 'user');
+    };
+
+    fetchUserRole();
+  }, [user]);
+
+  const openEditor = (instrument: Instrument | null) => {
+    setEditing(instrument);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (input: InstrumentInput) => {
+    const error = editing ? await updateInstrument(editing.id, input) : await createInstrument(input);
+    if (!error) {
+      toast.success(editing ? `${input.symbol} updated` : `${input.symbol} added`);
+    }
+    return error;
+  };
+
+  const handleDelete = async (instrument: Instrument) => {
+    if (!confirm(`Delete ${instrument.symbol}? Trades on it will fall back to the built-in symbol rules.`)) {
+      return;
+    }
+
+    if (await deleteInstrument(instrument.id)) {
+      toast.success(`${instrument.symbol} deleted`);
+    } else {
+      toast.error('Failed to delete instrument');
+    }
+  };
+
+  if (!user || (userRole !== null && userRole !== 'admin')) {
+    return (
+      <AppLayout title="Instruments">
+        <div className="flex items-center justify-center h-64">
+          <p className="text-muted-foreground">Only admins can manage instruments.</p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const term = search.trim().toUpperCase();
+  const filtered = term
+    ? instruments.filter((i) => i.symbol.includes(term) || i.description?.toUpperCase().includes(term))
+    : instruments;
+
+  return (
+    <AppLayout title="Instruments">
+      <div className="px-4 py-4 space-y-4 pb-24">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Ruler className="h-4 w-4" />
+              Contract Specifications
+            </CardTitle>
+            <Button size="sm" className="gap-1.5" onClick={() => openEditor(null)}>
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              PnL, tick metadata, quote currency and risk estimates for matching symbols use these specs.
+              Unmatched symbols use the built-in rules. Edge functions refresh the registry every few minutes.
+            </p>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search symbols..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            {loading || userRole === null ? (
+              <div className="space-y-2">
+                {[...Array(5)].map((_, i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : filtered.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No instruments found.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Class</TableHead>
+                      <TableHead className="text-right">Tick</TableHead>
+                      <TableHead className="text-right">Tick Value</TableHead>
+                      <TableHead className="text-right">Multiplier</TableHead>
+                      <TableHead>Currency</TableHead>
+                      <TableHead className="text-right">Daily Vol</TableHead>
+                      <TableHead>Hours</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filtered.map((instrument) => (
+                      <TableRow key={instrument.id} className={instrument.is_active ? undefined : "opacity-50"}>
+                        <TableCell>
+                          <div className="font-medium">{instrument.symbol}</div>
+                          {instrument.description && (
+                            <div className="text-xs text-muted-foreground">{instrument.description}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="text-xs">
+                            {INSTRUMENT_ASSET_CLASS_LABELS[instrument.asset_class]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm">{instrument.tick_size}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">{instrument.tick_value}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">×{instrument.contract_multiplier}</TableCell>
+                        <TableCell className="text-sm">{instrument.quote_currency}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">
+                          {instrument.daily_volatility != null ? `${(instrument.daily_volatility * 100).toFixed(1)}%` : '-'}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                          {instrument.trading_hours
+                            ? `${instrument.trading_hours.open}–${instrument.trading_hours.close} ${instrument.trading_hours.timezone}`
+                            : '-'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Edit"
+                              onClick={() => openEditor(instrument)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                              title="Delete"
+                              onClick={() => handleDelete(instrument)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <InstrumentFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        instrument={editing}
+        onSubmit={handleSubmit}
+      />
+    </AppLayout>
+  );
+}
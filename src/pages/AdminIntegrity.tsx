@@ -0,0 +1,264 @@
+import { useState, useEffect, useMemo } from 'react';
+import { formatDistanceToNow } from "date-fns";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useIntegrityFlags, IntegrityFlag, IntegrityFlagType } from "@/hooks/useIntegrityFlags";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShieldAlert, Users, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+const FLAG_LABELS: Record<IntegrityFlagType, string> = {
+  deleted_after_close: 'Deleted after close',
+  below_min_notional: 'Below min notional',
+  simulated_trade: 'Simulated trade',
+  wash_cluster: 'Wash cluster',
+};
+
+// Mirrors ACCOUNT_FLAG_TYPES in supabase/functions/_shared/integrity.ts
+const ACCOUNT_FLAG_TYPES: IntegrityFlagType[] = ['deleted_after_close', 'wash_cluster'];
+
+interface UserSummary {
+  userId: string;
+  counts: Partial<Record<IntegrityFlagType, number>>;
+  suspended: boolean;
+  lastDetectedAt: string;
+}
+
+// Unresolved flags per user, suspended accounts first
+function summarizeFlags(flags: IntegrityFlag[]): UserSummary[] {
+  const byUser = new Map<string, UserSummary>();
+
+  for (const flag of flags) {
+    if (flag.resolved_at) continue;
+    const summary = byUser.get(flag.user_id) ?? {
+      userId: flag.user_id,
+      counts: {},
+      suspended: false,
+      lastDetectedAt: flag.detected_at,
+    };
+    summary.counts[flag.flag_type] = (summary.counts[flag.flag_type] ?? 0) + 1;
+    if (ACCOUNT_FLAG_TYPES.includes(flag.flag_type)) summary.suspended = true;
+    if (flag.detected_at > summary.lastDetectedAt) summary.lastDetectedAt = flag.detected_at;
+    byUser.set(flag.user_id, summary);
+  }
+
+  return Array.from(byUser.values()).sort(
+    (a, b) => Number(b.suspended) - Number(a.suspended) || b.lastDetectedAt.localeCompare(a.lastDetectedAt)
+  );
+}
+
+function describeFlag(flag: IntegrityFlag): string {
+  const details = flag.details;
+  const symbol = typeof details.symbol === 'string' ? details.symbol : null;
+
+  switch (flag.flag_type) {
+    case 'deleted_after_close': {
+      const pnl = details.net_pnl ?? details.pnl;
+      return [symbol, typeof pnl === 'number' ? `PnL ${pnl.toFixed(2)}` : null].filter(Boolean).join(' · ');
+    }
+    case 'below_min_notional':
+      return `${symbol ?? ''} notional ${Number(details.notional).toFixed(2)} (min ${details.minimum})`;
+    case 'wash_cluster':
+      return `${symbol ?? ''} ${details.cluster_trades} round trips, held ${details.hold_seconds}s`;
+    default:
+      return symbol ?? '';
+  }
+}
+
+export default function AdminIntegrity() {
+  const { user } = useAuth();
+  const [showResolved, setShowResolved] = useState(false);
+  const { flags, loading, refetch, resolveFlag } = useIntegrityFlags(showResolved);
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchUserRole = async () => {
+      const { data } = await supabase.rpc('get_user_role', { _user_id: user.id });
+      setUserRole(data || 'user');
+    };
+
+    fetchUserRole();
+  }, [user]);
+
+  const users = useMemo(() => summarizeFlags(flags), [flags]);
+
+  useEffect(() => {
+    const userIds = Array.from(new Set(flags.map((f) => f.user_id)));
+    if (userIds.length === 0) return;
+
+    const fetchNames = async () => {
+      const { data } = await supabase.from('profiles').select('user_id, display_name').in('user_id', userIds);
+      setUserNames(Object.fromEntries((data || []).map((p) => [p.user_id, p.display_name || p.user_id.slice(0, 8)])));
+    };
+
+    fetchNames();
+  }, [flags]);
+
+  if (!user || (userRole !== null && userRole !== 'admin')) {
+    return (
+      <AppLayout title="Integrity">
+        <div className="flex items-center justify-center h-64">
+          <p className="text-muted-foreground">Only admins can review integrity flags.</p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const nameOf = (userId: string) => userNames[userId] ?? userId.slice(0, 8);
+
+  const resolve = async (flag: IntegrityFlag) => {
+    if (await resolveFlag(flag.id)) {
+      toast.success('Flag resolved');
+    } else {
+      toast.error('Failed to resolve flag');
+    }
+  };
+
+  return (
+    <AppLayout title="Integrity">
+      <div className="px-4 py-4 space-y-4 pb-24">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Users className="h-4 w-4" />
+              Flagged Traders
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Flagged trades are left out of verified metrics. Deletions and wash clusters also suspend the trader's
+              verification until every such flag is resolved.
+            </p>
+            {loading || userRole === null ? (
+              <Skeleton className="h-32 w-full" />
+            ) : users.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No open integrity flags.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Trader</TableHead>
+                      <TableHead>Open Flags</TableHead>
+                      <TableHead className="text-right">Last Flagged</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {users.map((summary) => (
+                      <TableRow key={summary.userId}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium">{nameOf(summary.userId)}</span>
+                            {summary.suspended && (
+                              <Badge variant="destructive" className="text-xs">
+                                Suspended
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {(Object.entries(summary.counts) as [IntegrityFlagType, number][]).map(([type, count]) => (
+                              <Badge key={type} variant="outline" className="text-xs">
+                                {FLAG_LABELS[type]} × {count}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right text-sm text-muted-foreground whitespace-nowrap">
+                          {formatDistanceToNow(new Date(summary.lastDetectedAt), { addSuffix: true })}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ShieldAlert className="h-4 w-4" />
+              Flags
+            </CardTitle>
+            <div className="flex items-center gap-3">
+              <div className="flex items-center gap-2">
+                <Switch id="show-resolved" checked={showResolved} onCheckedChange={setShowResolved} />
+                <Label htmlFor="show-resolved" className="text-xs">
+                  Show resolved
+                </Label>
+              </div>
+              <Button size="icon" variant="ghost" className="h-8 w-8" title="Refresh" onClick={refetch}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading || userRole === null ? (
+              <Skeleton className="h-40 w-full" />
+            ) : flags.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">Nothing to review.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Trader</TableHead>
+                      <TableHead>Flag</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead className="text-right">Detected</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {flags.map((flag) => (
+                      <TableRow key={flag.id}>
+                        <TableCell className="text-sm font-medium">{nameOf(flag.user_id)}</TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={ACCOUNT_FLAG_TYPES.includes(flag.flag_type) ? 'destructive' : 'outline'}
+                            className="text-xs whitespace-nowrap"
+                          >
+                            {FLAG_LABELS[flag.flag_type]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs font-mono text-muted-foreground">
+                          {describeFlag(flag)}
+                          {flag.position_id !== null && <div>position #{flag.position_id}</div>}
+                        </TableCell>
+                        <TableCell className="text-right text-sm text-muted-foreground whitespace-nowrap">
+                          {formatDistanceToNow(new Date(flag.detected_at), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {flag.resolved_at ? (
+                            <span className="text-xs text-muted-foreground">Resolved</span>
+                          ) : (
+                            <Button size="sm" variant="outline" onClick={() => resolve(flag)}>
+                              Resolve
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState, useEffect, useMemo } from 'react';
+import { formatDistanceToNow } from "date-fns";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useRateLimits, RateLimitBudget, RateLimitHit } from "@/hooks/useRateLimits";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Gauge, ShieldAlert, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+interface CallerSummary {
+  subject: string;
+  subjectType: RateLimitHit['subject_type'];
+  userId: string | null;
+  ip: string | null;
+  functions: Set<string>;
+  rejected: number;
+  lastHitAt: string;
+}
+
+// Rejections per caller across functions and windows, worst first
+function summarizeHits(hits: RateLimitHit[]): CallerSummary[] {
+  const bySubject = new Map<string, CallerSummary>();
+
+  for (const hit of hits) {
+    const summary = bySubject.get(hit.subject) ?? {
+      subject: hit.subject,
+      subjectType: hit.subject_type,
+      userId: hit.user_id,
+      ip: hit.ip,
+      functions: new Set<string>(),
+      rejected: 0,
+      lastHitAt: hit.last_hit_at,
+    };
+    summary.functions.add(hit.function_name);
+    summary.rejected += hit.rejected_count;
+    if (hit.last_hit_at > summary.lastHitAt) summary.lastHitAt = hit.last_hit_at;
+    bySubject.set(hit.subject, summary);
+  }
+
+  return Array.from(bySubject.values()).sort((a, b) => b.rejected - a.rejected);
+}
+
+interface BudgetRowProps {
+  budget: RateLimitBudget;
+  onSave: ReturnType<typeof useRateLimits>['updateBudget'];
+}
+
+function BudgetRow({ budget, onSave }: BudgetRowProps) {
+  const [maxRequests, setMaxRequests] = useState(String(budget.max_requests));
+  const [windowSeconds, setWindowSeconds] = useState(String(budget.window_seconds));
+  const dirty = maxRequests !== String(budget.max_requests) || windowSeconds !== String(budget.window_seconds);
+
+  const save = async () => {
+    const max = Number(maxRequests);
+    const window = Number(windowSeconds);
+    if (!Number.isInteger(max) || max <= 0 || !Number.isInteger(window) || window <= 0) {
+      toast.error('Requests and window must be positive whole numbers');
+      return;
+    }
+
+    if (await onSave(budget.function_name, { max_requests: max, window_seconds: window })) {
+      toast.success(`${budget.function_name} budget updated`);
+    } else {
+      toast.error('Failed to update budget');
+    }
+  };
+
+  const toggle = async (enabled: boolean) => {
+    if (!(await onSave(budget.function_name, { enabled }))) {
+      toast.error('Failed to update budget');
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="font-mono text-sm">{budget.function_name}</TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={1}
+          className="h-8 w-24 text-right"
+          value={maxRequests}
+          onChange={(e) => setMaxRequests(e.target.value)}
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={1}
+          className="h-8 w-24 text-right"
+          value={windowSeconds}
+          onChange={(e) => setWindowSeconds(e.target.value)}
+        />
+      </TableCell>
+      <TableCell>
+        <Switch checked={budget.enabled} onCheckedChange={toggle} />
+      </TableCell>
+      <TableCell className="text-right">
+        <Button size="sm" variant="outline" disabled={!dirty} onClick={save}>
+          Save
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function AdminRateLimits() {
+  const { user } = useAuth();
+  const { budgets, hits, loading, updateBudget, refetch, lookbackHours } = useRateLimits();
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchUserRole = async () => {
+      const { data } = await supabase.rpc('get_user_role', { _user_id: user.id });
+      setUserRole(data || 'user');
+    };
+
+    fetchUserRole();
+  }, [user]);
+
+  const callers = useMemo(() => summarizeHits(hits), [hits]);
+
+  useEffect(() => {
+    const userIds = Array.from(new Set(callers.map((c) => c.userId).filter((id): id is string => Boolean(id))));
+    if (userIds.length === 0) return;
+
+    const fetchNames = async () => {
+      const { data } = await supabase.from('profiles').select('user_id, display_name').in('user_id', userIds);
+      setUserNames(Object.fromEntries((data || []).map((p) => [p.user_id, p.display_name || p.user_id.slice(0, 8)])));
+    };
+
+    fetchNames();
+  }, [callers]);
+
+  if (!user || (userRole !== null && userRole !== 'admin')) {
+    return (
+      <AppLayout title="Rate Limits">
+        <div className="flex items-center justify-center h-64">
+          <p className="text-muted-foreground">Only admins can view rate limits.</p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const describeCaller = (caller: CallerSummary) => {
+    if (caller.userId) return userNames[caller.userId] ?? caller.userId.slice(0, 8);
+    return caller.ip ?? 'Unknown IP';
+  };
+
+  return (
+    <AppLayout title="Rate Limits">
+      <div className="px-4 py-4 space-y-4 pb-24">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Gauge className="h-4 w-4" />
+              Budgets
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Requests allowed per caller (API key, user or IP) in each window. Disabled functions are unlimited.
+            </p>
+            {loading || userRole === null ? (
+              <Skeleton className="h-40 w-full" />
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Function</TableHead>
+                      <TableHead>Requests</TableHead>
+                      <TableHead>Window (s)</TableHead>
+                      <TableHead>Enabled</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {budgets.map((budget) => (
+                      <BudgetRow key={`${budget.function_name}-${budget.updated_at}`} budget={budget} onSave={updateBudget} />
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ShieldAlert className="h-4 w-4" />
+              Limited Callers (last {lookbackHours}h)
+            </CardTitle>
+            <Button size="icon" variant="ghost" className="h-8 w-8" title="Refresh" onClick={refetch}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {loading || userRole === null ? (
+              <Skeleton className="h-32 w-full" />
+            ) : callers.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No requests have been rate limited.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Caller</TableHead>
+                      <TableHead>Functions</TableHead>
+                      <TableHead className="text-right">Rejected</TableHead>
+                      <TableHead className="text-right">Last Hit</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {callers.map((caller) => (
+                      <TableRow key={caller.subject}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="text-xs">
+                              {caller.subjectType === 'api_key' ? 'API key' : caller.subjectType === 'user' ? 'User' : 'IP'}
+                            </Badge>
+                            <span className="text-sm font-medium">{describeCaller(caller)}</span>
+                          </div>
+                          {caller.userId && caller.ip && (
+                            <div className="text-xs text-muted-foreground">{caller.ip}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs font-mono text-muted-foreground">
+                          {Array.from(caller.functions).join(', ')}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm">{caller.rejected}</TableCell>
+                        <TableCell className="text-right text-sm text-muted-foreground whitespace-nowrap">
+                          {formatDistanceToNow(new Date(caller.lastHitAt), { addSuffix: true })}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
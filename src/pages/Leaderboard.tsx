@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { LeaderboardCard } from "@/components/leaderboard/LeaderboardCard";
+import { VerifiedLeaderboardList } from "@/components/leaderboard/VerifiedLeaderboardList";
 import { mockLeaders, tradingStyleLabels, marketFocusLabels, TradingStyle, MarketFocus } from "@/data/mockData";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
@@ -108,6 +109,9 @@ const Leaderboard = () => {
             <TabsTrigger value="today" className="flex-1 data-[state=active]:bg-primary/10 data-[state=active]:text-primary">
               Today
             </TabsTrigger>
+            <TabsTrigger value="verified" className="flex-1 data-[state=active]:bg-primary/10 data-[state=active]:text-primary">
+              Verified
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="all" className="mt-4 space-y-3">
@@ -141,6 +145,10 @@ const Leaderboard = () => {
               <p className="text-sm">Daily leaderboard updates at midnight UTC</p>
             </div>
           </TabsContent>
+
+          <TabsContent value="verified" className="mt-4">
+            <VerifiedLeaderboardList />
+          </TabsContent>
         </Tabs>
       </div>
     </AppLayout>
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from "react-router-dom";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
@@ -13,7 +14,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowUpDown, CalendarIcon, Filter, TrendingUp, TrendingDown, Clock, Search, Zap, TestTube, Trash2, List, BarChart3 } from "lucide-react";
+import { ArrowUpDown, CalendarIcon, Filter, TrendingUp, TrendingDown, Clock, Search, Zap, TestTube, Trash2, List, BarChart3, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
@@ -26,6 +27,11 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { TradeAnalytics } from "@/components/trades/TradeAnalytics";
+import { AccountFilter } from "@/components/trades/AccountFilter";
+import { useTradingAccounts } from "@/hooks/useTradingAccounts";
+import { updateTradingMetrics } from "@/hooks/useTradingMetrics";
+import { useDeadLetters } from "@/hooks/useDeadLetters";
+import { MATCHING_METHOD_LABELS, MatchingMethod } from "@/lib/tradeAnalyzer";
 
 interface Position {
   id: number;
@@ -37,9 +43,18 @@ interface Position {
   exit_price: number | null;
   exit_timestamp: string | null;
   pnl: number | null;
+  net_pnl: number | null;
+  fees_total: number;
+  pnl_native: number | null;
+  pnl_currency: string | null;
+  account_currency: string | null;
+  // No FX rate was found, so the PnL is still in pnl_currency
+  pnl_unconverted: boolean;
   platform: string | null;
   open: boolean;
   created_at: string;
+  matching_method: string | null;
+  account_id: string | null;
 }
 
 type SortField = 'entry_timestamp' | 'symbol' | 'pnl';
@@ -47,8 +62,17 @@ type SortDirection = 'asc' | 'desc';
 
 const ITEMS_PER_PAGE = 10;
 
+// Amounts are in the position's account currency; rows from before currency
+// conversion have none and were always shown as dollars
+function formatAmount(value: number, currency: string | null): string {
+  return !currency || currency === 'USD' ? `$${value.toFixed(2)}` : `${value.toFixed(2)} ${currency}`;
+}
+
 export default function PastTrades() {
   const { user } = useAuth();
+  const { accounts, getAccountName } = useTradingAccounts();
+  const { deadLetters } = useDeadLetters();
+  const navigate = useNavigate();
   const [positions, setPositions] = useState<Position[]>([]);
   const [loading, setLoading] = useState(true);
   const [totalCount, setTotalCount] = useState(0);
@@ -61,6 +85,7 @@ export default function PastTrades() {
   const [symbolFilter, setSymbolFilter] = useState('');
   const [sideFilter, setSideFilter] = useState<string>('all');
   const [platformFilter, setPlatformFilter] = useState<string>('all');
+  const [accountFilter, setAccountFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [dateFrom, setDateFrom] = useState<Date | undefined>();
   const [dateTo, setDateTo] = useState<Date | undefined>();
@@ -83,7 +108,7 @@ export default function PastTrades() {
     if (user) {
       fetchPositions();
     }
-  }, [user, currentPage, symbolFilter, sideFilter, platformFilter, statusFilter, dateFrom, dateTo, sortField, sortDirection]);
+  }, [user, currentPage, symbolFilter, sideFilter, platformFilter, accountFilter, statusFilter, dateFrom, dateTo, sortField, sortDirection]);
 
   const fetchUserRole = async () => {
     const { data } = await supabase.rpc('get_user_role', { _user_id: user!.id });
@@ -121,6 +146,9 @@ export default function PastTrades() {
     if (platformFilter !== 'all') {
       query = query.eq('platform', platformFilter);
     }
+    if (accountFilter !== 'all') {
+      query = query.eq('account_id', accountFilter);
+    }
     if (statusFilter === 'open') {
       query = query.eq('open', true);
     } else if (statusFilter === 'closed') {
@@ -137,7 +165,7 @@ export default function PastTrades() {
 
     // Apply sorting
     if (sortField === 'pnl') {
-      query = query.order('pnl', { ascending: sortDirection === 'asc', nullsFirst: false });
+      query = query.order('net_pnl', { ascending: sortDirection === 'asc', nullsFirst: false });
     } else {
       query = query.order(sortField, { ascending: sortDirection === 'asc' });
     }
@@ -213,6 +241,8 @@ export default function PastTrades() {
                     <AlertDialogTitle>Delete all past trades?</AlertDialogTitle>
                     <AlertDialogDescription>
                       This will permanently delete all your positions and trade logs. This action cannot be undone.
+                      Deleting closed trades is flagged for review and suspends verified metrics until an admin clears
+                      it.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
@@ -231,6 +261,7 @@ export default function PastTrades() {
                           toast.error('Failed to delete trades');
                         } else {
                           toast.success('All trades deleted');
+                          updateTradingMetrics();
                           fetchPositions();
                           setRefreshTrigger(prev => prev + 1);
                         }
@@ -246,6 +277,33 @@ export default function PastTrades() {
           </Card>
         )}
 
+        {/* Events receive-trade could not apply */}
+        {deadLetters.length > 0 && (
+          <Card className="border-destructive/50 bg-destructive/10">
+            <CardContent className="py-3 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                <span className="text-sm">
+                  {deadLetters.length} trade event{deadLetters.length !== 1 ? 's' : ''} could not be applied
+                </span>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => navigate('/rejected-events')}>
+                Review
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Account scope - applies to both trades and analytics */}
+        {accounts.length > 1 && (
+          <AccountFilter
+            accounts={accounts}
+            value={accountFilter}
+            onChange={(v) => { setAccountFilter(v); setCurrentPage(1); }}
+            className="w-full"
+          />
+        )}
+
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as 'trades' | 'analytics')} className="w-full">
           <TabsList className="w-full bg-card border border-border">
@@ -415,8 +473,11 @@ export default function PastTrades() {
                       <TableHead className="text-right">Size</TableHead>
                       <TableHead className="text-right">Entry</TableHead>
                       <TableHead className="text-right">Exit</TableHead>
-                      <TableHead className="text-right">P/L</TableHead>
+                      <TableHead className="text-right">Net P/L</TableHead>
+                      <TableHead className="text-right">Fees</TableHead>
                       <TableHead>Platform</TableHead>
+                      <TableHead>Account</TableHead>
+                      <TableHead>Matching</TableHead>
                       <TableHead>Time</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -455,14 +516,32 @@ export default function PastTrades() {
                         </TableCell>
                         <TableCell className={cn(
                           "text-right font-mono text-sm",
-                          position.pnl != null && position.pnl > 0 && "text-emerald-400",
-                          position.pnl != null && position.pnl < 0 && "text-red-400"
-                        )}>
-                          {position.pnl != null ? `${position.pnl >= 0 ? '+' : ''}$${position.pnl.toFixed(2)}` : '-'}
+                          position.net_pnl != null && position.net_pnl > 0 && "text-emerald-400",
+                          position.net_pnl != null && position.net_pnl < 0 && "text-red-400"
+                        )}
+                        title={
+                          position.pnl_unconverted
+                            ? `Not converted to the account currency (no ${position.pnl_currency} rate); left out of metrics`
+                            : position.pnl_native != null && position.pnl_currency && position.pnl_currency !== position.account_currency
+                              ? `Gross ${formatAmount(position.pnl_native, position.pnl_currency)} before conversion`
+                              : undefined
+                        }>
+                          {position.net_pnl != null ? `${position.net_pnl >= 0 ? '+' : ''}${formatAmount(position.net_pnl, position.account_currency)}` : '-'}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm text-muted-foreground">
+                          {position.fees_total !== 0 ? formatAmount(position.fees_total, position.account_currency) : '-'}
                         </TableCell>
                         <TableCell className="text-muted-foreground text-sm">
                           {position.platform || '-'}
                         </TableCell>
+                        <TableCell className="text-muted-foreground text-sm whitespace-nowrap">
+                          {getAccountName(position.account_id) || '-'}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-sm whitespace-nowrap">
+                          {position.matching_method
+                            ? MATCHING_METHOD_LABELS[position.matching_method as MatchingMethod] ?? position.matching_method
+                            : '-'}
+                        </TableCell>
                         <TableCell className="text-muted-foreground text-sm whitespace-nowrap">
                           {format(new Date(position.entry_timestamp), "MMM d, HH:mm")}
                         </TableCell>
@@ -520,7 +599,10 @@ export default function PastTrades() {
           </TabsContent>
 
           <TabsContent value="analytics" className="mt-4">
-            <TradeAnalytics refreshTrigger={refreshTrigger} />
+            <TradeAnalytics
+              refreshTrigger={refreshTrigger}
+              accountId={accountFilter === 'all' ? null : accountFilter}
+            />
           </TabsContent>
         </Tabs>
       </div>
@@ -15,8 +15,13 @@ import { UserSearch } from "@/components/social/UserSearch";
 import { ConnectExchangeButton } from "@/components/exchange/ConnectExchangeButton";
 import { ExchangeStatusBadge } from "@/components/exchange/ExchangeStatusBadge";
 import { VerifiedMetricsCard } from "@/components/metrics/VerifiedMetricsCard";
+import { MetricsTrendCard } from "@/components/metrics/MetricsTrendCard";
+import { TradingAccountsSection } from "@/components/profile/TradingAccountsSection";
+import { AccountFilter } from "@/components/trades/AccountFilter";
 import { useExchangeConnections } from "@/hooks/useExchangeConnections";
 import { useTradingMetrics } from "@/hooks/useTradingMetrics";
+import { useMetricSnapshots } from "@/hooks/useMetricSnapshots";
+import { useTradingAccounts } from "@/hooks/useTradingAccounts";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -37,6 +42,9 @@ import {
   User,
   Calendar,
   Link2,
+  Ruler,
+  Gauge,
+  ShieldAlert,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -80,13 +88,30 @@ const Profile = () => {
     total_hits: 0,
   });
   const [explanationPredictionId, setExplanationPredictionId] = useState<string | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
   const [showSocialDialog, setShowSocialDialog] = useState(false);
 
   const { predictions: tradePredictions, loading: loadingTradePredictions } = useUserTradePredictions(userId);
   const { predictions: longTermPredictions, loading: loadingLongTermPredictions } = useUserLongTermPredictions(userId);
   const { following, followers, followUser, unfollowUser, isFollowing, loading: loadingFollows } = useFollows(userId);
   const { connections, loading: loadingExchanges } = useExchangeConnections();
-  const { metrics, loading: loadingMetrics, calculating, recalculate } = useTradingMetrics();
+  const { accounts, refetch: refetchAccounts } = useTradingAccounts();
+  const [metricsAccount, setMetricsAccount] = useState("all");
+  const { metrics, loading: loadingMetrics, calculating, recalculate } = useTradingMetrics(
+    metricsAccount === "all" ? null : metricsAccount
+  );
+  const {
+    snapshots,
+    comparison,
+    loading: loadingSnapshots,
+    refetch: refetchSnapshots,
+  } = useMetricSnapshots(metricsAccount === "all" ? null : metricsAccount);
+
+  // A rebuild rewrites the snapshot history too
+  const handleRecalculate = async () => {
+    await recalculate();
+    await refetchSnapshots();
+  };
 
   // Filter to only show resolved predictions (hit/missed) from real trades
   const resolvedTradePredictions = tradePredictions.filter((p) => p.status === "hit" || p.status === "missed");
@@ -105,6 +130,9 @@ const Profile = () => {
 
         setUserId(user.id);
 
+        const { data: role } = await supabase.rpc("get_user_role", { _user_id: user.id });
+        setIsAdmin(role === "admin");
+
         // Fetch profile with streak data
         const { data: profileData } = await supabase
           .from("profiles")
@@ -120,7 +148,7 @@ const Profile = () => {
         // Fetch recent trades from positions table (only user's trades, including simulation)
         const { data, error } = await supabase
           .from("positions")
-          .select("id, symbol, side, entry_price, exit_price, pnl, entry_timestamp, is_simulation")
+          .select("id, symbol, side, entry_price, exit_price, pnl:net_pnl, entry_timestamp, is_simulation")
           .eq("user_id", user.id)
           .order("entry_timestamp", { ascending: false })
           .limit(5);
@@ -342,15 +370,45 @@ const Profile = () => {
           </Card>
         )}
 
+        {/* Trading Accounts */}
+        {userId && <TradingAccountsSection onAccountsChange={refetchAccounts} />}
+
+        {/* Admin: instrument contract specs, API rate limits and integrity review */}
+        {isAdmin && (
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" className="w-full gap-2" onClick={() => navigate("/admin/instruments")}>
+              <Ruler className="w-4 h-4" />
+              Manage Instruments
+            </Button>
+            <Button variant="outline" className="w-full gap-2" onClick={() => navigate("/admin/rate-limits")}>
+              <Gauge className="w-4 h-4" />
+              Rate Limits
+            </Button>
+            <Button variant="outline" className="w-full gap-2 col-span-2" onClick={() => navigate("/admin/integrity")}>
+              <ShieldAlert className="w-4 h-4" />
+              Integrity Flags
+            </Button>
+          </div>
+        )}
+
         {/* Verified Trading Metrics */}
+        {userId && accounts.length > 1 && (
+          <AccountFilter
+            accounts={accounts}
+            value={metricsAccount}
+            onChange={setMetricsAccount}
+            className="w-full"
+          />
+        )}
         {userId && (
           <VerifiedMetricsCard
             metrics={metrics}
             loading={loadingMetrics}
             calculating={calculating}
-            onRecalculate={recalculate}
+            onRecalculate={handleRecalculate}
           />
         )}
+        {userId && <MetricsTrendCard snapshots={snapshots} comparison={comparison} loading={loadingSnapshots} />}
 
         {/* Stats Grid */}
         <DefaultStatsGrid />
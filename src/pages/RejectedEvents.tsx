@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from "date-fns";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { useAuth } from "@/hooks/useAuth";
+import { useDeadLetters, DeadLetter, DeadLetterStatus } from "@/hooks/useDeadLetters";
+import { useTradingAccounts } from "@/hooks/useTradingAccounts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, Pencil, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { DeadLetterDialog } from "@/components/trades/DeadLetterDialog";
+
+function describeEvent(letter: DeadLetter): string {
+  const { payload } = letter;
+  const parts = [payload.side, payload.quantity, payload.symbol, payload.price !== undefined ? `@ ${payload.price}` : null];
+  return parts.filter((p) => p !== undefined && p !== null && p !== '').join(' ') || 'No trade details';
+}
+
+export default function RejectedEvents() {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<DeadLetterStatus>('pending');
+  const { deadLetters, loading, resubmit, discard } = useDeadLetters(status);
+  const { getAccountName } = useTradingAccounts();
+  const [editing, setEditing] = useState<DeadLetter | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleResubmit = async (letter: DeadLetter, event: Record<string, unknown>): Promise<string | null> => {
+    const result = await resubmit(letter.id, event);
+    if (result.success) {
+      toast.success(`${letter.event_type ?? 'Event'} applied`);
+      return null;
+    }
+    return result.error || 'Resubmission failed';
+  };
+
+  const handleRetry = async (letter: DeadLetter) => {
+    setBusyId(letter.id);
+    const error = await handleResubmit(letter, letter.payload);
+    setBusyId(null);
+    if (error) toast.error(error);
+  };
+
+  const handleDiscard = async (letter: DeadLetter) => {
+    if (!confirm('Discard this event? It will not be applied to your positions.')) {
+      return;
+    }
+
+    setBusyId(letter.id);
+    if (await discard(letter.id)) {
+      toast.success('Event discarded');
+    } else {
+      toast.error('Failed to discard event');
+    }
+    setBusyId(null);
+  };
+
+  if (!user) {
+    return (
+      <AppLayout title="Rejected Events">
+        <div className="flex items-center justify-center h-64">
+          <p className="text-muted-foreground">Please log in to view rejected events.</p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout title="Rejected Events">
+      <div className="px-4 py-4 space-y-4 pb-24">
+        <p className="text-sm text-muted-foreground">
+          Trade events that could not be applied, such as exits with no open position or entries missing a price.
+          Fix and resubmit them, or discard the ones you don't need.
+        </p>
+
+        <Tabs value={status} onValueChange={(v) => setStatus(v as DeadLetterStatus)}>
+          <TabsList className="w-full">
+            <TabsTrigger value="pending" className="flex-1">Pending</TabsTrigger>
+            <TabsTrigger value="resolved" className="flex-1">Resolved</TabsTrigger>
+            <TabsTrigger value="discarded" className="flex-1">Discarded</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : deadLetters.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-12 text-center">
+            {status === 'pending' ? 'No rejected events. Everything was applied.' : `No ${status} events.`}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {deadLetters.map((letter) => (
+              <Card key={letter.id}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Badge variant="outline" className="text-xs font-mono">
+                          {letter.event_type ?? 'UNKNOWN'}
+                        </Badge>
+                        <span className="text-sm font-medium truncate">{describeEvent(letter)}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(letter.last_failed_at), { addSuffix: true })}
+                        {letter.attempts > 1 && ` · ${letter.attempts} attempts`}
+                        {getAccountName(letter.account_id) && ` · ${getAccountName(letter.account_id)}`}
+                      </p>
+                    </div>
+                    {status === 'pending' && (
+                      <div className="flex gap-1 shrink-0">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          title="Fix and resubmit"
+                          disabled={busyId === letter.id}
+                          onClick={() => setEditing(letter)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          title="Resubmit as is"
+                          disabled={busyId === letter.id}
+                          onClick={() => handleRetry(letter)}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-destructive"
+                          title="Discard"
+                          disabled={busyId === letter.id}
+                          onClick={() => handleDiscard(letter)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <div
+                    className={`flex items-start gap-2 text-sm ${letter.status === 'resolved' ? 'text-muted-foreground' : 'text-destructive'}`}
+                  >
+                    <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                    <span>{letter.error_reason}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <DeadLetterDialog
+        deadLetter={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onResubmit={(event) => handleResubmit(editing as DeadLetter, event)}
+      />
+    </AppLayout>
+  );
+}
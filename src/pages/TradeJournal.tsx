@@ -3,11 +3,14 @@ import { AppLayout } from "@/components/layout/AppLayout";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BookOpen, Upload, BarChart3, Lock } from "lucide-react";
 import { OrderCSVImporter } from "@/components/trades/OrderCSVImporter";
+import { MatchingMethodSelect } from "@/components/trades/MatchingMethodSelect";
 import { TradeJournalList } from "@/components/trades/TradeJournalList";
 import { TradeJournalSummary } from "@/components/trades/TradeJournalSummary";
+import { useMatchingMethod } from "@/hooks/useMatchingMethod";
 
 export default function TradeJournal() {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const { method: matchingMethod, saving: savingMethod, updateMethod } = useMatchingMethod();
 
   const handleImportComplete = () => {
     setRefreshTrigger(prev => prev + 1);
@@ -43,8 +46,9 @@ export default function TradeJournal() {
             <TradeJournalList refreshTrigger={refreshTrigger} />
           </TabsContent>
 
-          <TabsContent value="import" className="mt-4">
-            <OrderCSVImporter onImportComplete={handleImportComplete} />
+          <TabsContent value="import" className="mt-4 space-y-4">
+            <MatchingMethodSelect method={matchingMethod} saving={savingMethod} onChange={updateMethod} />
+            <OrderCSVImporter matchingMethod={matchingMethod} onImportComplete={handleImportComplete} />
           </TabsContent>
 
           <TabsContent value="analytics" className="mt-4">
@@ -12,6 +12,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { useFollows } from "@/hooks/useFollows";
 import { PublicPredictionCard, PublicPredictionData } from "@/components/predictions/PublicPredictionCard";
 import { AvatarDisplay } from "@/components/profile/AvatarDisplay";
+import { PerformanceStats } from "@/components/metrics/VerifiedMetricsCard";
+import { VerificationTierBadge } from "@/components/metrics/VerificationTierBadge";
+import { AccuracyBreakdown, TradingMetrics } from "@/hooks/useTradingMetrics";
 import { 
   Flame, 
   Snowflake, 
@@ -309,6 +312,7 @@ const TraderProfile = () => {
   const navigate = useNavigate();
   const [profile, setProfile] = useState<PublicProfile | null>(null);
   const [traderMeta, setTraderMeta] = useState<FakeTraderMeta | null>(null);
+  const [verifiedMetrics, setVerifiedMetrics] = useState<TradingMetrics | null>(null);
   const [predictions, setPredictions] = useState<PublicPredictionData[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingPredictions, setLoadingPredictions] = useState(true);
@@ -399,8 +403,34 @@ const TraderProfile = () => {
       }
     };
 
+    // Only verified rows with 30+ trades are readable by other users
+    const fetchVerifiedMetrics = async () => {
+      const { data, error } = await supabase
+        .from("user_trading_metrics")
+        .select("*")
+        .eq("user_id", userId)
+        .is("account_id", null)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Failed to fetch trading metrics:", error);
+        return;
+      }
+
+      setVerifiedMetrics(
+        data
+          ? {
+              ...data,
+              api_status: data.api_status as "connected" | "disconnected",
+              accuracy_breakdown: data.accuracy_breakdown as unknown as AccuracyBreakdown | null,
+            }
+          : null,
+      );
+    };
+
     fetchProfile();
     fetchPredictions();
+    fetchVerifiedMetrics();
   }, [userId]);
 
   // Re-map predictions when profile loads
@@ -635,6 +665,25 @@ const TraderProfile = () => {
           </Card>
         )}
 
+        {/* Performance Statistics */}
+        {verifiedMetrics && verifiedMetrics.total_verified_trades > 0 && (
+          <Card variant="glass">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium flex items-center gap-2">
+                <BarChart3 className="w-4 h-4 text-primary" />
+                Performance
+                <VerificationTierBadge tier={verifiedMetrics.verification_tier} className="ml-auto text-xs" />
+                <Badge variant="outline" className="text-xs font-normal">
+                  {verifiedMetrics.total_verified_trades} verified trades
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <PerformanceStats metrics={verifiedMetrics} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Trader Profile Info */}
         {traderMeta && (
           <Card variant="glass">
@@ -0,0 +1,89 @@
+/**
+ * Scoped API key authentication for edge functions.
+ *
+ * Keys live in api_keys as a SHA-256 hash. A key authenticates when it is
+ * known, not revoked, not expired and carries the scope the endpoint needs.
+ * Each key also carries its own request-signing secret and signed mode.
+ * Each accepted request bumps the key's usage stats; failing to record usage
+ * never fails the request.
+ */
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ApiKeyScope = "trades:write" | "metrics:read" | "predictions:read";
+
+export interface ApiKeyAuthResult {
+  success: boolean;
+  userId?: string;
+  keyId?: string;
+  signingSecret?: string | null;
+  requireSigned?: boolean;
+  // Known, active key without the required scope
+  forbidden?: boolean;
+  error?: string;
+}
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  scopes: string[];
+  expires_at: string | null;
+  revoked_at: string | null;
+  signing_secret: string | null;
+  require_signed_requests: boolean;
+}
+
+export async function hashApiKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(apiKey));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function authenticateApiKey(
+  serviceClient: SupabaseClient,
+  apiKey: string | null,
+  scope: ApiKeyScope,
+  ip: string | null = null,
+): Promise<ApiKeyAuthResult> {
+  if (!apiKey) {
+    return { success: false, error: "Missing x-api-key header" };
+  }
+
+  const { data, error } = await serviceClient
+    .from("api_keys")
+    .select("id, user_id, scopes, expires_at, revoked_at, signing_secret, require_signed_requests")
+    .eq("key_hash", await hashApiKey(apiKey))
+    .maybeSingle();
+
+  if (error) {
+    console.error("API key lookup error:", error);
+    return { success: false, error: "API key validation failed" };
+  }
+
+  const key = data as ApiKeyRow | null;
+  if (!key) {
+    return { success: false, error: "Invalid API key" };
+  }
+  if (key.revoked_at) {
+    return { success: false, error: "API key has been revoked" };
+  }
+  if (key.expires_at && new Date(key.expires_at).getTime() <= Date.now()) {
+    return { success: false, error: "API key has expired" };
+  }
+  if (!key.scopes.includes(scope)) {
+    return { success: false, forbidden: true, userId: key.user_id, keyId: key.id, error: `API key lacks the ${scope} scope` };
+  }
+
+  const { error: usageError } = await serviceClient.rpc("record_api_key_use", { _key_id: key.id, _ip: ip });
+  if (usageError) {
+    console.error("Failed to record API key usage:", usageError);
+  }
+
+  return {
+    success: true,
+    userId: key.user_id,
+    keyId: key.id,
+    signingSecret: key.signing_secret,
+    requireSigned: key.require_signed_requests,
+  };
+}
@@ -0,0 +1,406 @@
+/**
+ * Native MetaTrader 4/5 and cTrader payloads for receive-trade.
+ *
+ * Expert Advisors and cBots post what the terminal hands them: deals and
+ * tickets, volumes in lots, commission, swap and magic numbers. These adapters
+ * map that onto the TRADE_ENTRY / TRADE_EXIT / TRADE_MODIFY events the rest of
+ * the pipeline handles, carrying the broker's position ID as
+ * `broker_position_id` so exits close the position the broker closed rather
+ * than whichever lot FIFO would pick.
+ *
+ * A payload is native when `source` (or `platform`) names MT4, MT5 or cTrader
+ * and it does not already use one of our event types. Times should be sent in
+ * UTC (TimeGMT() / Server.TimeInUtc), as Unix seconds, milliseconds or
+ * "YYYY.MM.DD HH:MM:SS".
+ */
+
+import { parseSymbol } from "./symbols.ts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BrokerPlatform = "MT4" | "MT5" | "cTrader";
+
+export interface BrokerTranslation {
+  event?: Record<string, unknown>;
+  // Payloads with nothing to apply (balance deals, pending orders)
+  ignored?: string;
+  error?: string;
+}
+
+const PLATFORM_NAMES: Record<BrokerPlatform, string> = {
+  MT4: "MetaTrader 4",
+  MT5: "MetaTrader 5",
+  cTrader: "cTrader",
+};
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+// Event types our own payloads use; anything carrying one is already ours
+const NATIVE_EVENT_TYPE = /^(TRADE_ENTRY|TRADE_EXIT|TRADE_MODIFY|FEE|FUNDING|USER_ACTIVITY)$/i;
+
+export function detectBrokerPlatform(body: Record<string, unknown>): BrokerPlatform | null {
+  if (body.event_type !== undefined || (typeof body.type === "string" && NATIVE_EVENT_TYPE.test(body.type))) {
+    return null;
+  }
+
+  const source = String(body.source ?? body.platform ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+  if (source === "mt4" || source === "metatrader4") return "MT4";
+  if (source === "mt5" || source === "metatrader5") return "MT5";
+  if (source === "ctrader") return "cTrader";
+  return null;
+}
+
+// ============================================================================
+// FIELD HELPERS
+// ============================================================================
+
+function text(raw: unknown): string | null {
+  if (raw === undefined || raw === null) return null;
+  const value = String(raw).trim();
+  return value === "" ? null : value;
+}
+
+function num(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === "") return null;
+  const value = Number(raw);
+  return isNaN(value) ? null : value;
+}
+
+// "DEAL_TYPE_SELL", "SELL", 1 and "1" all give "SELL" for prefix "DEAL_TYPE_"
+function mtEnum(raw: unknown, prefix: string, names: readonly string[]): string | null {
+  const value = text(raw);
+  if (value === null) return null;
+  if (/^\d+$/.test(value)) return names[Number(value)] ?? null;
+
+  const name = value.toUpperCase().replace(prefix, "");
+  return names.includes(name) ? name : null;
+}
+
+// MQL's "2024.01.19 10:30:00" and Unix times sent as strings are not something Date parses
+function brokerTime(raw: unknown): unknown {
+  if (typeof raw !== "string") return raw;
+  const value = raw.trim();
+  if (/^\d+$/.test(value)) return Number(value);
+
+  const match = value.match(/^(\d{4})\.(\d{2})\.(\d{2})[ T](\d{2}:\d{2}(?::\d{2})?)$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}Z` : raw;
+}
+
+// "EURUSDm", "EURUSD.pro", "XAUUSD#" -> "EURUSD", "EURUSD", "XAUUSD"; other symbols as sent
+function brokerSymbol(raw: unknown): string | null {
+  const symbol = text(raw);
+  if (!symbol) return null;
+
+  const head = symbol.match(/^([A-Za-z]{6})(?:[.#+_-][A-Za-z0-9]*|[a-z]+)$/)?.[1].toUpperCase();
+  if (head) {
+    const assetClass = parseSymbol(head).assetClass;
+    if (assetClass === "forex" || assetClass === "metal") return head;
+  }
+  return symbol;
+}
+
+/**
+ * Units per lot. EAs should send SYMBOL_TRADE_CONTRACT_SIZE as contract_size;
+ * without it, the usual FX and metal contract sizes apply and anything else
+ * counts one unit per lot (index and commodity CFDs, registry contracts).
+ */
+function contractSize(symbol: string, body: Record<string, unknown>): number {
+  const sent = num(body.contract_size ?? body.contractSize);
+  if (sent !== null && sent > 0) return sent;
+
+  const parsed = parseSymbol(symbol);
+  if (parsed.assetClass === "forex") return 100000;
+  if (parsed.assetClass === "metal") return parsed.base === "XAG" ? 5000 : 100;
+  return 1;
+}
+
+// Fields every translated event shares
+function baseEvent(
+  platform: BrokerPlatform,
+  body: Record<string, unknown>,
+  type: string,
+  symbol: string,
+  brokerPositionId: string,
+): Record<string, unknown> {
+  const account = body.account_id ?? body.accountId ?? body.account ?? body.login;
+
+  return {
+    type,
+    symbol,
+    platform: PLATFORM_NAMES[platform],
+    broker_position_id: brokerPositionId,
+    ...(account !== undefined && account !== null && account !== "" ? { account: String(account) } : {}),
+    // Kept as sent for the trade log and dead-letter queue
+    broker_payload: body,
+  };
+}
+
+// Lots plus the units our PnL math works in
+function sizeFields(symbol: string, body: Record<string, unknown>, lots: number): Record<string, unknown> {
+  return { quantity: Number((lots * contractSize(symbol, body)).toFixed(8)), quantity_lots: lots };
+}
+
+// Broker commission is negative when charged; ours is always a positive cost
+function chargeFields(commission: number | null, swap: number | null): Record<string, unknown> {
+  return {
+    ...(commission ? { commission: Math.abs(commission) } : {}),
+    ...(swap ? { swap } : {}),
+  };
+}
+
+function riskFields(body: Record<string, unknown>): Record<string, unknown> {
+  const stopLoss = num(body.sl ?? body.stop_loss ?? body.stopLoss);
+  const takeProfit = num(body.tp ?? body.take_profit ?? body.takeProfit);
+
+  // MetaTrader reports "no stop" as 0
+  return {
+    ...(stopLoss ? { stop_loss: stopLoss } : {}),
+    ...(takeProfit ? { take_profit: takeProfit } : {}),
+  };
+}
+
+// ============================================================================
+// METATRADER 5 DEALS
+// ============================================================================
+
+// ENUM_DEAL_TYPE, in order; only BUY and SELL deals move positions
+const MT5_DEAL_TYPES = [
+  "BUY", "SELL", "BALANCE", "CREDIT", "CHARGE", "CORRECTION", "BONUS", "COMMISSION",
+  "COMMISSION_DAILY", "COMMISSION_MONTHLY", "COMMISSION_AGENT_DAILY", "COMMISSION_AGENT_MONTHLY",
+  "INTEREST", "BUY_CANCELED", "SELL_CANCELED", "DIVIDEND", "DIVIDEND_FRANKED", "TAX",
+] as const;
+
+const MT5_DEAL_ENTRIES = ["IN", "OUT", "INOUT", "OUT_BY"] as const;
+
+/**
+ * One MT5 deal (HistoryDealGet* or OnTradeTransaction). IN deals open or add
+ * to a position; INOUT reverses a netting position and is sent as an entry on
+ * the deal's side, which closes the opposite position with the same ID and
+ * opens the excess. OUT and OUT_BY deals close the position by ID.
+ */
+function translateMt5Deal(body: Record<string, unknown>): BrokerTranslation {
+  const dealType = mtEnum(body.type ?? body.deal_type, "DEAL_TYPE_", MT5_DEAL_TYPES);
+  if (dealType !== "BUY" && dealType !== "SELL") {
+    return { ignored: `MT5 ${dealType ?? "unknown"} deals do not affect positions` };
+  }
+
+  const entry = mtEnum(body.entry, "DEAL_ENTRY_", MT5_DEAL_ENTRIES);
+  if (!entry) {
+    return { error: "MT5 deal requires entry (DEAL_ENTRY_IN, DEAL_ENTRY_OUT, DEAL_ENTRY_INOUT or DEAL_ENTRY_OUT_BY)" };
+  }
+
+  const positionId = text(body.position_id ?? body.position);
+  const symbol = brokerSymbol(body.symbol);
+  const lots = num(body.volume ?? body.lots);
+  if (!positionId || !symbol || lots === null || lots <= 0) {
+    return { error: "MT5 deal requires position_id, symbol and a positive volume" };
+  }
+
+  const isEntry = entry === "IN" || entry === "INOUT";
+  const deal = text(body.deal ?? body.ticket);
+  const login = text(body.login) ?? "";
+  // Deal fees are commissions by another name
+  const commission = (Math.abs(num(body.commission) ?? 0) + Math.abs(num(body.fee) ?? 0)) || null;
+
+  return {
+    event: {
+      ...baseEvent("MT5", body, isEntry ? "TRADE_ENTRY" : "TRADE_EXIT", symbol, positionId),
+      ...(isEntry ? { side: dealType === "BUY" ? "long" : "short", ...riskFields(body) } : {}),
+      price: body.price,
+      ...sizeFields(symbol, body, lots),
+      timestamp: brokerTime(body.time_msc ?? body.time ?? body.timestamp),
+      ...chargeFields(commission, num(body.swap)),
+      ...(deal ? { event_id: `mt5:${login}:${deal}` } : {}),
+      ...(text(body.magic) ? { magic_number: text(body.magic) } : {}),
+    },
+  };
+}
+
+// ============================================================================
+// METATRADER 4 ORDERS
+// ============================================================================
+
+// Market orders, then the pending types; 6 is a balance record
+const MT4_ORDER_TYPES = ["BUY", "SELL", "BUYLIMIT", "SELLLIMIT", "BUYSTOP", "SELLSTOP"] as const;
+
+/**
+ * One MT4 market order, keyed by ticket. `action` is open, close or modify;
+ * without it an order with a close_time is a close. Commission and swap are
+ * per-ticket totals, so they are taken from the close only.
+ *
+ * A partial close leaves the closed lots on the original ticket and reopens
+ * the remainder as a new ticket commented "from #<original>". That ticket is
+ * still the original position here, so its open is ignored and its close
+ * targets the original ticket. The comment only points one hop back, so a
+ * second partial close of the same position falls back to the remainder's
+ * ticket.
+ */
+function translateMt4Order(body: Record<string, unknown>): BrokerTranslation {
+  const orderType = mtEnum(body.type ?? body.cmd, "OP_", MT4_ORDER_TYPES);
+  if (orderType !== "BUY" && orderType !== "SELL") {
+    return { ignored: `MT4 ${orderType ?? "unknown"} orders are not open positions` };
+  }
+
+  const ticket = text(body.ticket);
+  const symbol = brokerSymbol(body.symbol);
+  if (!ticket || !symbol) {
+    return { error: "MT4 order requires ticket and symbol" };
+  }
+
+  const closeTime = body.close_time;
+  const closed = closeTime !== undefined && closeTime !== null && closeTime !== 0 && closeTime !== "";
+  const action = text(body.action ?? body.event)?.toLowerCase() ?? (closed ? "close" : "open");
+  const parentTicket = String(body.comment ?? "").match(/from #(\d+)/i)?.[1] ?? null;
+  const positionId = parentTicket ?? ticket;
+  const login = text(body.login) ?? "";
+
+  if (action === "modify") {
+    return { event: { ...baseEvent("MT4", body, "TRADE_MODIFY", symbol, positionId), ...riskFields(body) } };
+  }
+
+  if (action !== "open" && action !== "close") {
+    return { error: `Unknown MT4 action: ${action}` };
+  }
+
+  if (action === "open" && parentTicket) {
+    return { ignored: `Ticket ${ticket} is the remainder of partially closed #${parentTicket}` };
+  }
+
+  const lots = num(body.lots ?? body.volume);
+  if (lots === null || lots <= 0) {
+    return { error: "MT4 order requires positive lots" };
+  }
+
+  if (action === "open") {
+    return {
+      event: {
+        ...baseEvent("MT4", body, "TRADE_ENTRY", symbol, positionId),
+        side: orderType === "BUY" ? "long" : "short",
+        price: body.open_price ?? body.price,
+        ...sizeFields(symbol, body, lots),
+        timestamp: brokerTime(body.open_time ?? body.timestamp),
+        ...riskFields(body),
+        event_id: `mt4:${login}:${ticket}:open`,
+        ...(text(body.magic) ? { magic_number: text(body.magic) } : {}),
+      },
+    };
+  }
+
+  return {
+    event: {
+      ...baseEvent("MT4", body, "TRADE_EXIT", symbol, positionId),
+      price: body.close_price ?? body.price,
+      ...sizeFields(symbol, body, lots),
+      timestamp: brokerTime(closeTime ?? body.timestamp),
+      ...chargeFields(num(body.commission), num(body.swap)),
+      event_id: `mt4:${login}:${ticket}:close`,
+      ...(text(body.magic) ? { magic_number: text(body.magic) } : {}),
+    },
+  };
+}
+
+// ============================================================================
+// CTRADER POSITIONS
+// ============================================================================
+
+/**
+ * A cBot position event: opened, closed, partially_closed or modified, from
+ * Positions.Opened/Closed/Modified. Volume comes in units (VolumeInUnits) or
+ * lots; closes carry the closing deal's commission and swap.
+ */
+function translateCTraderEvent(body: Record<string, unknown>): BrokerTranslation {
+  // "opened", "Closed", "partially_closed", "PartiallyClosed"...
+  const action = text(body.event ?? body.action)?.toLowerCase().replace(/[^a-z]/g, "");
+  const positionId = text(body.position_id ?? body.positionId);
+  const symbol = brokerSymbol(body.symbol ?? body.symbol_name ?? body.symbolName);
+  if (!positionId || !symbol) {
+    return { error: "cTrader event requires position_id and symbol" };
+  }
+
+  if (action === "modified") {
+    return { event: { ...baseEvent("cTrader", body, "TRADE_MODIFY", symbol, positionId), ...riskFields(body) } };
+  }
+
+  if (action !== "opened" && action !== "closed" && action !== "partiallyclosed") {
+    return { error: `Unknown cTrader event: ${text(body.event ?? body.action) ?? "missing"}` };
+  }
+
+  const units = num(body.volume_in_units ?? body.volumeInUnits);
+  const lots = num(body.lots ?? body.quantity);
+  const size = contractSize(symbol, body);
+  const quantity = units ?? (lots !== null ? lots * size : null);
+  if (quantity === null || quantity <= 0) {
+    return { error: "cTrader event requires a positive volume_in_units or lots" };
+  }
+
+  const account = text(body.account ?? body.account_number ?? body.login) ?? "";
+  const deal = text(body.deal_id ?? body.dealId);
+  const sizing = { quantity, quantity_lots: lots ?? Number((quantity / size).toFixed(8)) };
+
+  if (action === "opened") {
+    const tradeType = String(body.trade_type ?? body.tradeType ?? "").toLowerCase();
+    if (tradeType !== "buy" && tradeType !== "sell") {
+      return { error: "cTrader opened event requires trade_type Buy or Sell" };
+    }
+
+    return {
+      event: {
+        ...baseEvent("cTrader", body, "TRADE_ENTRY", symbol, positionId),
+        side: tradeType === "buy" ? "long" : "short",
+        price: body.entry_price ?? body.entryPrice ?? body.price,
+        ...sizing,
+        timestamp: brokerTime(body.entry_time ?? body.entryTime ?? body.timestamp),
+        ...riskFields(body),
+        event_id: deal ? `ctrader:${account}:${deal}` : `ctrader:${account}:${positionId}:opened`,
+        ...(text(body.label) ? { label: text(body.label) } : {}),
+      },
+    };
+  }
+
+  // Partial closes of one position are only told apart by their deal
+  const eventId = deal
+    ? `ctrader:${account}:${deal}`
+    : action === "closed"
+      ? `ctrader:${account}:${positionId}:closed`
+      : null;
+
+  return {
+    event: {
+      ...baseEvent("cTrader", body, "TRADE_EXIT", symbol, positionId),
+      price: body.closing_price ?? body.closingPrice ?? body.price,
+      ...sizing,
+      timestamp: brokerTime(body.closing_time ?? body.closingTime ?? body.timestamp),
+      ...chargeFields(num(body.commissions ?? body.commission), num(body.swap)),
+      ...(eventId ? { event_id: eventId } : {}),
+      ...(text(body.label) ? { label: text(body.label) } : {}),
+    },
+  };
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Map a native MT4/MT5/cTrader payload onto our event shape. Returns null for
+ * payloads that are already ours.
+ */
+export function translateBrokerEvent(body: Record<string, unknown>): BrokerTranslation | null {
+  switch (detectBrokerPlatform(body)) {
+    case "MT5":
+      return translateMt5Deal(body);
+    case "MT4":
+      return translateMt4Order(body);
+    case "cTrader":
+      return translateCTraderEvent(body);
+    default:
+      return null;
+  }
+}
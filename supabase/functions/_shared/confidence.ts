@@ -0,0 +1,103 @@
+/**
+ * 95% confidence intervals for trading metrics, so a short lucky run is not
+ * read as skill: the fewer the trades, the wider the interval.
+ *
+ * Win rate uses the Wilson score interval, which stays inside 0-100% and
+ * behaves at small samples and extreme rates where the normal approximation
+ * does not. Average R uses a percentile bootstrap, since R-multiples are
+ * skewed by the odd outsized winner and rarely close to normal.
+ *
+ * The bootstrap works from a reservoir: a uniform sample of at most
+ * RESERVOIR_SIZE R-multiples, kept as trades are added. Past that size the
+ * spread of the resampled means is scaled down to the full trade count, so
+ * the stored sample and the cost of each interval stay bounded however long
+ * the history gets.
+ */
+
+export interface Interval {
+  low: number;
+  high: number;
+}
+
+const Z_95 = 1.959964;
+
+const BOOTSTRAP_RESAMPLES = 1000;
+
+export const RESERVOIR_SIZE = 500;
+
+/** Wilson interval for successes out of trials, in percent. */
+export function wilsonInterval(successes: number, trials: number): Interval | null {
+  if (trials === 0) return null;
+
+  const p = successes / trials;
+  const z2 = Z_95 ** 2;
+  const denominator = 1 + z2 / trials;
+  const centre = (p + z2 / (2 * trials)) / denominator;
+  const margin = (Z_95 * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials ** 2))) / denominator;
+
+  return {
+    low: Math.max(0, centre - margin) * 100,
+    high: Math.min(1, centre + margin) * 100,
+  };
+}
+
+// mulberry32; seeded so the same trades always give the same stored interval
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Adds the count-th value (counting from 1) to a reservoir sample. Which slot
+ * it replaces depends only on count, so the same values in the same order
+ * always leave the same sample.
+ */
+export function addToReservoir(reservoir: number[], count: number, value: number): void {
+  if (reservoir.length < RESERVOIR_SIZE) {
+    reservoir.push(value);
+    return;
+  }
+
+  const slot = Math.floor(seededRandom(count)() * count);
+  if (slot < RESERVOIR_SIZE) reservoir[slot] = value;
+}
+
+/**
+ * Percentile bootstrap interval for the mean of count values, from a sample
+ * of them (all of them by default) and their true mean.
+ */
+export function bootstrapMeanInterval(
+  sample: number[],
+  count: number = sample.length,
+  mean?: number,
+): Interval | null {
+  const n = sample.length;
+  if (n < 2 || count < 2) return null;
+
+  const random = seededRandom(count);
+  const means = new Float64Array(BOOTSTRAP_RESAMPLES);
+  for (let b = 0; b < BOOTSTRAP_RESAMPLES; b++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      sum += sample[Math.floor(random() * n)];
+    }
+    means[b] = sum / n;
+  }
+  means.sort();
+
+  // The standard error of a mean shrinks with the square root of its count
+  const sampleMean = sample.reduce((sum, value) => sum + value, 0) / n;
+  const centre = mean ?? sampleMean;
+  const scale = Math.sqrt(n / count);
+
+  return {
+    low: centre + (means[Math.floor(BOOTSTRAP_RESAMPLES * 0.025)] - sampleMean) * scale,
+    high: centre + (means[Math.ceil(BOOTSTRAP_RESAMPLES * 0.975) - 1] - sampleMean) * scale,
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * FX conversion of position PnL into the trading account's base currency.
+ *
+ * Rates are daily closes as of the exit timestamp, read from price_cache and
+ * backfilled from Polygon when missing. Used by receive-trade on close and by
+ * rebuild-positions, so live and replayed positions convert identically.
+ */
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const POLYGON_BASE_URL = "https://api.polygon.io";
+
+// Weekend/holiday gaps: use the latest close at most this many days before the exit
+const MAX_RATE_AGE_DAYS = 5;
+
+// Cross rates are computed through USD when no direct pair is cached
+const PIVOT_CURRENCY = "USD";
+
+// Rates found during this worker's lifetime, keyed by pair and date. Misses are
+// not cached so a rate that lands in price_cache later is still picked up.
+const rateCache = new Map<string, number>();
+
+export interface FxConversion {
+  pnl: number;
+  pnlNative: number;
+  pnlCurrency: string;
+  accountCurrency: string;
+  fxRate: number | null;
+  // False when no rate was found and pnl is still in pnlCurrency
+  converted: boolean;
+}
+
+// ============================================================================
+// ACCOUNT CURRENCY
+// ============================================================================
+
+/** The account's base currency, falling back to the user's profile setting, then USD. */
+export async function resolveAccountCurrency(
+  serviceClient: SupabaseClient,
+  userId: string,
+  accountId: string | null,
+): Promise<string> {
+  if (accountId) {
+    const { data: account } = await serviceClient
+      .from("trading_accounts")
+      .select("base_currency")
+      .eq("id", accountId)
+      .maybeSingle();
+
+    if (account?.base_currency) return account.base_currency;
+  }
+
+  const { data: profile } = await serviceClient
+    .from("profiles")
+    .select("base_currency")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return profile?.base_currency || "USD";
+}
+
+// ============================================================================
+// RATE LOOKUP
+// ============================================================================
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+async function cachedClose(serviceClient: SupabaseClient, pair: string, at: Date): Promise<number | null> {
+  const earliest = new Date(at.getTime() - MAX_RATE_AGE_DAYS * 86_400_000);
+
+  const { data, error } = await serviceClient
+    .from("price_cache")
+    .select("close")
+    .eq("symbol", pair)
+    .lte("date", toDateString(at))
+    .gte("date", toDateString(earliest))
+    .order("date", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error(`price_cache lookup failed for ${pair}:`, error);
+    return null;
+  }
+
+  const close = data && data.length > 0 ? Number(data[0].close) : null;
+  return close && close > 0 ? close : null;
+}
+
+// Fetch daily bars from Polygon and store them in price_cache
+async function fetchPolygonClose(serviceClient: SupabaseClient, pair: string, at: Date): Promise<number | null> {
+  const apiKey = Deno.env.get("POLYGON_API_KEY");
+  if (!apiKey) return null;
+
+  const from = toDateString(new Date(at.getTime() - MAX_RATE_AGE_DAYS * 86_400_000));
+  const to = toDateString(at);
+  const url = `${POLYGON_BASE_URL}/v2/aggs/ticker/C:${pair}/range/1/day/${from}/${to}?adjusted=true&sort=asc&apiKey=${apiKey}`;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error(`Polygon FX request for ${pair} failed: ${response.status}`);
+      return null;
+    }
+
+    const body = await response.json();
+    const bars = (body.results || []) as Array<{ o: number; h: number; l: number; c: number; v?: number; t: number }>;
+    if (bars.length === 0) return null;
+
+    const { error } = await serviceClient.from("price_cache").upsert(
+      bars.map((bar) => ({
+        symbol: pair,
+        date: toDateString(new Date(bar.t)),
+        open: bar.o,
+        high: bar.h,
+        low: bar.l,
+        close: bar.c,
+        volume: bar.v ?? null,
+        provider: "polygon",
+      })),
+      { onConflict: "symbol,date,provider" },
+    );
+
+    if (error) {
+      console.error(`Failed to cache ${pair} rates:`, error);
+    }
+
+    return bars[bars.length - 1].c > 0 ? bars[bars.length - 1].c : null;
+  } catch (err) {
+    console.error(`Polygon FX request for ${pair} failed:`, err);
+    return null;
+  }
+}
+
+// Direct pair, else the inverse pair, from cache first and then the provider
+async function directRate(serviceClient: SupabaseClient, from: string, to: string, at: Date): Promise<number | null> {
+  const direct = await cachedClose(serviceClient, `${from}${to}`, at);
+  if (direct) return direct;
+
+  const inverse = await cachedClose(serviceClient, `${to}${from}`, at);
+  if (inverse) return 1 / inverse;
+
+  const fetched = await fetchPolygonClose(serviceClient, `${from}${to}`, at);
+  return fetched;
+}
+
+/**
+ * Rate that converts an amount in `from` into `to` as of `atIso`, or null when
+ * no rate could be found.
+ */
+export async function getFxRate(
+  serviceClient: SupabaseClient,
+  from: string,
+  to: string,
+  atIso: string,
+): Promise<number | null> {
+  if (from === to) return 1;
+
+  const at = new Date(atIso);
+  const cacheKey = `${from}${to}|${toDateString(at)}`;
+  const cached = rateCache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  let rate = await directRate(serviceClient, from, to, at);
+
+  if (!rate && from !== PIVOT_CURRENCY && to !== PIVOT_CURRENCY) {
+    const toPivot = await directRate(serviceClient, from, PIVOT_CURRENCY, at);
+    const fromPivot = toPivot ? await directRate(serviceClient, PIVOT_CURRENCY, to, at) : null;
+    rate = toPivot && fromPivot ? toPivot * fromPivot : null;
+  }
+
+  if (rate) rateCache.set(cacheKey, rate);
+  return rate;
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Apply an already resolved rate. Without a rate the PnL is left in its native
+ * currency and the conversion is marked unconverted, so it is kept out of
+ * account-currency totals.
+ */
+export function applyFxRate(
+  pnlNative: number,
+  pnlCurrency: string,
+  accountCurrency: string,
+  fxRate: number | null,
+): FxConversion {
+  if (fxRate === null) {
+    return { pnl: pnlNative, pnlNative, pnlCurrency, accountCurrency: pnlCurrency, fxRate: null, converted: false };
+  }
+
+  return {
+    pnl: Math.round(pnlNative * fxRate * 100) / 100,
+    pnlNative,
+    pnlCurrency,
+    accountCurrency,
+    fxRate,
+    converted: true,
+  };
+}
+
+/** Column values for a positions update/insert. */
+export function fxColumns(conversion: FxConversion) {
+  return {
+    pnl: conversion.pnl,
+    pnl_native: conversion.pnlNative,
+    pnl_currency: conversion.pnlCurrency,
+    account_currency: conversion.accountCurrency,
+    fx_rate: conversion.fxRate,
+    pnl_unconverted: !conversion.converted,
+  };
+}
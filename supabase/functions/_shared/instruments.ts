@@ -0,0 +1,70 @@
+/**
+ * Loads the instruments registry for edge functions.
+ *
+ * The table is small and changes rarely, so each worker keeps it in memory
+ * and refreshes it after REGISTRY_TTL_MS. Admin edits take effect within that
+ * window.
+ */
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type AssetClass, type InstrumentSpec, findInstrument } from "./tradeMath.ts";
+
+const REGISTRY_TTL_MS = 5 * 60 * 1000;
+
+let cachedInstruments: InstrumentSpec[] | null = null;
+let cachedAt = 0;
+
+interface InstrumentRow {
+  symbol: string;
+  pattern: string;
+  priority: number;
+  asset_class: string;
+  tick_size: number;
+  tick_value: number;
+  contract_multiplier: number;
+  pip_size: number | null;
+  quote_currency: string;
+  daily_volatility: number | null;
+}
+
+function toSpec(row: InstrumentRow): InstrumentSpec {
+  return {
+    symbol: row.symbol,
+    pattern: row.pattern,
+    priority: Number(row.priority) || 0,
+    assetClass: row.asset_class as AssetClass,
+    tickSize: Number(row.tick_size),
+    tickValue: Number(row.tick_value),
+    multiplier: Number(row.contract_multiplier) || 1,
+    pipSize: row.pip_size !== null ? Number(row.pip_size) : null,
+    quoteCurrency: row.quote_currency,
+    dailyVolatility: row.daily_volatility !== null ? Number(row.daily_volatility) : null,
+  };
+}
+
+/** Active registry entries. On a load error the last good copy (or none) is used. */
+export async function loadInstruments(serviceClient: SupabaseClient): Promise<InstrumentSpec[]> {
+  if (cachedInstruments && Date.now() - cachedAt < REGISTRY_TTL_MS) {
+    return cachedInstruments;
+  }
+
+  const { data, error } = await serviceClient
+    .from("instruments")
+    .select(
+      "symbol, pattern, priority, asset_class, tick_size, tick_value, contract_multiplier, pip_size, quote_currency, daily_volatility",
+    )
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("Failed to load instruments registry:", error);
+    return cachedInstruments ?? [];
+  }
+
+  cachedInstruments = ((data || []) as InstrumentRow[]).map(toSpec);
+  cachedAt = Date.now();
+  return cachedInstruments;
+}
+
+/** Registry entry for a symbol, or null when the built-in heuristics apply. */
+export async function getInstrument(serviceClient: SupabaseClient, symbol: string): Promise<InstrumentSpec | null> {
+  return findInstrument(symbol, await loadInstruments(serviceClient));
+}
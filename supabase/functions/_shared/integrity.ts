@@ -0,0 +1,243 @@
+/**
+ * Integrity checks that keep verified metrics from being gamed.
+ *
+ * Closed positions are checked as they are scored. Simulated trades, trades
+ * too small to mean anything and wash clusters (bursts of very short round
+ * trips in one symbol) are flagged in trade_integrity_flags and held out of
+ * the metrics via positions.integrity_excluded. Deleting closed positions or
+ * their exit events is flagged by database triggers instead.
+ *
+ * Deletions and wash clusters are deliberate patterns, so they also flag the
+ * account: its metrics lose verification until an admin resolves the flags.
+ * A flag an admin has resolved is never raised again for the same position.
+ */
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { calculatePnL, getAssetClass } from "./tradeMath.ts";
+import { getInstrument } from "./instruments.ts";
+
+export type IntegrityFlagType = "deleted_after_close" | "below_min_notional" | "simulated_trade" | "wash_cluster";
+
+// Flags that put the whole account under review, not just one trade
+const ACCOUNT_FLAG_TYPES: IntegrityFlagType[] = ["deleted_after_close", "wash_cluster"];
+
+// Smallest position that counts: entry notional in account currency
+const MIN_NOTIONAL = 50;
+
+// Round trips held no longer than this may be wash trades; this many of
+// them in one symbol, opened within the window, make a cluster
+const WASH_MAX_HOLD_MS = 2 * 60_000;
+const WASH_CLUSTER_SIZE = 5;
+const WASH_WINDOW_MS = 30 * 60_000;
+
+// Ids per .in() filter, to keep request URLs short
+const ID_CHUNK = 200;
+
+export interface IntegrityPosition {
+  id: number;
+  account_id: string | null;
+  symbol: string;
+  entry_price: number;
+  quantity: number;
+  entry_timestamp: string;
+  exit_timestamp: string | null;
+  fx_rate: number | null;
+  is_simulation: boolean;
+  integrity_excluded: boolean;
+}
+
+export const INTEGRITY_COLUMNS =
+  "id, account_id, symbol, entry_price, quantity, entry_timestamp, exit_timestamp, fx_rate, is_simulation, integrity_excluded";
+
+export interface IntegrityResult {
+  // Positions held out of the metrics, including ones excluded earlier
+  excluded: Set<number>;
+  // Whether positions outside those checked were newly excluded; if they
+  // were already counted, the totals must be re-aggregated
+  recount: boolean;
+}
+
+interface FlagRow {
+  user_id: string;
+  account_id: string | null;
+  position_id: number;
+  flag_type: IntegrityFlagType;
+  details: Record<string, unknown>;
+}
+
+function chunks<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += ID_CHUNK) {
+    result.push(items.slice(i, i + ID_CHUNK));
+  }
+  return result;
+}
+
+function holdMs(pos: IntegrityPosition): number {
+  return new Date(pos.exit_timestamp as string).getTime() - new Date(pos.entry_timestamp).getTime();
+}
+
+// Entry notional in account currency, valued the same way as PnL
+async function notionalOf(serviceClient: SupabaseClient, pos: IntegrityPosition): Promise<number> {
+  const instrument = await getInstrument(serviceClient, pos.symbol);
+  const assetClass = getAssetClass(pos.symbol, instrument);
+  // What a one-point move on one unit is worth, which folds in contract size
+  const pointValue = calculatePnL("long", 0, 1, 1, assetClass, pos.symbol, instrument).pnl;
+  return Math.abs(pos.entry_price * pos.quantity) * pointValue * (pos.fx_rate ?? 1);
+}
+
+/** Short round trips that fall in a wash cluster, with the cluster each joined first. */
+function findWashClusters(positions: IntegrityPosition[]): Map<IntegrityPosition, Record<string, unknown>> {
+  const bySymbol = new Map<string, IntegrityPosition[]>();
+  for (const pos of positions) {
+    if (!pos.exit_timestamp || holdMs(pos) > WASH_MAX_HOLD_MS) continue;
+    bySymbol.set(pos.symbol, [...(bySymbol.get(pos.symbol) ?? []), pos]);
+  }
+
+  const clustered = new Map<IntegrityPosition, Record<string, unknown>>();
+  for (const [symbol, trips] of bySymbol) {
+    trips.sort((a, b) => new Date(a.entry_timestamp).getTime() - new Date(b.entry_timestamp).getTime());
+
+    let end = 0;
+    for (let start = 0; start < trips.length; start++) {
+      const windowEnd = new Date(trips[start].entry_timestamp).getTime() + WASH_WINDOW_MS;
+      end = Math.max(end, start);
+      while (end < trips.length && new Date(trips[end].entry_timestamp).getTime() <= windowEnd) end++;
+
+      if (end - start < WASH_CLUSTER_SIZE) continue;
+      for (const pos of trips.slice(start, end)) {
+        if (!clustered.has(pos)) {
+          clustered.set(pos, {
+            symbol,
+            cluster_start: trips[start].entry_timestamp,
+            cluster_trades: end - start,
+            hold_seconds: Math.round(holdMs(pos) / 1000),
+          });
+        }
+      }
+    }
+  }
+  return clustered;
+}
+
+// Closed positions that could share a wash cluster with the given ones
+async function fetchWashNeighbours(
+  serviceClient: SupabaseClient,
+  userId: string,
+  positions: IntegrityPosition[],
+): Promise<IntegrityPosition[]> {
+  const short = positions.filter((pos) => pos.exit_timestamp && holdMs(pos) <= WASH_MAX_HOLD_MS);
+  if (short.length === 0) return [];
+
+  const entries = short.map((pos) => new Date(pos.entry_timestamp).getTime());
+  const { data, error } = await serviceClient
+    .from("positions")
+    .select(INTEGRITY_COLUMNS)
+    .eq("user_id", userId)
+    .eq("open", false)
+    .in("symbol", [...new Set(short.map((pos) => pos.symbol))])
+    .gte("entry_timestamp", new Date(Math.min(...entries) - WASH_WINDOW_MS).toISOString())
+    .lte("entry_timestamp", new Date(Math.max(...entries) + WASH_WINDOW_MS).toISOString());
+
+  if (error) {
+    throw new Error(`Failed to fetch positions for wash detection: ${error.message}`);
+  }
+  return (data || []) as IntegrityPosition[];
+}
+
+async function fetchResolvedFlags(serviceClient: SupabaseClient, positionIds: number[]): Promise<Set<string>> {
+  const resolved = new Set<string>();
+  for (const ids of chunks(positionIds)) {
+    const { data, error } = await serviceClient
+      .from("trade_integrity_flags")
+      .select("position_id, flag_type")
+      .in("position_id", ids)
+      .not("resolved_at", "is", null);
+
+    if (error) {
+      throw new Error(`Failed to fetch resolved integrity flags: ${error.message}`);
+    }
+    for (const row of data || []) resolved.add(`${row.position_id}|${row.flag_type}`);
+  }
+  return resolved;
+}
+
+/**
+ * Checks closed positions, raises flags for what fails and marks those
+ * positions excluded. With complete, the positions are all the user has, so
+ * wash clusters are found among them without fetching neighbours.
+ */
+export async function checkIntegrity(
+  serviceClient: SupabaseClient,
+  userId: string,
+  positions: IntegrityPosition[],
+  complete = false,
+): Promise<IntegrityResult> {
+  const flags: FlagRow[] = [];
+  const raise = (pos: IntegrityPosition, flagType: IntegrityFlagType, details: Record<string, unknown>) => {
+    flags.push({ user_id: userId, account_id: pos.account_id, position_id: pos.id, flag_type: flagType, details });
+  };
+
+  for (const pos of positions) {
+    if (pos.is_simulation) raise(pos, "simulated_trade", { symbol: pos.symbol });
+
+    const notional = await notionalOf(serviceClient, pos);
+    if (notional < MIN_NOTIONAL) {
+      raise(pos, "below_min_notional", { symbol: pos.symbol, notional, minimum: MIN_NOTIONAL });
+    }
+  }
+
+  const candidates = complete ? positions : await fetchWashNeighbours(serviceClient, userId, positions);
+  for (const [pos, details] of findWashClusters(candidates)) {
+    raise(pos, "wash_cluster", details);
+  }
+
+  const checked = new Set(positions.map((pos) => pos.id));
+  const excluded = new Set(positions.filter((pos) => pos.integrity_excluded).map((pos) => pos.id));
+  if (flags.length === 0) return { excluded, recount: false };
+
+  const resolved = await fetchResolvedFlags(serviceClient, [...new Set(flags.map((f) => f.position_id))]);
+  const raised = flags.filter((f) => !resolved.has(`${f.position_id}|${f.flag_type}`));
+  if (raised.length === 0) return { excluded, recount: false };
+
+  const { error } = await serviceClient
+    .from("trade_integrity_flags")
+    .upsert(raised, { onConflict: "position_id,flag_type", ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to save integrity flags: ${error.message}`);
+  }
+
+  let recount = false;
+  for (const ids of chunks([...new Set(raised.map((f) => f.position_id))])) {
+    const { data, error: updateError } = await serviceClient
+      .from("positions")
+      .update({ integrity_excluded: true })
+      .in("id", ids)
+      .eq("integrity_excluded", false)
+      .select("id");
+
+    if (updateError) {
+      throw new Error(`Failed to exclude flagged positions: ${updateError.message}`);
+    }
+    ids.forEach((id) => excluded.add(id));
+    if ((data || []).some((row) => !checked.has(row.id))) recount = true;
+  }
+
+  console.log(`Integrity: raised ${raised.length} flags on ${excluded.size} positions for ${userId}`);
+  return { excluded, recount };
+}
+
+/** Whether the user has unresolved flags that suspend verification. */
+export async function hasAccountFlags(serviceClient: SupabaseClient, userId: string): Promise<boolean> {
+  const { count, error } = await serviceClient
+    .from("trade_integrity_flags")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .in("flag_type", ACCOUNT_FLAG_TYPES)
+    .is("resolved_at", null);
+
+  if (error) {
+    throw new Error(`Failed to fetch integrity flags: ${error.message}`);
+  }
+  return (count ?? 0) > 0;
+}
@@ -0,0 +1,252 @@
+/**
+ * Performance statistics over a set of closed trades.
+ *
+ * Ratios use R-multiples so position size does not dominate; expectancy,
+ * drawdown and recovery factor use net PnL in account currency, and
+ * expectancy is also given in R. Drawdown as a percentage needs the account
+ * balance the trades started from, and is null without it. Any statistic that is undefined for the
+ * sample (no losses, zero deviation, fewer than two trades) is null rather
+ * than Infinity or NaN, so it stores cleanly.
+ *
+ * Everything is derived from running totals, so a trade closing after the
+ * last one folded in updates the statistics without revisiting history.
+ * Drawdown, losing runs and daily ratios depend on close order: a trade that
+ * closed earlier than lastClosedAt cannot be folded and needs a rebuild.
+ */
+
+export interface ClosedTrade {
+  netPnl: number;
+  rMultiple: number;
+  closedAt: string;
+}
+
+export interface PerformanceStats {
+  profit_factor: number | null;
+  expectancy: number | null;
+  expectancy_r: number | null;
+  sharpe_ratio: number | null;
+  sortino_ratio: number | null;
+  daily_sharpe_ratio: number | null;
+  daily_sortino_ratio: number | null;
+  max_drawdown: number | null;
+  max_drawdown_pct: number | null;
+  max_drawdown_start_at: string | null;
+  max_drawdown_end_at: string | null;
+  recovery_factor: number | null;
+  avg_win_loss_ratio: number | null;
+  max_consecutive_losses: number;
+}
+
+/** Running sums behind PerformanceStats; plain JSON so it can be stored. */
+export interface PerformanceTotals {
+  count: number;
+  sumPnl: number;
+  grossProfit: number;
+  // Positive: the sum of losing trades' absolute net PnL
+  grossLoss: number;
+  winCount: number;
+  lossCount: number;
+  sumR: number;
+  sumRSquared: number;
+  sumRDownsideSquared: number;
+  // Cumulative net PnL and its high-water mark
+  equity: number;
+  peak: number;
+  peakAt: string | null;
+  drawdown: number;
+  // Account balance before the first trade, when known
+  startingBalance: number | null;
+  // Deepest fall as a percentage of the balance at its peak, tracked apart
+  // from drawdown: a smaller fall from a lower peak can be deeper in percent
+  drawdownPct: number | null;
+  drawdownStartAt: string | null;
+  drawdownEndAt: string | null;
+  lossRun: number;
+  maxLossRun: number;
+  // Calendar days since the epoch; days between first and last count as zero
+  firstDay: number | null;
+  lastDay: number | null;
+  lastDayR: number;
+  dailySumR: number;
+  dailySumRSquared: number;
+  dailySumRDownsideSquared: number;
+  lastClosedAt: string | null;
+}
+
+// Trades within a cent of zero are breakeven, matching the win/loss counts
+export const BREAKEVEN_EPSILON = 0.01;
+
+// Daily ratios are annualized over calendar days; days without a close count
+// as zero, so markets that shut at weekends come out near the usual 252
+const DAYS_PER_YEAR = 365;
+
+const DAY_MS = 86_400_000;
+
+export function emptyPerformanceTotals(startingBalance: number | null = null): PerformanceTotals {
+  return {
+    count: 0,
+    sumPnl: 0,
+    grossProfit: 0,
+    grossLoss: 0,
+    winCount: 0,
+    lossCount: 0,
+    sumR: 0,
+    sumRSquared: 0,
+    sumRDownsideSquared: 0,
+    equity: 0,
+    peak: 0,
+    peakAt: null,
+    drawdown: 0,
+    startingBalance,
+    drawdownPct: startingBalance !== null ? 0 : null,
+    drawdownStartAt: null,
+    drawdownEndAt: null,
+    lossRun: 0,
+    maxLossRun: 0,
+    firstDay: null,
+    lastDay: null,
+    lastDayR: 0,
+    dailySumR: 0,
+    dailySumRSquared: 0,
+    dailySumRDownsideSquared: 0,
+    lastClosedAt: null,
+  };
+}
+
+function downsideSquared(value: number): number {
+  return Math.min(value, 0) ** 2;
+}
+
+/** Whether a trade can be folded in without reordering what came before. */
+export function canFoldTrade(totals: PerformanceTotals, trade: ClosedTrade): boolean {
+  return totals.lastClosedAt === null || new Date(trade.closedAt).getTime() >= new Date(totals.lastClosedAt).getTime();
+}
+
+/** Folds one trade into the totals in place. Trades must arrive in close order. */
+export function addToPerformanceTotals(totals: PerformanceTotals, trade: ClosedTrade): void {
+  const { netPnl, rMultiple, closedAt } = trade;
+
+  // The curve starts from zero at the first trade
+  if (totals.count === 0) totals.peakAt = closedAt;
+
+  totals.count++;
+  totals.sumPnl += netPnl;
+  totals.sumR += rMultiple;
+  totals.sumRSquared += rMultiple ** 2;
+  totals.sumRDownsideSquared += downsideSquared(rMultiple);
+
+  // Breakeven trades neither extend nor break a losing run
+  if (netPnl > BREAKEVEN_EPSILON) {
+    totals.winCount++;
+    totals.grossProfit += netPnl;
+    totals.lossRun = 0;
+  } else if (netPnl < -BREAKEVEN_EPSILON) {
+    totals.lossCount++;
+    totals.grossLoss += Math.abs(netPnl);
+    totals.lossRun++;
+    totals.maxLossRun = Math.max(totals.maxLossRun, totals.lossRun);
+  }
+
+  totals.equity += netPnl;
+  if (totals.equity > totals.peak) {
+    totals.peak = totals.equity;
+    totals.peakAt = closedAt;
+  } else {
+    const drawdown = totals.peak - totals.equity;
+    if (drawdown > totals.drawdown) {
+      totals.drawdown = drawdown;
+      totals.drawdownStartAt = totals.peakAt;
+      totals.drawdownEndAt = closedAt;
+    }
+    if (totals.startingBalance !== null) {
+      const peakBalance = totals.startingBalance + totals.peak;
+      totals.drawdownPct = Math.max(totals.drawdownPct ?? 0, (drawdown / peakBalance) * 100);
+    }
+  }
+
+  const day = Math.floor(new Date(closedAt).getTime() / DAY_MS);
+  if (totals.lastDay === day) {
+    const before = totals.lastDayR;
+    const after = before + rMultiple;
+    totals.dailySumR += rMultiple;
+    totals.dailySumRSquared += after ** 2 - before ** 2;
+    totals.dailySumRDownsideSquared += downsideSquared(after) - downsideSquared(before);
+    totals.lastDayR = after;
+  } else {
+    if (totals.firstDay === null) totals.firstDay = day;
+    totals.lastDay = day;
+    totals.lastDayR = rMultiple;
+    totals.dailySumR += rMultiple;
+    totals.dailySumRSquared += rMultiple ** 2;
+    totals.dailySumRDownsideSquared += downsideSquared(rMultiple);
+  }
+
+  totals.lastClosedAt = closedAt;
+}
+
+// Mean over standard deviation of n values given their sums, or null with
+// fewer than two values or no spread
+function sharpeFromSums(n: number, sum: number, sumSquared: number): number | null {
+  if (n < 2) return null;
+  const mean = sum / n;
+  const variance = sumSquared / n - mean ** 2;
+  // Running sums leave rounding noise where the values are all equal
+  if (!(variance > 1e-12 * Math.max(1, mean ** 2))) return null;
+  return mean / Math.sqrt(variance);
+}
+
+// Mean over downside deviation (below zero), or null with no downside
+function sortinoFromSums(n: number, sum: number, downsideSumSquared: number): number | null {
+  if (n < 2 || !(downsideSumSquared > 1e-12)) return null;
+  return sum / n / Math.sqrt(downsideSumSquared / n);
+}
+
+export function performanceStatsFromTotals(totals: PerformanceTotals): PerformanceStats {
+  if (totals.count === 0) {
+    return {
+      profit_factor: null,
+      expectancy: null,
+      expectancy_r: null,
+      sharpe_ratio: null,
+      sortino_ratio: null,
+      daily_sharpe_ratio: null,
+      daily_sortino_ratio: null,
+      max_drawdown: null,
+      max_drawdown_pct: null,
+      max_drawdown_start_at: null,
+      max_drawdown_end_at: null,
+      recovery_factor: null,
+      avg_win_loss_ratio: null,
+      max_consecutive_losses: 0,
+    };
+  }
+
+  const days = totals.firstDay !== null && totals.lastDay !== null ? totals.lastDay - totals.firstDay + 1 : 0;
+  const annualize = Math.sqrt(DAYS_PER_YEAR);
+  const dailySharpe = sharpeFromSums(days, totals.dailySumR, totals.dailySumRSquared);
+  const dailySortino = sortinoFromSums(days, totals.dailySumR, totals.dailySumRDownsideSquared);
+
+  return {
+    profit_factor: totals.grossLoss > 0 ? totals.grossProfit / totals.grossLoss : null,
+    expectancy: totals.sumPnl / totals.count,
+    expectancy_r: totals.sumR / totals.count,
+    sharpe_ratio: sharpeFromSums(totals.count, totals.sumR, totals.sumRSquared),
+    sortino_ratio: sortinoFromSums(totals.count, totals.sumR, totals.sumRDownsideSquared),
+    daily_sharpe_ratio: dailySharpe !== null ? dailySharpe * annualize : null,
+    daily_sortino_ratio: dailySortino !== null ? dailySortino * annualize : null,
+    max_drawdown: totals.drawdown,
+    max_drawdown_pct: totals.drawdownPct,
+    max_drawdown_start_at: totals.drawdownStartAt,
+    max_drawdown_end_at: totals.drawdownEndAt,
+    recovery_factor: totals.drawdown > 0 ? totals.sumPnl / totals.drawdown : null,
+    avg_win_loss_ratio:
+      totals.winCount > 0 && totals.lossCount > 0
+        ? totals.grossProfit / totals.winCount / (totals.grossLoss / totals.lossCount)
+        : null,
+    max_consecutive_losses: totals.maxLossRun,
+  };
+}
+
+export function sortByClose<T extends { closedAt: string }>(trades: T[]): T[] {
+  return [...trades].sort((a, b) => new Date(a.closedAt).getTime() - new Date(b.closedAt).getTime());
+}
@@ -0,0 +1,262 @@
+/**
+ * Daily price history and Average True Range.
+ *
+ * Bars are read from price_cache, keyed by the Polygon ticker without its
+ * market prefix (EURUSD, BTCUSD, AAPL - the same keys fxRates uses). Missing
+ * history is backfilled from Polygon, then Finnhub, and written back to the
+ * cache so later calls stay local.
+ */
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { finnhubTicker, parseSymbol, polygonTicker, stripExchangePrefix } from "./symbols.ts";
+
+const POLYGON_BASE_URL = "https://api.polygon.io";
+const FINNHUB_BASE_URL = "https://finnhub.io/api/v1";
+
+export const ATR_PERIOD = 14;
+
+// Calendar days to look back for ATR_PERIOD + 1 trading days, allowing for
+// weekends and holidays on markets that close
+const LOOKBACK_DAYS = 30;
+
+// Provider requests cover a wider window so nearby entry dates hit the cache
+const BACKFILL_DAYS = 90;
+
+export interface DailyBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface AtrResult {
+  atr: number;
+  // Last close before the reference date, to express ATR as a fraction of price
+  close: number;
+  bars: number;
+}
+
+// ATRs found during this worker's lifetime, keyed by symbol, date and period
+const atrCache = new Map<string, AtrResult>();
+
+// Symbols a provider returned nothing for during this worker's lifetime, so a
+// recalculation over hundreds of positions asks only once
+const providerMisses = new Set<string>();
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86_400_000);
+}
+
+async function cachedBars(serviceClient: SupabaseClient, cacheSymbol: string, from: string, to: string): Promise<DailyBar[]> {
+  const { data, error } = await serviceClient
+    .from("price_cache")
+    .select("date, open, high, low, close, provider")
+    .eq("symbol", cacheSymbol)
+    .gte("date", from)
+    .lte("date", to)
+    .order("date", { ascending: true });
+
+  if (error) {
+    console.error(`price_cache lookup failed for ${cacheSymbol}:`, error);
+    return [];
+  }
+
+  // One bar per day; Polygon wins when both providers cached the same date
+  const byDate = new Map<string, DailyBar & { provider: string }>();
+  for (const row of data || []) {
+    const existing = byDate.get(row.date);
+    if (existing && existing.provider === "polygon") continue;
+    byDate.set(row.date, {
+      date: row.date,
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      provider: row.provider,
+    });
+  }
+
+  return [...byDate.values()].map(({ provider: _provider, ...bar }) => bar);
+}
+
+async function storeBars(serviceClient: SupabaseClient, cacheSymbol: string, provider: string, bars: DailyBar[]) {
+  if (bars.length === 0) return;
+
+  const { error } = await serviceClient.from("price_cache").upsert(
+    bars.map((bar) => ({ symbol: cacheSymbol, provider, ...bar })),
+    { onConflict: "symbol,date,provider" },
+  );
+
+  if (error) {
+    console.error(`Failed to cache ${cacheSymbol} bars:`, error);
+  }
+}
+
+async function fetchPolygonBars(ticker: string, from: string, to: string): Promise<DailyBar[]> {
+  const apiKey = Deno.env.get("POLYGON_API_KEY");
+  if (!apiKey) return [];
+
+  const url = `${POLYGON_BASE_URL}/v2/aggs/ticker/${encodeURIComponent(ticker)}/range/1/day/${from}/${to}?adjusted=true&sort=asc&limit=5000&apiKey=${apiKey}`;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error(`Polygon bars request for ${ticker} failed: ${response.status}`);
+      return [];
+    }
+
+    const body = await response.json();
+    const results = (body.results || []) as Array<{ o: number; h: number; l: number; c: number; t: number }>;
+    return results.map((bar) => ({
+      date: toDateString(new Date(bar.t)),
+      open: bar.o,
+      high: bar.h,
+      low: bar.l,
+      close: bar.c,
+    }));
+  } catch (err) {
+    console.error(`Polygon bars request for ${ticker} failed:`, err);
+    return [];
+  }
+}
+
+async function fetchFinnhubBars(ticker: string, assetClass: string, from: string, to: string): Promise<DailyBar[]> {
+  const apiKey = Deno.env.get("FINNHUB_API_KEY");
+  if (!apiKey) return [];
+
+  const endpoint = assetClass === "crypto" ? "crypto" : assetClass === "stock" ? "stock" : "forex";
+  const fromSeconds = Math.floor(new Date(`${from}T00:00:00Z`).getTime() / 1000);
+  const toSeconds = Math.floor(new Date(`${to}T23:59:59Z`).getTime() / 1000);
+  const url = `${FINNHUB_BASE_URL}/${endpoint}/candle?symbol=${encodeURIComponent(ticker)}&resolution=D&from=${fromSeconds}&to=${toSeconds}&token=${apiKey}`;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error(`Finnhub candles request for ${ticker} failed: ${response.status}`);
+      return [];
+    }
+
+    const body = await response.json();
+    if (body.s !== "ok" || !Array.isArray(body.t)) return [];
+
+    return (body.t as number[]).map((t, i) => ({
+      date: toDateString(new Date(t * 1000)),
+      open: body.o[i],
+      high: body.h[i],
+      low: body.l[i],
+      close: body.c[i],
+    }));
+  } catch (err) {
+    console.error(`Finnhub candles request for ${ticker} failed:`, err);
+    return [];
+  }
+}
+
+/**
+ * Daily bars for a symbol between two dates (inclusive), from price_cache,
+ * backfilling from the providers when the cache has fewer than minBars.
+ */
+export async function getDailyBars(
+  serviceClient: SupabaseClient,
+  symbol: string,
+  assetClassHint: string | null,
+  from: Date,
+  to: Date,
+  minBars = 1,
+): Promise<DailyBar[]> {
+  const parsed = parseSymbol(symbol, assetClassHint);
+  const polygon = polygonTicker(parsed);
+  if (!polygon) return [];
+
+  const cacheSymbol = stripExchangePrefix(polygon);
+  const fromDate = toDateString(from);
+  const toDate = toDateString(to);
+
+  let best = await cachedBars(serviceClient, cacheSymbol, fromDate, toDate);
+  if (best.length >= minBars) return best;
+
+  // Fetch a wider window once and let the cache answer the rest
+  const backfillFrom = toDateString(addDays(to, -BACKFILL_DAYS));
+  const backfillTo = toDateString(new Date(Math.min(addDays(to, BACKFILL_DAYS / 3).getTime(), Date.now())));
+
+  const sources: Array<{ provider: string; ticker: string | null; fetch: (ticker: string) => Promise<DailyBar[]> }> = [
+    { provider: "polygon", ticker: polygon, fetch: (ticker) => fetchPolygonBars(ticker, backfillFrom, backfillTo) },
+    {
+      provider: "finnhub",
+      ticker: finnhubTicker(parsed),
+      fetch: (ticker) => fetchFinnhubBars(ticker, parsed.assetClass, backfillFrom, backfillTo),
+    },
+  ];
+
+  for (const source of sources) {
+    if (!source.ticker) continue;
+
+    const missKey = `${source.provider}|${cacheSymbol}`;
+    if (providerMisses.has(missKey)) continue;
+
+    const bars = (await source.fetch(source.ticker)).filter((bar) => bar.high > 0 && bar.low > 0 && bar.close > 0);
+    if (bars.length === 0) {
+      providerMisses.add(missKey);
+      continue;
+    }
+
+    await storeBars(serviceClient, cacheSymbol, source.provider, bars);
+
+    const inRange = bars.filter((bar) => bar.date >= fromDate && bar.date <= toDate);
+    if (inRange.length >= minBars) return inRange;
+    if (inRange.length > best.length) best = inRange;
+  }
+
+  return best;
+}
+
+/**
+ * Wilder's Average True Range over bars in date order. Needs period + 1 bars
+ * (each true range looks at the previous close); returns null otherwise.
+ */
+export function calculateAtr(bars: DailyBar[], period = ATR_PERIOD): number | null {
+  if (bars.length < period + 1) return null;
+
+  const trueRanges = bars.slice(1).map((bar, i) => {
+    const prevClose = bars[i].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose));
+  });
+
+  let atr = trueRanges.slice(0, period).reduce((sum, tr) => sum + tr, 0) / period;
+  for (const tr of trueRanges.slice(period)) {
+    atr = (atr * (period - 1) + tr) / period;
+  }
+
+  return atr;
+}
+
+/**
+ * ATR from the daily bars leading up to a date, excluding that day so the
+ * entry's own range does not leak in. Null when there is not enough history.
+ */
+export async function getAtr(
+  serviceClient: SupabaseClient,
+  symbol: string,
+  assetClassHint: string | null,
+  at: Date,
+  period = ATR_PERIOD,
+): Promise<AtrResult | null> {
+  const to = addDays(at, -1);
+  const cacheKey = `${stripExchangePrefix(symbol)}|${assetClassHint ?? ""}|${toDateString(to)}|${period}`;
+  const known = atrCache.get(cacheKey);
+  if (known) return known;
+
+  const bars = await getDailyBars(serviceClient, symbol, assetClassHint, addDays(to, -LOOKBACK_DAYS), to, period + 1);
+
+  const atr = calculateAtr(bars, period);
+  const close = bars.length > 0 ? bars[bars.length - 1].close : 0;
+  if (atr === null || !(atr > 0) || !(close > 0)) return null;
+
+  const result = { atr, close, bars: bars.length };
+  atrCache.set(cacheKey, result);
+  return result;
+}
@@ -0,0 +1,65 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { type Bar, type BarResolution, MINUTE_BARS, pricePath } from "./pricePath.ts";
+
+const HOUR_BARS: BarResolution = { multiplier: 1, timespan: "hour", ms: 3_600_000 };
+
+const at = (time: string) => new Date(`2026-01-05T${time}:00Z`).getTime();
+
+// Serves aligned bars at a flat 100 over whatever range is asked for, with a
+// spike to 105 at the given minute, which the bar holding it carries too
+async function withPolygon<T>(spikeAt: number, run: () => Promise<T>): Promise<T> {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = ((input: string | URL | Request) => {
+    const [, multiplier, timespan, from, to] =
+      String(input).match(/range\/(\d+)\/(\w+)\/(\d+)\/(\d+)/) as RegExpMatchArray;
+    const step = Number(multiplier) * (timespan === "hour" ? 3_600_000 : 60_000);
+
+    const results: Bar[] = [];
+    for (let t = Math.floor(Number(from) / step) * step; t < Number(to); t += step) {
+      const spiked = spikeAt >= t && spikeAt < t + step;
+      results.push({ t, o: 100, h: spiked ? 105 : 100, l: 100, c: 100 });
+    }
+    return Promise.resolve(new Response(JSON.stringify({ results })));
+  }) as typeof fetch;
+
+  try {
+    return await run();
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
+
+Deno.test("walks the head before the first whole bar in minute bars", async () => {
+  const path = await withPolygon(at("10:30"), () => pricePath("C:EURUSD", HOUR_BARS, at("10:20"), at("14:00"), false, "key"));
+
+  // The 10:00 hour bar straddles the start; its last 40 minutes are walked instead
+  const hit = path?.bars.find((bar) => bar.h >= 105);
+  assertEquals(hit?.t, at("10:30"));
+  assertEquals(path?.bars[0].t, at("10:20"));
+  assertEquals(path?.bars.length, 40 + 3);
+  assertEquals(path?.reachedAt, at("14:00"));
+});
+
+Deno.test("ignores a spike before the window starts", async () => {
+  const path = await withPolygon(at("10:10"), () => pricePath("C:EURUSD", HOUR_BARS, at("10:20"), at("14:00"), false, "key"));
+
+  assertEquals(path?.bars.some((bar) => bar.h >= 105), false);
+});
+
+Deno.test("walks the tail in minute bars only up to the end", async () => {
+  const open = await withPolygon(at("13:10"), () => pricePath("C:EURUSD", HOUR_BARS, at("11:00"), at("13:30"), false, "key"));
+  assertEquals(open?.reachedAt, at("13:00"));
+  assertEquals(open?.bars.some((bar) => bar.h >= 105), false);
+
+  const closed = await withPolygon(at("13:10"), () => pricePath("C:EURUSD", HOUR_BARS, at("11:00"), at("13:30"), true, "key"));
+  assertEquals(closed?.reachedAt, at("13:30"));
+  assertEquals(closed?.bars.find((bar) => bar.h >= 105)?.t, at("13:10"));
+});
+
+Deno.test("walks a window shorter than one bar in minute bars", async () => {
+  const path = await withPolygon(at("10:25"), () => pricePath("C:EURUSD", HOUR_BARS, at("10:20"), at("10:50"), false, "key"));
+
+  assertEquals(path?.bars.length, 30);
+  assertEquals(path?.bars.every((bar) => bar.t % MINUTE_BARS.ms === 0), true);
+  assertEquals(path?.bars.find((bar) => bar.h >= 105)?.t, at("10:25"));
+});
@@ -0,0 +1,96 @@
+/**
+ * Intraday price paths from Polygon aggregate bars.
+ *
+ * A path is walked in bars of a chosen resolution, but only whole bars
+ * inside the window count: a bar straddling the start may hold prices from
+ * before the window opened, one straddling the end prices from after it or a
+ * bar still forming. The stretches those bars would have covered are walked
+ * in minute bars instead, so the path starts at its window and, when asked
+ * to, ends as close to the end as the data allows.
+ */
+
+export interface Bar {
+  t: number; // Start of the bar, epoch ms
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+}
+
+export interface BarResolution {
+  multiplier: number;
+  timespan: "minute" | "hour" | "day";
+  ms: number;
+}
+
+export interface PricePath {
+  // Whole bars, oldest first
+  bars: Bar[];
+  // End of the last bar, or the start of the window when there are none
+  reachedAt: number;
+}
+
+export const MINUTE_BARS: BarResolution = { multiplier: 1, timespan: "minute", ms: 60_000 };
+
+/**
+ * The price path over [from, to] in epoch ms; null if a request failed.
+ * With toEnd, the stretch after the last whole bar is walked in minute bars
+ * too, for a window that will not be walked again.
+ */
+export async function pricePath(
+  ticker: string,
+  resolution: BarResolution,
+  from: number,
+  to: number,
+  toEnd: boolean,
+  apiKey: string
+): Promise<PricePath | null> {
+  const fetched = await fetchBars(ticker, resolution, from, to, apiKey);
+  if (!fetched) return null;
+
+  const bars = fetched.filter((bar) => bar.t >= from && bar.t + resolution.ms <= to);
+  if (resolution.ms === MINUTE_BARS.ms) {
+    return { bars, reachedAt: bars.length > 0 ? bars[bars.length - 1].t + resolution.ms : from };
+  }
+
+  // Up to the first whole bar, or one bar's length when there is none yet
+  const headEnd = bars.length > 0 ? bars[0].t : Math.min(to, from + resolution.ms);
+  const head = await pricePath(ticker, MINUTE_BARS, from, headEnd, false, apiKey);
+  if (!head) return null;
+
+  const path = {
+    bars: [...head.bars, ...bars],
+    reachedAt: bars.length > 0 ? bars[bars.length - 1].t + resolution.ms : head.reachedAt,
+  };
+  if (!toEnd) return path;
+
+  const tail = await pricePath(ticker, MINUTE_BARS, path.reachedAt, to, false, apiKey);
+  return tail && { bars: [...path.bars, ...tail.bars], reachedAt: tail.reachedAt };
+}
+
+/** Aggregate bars covering [from, to] in epoch ms, oldest first; null if the request failed. */
+async function fetchBars(
+  ticker: string,
+  resolution: BarResolution,
+  from: number,
+  to: number,
+  apiKey: string
+): Promise<Bar[] | null> {
+  if (to <= from) return [];
+
+  try {
+    const url = `https://api.polygon.io/v2/aggs/ticker/${encodeURIComponent(ticker)}/range/${resolution.multiplier}/${resolution.timespan}/${Math.floor(from)}/${Math.ceil(to)}?adjusted=true&sort=asc&limit=50000&apiKey=${apiKey}`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.error(`Polygon API error for ${ticker}: ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+    return (data.results || []) as Bar[];
+  } catch (error) {
+    console.error(`Error fetching bars for ${ticker}:`, error);
+    return null;
+  }
+}
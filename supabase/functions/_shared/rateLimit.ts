@@ -0,0 +1,136 @@
+/**
+ * Per-caller rate limiting for edge functions.
+ *
+ * Callers are identified by API key, else user, else client IP. Budgets live
+ * in rate_limit_budgets and are enforced atomically by the check_rate_limit
+ * RPC, which also records rejections for the admin view. If the check itself
+ * fails the request is let through - a database hiccup should not take the
+ * webhook down.
+ */
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type RateLimitSubjectType = "api_key" | "user" | "ip";
+
+export interface RateLimitSubject {
+  type: RateLimitSubjectType;
+  key: string;
+  userId: string | null;
+  ip: string | null;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number | null;
+  remaining: number | null;
+  retryAfter: number;
+}
+
+/**
+ * The client address as seen by our own proxies. Headers the platform sets
+ * come first; in x-forwarded-for only the last entry was appended by a proxy -
+ * the ones before it are whatever the client sent, and can't be trusted.
+ */
+export function clientIp(req: Request): string | null {
+  const platformIp = req.headers.get("cf-connecting-ip") || req.headers.get("x-real-ip");
+  if (platformIp) return platformIp.trim() || null;
+
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (!forwarded) return null;
+  const hops = forwarded.split(",").map((hop) => hop.trim()).filter(Boolean);
+  return hops[hops.length - 1] ?? null;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Most specific identity available: API key, then user, then IP. */
+export async function rateLimitSubject(
+  req: Request,
+  identity: { apiKey?: string | null; userId?: string | null } = {},
+): Promise<RateLimitSubject> {
+  const ip = clientIp(req);
+  const userId = identity.userId ?? null;
+
+  // Raw API keys are credentials - only a hash is stored
+  if (identity.apiKey) {
+    return { type: "api_key", key: `key:${(await sha256Hex(identity.apiKey)).slice(0, 32)}`, userId, ip };
+  }
+  if (userId) {
+    return { type: "user", key: `user:${userId}`, userId, ip };
+  }
+  return { type: "ip", key: `ip:${ip ?? "unknown"}`, userId: null, ip };
+}
+
+export async function checkRateLimit(
+  serviceClient: SupabaseClient,
+  functionName: string,
+  subject: RateLimitSubject,
+): Promise<RateLimitResult> {
+  const { data, error } = await serviceClient.rpc("check_rate_limit", {
+    _function_name: functionName,
+    _subject: subject.key,
+    _subject_type: subject.type,
+    _user_id: subject.userId,
+    _ip: subject.ip,
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    console.error(`Rate limit check failed for ${functionName}:`, error);
+    return { allowed: true, limit: null, remaining: null, retryAfter: 0 };
+  }
+
+  return {
+    allowed: Boolean(row.allowed),
+    limit: row.request_limit ?? null,
+    remaining: row.remaining ?? null,
+    retryAfter: Number(row.retry_after) || 0,
+  };
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  if (result.limit === null) return {};
+
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining ?? 0),
+  };
+  if (!result.allowed) headers["Retry-After"] = String(result.retryAfter);
+  return headers;
+}
+
+export function rateLimitResponse(result: RateLimitResult, corsHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      status: "rate_limited",
+      error: `Rate limit exceeded, retry in ${result.retryAfter}s`,
+      retry_after: result.retryAfter,
+    }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, ...rateLimitHeaders(result), "Content-Type": "application/json" },
+    },
+  );
+}
+
+/**
+ * Count this request against the caller's budget. Returns a 429 response to
+ * send back when the budget is exhausted, or null to carry on.
+ */
+export async function enforceRateLimit(
+  serviceClient: SupabaseClient,
+  functionName: string,
+  subject: RateLimitSubject,
+  corsHeaders: Record<string, string>,
+): Promise<Response | null> {
+  const result = await checkRateLimit(serviceClient, functionName, subject);
+  if (result.allowed) return null;
+
+  console.warn(`Rate limit hit on ${functionName} by ${subject.type} ${subject.key}, retry in ${result.retryAfter}s`);
+  return rateLimitResponse(result, corsHeaders);
+}
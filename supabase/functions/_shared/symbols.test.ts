@@ -0,0 +1,160 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  canonicalSymbol,
+  findPatternMatch,
+  finnhubTicker,
+  parseSymbol,
+  polygonTicker,
+  type SymbolAssetClass,
+} from "./symbols.ts";
+
+interface Case {
+  raw: string;
+  hint?: string;
+  assetClass: SymbolAssetClass;
+  base?: string | null;
+  quote?: string | null;
+  polygon: string | null;
+  finnhub: string | null;
+}
+
+const CASES: Case[] = [
+  // Forex, with the separators and broker suffixes platforms send
+  { raw: "EURUSD", assetClass: "forex", base: "EUR", quote: "USD", polygon: "C:EURUSD", finnhub: "OANDA:EUR_USD" },
+  { raw: "FX:EURUSD", assetClass: "forex", base: "EUR", quote: "USD", polygon: "C:EURUSD", finnhub: "OANDA:EUR_USD" },
+  { raw: "EUR/USD", assetClass: "forex", base: "EUR", quote: "USD", polygon: "C:EURUSD", finnhub: "OANDA:EUR_USD" },
+  { raw: "OANDA:GBP_JPY", assetClass: "forex", base: "GBP", quote: "JPY", polygon: "C:GBPJPY", finnhub: "OANDA:GBP_JPY" },
+  { raw: "usdjpy", assetClass: "forex", base: "USD", quote: "JPY", polygon: "C:USDJPY", finnhub: "OANDA:USD_JPY" },
+  { raw: "EURUSD.m", assetClass: "forex", base: "EUR", quote: "USD", polygon: "C:EURUSD", finnhub: "OANDA:EUR_USD" },
+  { raw: "C:EURUSD", assetClass: "forex", base: "EUR", quote: "USD", polygon: "C:EURUSD", finnhub: "OANDA:EUR_USD" },
+
+  // Metals are quoted as currencies by both providers
+  { raw: "XAUUSD", assetClass: "metal", base: "XAU", quote: "USD", polygon: "C:XAUUSD", finnhub: "OANDA:XAU_USD" },
+  { raw: "OANDA:XAUUSD", assetClass: "metal", base: "XAU", quote: "USD", polygon: "C:XAUUSD", finnhub: "OANDA:XAU_USD" },
+  { raw: "XAU/USD", assetClass: "metal", base: "XAU", quote: "USD", polygon: "C:XAUUSD", finnhub: "OANDA:XAU_USD" },
+  { raw: "XAGEUR", assetClass: "metal", base: "XAG", quote: "EUR", polygon: "C:XAGEUR", finnhub: "OANDA:XAG_EUR" },
+  { raw: "TVC:GOLD", assetClass: "metal", base: "XAU", quote: "USD", polygon: "C:XAUUSD", finnhub: "OANDA:XAU_USD" },
+  { raw: "GOLD", hint: "commodity", assetClass: "metal", base: "XAU", quote: "USD", polygon: "C:XAUUSD", finnhub: "OANDA:XAU_USD" },
+
+  // Spot crypto: stablecoin quotes map to USD on Polygon and USDT on Binance
+  { raw: "BTCUSDT", assetClass: "crypto", base: "BTC", quote: "USDT", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "BINANCE:BTCUSDT", assetClass: "crypto", base: "BTC", quote: "USDT", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "BTC/USD", assetClass: "crypto", base: "BTC", quote: "USD", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "BTC-USD", assetClass: "crypto", base: "BTC", quote: "USD", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "BTC/USD", hint: "crypto", assetClass: "crypto", base: "BTC", quote: "USD", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "BTC", hint: "crypto", assetClass: "crypto", base: "BTC", quote: "USD", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "ETHBTC", assetClass: "crypto", base: "ETH", quote: "BTC", polygon: "X:ETHBTC", finnhub: "BINANCE:ETHBTC" },
+  { raw: "KRAKEN:XBTUSD", assetClass: "crypto", base: "BTC", quote: "USD", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "PEPEUSDT", assetClass: "crypto", base: "PEPE", quote: "USDT", polygon: "X:PEPEUSD", finnhub: "BINANCE:PEPEUSDT" },
+  { raw: "COINBASE:SOLEUR", assetClass: "crypto", base: "SOL", quote: "EUR", polygon: "X:SOLEUR", finnhub: "BINANCE:SOLEUR" },
+
+  // Perpetual swaps trade on the spot pair's price
+  { raw: "BINANCE:BTCUSDT.P", assetClass: "crypto", base: "BTC", quote: "USDT", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "BYBIT:ETHUSDT.P", assetClass: "crypto", base: "ETH", quote: "USDT", polygon: "X:ETHUSD", finnhub: "BINANCE:ETHUSDT" },
+  { raw: "BTC-PERP", assetClass: "crypto", base: "BTC", quote: "USD", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "BTCUSD_PERP", assetClass: "crypto", base: "BTC", quote: "USD", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "SOLUSDTPERP", assetClass: "crypto", base: "SOL", quote: "USDT", polygon: "X:SOLUSD", finnhub: "BINANCE:SOLUSDT" },
+  { raw: "OKX:BTC-USDT-SWAP", assetClass: "crypto", base: "BTC", quote: "USDT", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+  { raw: "PF_XBTUSD", assetClass: "crypto", base: "BTC", quote: "USD", polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT" },
+
+  // Stocks, including share classes
+  { raw: "AAPL", assetClass: "stock", polygon: "AAPL", finnhub: "AAPL" },
+  { raw: "NASDAQ:AAPL", assetClass: "stock", polygon: "AAPL", finnhub: "AAPL" },
+  { raw: "NYSE:BRK.B", assetClass: "stock", polygon: "BRK.B", finnhub: "BRK.B" },
+  { raw: "AMEX:SPY", assetClass: "stock", polygon: "SPY", finnhub: "SPY" },
+
+  // Cash indices and index CFDs
+  { raw: "SP:SPX", assetClass: "index", polygon: "I:SPX", finnhub: null },
+  { raw: "NASDAQ:NDX", assetClass: "index", polygon: "I:NDX", finnhub: null },
+  { raw: "US500", assetClass: "index", polygon: "I:SPX", finnhub: null },
+  { raw: "OANDA:SPX500USD", assetClass: "index", polygon: "I:SPX", finnhub: null },
+  { raw: "NAS100", assetClass: "index", polygon: "I:NDX", finnhub: null },
+  { raw: "US30.cash", assetClass: "index", polygon: "I:DJI", finnhub: null },
+  { raw: "GER40", assetClass: "index", polygon: null, finnhub: null },
+  { raw: "DE30EUR", assetClass: "index", polygon: null, finnhub: null },
+
+  // Energy CFDs
+  { raw: "USOIL", assetClass: "commodity", polygon: null, finnhub: null },
+  { raw: "XTI/USD", assetClass: "commodity", polygon: null, finnhub: null },
+  { raw: "OANDA:WTICO_USD", assetClass: "commodity", polygon: null, finnhub: null },
+
+  // Futures: continuous, dated and exchange-prefixed
+  { raw: "CME_MINI:ES1!", assetClass: "futures", polygon: null, finnhub: null },
+  { raw: "NQ1!", assetClass: "futures", polygon: null, finnhub: null },
+  { raw: "ESZ4", assetClass: "futures", polygon: null, finnhub: null },
+  { raw: "MNQH25", assetClass: "futures", polygon: null, finnhub: null },
+  { raw: "6EM5", assetClass: "futures", polygon: null, finnhub: null },
+  { raw: "COMEX:GC1!", assetClass: "futures", polygon: null, finnhub: null },
+  { raw: "EUREX:FDAXZ2024", assetClass: "futures", polygon: null, finnhub: null },
+
+  // OCC options, with and without the space-padded root
+  { raw: "AAPL240119C00190000", assetClass: "option", polygon: "O:AAPL240119C00190000", finnhub: null },
+  { raw: "AAPL  240119C00190000", assetClass: "option", polygon: "O:AAPL240119C00190000", finnhub: null },
+  { raw: "O:SPY251219P00450500", assetClass: "option", polygon: "O:SPY251219P00450500", finnhub: null },
+];
+
+for (const c of CASES) {
+  const label = c.hint ? `${c.raw} (${c.hint})` : c.raw;
+
+  Deno.test(`parses ${label}`, () => {
+    const parsed = parseSymbol(c.raw, c.hint);
+    assertEquals(parsed.assetClass, c.assetClass);
+    if (c.base !== undefined) assertEquals(parsed.base, c.base);
+    if (c.quote !== undefined) assertEquals(parsed.quote, c.quote);
+    assertEquals(polygonTicker(parsed), c.polygon);
+    assertEquals(finnhubTicker(parsed), c.finnhub);
+  });
+}
+
+Deno.test("canonical symbol strips only the exchange prefix", () => {
+  assertEquals(canonicalSymbol("BINANCE:btcusdt.p"), "BTCUSDT.P");
+  assertEquals(canonicalSymbol(" CME_MINI:ES1! "), "ES1!");
+  assertEquals(canonicalSymbol("EUR/USD"), "EUR/USD");
+  assertEquals(canonicalSymbol("BINANCE:"), null);
+  assertEquals(canonicalSymbol(""), null);
+  assertEquals(canonicalSymbol(null), null);
+});
+
+Deno.test("flags perpetuals, futures roots and continuous contracts", () => {
+  assertEquals(parseSymbol("BINANCE:BTCUSDT.P").perpetual, true);
+  assertEquals(parseSymbol("BTCUSDT").perpetual, false);
+
+  const continuous = parseSymbol("CME_MINI:MES1!");
+  assertEquals([continuous.root, continuous.continuous], ["MES", true]);
+
+  const dated = parseSymbol("CLZ24");
+  assertEquals([dated.root, dated.continuous], ["CL", false]);
+});
+
+Deno.test("parses OCC option contracts", () => {
+  assertEquals(parseSymbol("AAPL  240119C00190000").option, {
+    underlying: "AAPL",
+    expiry: "2024-01-19",
+    right: "call",
+    strike: 190,
+  });
+  assertEquals(parseSymbol("SPY251219P00450500").option?.strike, 450.5);
+  assertEquals(parseSymbol("SPY251219P00450500").option?.right, "put");
+});
+
+Deno.test("asset class hints override detection", () => {
+  assertEquals(parseSymbol("ESZ4", "stock").assetClass, "stock");
+  assertEquals(parseSymbol("XYZ", "futures").root, "XYZ");
+  assertEquals(polygonTicker("SOL", "crypto"), "X:SOLUSD");
+  assertEquals(polygonTicker("EUR/USD", "forex"), "C:EURUSD");
+  assertEquals(polygonTicker("AAPL", "stocks"), "AAPL");
+});
+
+Deno.test("matches the highest-priority registry pattern", () => {
+  const entries = [
+    { symbol: "ES", pattern: "^ES([FGHJKMNQUVXZ]\\d{1,2}|\\d!)?$", priority: 0 },
+    { symbol: "MES", pattern: "^MES", priority: 10 },
+    { symbol: "ANY", pattern: "ES", priority: -1 },
+    { symbol: "BROKEN", pattern: "([", priority: 100 },
+  ];
+
+  assertEquals(findPatternMatch("CME_MINI:ES1!", entries)?.symbol, "ES");
+  assertEquals(findPatternMatch("MESZ4", entries)?.symbol, "MES");
+  assertEquals(findPatternMatch("TESLA", entries)?.symbol, "ANY");
+  assertEquals(findPatternMatch("AAPL", entries), null);
+});
@@ -0,0 +1,473 @@
+/**
+ * Symbol parsing shared by the edge functions and the web app.
+ *
+ * Turns whatever a platform sends ("BINANCE:BTCUSDT.P", "OANDA:XAU_USD",
+ * "CME_MINI:ES1!", "AAPL  240119C00190000") into an asset class, base/quote
+ * pair and data-provider tickers. Plain TypeScript with no imports or runtime
+ * APIs so Deno and Vite can both load it; the web app imports it as
+ * "@shared/symbols". Tests: `deno test supabase/functions/_shared`.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SymbolAssetClass =
+  | "forex"
+  | "crypto"
+  | "stock"
+  | "index"
+  | "metal"
+  | "commodity"
+  | "futures"
+  | "option";
+
+export interface OptionContract {
+  underlying: string;
+  // YYYY-MM-DD
+  expiry: string;
+  right: "call" | "put";
+  strike: number;
+}
+
+export interface ParsedSymbol {
+  raw: string;
+  // "BINANCE" for "BINANCE:BTCUSDT"
+  exchange: string | null;
+  // Upper-case, exchange prefix removed - the form stored on positions
+  symbol: string;
+  assetClass: SymbolAssetClass;
+  // Currency/crypto pairs only
+  base: string | null;
+  quote: string | null;
+  // Crypto perpetual swaps ("BTCUSDT.P", "BTC-PERP")
+  perpetual: boolean;
+  // Futures root ("ES" for "ESZ4" and "ES1!")
+  root: string | null;
+  // TradingView continuous contract ("ES1!")
+  continuous: boolean;
+  option: OptionContract | null;
+}
+
+// ============================================================================
+// REFERENCE DATA
+// ============================================================================
+
+const FIAT_CURRENCIES = new Set([
+  "EUR", "USD", "GBP", "JPY", "CHF", "AUD", "CAD", "NZD", "HKD", "SGD",
+  "SEK", "DKK", "NOK", "MXN", "ZAR", "TRY", "PLN", "CNY", "CNH", "INR",
+  "BRL", "RUB", "KRW", "THB", "MYR", "IDR", "PHP", "CZK", "HUF", "ILS",
+]);
+
+const METALS = new Set(["XAU", "XAG", "XPT", "XPD"]);
+
+const METAL_ALIASES: Record<string, string> = {
+  GOLD: "XAU",
+  SILVER: "XAG",
+  PLATINUM: "XPT",
+  PALLADIUM: "XPD",
+};
+
+const CRYPTO_BASES = new Set([
+  "BTC", "ETH", "XRP", "LTC", "BCH", "ADA", "DOT", "LINK", "BNB", "SOL",
+  "DOGE", "SHIB", "AVAX", "MATIC", "POL", "UNI", "ATOM", "XLM", "ALGO", "VET",
+  "FIL", "AAVE", "EOS", "XTZ", "THETA", "XMR", "NEO", "DASH", "ZEC", "COMP",
+  "MKR", "SNX", "YFI", "SUSHI", "CRV", "BAT", "ENJ", "MANA", "SAND", "AXS",
+  "FTM", "ONE", "NEAR", "FLOW", "HBAR", "ICP", "EGLD", "XEC", "QNT", "APE",
+  "TRX", "APT", "ARB", "OP", "SUI", "TON", "PEPE", "WIF", "INJ", "SEI",
+]);
+
+// Kraken and BitMEX call bitcoin XBT
+const CRYPTO_ALIASES: Record<string, string> = { XBT: "BTC" };
+
+const STABLECOINS = new Set(["USDT", "USDC", "BUSD", "FDUSD", "TUSD", "DAI"]);
+
+// Longest first so "BTCUSDT" splits as BTC/USDT, not BTCU/SDT or BTCUSD/T
+const CRYPTO_QUOTES = ["FDUSD", "USDT", "USDC", "BUSD", "TUSD", "DAI", "USD", "EUR", "GBP", "BTC", "ETH"];
+
+// CFD and cash index names -> Polygon index ticker (null: not on Polygon)
+const INDEX_TICKERS: Record<string, string | null> = {
+  SPX: "SPX", SPX500: "SPX", US500: "SPX", SP500: "SPX",
+  NDX: "NDX", NAS100: "NDX", US100: "NDX", USTEC: "NDX", NAS: "NDX",
+  DJI: "DJI", US30: "DJI", DJ30: "DJI", WS30: "DJI",
+  RUT: "RUT", US2000: "RUT", RUSSELL2000: "RUT",
+  VIX: "VIX",
+  DAX: null, GER30: null, GER40: null, DE30: null, DE40: null,
+  UK100: null, FTSE: null, FTSE100: null,
+  JP225: null, JPN225: null, NIKKEI: null, NI225: null,
+  AUS200: null, ASX200: null,
+  FRA40: null, CAC40: null,
+  EU50: null, EUSTX50: null, ESTX50: null, STOXX50E: null,
+  HK50: null, HSI: null,
+  DXY: null,
+};
+
+const COMMODITIES = new Set([
+  "USOIL", "UKOIL", "WTI", "BRENT", "WTICOUSD", "BCOUSD", "XTIUSD", "XBRUSD",
+  "NGAS", "NATGAS", "XNGUSD",
+]);
+
+// Roots recognised without an exchange prefix; anything else needs one (or the registry)
+const FUTURES_ROOTS = new Set([
+  "ES", "MES", "NQ", "MNQ", "YM", "MYM", "RTY", "M2K", "EMD",
+  "CL", "MCL", "QM", "NG", "QG", "RB", "HO", "BZ",
+  "GC", "MGC", "SI", "SIL", "HG", "PL", "PA",
+  "ZB", "ZN", "ZF", "ZT", "UB", "ZC", "ZS", "ZW", "ZL", "ZM", "LE", "HE",
+  "6E", "6J", "6B", "6A", "6C", "6S", "6N", "M6E",
+  "FESX", "FDAX", "FDXM", "FGBL",
+  "BTC", "MBT", "ETH", "MET",
+]);
+
+const FUTURES_EXCHANGES = new Set([
+  "CME", "CME_MINI", "CME_MINI_DL", "CME_DL", "CBOT", "CBOT_MINI", "CBOT_DL",
+  "NYMEX", "NYMEX_DL", "COMEX", "COMEX_DL", "ICE", "ICEUS", "ICEEUR", "EUREX", "SGX",
+]);
+
+const STOCK_EXCHANGES = new Set(["NASDAQ", "NYSE", "AMEX", "ARCA", "BATS", "IEX", "OTC", "LSE", "XETR", "TSX"]);
+
+const FOREX_EXCHANGES = new Set(["FX", "FX_IDC", "FOREX", "OANDA", "FXCM", "FOREXCOM", "PEPPERSTONE", "ICMARKETS", "SAXO", "C"]);
+
+const CRYPTO_EXCHANGES = new Set([
+  "BINANCE", "BINANCEUS", "COINBASE", "KRAKEN", "BITSTAMP", "BITFINEX", "GEMINI", "KUCOIN", "BYBIT",
+  "HUOBI", "HTX", "OKX", "MEXC", "BITGET", "BITMEX", "DERIBIT", "CRYPTO", "CRYPTOCAP", "X",
+]);
+
+const INDEX_EXCHANGES = new Set(["SP", "DJ", "INDEX", "I"]);
+
+// CME month codes, January to December
+const FUTURES_MONTH_CODES = "FGHJKMNQUVXZ";
+
+// ============================================================================
+// PREFIXES
+// ============================================================================
+
+const EXCHANGE_PREFIX = /^([A-Z0-9_]+):/;
+
+// "CME_MINI:ES1!" -> "ES1!"
+export function stripExchangePrefix(symbol: string): string {
+  return symbol.toUpperCase().trim().replace(EXCHANGE_PREFIX, "");
+}
+
+// "CME_MINI:ES1!" -> "CME_MINI"
+export function exchangePrefix(symbol: string): string | null {
+  return symbol.toUpperCase().trim().match(EXCHANGE_PREFIX)?.[1] ?? null;
+}
+
+/**
+ * The form receive-trade stores and matches positions on: upper-case with the
+ * exchange prefix removed, otherwise as sent.
+ */
+export function canonicalSymbol(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  return stripExchangePrefix(raw) || null;
+}
+
+// ============================================================================
+// INSTRUMENT REGISTRY MATCHING
+// ============================================================================
+
+export interface PatternEntry {
+  pattern: string;
+  priority: number;
+}
+
+/**
+ * Highest-priority entry whose regex pattern matches the symbol (exchange
+ * prefix removed). Invalid patterns never match.
+ */
+export function findPatternMatch<T extends PatternEntry>(symbol: string, entries: T[]): T | null {
+  const s = stripExchangePrefix(symbol);
+  let best: T | null = null;
+
+  for (const entry of entries) {
+    if (best && entry.priority <= best.priority) continue;
+    try {
+      if (new RegExp(entry.pattern).test(s)) best = entry;
+    } catch {
+      // The admin UI validates patterns on save; a bad one should not break parsing
+    }
+  }
+
+  return best;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** Map the asset type spellings used across the app onto SymbolAssetClass. */
+export function normalizeAssetClass(value: string | null | undefined): SymbolAssetClass | null {
+  switch (value?.toLowerCase().trim()) {
+    case "forex":
+    case "fx":
+      return "forex";
+    case "crypto":
+      return "crypto";
+    case "stock":
+    case "stocks":
+    case "equity":
+      return "stock";
+    case "index":
+    case "indices":
+      return "index";
+    case "metal":
+    case "metals":
+      return "metal";
+    case "commodity":
+    case "commodities":
+      return "commodity";
+    case "futures":
+    case "future":
+      return "futures";
+    case "option":
+    case "options":
+      return "option";
+    default:
+      return null;
+  }
+}
+
+function splitOnSeparator(s: string): [string, string] | null {
+  const parts = s.split(/[/\-_.]/).filter(Boolean);
+  return parts.length === 2 ? [parts[0], parts[1]] : null;
+}
+
+// "EURUSD", "EUR/USD", "XAU_USD", "EURUSD.m" (MT4/MT5 broker suffix) -> ["EUR", "USD"]
+function parseCurrencyPair(s: string): [string, string] | null {
+  const suffixed = s.match(/^([A-Z]{6})[.+#][A-Z0-9]{0,5}$/);
+  if (suffixed) return [suffixed[1].slice(0, 3), suffixed[1].slice(3)];
+
+  const split = splitOnSeparator(s);
+  if (split) return split;
+  if (/^[A-Z]{6}$/.test(s)) return [s.slice(0, 3), s.slice(3)];
+  return null;
+}
+
+function cryptoBase(base: string): string {
+  return CRYPTO_ALIASES[base] ?? base;
+}
+
+/**
+ * Split a crypto pair. Stablecoin quotes mark any base as crypto; fiat and
+ * crypto quotes need a known base so stock tickers ending in "USD" stay stocks.
+ */
+function parseCryptoPair(s: string, assumeCrypto: boolean): [string, string] | null {
+  const split = splitOnSeparator(s);
+  if (split) {
+    const [base, quote] = [cryptoBase(split[0]), split[1]];
+    if (assumeCrypto || CRYPTO_BASES.has(base) || STABLECOINS.has(quote)) return [base, quote];
+    return null;
+  }
+
+  // A known base wins over a longer quote: "XBTUSD" is XBT/USD, not XB/TUSD
+  const suffixes = CRYPTO_QUOTES.filter((quote) => s.length > quote.length && s.endsWith(quote));
+  for (const quote of suffixes) {
+    const base = cryptoBase(s.slice(0, -quote.length));
+    if (CRYPTO_BASES.has(base)) return [base, quote];
+  }
+  for (const quote of suffixes) {
+    if (STABLECOINS.has(quote) || assumeCrypto) return [cryptoBase(s.slice(0, -quote.length)), quote];
+  }
+
+  const base = cryptoBase(s);
+  if (CRYPTO_BASES.has(base) || (assumeCrypto && /^[A-Z0-9]+$/.test(base))) return [base, "USD"];
+  return null;
+}
+
+// Perpetual swap spellings: BTCUSDT.P, BTC-PERP, BTCUSD_PERP, ETHUSDTPERP, BTC-USDT-SWAP, PF_XBTUSD
+function stripPerpetualMarker(s: string): string | null {
+  const match = s.match(/^(.+?)(?:\.P|[-_]?PERP|-SWAP)$/) ?? s.match(/^P[FI]_(.+)$/);
+  return match ? match[1] : null;
+}
+
+const OCC_OPTION = /^([A-Z][A-Z0-9.]{0,5})(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+
+// OCC option symbol, root padded with spaces or not: "AAPL  240119C00190000"
+function parseOccOption(s: string): OptionContract | null {
+  const match = s.replace(/\s+/g, "").match(OCC_OPTION);
+  if (!match) return null;
+
+  const [, underlying, yy, mm, dd, right, strike] = match;
+  return {
+    underlying,
+    expiry: `20${yy}-${mm}-${dd}`,
+    right: right === "C" ? "call" : "put",
+    strike: Number(strike) / 1000,
+  };
+}
+
+// "ES1!" -> continuous ES; "ESZ4" / "ESZ24" / "ESZ2024" -> dated ES
+function parseFuturesContract(s: string, knownExchange: boolean): { root: string; continuous: boolean } | null {
+  const continuous = s.match(/^(.+?)\d+!$/);
+  if (continuous) return { root: continuous[1], continuous: true };
+
+  const dated = s.match(new RegExp(`^([A-Z0-9]{1,4})[${FUTURES_MONTH_CODES}](\\d{1,2}|\\d{4})$`));
+  if (dated && (knownExchange || FUTURES_ROOTS.has(dated[1]))) return { root: dated[1], continuous: false };
+
+  return null;
+}
+
+// "US500.cash", "SPX500_USD", "DE40EUR" -> "US500", "SPX500", "DE40"
+function indexName(s: string): string | null {
+  const compact = s.replace(/[^A-Z0-9]/g, "").replace(/CASH$/, "");
+  if (compact in INDEX_TICKERS) return compact;
+
+  const withoutCurrency = compact.slice(0, -3);
+  if (FIAT_CURRENCIES.has(compact.slice(-3)) && withoutCurrency in INDEX_TICKERS) return withoutCurrency;
+
+  return null;
+}
+
+function isCommodity(s: string): boolean {
+  return COMMODITIES.has(s.replace(/[^A-Z0-9]/g, ""));
+}
+
+// "XAUUSD", "XAU/USD", "GOLD" -> ["XAU", "USD"]
+function parseMetal(s: string): [string, string] | null {
+  if (METAL_ALIASES[s]) return [METAL_ALIASES[s], "USD"];
+
+  const pair = parseCurrencyPair(s);
+  if (pair && METALS.has(pair[0])) return pair;
+  if (METALS.has(s)) return [s, "USD"];
+  return null;
+}
+
+function detectAssetClass(s: string, exchange: string | null): SymbolAssetClass {
+  if (parseOccOption(s)) return "option";
+
+  const futuresExchange = exchange !== null && FUTURES_EXCHANGES.has(exchange);
+  if (parseFuturesContract(s, futuresExchange) || futuresExchange) return "futures";
+
+  const unmarked = stripPerpetualMarker(s);
+  if (unmarked !== null && parseCryptoPair(unmarked, true)) return "crypto";
+  if (exchange && CRYPTO_EXCHANGES.has(exchange)) return "crypto";
+
+  if (parseMetal(s)) return "metal";
+  if (isCommodity(s)) return "commodity";
+  // Before stock exchanges: TradingView lists the Nasdaq 100 as NASDAQ:NDX
+  if (indexName(s)) return "index";
+  if (exchange && STOCK_EXCHANGES.has(exchange)) return "stock";
+  if (exchange && INDEX_EXCHANGES.has(exchange)) return "index";
+
+  const pair = parseCurrencyPair(s);
+  if (pair && FIAT_CURRENCIES.has(pair[0]) && FIAT_CURRENCIES.has(pair[1])) return "forex";
+  if (exchange && FOREX_EXCHANGES.has(exchange)) return "forex";
+
+  if (parseCryptoPair(s, false)) return "crypto";
+
+  return "stock";
+}
+
+/**
+ * Parse a symbol as sent by a platform. `assetClassHint` (e.g. a prediction's
+ * asset_type or a registry entry's asset_class) overrides detection, except
+ * that gold and silver stay metals when hinted as commodities.
+ */
+export function parseSymbol(raw: string, assetClassHint?: string | null): ParsedSymbol {
+  const exchange = exchangePrefix(raw);
+  const symbol = stripExchangePrefix(raw);
+
+  const detected = detectAssetClass(symbol, exchange);
+  const hint = normalizeAssetClass(assetClassHint);
+  const assetClass = hint && !(hint === "commodity" && detected === "metal") ? hint : detected;
+
+  const parsed: ParsedSymbol = {
+    raw,
+    exchange,
+    symbol,
+    assetClass,
+    base: null,
+    quote: null,
+    perpetual: false,
+    root: null,
+    continuous: false,
+    option: null,
+  };
+
+  switch (assetClass) {
+    case "forex":
+    case "metal": {
+      const pair = parseMetal(symbol) ?? parseCurrencyPair(symbol);
+      if (pair) [parsed.base, parsed.quote] = pair;
+      break;
+    }
+    case "crypto": {
+      const unmarked = stripPerpetualMarker(symbol);
+      parsed.perpetual = unmarked !== null;
+      const pair = parseCryptoPair(unmarked ?? symbol, true);
+      if (pair) [parsed.base, parsed.quote] = pair;
+      break;
+    }
+    case "futures": {
+      const contract = parseFuturesContract(symbol, true);
+      parsed.root = contract?.root ?? symbol;
+      parsed.continuous = contract?.continuous ?? false;
+      break;
+    }
+    case "option":
+      parsed.option = parseOccOption(symbol);
+      break;
+  }
+
+  return parsed;
+}
+
+// ============================================================================
+// DATA PROVIDER TICKERS
+// ============================================================================
+
+function asParsed(symbol: string | ParsedSymbol, assetClassHint?: string | null): ParsedSymbol {
+  return typeof symbol === "string" ? parseSymbol(symbol, assetClassHint) : symbol;
+}
+
+/**
+ * Polygon.io ticker: C:EURUSD, C:XAUUSD, X:BTCUSD, I:SPX, O:AAPL240119C00190000
+ * or the plain stock ticker. Null when Polygon does not carry the instrument.
+ */
+export function polygonTicker(symbol: string | ParsedSymbol, assetClassHint?: string | null): string | null {
+  const p = asParsed(symbol, assetClassHint);
+
+  switch (p.assetClass) {
+    case "forex":
+    case "metal":
+      return p.base && p.quote ? `C:${p.base}${p.quote}` : null;
+    case "crypto": {
+      if (!p.base) return null;
+      // Polygon quotes crypto against fiat; stablecoin pairs track USD
+      const quote = !p.quote || STABLECOINS.has(p.quote) ? "USD" : p.quote;
+      return `X:${p.base}${quote}`;
+    }
+    case "index": {
+      const name = indexName(p.symbol);
+      const ticker = name ? INDEX_TICKERS[name] : p.symbol.replace(/[^A-Z0-9]/g, "");
+      return ticker ? `I:${ticker}` : null;
+    }
+    case "option":
+      return p.option ? `O:${p.symbol.replace(/\s+/g, "")}` : null;
+    case "stock":
+      return p.symbol;
+    default:
+      return null;
+  }
+}
+
+/** Finnhub ticker: OANDA:EUR_USD, OANDA:XAU_USD, BINANCE:BTCUSDT or the plain stock ticker. */
+export function finnhubTicker(symbol: string | ParsedSymbol, assetClassHint?: string | null): string | null {
+  const p = asParsed(symbol, assetClassHint);
+
+  switch (p.assetClass) {
+    case "forex":
+    case "metal":
+      return p.base && p.quote ? `OANDA:${p.base}_${p.quote}` : null;
+    case "crypto": {
+      if (!p.base) return null;
+      // Binance lists USDT pairs rather than USD
+      const quote = !p.quote || p.quote === "USD" || STABLECOINS.has(p.quote) ? "USDT" : p.quote;
+      return `BINANCE:${p.base}${quote}`;
+    }
+    case "stock":
+      return p.symbol;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Shared trade math for edge functions.
+ *
+ * Asset class detection, pip/tick sizing, PnL calculation and trading costs
+ * used by the live receive-trade webhook and by position replays, so both
+ * produce identical rows.
+ *
+ * Symbols found in the instruments registry use its contract specs; symbols
+ * the registry does not cover are classified by the shared symbol parser.
+ */
+
+import { findPatternMatch, parseSymbol } from "./symbols.ts";
+
+// ============================================================================
+// INSTRUMENT REGISTRY
+// ============================================================================
+
+export interface InstrumentSpec {
+  symbol: string;
+  pattern: string;
+  priority: number;
+  assetClass: AssetClass;
+  tickSize: number;
+  // Per contract, in quoteCurrency
+  tickValue: number;
+  multiplier: number;
+  pipSize: number | null;
+  quoteCurrency: string;
+  dailyVolatility: number | null;
+}
+
+/** Highest-priority registry entry whose pattern matches the symbol, if any. */
+export function findInstrument(symbol: string, instruments: InstrumentSpec[]): InstrumentSpec | null {
+  return findPatternMatch(symbol, instruments);
+}
+
+// ============================================================================
+// ASSET CLASS DETECTION
+// ============================================================================
+
+export type AssetClass = "forex" | "crypto" | "stock" | "index" | "metal" | "commodity" | "futures";
+
+export function getAssetClass(symbol: string, instrument?: InstrumentSpec | null): AssetClass {
+  if (instrument) return instrument.assetClass;
+
+  // Options get stock sizing unless the registry gives them a contract multiplier
+  const { assetClass } = parseSymbol(symbol);
+  return assetClass === "option" ? "stock" : assetClass;
+}
+
+// ============================================================================
+// PIP / TICK SIZE
+// ============================================================================
+
+export function getPipSize(symbol: string, instrument?: InstrumentSpec | null): number {
+  if (instrument?.pipSize) return instrument.pipSize;
+
+  const s = symbol.toUpperCase();
+  if (s.endsWith("JPY")) return 0.01;
+  if (s.startsWith("XAU")) return 0.1;
+  if (s.startsWith("XAG")) return 0.01;
+  return 0.0001;
+}
+
+export function getTickSize(assetClass: AssetClass, symbol: string, instrument?: InstrumentSpec | null): number {
+  if (instrument) return instrument.tickSize;
+  if (assetClass === "forex") return getPipSize(symbol);
+  if (assetClass === "metal") {
+    if (symbol.startsWith("XAU")) return 0.1;
+    if (symbol.startsWith("XAG")) return 0.01;
+    return 0.01;
+  }
+  if (assetClass === "index" || assetClass === "commodity") return 0.01;
+  return 0.01; // stocks, crypto
+}
+
+export interface PositionSizing {
+  assetClass: AssetClass;
+  pipSize: number | null;
+  pipValue: number | null;
+  tickSize: number;
+  tickValue: number | null;
+}
+
+// Pip/tick columns stored on a position of `quantity` units
+export function getPositionSizing(symbol: string, quantity: number, instrument?: InstrumentSpec | null): PositionSizing {
+  const assetClass = getAssetClass(symbol, instrument);
+
+  if (instrument) {
+    return {
+      assetClass,
+      pipSize: instrument.pipSize,
+      pipValue: instrument.pipSize ? quantity * instrument.pipSize * instrument.multiplier : null,
+      tickSize: instrument.tickSize,
+      tickValue: quantity * instrument.tickValue,
+    };
+  }
+
+  const pipSize = getPipSize(symbol);
+  return {
+    assetClass,
+    pipSize: assetClass === "forex" ? pipSize : null,
+    pipValue: assetClass === "forex" ? quantity * pipSize : null,
+    tickSize: getTickSize(assetClass, symbol),
+    tickValue: assetClass === "metal" || assetClass === "index" || assetClass === "commodity" ? quantity : null,
+  };
+}
+
+// ============================================================================
+// PNL CALCULATION - TradingView Accurate
+// ============================================================================
+
+export interface PnLResult {
+  pnl: number;
+  pnlPct: number;
+  pipSize: number | null;
+  pipValue: number | null;
+  pips: number | null;
+  tickSize: number | null;
+  tickValue: number | null;
+  ticks: number | null;
+}
+
+export function calculatePnL(
+  side: string,
+  entryPrice: number,
+  exitPrice: number,
+  quantity: number,
+  assetClass: AssetClass,
+  symbol?: string,
+  instrument?: InstrumentSpec | null,
+): PnLResult {
+  const isLong = side === "long";
+  const priceDiff = isLong ? exitPrice - entryPrice : entryPrice - exitPrice;
+
+  // Registry instruments: quantity is in contracts, each worth price * multiplier
+  if (instrument) {
+    const pnl = Math.round(priceDiff * quantity * instrument.multiplier * 100) / 100;
+    const notional = entryPrice * quantity * instrument.multiplier;
+
+    return {
+      pnl,
+      pnlPct: notional > 0 ? Math.round((pnl / notional) * 10000) / 100 : 0,
+      pipSize: instrument.pipSize,
+      pipValue: instrument.pipSize ? instrument.pipSize * instrument.multiplier * quantity : null,
+      pips: instrument.pipSize ? priceDiff / instrument.pipSize : null,
+      tickSize: instrument.tickSize,
+      tickValue: instrument.tickValue * quantity,
+      ticks: priceDiff / instrument.tickSize,
+    };
+  }
+
+  let pnl = 0;
+  let pipSize: number | null = null;
+  let pipValuePerUnit: number | null = null;
+  let pips: number | null = null;
+  let tickSize: number | null = null;
+  let tickValuePerUnit: number | null = null;
+  let ticks: number | null = null;
+
+  // FOREX
+  if (assetClass === "forex") {
+    // Price difference (long or short already handled above)
+    pnl = priceDiff * quantity;
+    pnl = Math.round(pnl * 100) / 100; // round to cents
+
+    // TradingView-style metadata (optional)
+    pipSize = symbol?.endsWith("JPY") ? 0.01 : 0.0001;
+
+    pips = priceDiff / pipSize; // how many pips the move was
+    pipValuePerUnit = quantity * pipSize; // pip value per "pip"
+  }
+
+  // METALS
+  else if (assetClass === "metal") {
+    tickSize = symbol?.startsWith("XAU") ? 0.1 : 0.01;
+    tickValuePerUnit = 1; // 1 tick = 1 * quantity
+    ticks = priceDiff / tickSize;
+    pnl = Math.round(ticks * quantity * tickValuePerUnit * 100) / 100;
+  }
+
+  // INDICES / COMMODITIES
+  else if (assetClass === "index" || assetClass === "commodity") {
+    tickSize = 0.01;
+    tickValuePerUnit = 1;
+    ticks = priceDiff / tickSize;
+    pnl = Math.round(ticks * quantity * tickValuePerUnit * 100) / 100;
+  }
+
+  // CRYPTO / STOCK
+  else {
+    pnl = Math.round(priceDiff * quantity * 100) / 100;
+  }
+
+  const cost = entryPrice * quantity;
+  const pnlPct = cost > 0 ? Math.round((pnl / cost) * 10000) / 100 : 0;
+
+  return {
+    pnl,
+    pnlPct,
+    pipSize,
+    pipValue: pipValuePerUnit ? pipValuePerUnit * quantity : null,
+    pips,
+    tickSize,
+    tickValue: tickValuePerUnit ? tickValuePerUnit * quantity : null,
+    ticks,
+  };
+}
+
+// ============================================================================
+// PNL CURRENCY
+// ============================================================================
+
+// Stablecoins settle as dollars for conversion purposes
+const USD_EQUIVALENTS = ["USDT", "USDC", "BUSD"];
+
+const INDEX_CURRENCIES: Array<[string[], string]> = [
+  [["DAX", "GER30", "GER40", "DE30", "DE40", "FRA40", "CAC40", "EU50", "EUSTX50"], "EUR"],
+  [["UK100", "FTSE"], "GBP"],
+  [["JP225", "JPN225", "NIKKEI"], "JPY"],
+  [["AUS200", "ASX200"], "AUD"],
+  [["HK50", "HSI"], "HKD"],
+];
+
+/**
+ * Currency calculatePnL's result is denominated in - the quote currency of the
+ * instrument. Anything unrecognised is assumed to be USD-quoted.
+ */
+export function getQuoteCurrency(symbol: string, assetClass: AssetClass, instrument?: InstrumentSpec | null): string {
+  if (instrument) return instrument.quoteCurrency;
+
+  const s = symbol.toUpperCase();
+
+  if (assetClass === "forex" || assetClass === "metal") {
+    const quote = s.slice(-3);
+    return /^[A-Z]{3}$/.test(quote) ? quote : "USD";
+  }
+
+  if (assetClass === "crypto") {
+    if (USD_EQUIVALENTS.some((c) => s.endsWith(c))) return "USD";
+    if (s.endsWith("EUR")) return "EUR";
+    return "USD";
+  }
+
+  if (assetClass === "index") {
+    const match = INDEX_CURRENCIES.find(([patterns]) => patterns.some((p) => s.includes(p)));
+    return match ? match[1] : "USD";
+  }
+
+  return "USD";
+}
+
+// ============================================================================
+// LOT MATCHING METHOD
+// ============================================================================
+
+// fifo/lifo close the oldest/newest lot first; average pools same-side lots at
+// their volume-weighted entry price, like average-cost broker accounting.
+export type MatchingMethod = "fifo" | "lifo" | "average";
+
+export function normalizeMatchingMethod(raw: unknown): MatchingMethod {
+  return raw === "lifo" || raw === "average" ? raw : "fifo";
+}
+
+// ============================================================================
+// TRADING COSTS (COMMISSION / SWAP / FUNDING)
+// ============================================================================
+
+// commission is always a cost; swap and funding are signed cash flows as
+// brokers report them (negative = paid by the trader, positive = received).
+export interface Charges {
+  commission: number;
+  swap: number;
+  funding: number;
+}
+
+export const NO_CHARGES: Charges = { commission: 0, swap: 0, funding: 0 };
+
+function parseAmount(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === "") return 0;
+  const value = Number(raw);
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * Read commission/swap/funding fields from an event body. FEE events may send
+ * a single `amount` with a `fee_type`; FUNDING events send the payment as
+ * `amount`. Returns null when any supplied value is not a number.
+ */
+export function parseCharges(eventType: string, body: Record<string, unknown>): Charges | null {
+  const commission = parseAmount(body.commission ?? body.fee ?? body.fees);
+  const swap = parseAmount(body.swap ?? body.swaps);
+  const funding = parseAmount(body.funding ?? body.funding_fee ?? body.fundingFee);
+  const amount = parseAmount(body.amount);
+
+  if (commission === null || swap === null || funding === null || amount === null) return null;
+
+  const charges: Charges = { commission: Math.abs(commission), swap, funding };
+
+  if (eventType === "FUNDING") {
+    charges.funding += amount;
+  } else if (eventType === "FEE") {
+    const feeType = String(body.fee_type ?? body.feeType ?? "commission").toLowerCase();
+    if (feeType === "swap") charges.swap += amount;
+    else if (feeType === "funding") charges.funding += amount;
+    else charges.commission += Math.abs(amount);
+  }
+
+  return charges;
+}
+
+// Charges already stored on a positions row
+export function chargesOf(row: { commission?: unknown; swap?: unknown; funding?: unknown }): Charges {
+  return {
+    commission: Number(row.commission) || 0,
+    swap: Number(row.swap) || 0,
+    funding: Number(row.funding) || 0,
+  };
+}
+
+export function hasCharges(c: Charges): boolean {
+  return c.commission !== 0 || c.swap !== 0 || c.funding !== 0;
+}
+
+export function addCharges(a: Charges, b: Charges): Charges {
+  return {
+    commission: roundCharge(a.commission + b.commission),
+    swap: roundCharge(a.swap + b.swap),
+    funding: roundCharge(a.funding + b.funding),
+  };
+}
+
+// Share of the charges for a fraction of a position (partial closes, allocations)
+export function scaleCharges(c: Charges, ratio: number): Charges {
+  return {
+    commission: roundCharge(c.commission * ratio),
+    swap: roundCharge(c.swap * ratio),
+    funding: roundCharge(c.funding * ratio),
+  };
+}
+
+export function subtractCharges(a: Charges, b: Charges): Charges {
+  return addCharges(a, scaleCharges(b, -1));
+}
+
+// Net cost stored in positions.fees_total; net PnL = pnl - fees_total
+export function chargesCost(c: Charges): number {
+  return roundCharge(c.commission - c.swap - c.funding);
+}
+
+// Column values for a positions insert/update
+export function chargeColumns(c: Charges): Charges & { fees_total: number } {
+  return { commission: c.commission, swap: c.swap, funding: c.funding, fees_total: chargesCost(c) };
+}
+
+function roundCharge(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
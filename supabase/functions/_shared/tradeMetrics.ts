@@ -0,0 +1,960 @@
+/**
+ * Verified trading metrics, maintained incrementally.
+ *
+ * A closed position is scored once: its planned risk and R-multiple are
+ * written back to the row and metrics_calculated_at is set. It is then folded
+ * into running totals kept in user_trading_metric_totals (one row for all
+ * accounts, one per account), and the user_trading_metrics rows are derived
+ * from those totals. Each write also records the day's snapshot in
+ * user_trading_metric_snapshots for trend charts.
+ *
+ * Running totals cannot take back a trade, so some changes re-aggregate the
+ * stored R-multiples of every scored position instead:
+ * - a position re-marked for recalculation after it was counted
+ * - a trade closing before the last one counted
+ * - deleted positions, which flag the totals stale
+ * - a changed account starting balance, which does the same
+ * - a concurrent update winning the race for the totals
+ *
+ * Re-aggregating replays the trades in close order, so it also rebuilds the
+ * daily snapshots. rebuildMetrics re-scores every position as well, for when
+ * the risk model changes.
+ *
+ * Positions are checked for gaming before they are counted (see
+ * _shared/integrity.ts); excluded positions are scored but never counted.
+ * Neither are positions whose PnL could not be converted into the account
+ * currency, until a rebuild finds a rate for them.
+ */
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type InstrumentSpec, calculatePnL, getAssetClass } from "./tradeMath.ts";
+import { getInstrument } from "./instruments.ts";
+import { ATR_PERIOD, getAtr } from "./priceHistory.ts";
+import {
+  type ClosedTrade,
+  type PerformanceTotals,
+  addToPerformanceTotals,
+  canFoldTrade,
+  emptyPerformanceTotals,
+  performanceStatsFromTotals,
+  sortByClose,
+} from "./performanceStats.ts";
+import { addToReservoir, bootstrapMeanInterval, wilsonInterval } from "./confidence.ts";
+import { INTEGRITY_COLUMNS, checkIntegrity, hasAccountFlags } from "./integrity.ts";
+
+// stop: distance to the initial stop; atr: 14-day ATR; volatility: static estimate
+export type RiskMethod = "stop" | "atr" | "volatility";
+
+// Bump when MetricTotals changes shape; stored totals of another shape are rebuilt
+const TOTALS_SCHEMA = 5;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Attempts at re-aggregating before the totals are left flagged stale
+const MAX_REAGGREGATE_ATTEMPTS = 3;
+
+const SCORE_COLUMNS =
+  `${INTEGRITY_COLUMNS}, side, exit_price, pnl, net_pnl, is_exchange_verified, exchange_source, fees_total, asset_class, initial_stop_loss, r_multiple, pnl_unconverted`;
+
+const TRADE_COLUMNS =
+  "account_id, exit_timestamp, pnl, net_pnl, fees_total, r_multiple, risk_method, is_exchange_verified, exchange_source, integrity_excluded, pnl_unconverted";
+
+interface Position {
+  id: number;
+  account_id: string | null;
+  symbol: string;
+  side: string;
+  entry_price: number;
+  exit_price: number | null;
+  entry_timestamp: string;
+  exit_timestamp: string | null;
+  quantity: number;
+  pnl: number | null;
+  net_pnl: number | null;
+  is_exchange_verified: boolean;
+  exchange_source: string | null;
+  fees_total: number;
+  asset_class: string | null;
+  initial_stop_loss: number | null;
+  fx_rate: number | null;
+  r_multiple: number | null;
+  is_simulation: boolean;
+  integrity_excluded: boolean;
+  pnl_unconverted: boolean;
+}
+
+type ScoredPositionRow = Pick<
+  Position,
+  "account_id" | "exit_timestamp" | "pnl" | "net_pnl" | "fees_total" | "r_multiple" | "is_exchange_verified" | "exchange_source"
+> & { risk_method: string | null; integrity_excluded: boolean; pnl_unconverted: boolean };
+
+interface TradeResult extends ClosedTrade {
+  accountId: string | null;
+  verified: boolean;
+  riskMethod: RiskMethod;
+}
+
+interface MetricTotals extends PerformanceTotals {
+  schema: number;
+  verifiedCount: number;
+  stopBasedCount: number;
+  positiveRCount: number;
+  // Reservoir sample of the R-multiples, for the bootstrap interval on average R
+  rSample: number[];
+}
+
+interface TotalsRow {
+  id: string;
+  account_id: string | null;
+  totals: MetricTotals;
+  version: number;
+  stale: boolean;
+}
+
+interface Connection {
+  account_id: string | null;
+  last_sync_at: string | null;
+}
+
+export type MetricsRow = ReturnType<typeof metricsFromTotals> & ReturnType<typeof confidenceFromTotals> & {
+  user_id: string;
+  account_id: string | null;
+  last_api_sync_at: string | null;
+  updated_at: string;
+};
+
+// Totals as they stood at the end of a past day, for backfilling snapshots
+interface DailyTotals {
+  accountId: string | null;
+  date: string;
+  totals: MetricTotals;
+}
+
+export interface MetricsUpdate {
+  overall: MetricsRow;
+  accounts: MetricsRow[];
+  // Positions whose risk and R-multiple were (re)calculated
+  tradesScored: number;
+  // Whether the totals were rebuilt from every scored position
+  reaggregated: boolean;
+}
+
+// ============================================================================
+// RISK AND R-MULTIPLE
+// ============================================================================
+
+// Volatility lookup table - conservative daily volatility percentages
+// These represent typical adverse price movements per asset class.
+// Only used when there is no price history to derive an ATR from.
+const VOLATILITY_TABLE: Record<string, number> = {
+  // Major cryptocurrencies
+  "BTC": 0.02, // 2% - Bitcoin
+  "ETH": 0.025, // 2.5% - Ethereum
+  "SOL": 0.03, // 3% - Solana
+  "XRP": 0.03, // 3% - Ripple
+  "BNB": 0.025, // 2.5% - Binance Coin
+  "ADA": 0.035, // 3.5% - Cardano
+  "DOT": 0.035, // 3.5% - Polkadot
+  "DOGE": 0.04, // 4% - Dogecoin
+  "AVAX": 0.035, // 3.5% - Avalanche
+  "MATIC": 0.035, // 3.5% - Polygon
+  "LINK": 0.03, // 3% - Chainlink
+
+  // Default by asset class
+  "crypto_major": 0.025, // 2.5% - Large cap crypto
+  "crypto_alt": 0.04, // 4% - Alt coins
+  "crypto_small": 0.05, // 5% - Small cap / meme coins
+  "stock": 0.015, // 1.5% - Stocks
+  "forex": 0.008, // 0.8% - Forex
+  "futures": 0.02, // 2% - Futures
+  "default": 0.03, // 3% - Default fallback
+};
+
+// Known major crypto symbols for classification
+const MAJOR_CRYPTO = ["BTC", "ETH", "BNB", "SOL", "XRP", "ADA", "DOT", "AVAX", "MATIC", "LINK"];
+const MEME_COINS = ["DOGE", "SHIB", "PEPE", "FLOKI", "BONK", "WIF", "MEME"];
+
+// Get static volatility for a symbol
+function getVolatility(symbol: string, assetClass: string | null, instrument: InstrumentSpec | null): number {
+  // Registry instruments carry their own volatility
+  if (instrument?.dailyVolatility) {
+    return instrument.dailyVolatility;
+  }
+
+  // Normalize symbol - remove common suffixes
+  const normalized = symbol
+    .toUpperCase()
+    .replace(/USD$/, "")
+    .replace(/USDT$/, "")
+    .replace(/-USD$/, "")
+    .replace(/\/USD$/, "")
+    .replace(/PERP$/, "")
+    .replace(/-PERP$/, "");
+
+  // Check direct lookup first
+  if (VOLATILITY_TABLE[normalized]) {
+    return VOLATILITY_TABLE[normalized];
+  }
+
+  // Check asset class
+  if (assetClass) {
+    const ac = assetClass.toLowerCase();
+    if (ac === "crypto") {
+      // Classify crypto by symbol
+      if (MAJOR_CRYPTO.includes(normalized)) {
+        return VOLATILITY_TABLE["crypto_major"];
+      }
+      if (MEME_COINS.includes(normalized)) {
+        return VOLATILITY_TABLE["crypto_small"];
+      }
+      return VOLATILITY_TABLE["crypto_alt"];
+    }
+    if (ac === "forex" || ac === "fx") return VOLATILITY_TABLE["forex"];
+    if (ac === "stock" || ac === "equity") return VOLATILITY_TABLE["stock"];
+    if (ac === "futures") return VOLATILITY_TABLE["futures"];
+  }
+
+  // Infer from symbol patterns
+  if (
+    normalized.endsWith("BTC") || normalized.startsWith("BTC") ||
+    normalized.includes("USDT") || normalized.includes("USD")
+  ) {
+    // Likely crypto
+    if (MAJOR_CRYPTO.some((c) => normalized.includes(c))) {
+      return VOLATILITY_TABLE["crypto_major"];
+    }
+    return VOLATILITY_TABLE["crypto_alt"];
+  }
+
+  // Forex pairs (6 character codes like EURUSD)
+  if (/^[A-Z]{6}$/.test(normalized)) {
+    return VOLATILITY_TABLE["forex"];
+  }
+
+  return VOLATILITY_TABLE["default"];
+}
+
+/**
+ * Daily volatility from price history: the 14-day ATR before entry as a
+ * fraction of the last close. Null when there are not enough daily bars.
+ */
+async function getAtrVolatility(serviceClient: SupabaseClient, pos: Position): Promise<number | null> {
+  const result = await getAtr(serviceClient, pos.symbol, pos.asset_class, new Date(pos.entry_timestamp));
+  if (!result) return null;
+
+  console.log(
+    `ATR(${ATR_PERIOD}) for ${pos.symbol} before ${pos.entry_timestamp.slice(0, 10)}: ${result.atr} on close ${result.close}`,
+  );
+  return result.atr / result.close;
+}
+
+/**
+ * Calculate estimated risk using Volatility-Adjusted Position Risk model
+ *
+ * Step 1: Position Notional = entry_price × quantity × contract multiplier
+ * Step 2: Estimated Risk = Position Notional × Volatility % (ATR-derived when
+ *         available, otherwise from the registry or the static table)
+ * Step 3: Final Risk = max(Estimated Risk, abs(realized loss))
+ *
+ * This ensures we never underestimate risk on losing trades
+ */
+function calculateVolatilityAdjustedRisk(
+  entryPrice: number,
+  quantity: number,
+  symbol: string,
+  assetClass: string | null,
+  netPnl: number,
+  instrument: InstrumentSpec | null,
+  atrVolatility: number | null = null,
+): number {
+  // Step 1: Calculate position notional
+  const positionNotional = entryPrice * Math.abs(quantity) * (instrument?.multiplier ?? 1);
+
+  // Step 2: Get volatility and calculate estimated risk
+  const volatility = atrVolatility ?? getVolatility(symbol, assetClass, instrument);
+  const estimatedRisk = positionNotional * volatility;
+
+  // Step 3: Apply safety rule - risk cannot be less than actual loss
+  const actualLoss = netPnl < 0 ? Math.abs(netPnl) : 0;
+  const finalRisk = Math.max(estimatedRisk, actualLoss, 0.01); // Ensure non-zero
+
+  console.log(
+    `Risk for ${symbol}: Notional=${positionNotional.toFixed(2)}, Vol=${(volatility * 100).toFixed(1)}%, Est=${estimatedRisk.toFixed(2)}, Final=${finalRisk.toFixed(2)}`,
+  );
+
+  return finalRisk;
+}
+
+/**
+ * Planned risk from the initial stop loss: what the position would have lost
+ * before fees had the stop been hit, converted to account currency like its
+ * PnL. Returns null when there is no stop, or the stop sits at or beyond entry
+ * so nothing was at risk - the caller falls back to the volatility estimate.
+ *
+ * Unlike the volatility estimate this is not floored at the realized loss: a
+ * fill through the stop shows up as a loss beyond -1R.
+ */
+function calculateStopRisk(pos: Position, instrument: InstrumentSpec | null): number | null {
+  const stop = pos.initial_stop_loss;
+  if (stop === null || !(stop > 0)) return null;
+
+  const { pnl } = calculatePnL(
+    pos.side,
+    pos.entry_price,
+    stop,
+    Math.abs(pos.quantity),
+    getAssetClass(pos.symbol, instrument),
+    pos.symbol,
+    instrument,
+  );
+  if (pnl >= 0) return null;
+
+  const risk = Math.abs(pnl) * (pos.fx_rate ?? 1);
+  console.log(`Risk for ${pos.symbol}: Entry=${pos.entry_price}, Stop=${stop}, Planned=${risk.toFixed(2)}`);
+
+  return risk;
+}
+
+// Calculate R-Multiple: Net PnL / Risk
+function calculateRMultiple(netPnl: number, risk: number): number {
+  if (risk <= 0) return 0;
+  return netPnl / risk;
+}
+
+// Net PnL after commissions, swaps and funding (fees_total)
+function netPnlOf(pos: Pick<Position, "net_pnl" | "pnl" | "fees_total">): number {
+  return pos.net_pnl ?? (pos.pnl || 0) - (pos.fees_total || 0);
+}
+
+// Excluded for gaming, or PnL not in the account currency
+function isCounted(pos: Pick<Position, "integrity_excluded" | "pnl_unconverted">): boolean {
+  return !pos.integrity_excluded && !pos.pnl_unconverted;
+}
+
+function isVerifiedPosition(pos: Pick<Position, "is_exchange_verified" | "exchange_source">): boolean {
+  // Count as verified if from exchange source
+  return Boolean(pos.is_exchange_verified || pos.exchange_source);
+}
+
+/**
+ * Scores a closed position and writes its risk and R-multiple back. With
+ * claim, the write only lands if no one else scored the position meanwhile;
+ * returns null when it did not land.
+ */
+async function scorePosition(
+  serviceClient: SupabaseClient,
+  pos: Position,
+  claim: boolean,
+): Promise<TradeResult | null> {
+  const netPnl = netPnlOf(pos);
+  const instrument = await getInstrument(serviceClient, pos.symbol);
+
+  // Planned risk from the stop when there is one; otherwise estimate it
+  // from volatility, preferring the ATR from cached price history
+  const stopRisk = calculateStopRisk(pos, instrument);
+  const atrVolatility = stopRisk === null ? await getAtrVolatility(serviceClient, pos) : null;
+  const riskMethod: RiskMethod = stopRisk !== null ? "stop" : atrVolatility !== null ? "atr" : "volatility";
+  const estimatedRisk = stopRisk ??
+    calculateVolatilityAdjustedRisk(
+      pos.entry_price,
+      pos.quantity,
+      pos.symbol,
+      pos.asset_class,
+      netPnl,
+      instrument,
+      atrVolatility,
+    );
+
+  const rMultiple = calculateRMultiple(netPnl, estimatedRisk);
+
+  let update = serviceClient
+    .from("positions")
+    .update({
+      r_multiple: rMultiple,
+      estimated_risk: estimatedRisk,
+      risk_method: riskMethod,
+      metrics_calculated_at: new Date().toISOString(),
+    })
+    .eq("id", pos.id);
+  if (claim) update = update.is("metrics_calculated_at", null);
+
+  const { data, error } = await update.select("id");
+
+  if (error) {
+    console.error(`Error updating position ${pos.id}:`, error);
+    return null;
+  }
+  if (!data || data.length === 0) return null;
+
+  return {
+    accountId: pos.account_id,
+    rMultiple,
+    netPnl,
+    closedAt: pos.exit_timestamp as string,
+    verified: isVerifiedPosition(pos),
+    riskMethod,
+  };
+}
+
+// ============================================================================
+// AGGREGATES
+// ============================================================================
+
+/** One part of the accuracy score: the points it earned and the input behind them. */
+export interface AccuracyComponent {
+  points: number;
+  max_points: number;
+  value: number;
+  // The input earns nothing at zero_at and full points at full_at, linearly between
+  zero_at: number;
+  full_at: number;
+}
+
+export interface AccuracyBreakdown {
+  average_r: AccuracyComponent;
+  positive_r: AccuracyComponent;
+  consistency: AccuracyComponent;
+}
+
+function scoreComponent(value: number, zeroAt: number, fullAt: number, maxPoints: number): AccuracyComponent {
+  const share = Math.min(1, Math.max(0, (value - zeroAt) / (fullAt - zeroAt)));
+  return { points: share * maxPoints, max_points: maxPoints, value, zero_at: zeroAt, full_at: fullAt };
+}
+
+// Calculate accuracy score (0-100)
+// Combines: Average R (expectancy), % of trades with R > 0, Consistency (variance penalty)
+function calculateAccuracyScore(
+  averageR: number,
+  positiveRPercentage: number,
+  rVariance: number,
+): { score: number; breakdown: AccuracyBreakdown } {
+  const breakdown: AccuracyBreakdown = {
+    // Average R contribution (0-40 points): -2R earns nothing, +3R or better
+    // the full 40, so breakeven is 16 points and each +1R adds 8
+    average_r: scoreComponent(averageR, -2, 3, 40),
+    // Positive R percentage (0-40 points): 100% positive R trades = 40 points
+    positive_r: scoreComponent(positiveRPercentage, 0, 100, 40),
+    // Consistency bonus (0-20 points): R variance of 0 earns the full 20,
+    // each unit of variance costs 5, so 4 or more earns nothing
+    consistency: scoreComponent(rVariance, 4, 0, 20),
+  };
+
+  const totalScore = breakdown.average_r.points + breakdown.positive_r.points + breakdown.consistency.points;
+
+  // Clamp to 0-100
+  return { score: Math.min(100, Math.max(0, totalScore)), breakdown };
+}
+
+function emptyTotals(startingBalance: number | null): MetricTotals {
+  return {
+    ...emptyPerformanceTotals(startingBalance),
+    schema: TOTALS_SCHEMA,
+    verifiedCount: 0,
+    stopBasedCount: 0,
+    positiveRCount: 0,
+    rSample: [],
+  };
+}
+
+function addTrade(totals: MetricTotals, trade: TradeResult): void {
+  addToPerformanceTotals(totals, trade);
+  if (trade.verified) totals.verifiedCount++;
+  if (trade.riskMethod === "stop") totals.stopBasedCount++;
+  if (trade.rMultiple > 0) totals.positiveRCount++;
+  // Four decimals keep the stored sample compact
+  addToReservoir(totals.rSample, totals.count, Math.round(trade.rMultiple * 1e4) / 1e4);
+}
+
+// A user_trading_metrics row (all accounts or one) from its running totals
+function metricsFromTotals(totals: MetricTotals, hasActiveConnection: boolean, integrityFlagged: boolean) {
+  const totalTrades = totals.count;
+  const winRate = totalTrades > 0 ? (totals.winCount / totalTrades) * 100 : null;
+  const totalR = totalTrades > 0 ? totals.sumR : null;
+  const averageR = totalR !== null ? totalR / totalTrades : null;
+  const positiveRPercentage = totalTrades > 0 ? (totals.positiveRCount / totalTrades) * 100 : null;
+
+  // Population variance of the R-multiples
+  const rVariance = totalTrades >= 2 && averageR !== null
+    ? Math.max(0, totals.sumRSquared / totalTrades - averageR ** 2)
+    : 0;
+
+  const stopBasedPercentage = totalTrades > 0 ? (totals.stopBasedCount / totalTrades) * 100 : null;
+
+  // The breakdown is kept from the first trade so users can see where the
+  // score is heading; the score itself only counts with 30+ trades
+  const accuracy = averageR !== null && positiveRPercentage !== null
+    ? calculateAccuracyScore(averageR, positiveRPercentage, rVariance)
+    : null;
+  const accuracyScore = totalTrades >= 30 && accuracy ? accuracy.score : null;
+
+  // Must have active exchange connection AND 30+ verified trades, and no
+  // unresolved integrity flags on the account
+  const isVerified = hasActiveConnection && !integrityFlagged && totals.verifiedCount >= 30;
+
+  return {
+    total_verified_trades: totals.verifiedCount,
+    total_wins: totals.winCount,
+    total_losses: totals.lossCount,
+    total_breakeven: totalTrades - totals.winCount - totals.lossCount,
+    win_rate: winRate,
+    average_r: averageR,
+    total_r: totalR,
+    positive_r_percentage: positiveRPercentage,
+    r_variance: rVariance,
+    stop_based_percentage: stopBasedPercentage,
+    accuracy_score: accuracyScore,
+    accuracy_breakdown: accuracy?.breakdown ?? null,
+    is_verified: isVerified,
+    api_status: hasActiveConnection ? "connected" : "disconnected",
+    total_net_pnl: totalTrades > 0 ? totals.sumPnl : null,
+    ...performanceStatsFromTotals(totals),
+  };
+}
+
+// Graded verification, highest first. Past the verified minimum, a tier needs
+// more verified trades and intervals no wider than these (win rate in
+// percentage points, average R in R), so it reflects how settled the
+// numbers are rather than how good they look.
+const VERIFICATION_TIERS = [
+  { tier: 3, minTrades: 300, maxWinRateWidth: 12, maxAverageRWidth: 0.5 },
+  { tier: 2, minTrades: 100, maxWinRateWidth: 20, maxAverageRWidth: 1 },
+  { tier: 1, minTrades: 30, maxWinRateWidth: Infinity, maxAverageRWidth: Infinity },
+];
+
+/**
+ * Confidence intervals, verification tier and ranking score for a metrics
+ * row. Kept out of metricsFromTotals because the bootstrap is too slow to run
+ * for every day of snapshot history.
+ */
+function confidenceFromTotals(totals: MetricTotals, metrics: ReturnType<typeof metricsFromTotals>) {
+  const winRateInterval = wilsonInterval(totals.winCount, totals.count);
+  const averageRInterval = totals.count > 0
+    ? bootstrapMeanInterval(totals.rSample, totals.count, totals.sumR / totals.count)
+    : null;
+
+  const winRateWidth = winRateInterval ? winRateInterval.high - winRateInterval.low : Infinity;
+  const averageRWidth = averageRInterval ? averageRInterval.high - averageRInterval.low : Infinity;
+  const tier = metrics.is_verified
+    ? VERIFICATION_TIERS.find((t) =>
+      totals.verifiedCount >= t.minTrades &&
+      winRateWidth <= t.maxWinRateWidth &&
+      averageRWidth <= t.maxAverageRWidth
+    )?.tier ?? 0
+    : 0;
+
+  // The accuracy score again from the pessimistic end of each interval, so
+  // 31 lucky trades rank below 900 with the same averages
+  const positiveRInterval = wilsonInterval(totals.positiveRCount, totals.count);
+  const rankingScore = metrics.accuracy_score !== null && averageRInterval && positiveRInterval
+    ? calculateAccuracyScore(averageRInterval.low, positiveRInterval.low, metrics.r_variance).score
+    : null;
+
+  return {
+    win_rate_ci_low: winRateInterval?.low ?? null,
+    win_rate_ci_high: winRateInterval?.high ?? null,
+    average_r_ci_low: averageRInterval?.low ?? null,
+    average_r_ci_high: averageRInterval?.high ?? null,
+    verification_tier: tier,
+    ranking_score: rankingScore,
+  };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+async function fetchClosedPositions<T>(
+  serviceClient: SupabaseClient,
+  userId: string,
+  columns: string,
+  scored: boolean | null,
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0;; from += PAGE_SIZE) {
+    let query = serviceClient
+      .from("positions")
+      .select(columns)
+      .eq("user_id", userId)
+      .eq("open", false)
+      .not("exit_price", "is", null)
+      .not("exit_timestamp", "is", null);
+    if (scored === true) query = query.not("metrics_calculated_at", "is", null);
+    if (scored === false) query = query.is("metrics_calculated_at", null);
+
+    const { data, error } = await query.order("id", { ascending: true }).range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch positions: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function fetchTotals(serviceClient: SupabaseClient, userId: string): Promise<TotalsRow[]> {
+  const { data, error } = await serviceClient
+    .from("user_trading_metric_totals")
+    .select("id, account_id, totals, version, stale")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch metric totals: ${error.message}`);
+  }
+  return (data || []) as TotalsRow[];
+}
+
+/** Compare-and-set on the row's version; false when another update got there first. */
+async function saveTotals(
+  serviceClient: SupabaseClient,
+  userId: string,
+  accountId: string | null,
+  existing: TotalsRow | undefined,
+  totals: MetricTotals,
+): Promise<boolean> {
+  if (!existing) {
+    const { error } = await serviceClient
+      .from("user_trading_metric_totals")
+      .insert({ user_id: userId, account_id: accountId, totals, version: 1 });
+
+    if (error) {
+      console.error(`Failed to insert metric totals for ${userId}/${accountId ?? "all"}:`, error);
+      return false;
+    }
+    return true;
+  }
+
+  const { data, error } = await serviceClient
+    .from("user_trading_metric_totals")
+    .update({ totals, version: existing.version + 1, stale: false, updated_at: new Date().toISOString() })
+    .eq("id", existing.id)
+    .eq("version", existing.version)
+    .select("id");
+
+  if (error) {
+    console.error(`Failed to save metric totals for ${userId}/${accountId ?? "all"}:`, error);
+    return false;
+  }
+  return !!data && data.length === 1;
+}
+
+async function markTotalsStale(serviceClient: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await serviceClient.from("user_trading_metric_totals").update({ stale: true }).eq("user_id", userId);
+
+  if (error) {
+    console.error(`Failed to flag metric totals stale for ${userId}:`, error);
+  }
+}
+
+function toDateString(timestamp: string): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+async function fetchConnections(serviceClient: SupabaseClient, userId: string): Promise<Connection[]> {
+  const { data } = await serviceClient
+    .from("exchange_connections")
+    .select("account_id, last_sync_at")
+    .eq("user_id", userId)
+    .eq("status", "connected");
+
+  return (data || []) as Connection[];
+}
+
+/**
+ * Starting balance of each account that has one. The all-accounts entry is
+ * their sum, and only set when every account has a balance. Changing one
+ * flags the totals stale, so they are only read when re-aggregating.
+ */
+async function fetchStartingBalances(
+  serviceClient: SupabaseClient,
+  userId: string,
+): Promise<Map<string | null, number>> {
+  const { data, error } = await serviceClient
+    .from("trading_accounts")
+    .select("id, starting_balance")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch trading accounts: ${error.message}`);
+  }
+
+  const accounts = (data || []) as { id: string; starting_balance: number | null }[];
+  const balances = new Map<string | null, number>();
+  for (const account of accounts) {
+    if (account.starting_balance !== null) balances.set(account.id, Number(account.starting_balance));
+  }
+  if (accounts.length > 0 && balances.size === accounts.length) {
+    balances.set(null, [...balances.values()].reduce((sum, balance) => sum + balance, 0));
+  }
+  return balances;
+}
+
+/**
+ * Upserts snapshots for the given days. With replace the user's snapshots
+ * are cleared first, so days no longer backed by trades disappear. Metrics
+ * are already saved by then, so failures are logged rather than thrown.
+ */
+async function writeSnapshots(
+  serviceClient: SupabaseClient,
+  userId: string,
+  days: DailyTotals[],
+  connections: Connection[],
+  integrityFlagged: boolean,
+  replace: boolean,
+): Promise<void> {
+  if (replace) {
+    const { error } = await serviceClient.from("user_trading_metric_snapshots").delete().eq("user_id", userId);
+    if (error) {
+      console.error(`Failed to clear metric snapshots for ${userId}:`, error);
+      return;
+    }
+  }
+
+  // Later entries for the same account and day win
+  const rows = new Map<string, Record<string, unknown>>();
+  for (const { accountId, date, totals } of days) {
+    const connection = connectionFor(connections, accountId);
+    // Snapshots keep the score but not how it broke down
+    const { api_status: _apiStatus, accuracy_breakdown: _breakdown, ...metrics } =
+      metricsFromTotals(totals, !!connection, integrityFlagged);
+    rows.set(`${accountId}|${date}`, { user_id: userId, account_id: accountId, snapshot_date: date, ...metrics });
+  }
+
+  const all = [...rows.values()];
+  for (let i = 0; i < all.length; i += PAGE_SIZE) {
+    const { error } = await serviceClient
+      .from("user_trading_metric_snapshots")
+      .upsert(all.slice(i, i + PAGE_SIZE), { onConflict: "user_id,account_id,snapshot_date" });
+
+    if (error) {
+      console.error(`Failed to save metric snapshots for ${userId}:`, error);
+      return;
+    }
+  }
+}
+
+// The all-accounts row is connected when any account is
+function connectionFor(connections: Connection[], accountId: string | null): Connection | undefined {
+  return accountId === null ? connections[0] : connections.find((c) => c.account_id === accountId);
+}
+
+/**
+ * Writes the user_trading_metrics rows derived from the given totals, and
+ * today's snapshot of each. With history, past snapshots are rebuilt too.
+ */
+async function writeMetrics(
+  serviceClient: SupabaseClient,
+  userId: string,
+  totalsByAccount: Map<string | null, MetricTotals>,
+  history: DailyTotals[] | null = null,
+): Promise<{ overall: MetricsRow; accounts: MetricsRow[] }> {
+  const connections = await fetchConnections(serviceClient, userId);
+  const integrityFlagged = await hasAccountFlags(serviceClient, userId);
+  const updatedAt = new Date().toISOString();
+
+  const rows: MetricsRow[] = [...totalsByAccount].map(([accountId, totals]) => {
+    const connection = connectionFor(connections, accountId);
+
+    const metrics = metricsFromTotals(totals, !!connection, integrityFlagged);
+
+    return {
+      user_id: userId,
+      account_id: accountId,
+      ...metrics,
+      ...confidenceFromTotals(totals, metrics),
+      integrity_flagged: integrityFlagged,
+      last_api_sync_at: connection?.last_sync_at ?? null,
+      updated_at: updatedAt,
+    };
+  });
+
+  const { error } = await serviceClient.from("user_trading_metrics").upsert(rows, { onConflict: "user_id,account_id" });
+
+  if (error) {
+    throw new Error(`Failed to save metrics: ${error.message}`);
+  }
+
+  const today = toDateString(updatedAt);
+  const current = [...totalsByAccount].map(([accountId, totals]) => ({ accountId, date: today, totals }));
+  await writeSnapshots(
+    serviceClient,
+    userId,
+    [...(history ?? []), ...current],
+    connections,
+    integrityFlagged,
+    history !== null,
+  );
+
+  return {
+    overall: rows.find((row) => row.account_id === null) as MetricsRow,
+    accounts: rows.filter((row) => row.account_id !== null),
+  };
+}
+
+// ============================================================================
+// UPDATE AND REBUILD
+// ============================================================================
+
+/**
+ * Recomputes every totals row from the stored R-multiples of scored
+ * positions. Accounts that no longer have trades are reset to empty.
+ */
+async function reaggregate(
+  serviceClient: SupabaseClient,
+  userId: string,
+): Promise<{ totals: Map<string | null, MetricTotals>; history: DailyTotals[] } | null> {
+  for (let attempt = 1; attempt <= MAX_REAGGREGATE_ATTEMPTS; attempt++) {
+    // Versions are read before positions, so a fold landing in between fails this save
+    const existing = await fetchTotals(serviceClient, userId);
+    const positions = await fetchClosedPositions<ScoredPositionRow>(serviceClient, userId, TRADE_COLUMNS, true);
+
+    const trades: TradeResult[] = positions.filter(isCounted).map((pos) => ({
+      accountId: pos.account_id,
+      rMultiple: Number(pos.r_multiple) || 0,
+      netPnl: netPnlOf(pos),
+      closedAt: pos.exit_timestamp as string,
+      verified: isVerifiedPosition(pos),
+      riskMethod: (pos.risk_method as RiskMethod | null) ?? "volatility",
+    }));
+
+    const balances = await fetchStartingBalances(serviceClient, userId);
+    const balanceOf = (accountId: string | null) => balances.get(accountId) ?? null;
+
+    const totalsByAccount = new Map<string | null, MetricTotals>([[null, emptyTotals(balanceOf(null))]]);
+    for (const row of existing) {
+      if (row.account_id !== null) totalsByAccount.set(row.account_id, emptyTotals(balanceOf(row.account_id)));
+    }
+    // The last trade of each day leaves that day's totals
+    const history = new Map<string, DailyTotals>();
+    for (const trade of sortByClose(trades)) {
+      const date = toDateString(trade.closedAt);
+      for (const accountId of trade.accountId === null ? [null] : [null, trade.accountId]) {
+        if (!totalsByAccount.has(accountId)) totalsByAccount.set(accountId, emptyTotals(balanceOf(accountId)));
+        const totals = totalsByAccount.get(accountId) as MetricTotals;
+        addTrade(totals, trade);
+        // Snapshots never read rSample, so the copies can share the array
+        history.set(`${accountId}|${date}`, { accountId, date, totals: { ...totals } });
+      }
+    }
+
+    let saved = true;
+    for (const [accountId, totals] of totalsByAccount) {
+      const row = existing.find((r) => r.account_id === accountId);
+      if (!(await saveTotals(serviceClient, userId, accountId, row, totals))) {
+        saved = false;
+        break;
+      }
+    }
+
+    if (saved) {
+      console.log(`Re-aggregated ${trades.length} trades for ${userId} across ${totalsByAccount.size - 1} accounts`);
+      return { totals: totalsByAccount, history: [...history.values()] };
+    }
+    console.log(`Metric totals for ${userId} changed during re-aggregation (attempt ${attempt})`);
+  }
+
+  await markTotalsStale(serviceClient, userId);
+  return null;
+}
+
+/**
+ * Folds newly scored trades into the stored totals. Returns null when they
+ * cannot be folded, or another update saved first, and a re-aggregation is needed.
+ */
+async function fold(
+  serviceClient: SupabaseClient,
+  userId: string,
+  trades: TradeResult[],
+): Promise<Map<string | null, MetricTotals> | null> {
+  const existing = await fetchTotals(serviceClient, userId);
+  const touched = new Map<string | null, TotalsRow>();
+
+  for (const accountId of [null, ...trades.map((t) => t.accountId).filter((id) => id !== null)]) {
+    const row = existing.find((r) => r.account_id === accountId);
+    // A missing row means history this fold cannot see
+    if (!row || row.stale || row.totals?.schema !== TOTALS_SCHEMA) return null;
+    touched.set(accountId, row);
+  }
+
+  for (const trade of sortByClose(trades)) {
+    for (const accountId of trade.accountId === null ? [null] : [null, trade.accountId]) {
+      const totals = (touched.get(accountId) as TotalsRow).totals;
+      if (!canFoldTrade(totals, trade)) return null;
+      addTrade(totals, trade);
+    }
+  }
+
+  for (const [accountId, row] of touched) {
+    if (!(await saveTotals(serviceClient, userId, accountId, row, row.totals))) return null;
+  }
+
+  return new Map([...touched].map(([accountId, row]) => [accountId, row.totals]));
+}
+
+/**
+ * Scores the user's closed positions that are not yet counted and updates
+ * their metrics. Cheap when nothing is pending, so callers can run it after
+ * every close, import or sync.
+ */
+export async function updateMetrics(serviceClient: SupabaseClient, userId: string): Promise<MetricsUpdate> {
+  const pending = await fetchClosedPositions<Position>(serviceClient, userId, SCORE_COLUMNS, false);
+
+  const integrity = await checkIntegrity(serviceClient, userId, pending);
+
+  // A pending position that already has an R-multiple was counted before it
+  // changed, and so may a neighbour the integrity checks just excluded
+  const recounted = integrity.recount || pending.some((pos) => pos.r_multiple !== null);
+
+  const trades: TradeResult[] = [];
+  for (const pos of pending) {
+    const trade = await scorePosition(serviceClient, pos, true);
+    if (trade && isCounted(pos) && !integrity.excluded.has(pos.id)) trades.push(trade);
+  }
+
+  const folded = recounted ? null : await fold(serviceClient, userId, trades);
+  const rebuilt = folded ? null : await reaggregate(serviceClient, userId);
+  const totals = folded ?? rebuilt?.totals;
+  if (!totals) {
+    throw new Error("Metric totals kept changing during re-aggregation");
+  }
+
+  console.log(
+    `Metrics for ${userId}: ${trades.length} new trades ${rebuilt ? "re-aggregated" : "folded into running totals"}`,
+  );
+
+  return {
+    ...(await writeMetrics(serviceClient, userId, totals, rebuilt?.history ?? null)),
+    tradesScored: trades.length,
+    reaggregated: rebuilt !== null,
+  };
+}
+
+/**
+ * Full recalculation: re-scores every closed position with the current risk
+ * model, then rebuilds the totals and metrics from scratch.
+ */
+export async function rebuildMetrics(serviceClient: SupabaseClient, userId: string): Promise<MetricsUpdate> {
+  const positions = await fetchClosedPositions<Position>(serviceClient, userId, SCORE_COLUMNS, null);
+
+  console.log(`Rebuilding metrics for ${userId} from ${positions.length} closed positions`);
+
+  // Re-aggregation reads the exclusions back from the positions
+  await checkIntegrity(serviceClient, userId, positions, true);
+
+  let scored = 0;
+  for (const pos of positions) {
+    if (await scorePosition(serviceClient, pos, false)) scored++;
+  }
+
+  const rebuilt = await reaggregate(serviceClient, userId);
+  if (!rebuilt) {
+    throw new Error("Metric totals kept changing during re-aggregation");
+  }
+
+  return {
+    ...(await writeMetrics(serviceClient, userId, rebuilt.totals, rebuilt.history)),
+    tradesScored: scored,
+    reaggregated: true,
+  };
+}
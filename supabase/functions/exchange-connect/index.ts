@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceRateLimit, rateLimitSubject } from '../_shared/rateLimit.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -218,12 +219,15 @@ serve(async (req) => {
       );
     }
 
+    const limited = await enforceRateLimit(supabase, 'exchange-connect', await rateLimitSubject(req, { userId: user.id }), corsHeaders);
+    if (limited) return limited;
+
     const url = new URL(req.url);
     const path = url.pathname.split('/').pop();
 
     if (req.method === 'POST' && path === 'exchange-connect') {
       // Connect new exchange
-      const { exchange, apiKey, apiSecret } = await req.json();
+      const { exchange, apiKey, apiSecret, accountId } = await req.json();
 
       // Validate inputs (never log the actual secret)
       if (!exchange || !apiKey || !apiSecret) {
@@ -254,6 +258,23 @@ serve(async (req) => {
         );
       }
 
+      // Only tag the connection with an account the user owns
+      if (accountId) {
+        const { data: account } = await supabase
+          .from('trading_accounts')
+          .select('id')
+          .eq('id', accountId)
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (!account) {
+          return new Response(
+            JSON.stringify({ error: 'Unknown trading account' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+
       // Encrypt credentials
       const encryptedApiKey = encryptCredential(apiKey, encryptionKey);
       const encryptedApiSecret = encryptCredential(apiSecret, encryptionKey);
@@ -270,6 +291,7 @@ serve(async (req) => {
           last_sync_at: new Date().toISOString(),
           verified_trades_count: validation.tradesCount || 0,
           error_message: null,
+          account_id: accountId || null,
         }, {
           onConflict: 'user_id,exchange'
         })
@@ -295,6 +317,7 @@ serve(async (req) => {
             status: data.status,
             last_sync_at: data.last_sync_at,
             verified_trades_count: data.verified_trades_count,
+            account_id: data.account_id,
           }
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -305,7 +328,7 @@ serve(async (req) => {
       // Get user's exchange connections
       const { data, error } = await supabase
         .from('exchange_connections')
-        .select('id, exchange, status, last_sync_at, verified_trades_count, error_message, created_at')
+        .select('id, exchange, status, last_sync_at, verified_trades_count, error_message, created_at, account_id')
         .eq('user_id', user.id);
 
       if (error) {
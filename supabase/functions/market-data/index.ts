@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceRateLimit, rateLimitSubject } from '../_shared/rateLimit.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,6 +23,15 @@ serve(async (req) => {
   }
 
   try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    // Signed-in users get their own budget; anonymous callers share one per IP
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    const limited = await enforceRateLimit(supabase, 'market-data', await rateLimitSubject(req, { userId: user?.id }), corsHeaders);
+    if (limited) return limited;
+
     const { provider, endpoint, params } = await req.json();
 
     console.log(`[market-data] Request: provider=${provider}, endpoint=${endpoint}`);
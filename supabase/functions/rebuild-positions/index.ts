@@ -0,0 +1,910 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  type Charges,
+  type InstrumentSpec,
+  type MatchingMethod,
+  NO_CHARGES,
+  addCharges,
+  calculatePnL,
+  chargeColumns,
+  chargesOf,
+  findInstrument,
+  getAssetClass,
+  getPositionSizing,
+  getQuoteCurrency,
+  hasCharges,
+  normalizeMatchingMethod,
+  parseCharges,
+  scaleCharges,
+  subtractCharges,
+} from "../_shared/tradeMath.ts";
+import { applyFxRate, fxColumns, getFxRate, resolveAccountCurrency } from "../_shared/fxRates.ts";
+import { loadInstruments } from "../_shared/instruments.ts";
+import { enforceRateLimit, rateLimitSubject } from "../_shared/rateLimit.ts";
+import { updateMetrics } from "../_shared/tradeMetrics.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// ============================================================================
+// JSON RESPONSE HELPER
+// ============================================================================
+
+function jsonResponse(data: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function errorResponse(status: string, reason: string, httpCode = 400): Response {
+  return jsonResponse({ success: false, status, reason }, httpCode);
+}
+
+// ============================================================================
+// REPLAY ENGINE
+// ============================================================================
+
+interface TradeLogEvent {
+  id: number;
+  event_type: string;
+  symbol: string | null;
+  side: string | null;
+  price: number | null;
+  quantity: number | null;
+  raw_quantity: number | null;
+  quantity_lots: number | null;
+  platform: string | null;
+  timestamp: string;
+  is_simulation: boolean;
+  raw: Record<string, unknown> | null;
+  account_id: string | null;
+}
+
+interface ReplayedPosition {
+  account_id: string | null;
+  symbol: string;
+  platform: string;
+  side: "long" | "short";
+  quantity: number;
+  quantity_lots: number;
+  entry_price: number;
+  entry_timestamp: string;
+  exit_price: number | null;
+  exit_timestamp: string | null;
+  pnl: number | null;
+  pnl_pct: number | null;
+  pnl_native: number | null;
+  pnl_currency: string | null;
+  account_currency: string | null;
+  fx_rate: number | null;
+  pnl_unconverted: boolean;
+  open: boolean;
+  is_simulation: boolean;
+  asset_class: string;
+  pip_size: number | null;
+  pip_value: number | null;
+  pips: number | null;
+  tick_size: number | null;
+  tick_value: number | null;
+  ticks: number | null;
+  initial_stop_loss: number | null;
+  stop_loss: number | null;
+  initial_take_profit: number | null;
+  take_profit: number | null;
+  matching_method: MatchingMethod;
+  commission: number;
+  swap: number;
+  funding: number;
+  fees_total: number;
+  broker_position_id: string | null;
+}
+
+function parseOptionalPrice(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === "") return null;
+  const value = Number(raw);
+  return isNaN(value) || value <= 0 ? null : value;
+}
+
+/**
+ * Rebuild positions from trade_log events, mirroring receive-trade:
+ * FIFO/LIFO/average-cost closes with partial splits, reversals on over-close,
+ * opposite-side entries offsetting open positions, broker position IDs,
+ * TRADE_MODIFY updates and commission/swap/funding attribution.
+ *
+ * Each event is matched with the method methodFor gives it, so history can be
+ * replayed with the methods it was recorded under.
+ *
+ * Pure and deterministic - the same events and instrument registry always
+ * produce the same positions.
+ */
+function replayEvents(
+  events: TradeLogEvent[],
+  methodFor: (event: TradeLogEvent) => MatchingMethod,
+  instruments: InstrumentSpec[],
+): { positions: ReplayedPosition[]; unmatchedExits: number; unattributedCharges: number } {
+  const positions: ReplayedPosition[] = [];
+  let unmatchedExits = 0;
+  let unattributedCharges = 0;
+
+  // Each trading account is its own book; set per event below
+  let accountId: string | null = null;
+  // FIFO, LIFO or average cost; set per event below
+  let matchingMethod: MatchingMethod = "fifo";
+  // Events from MT4/MT5/cTrader name the position they touch; set per event below
+  let brokerPositionId: string | null = null;
+
+  const openFor = (symbol: string, side?: string) =>
+    positions.filter(
+      (p) =>
+        p.open &&
+        p.account_id === accountId &&
+        p.symbol === symbol &&
+        (!side || p.side === side) &&
+        (!brokerPositionId || p.broker_position_id === brokerPositionId),
+    );
+
+  const open = (
+    symbol: string,
+    side: "long" | "short",
+    price: number,
+    quantity: number,
+    lots: number,
+    event: TradeLogEvent,
+    stopLoss: number | null,
+    takeProfit: number | null,
+    charges: Charges,
+  ) => {
+    const sizing = getPositionSizing(symbol, quantity, findInstrument(symbol, instruments));
+
+    positions.push({
+      account_id: accountId,
+      symbol,
+      platform: event.platform || "TradingView",
+      side,
+      quantity,
+      quantity_lots: lots,
+      entry_price: price,
+      entry_timestamp: event.timestamp,
+      exit_price: null,
+      exit_timestamp: null,
+      pnl: null,
+      pnl_pct: null,
+      pnl_native: null,
+      pnl_currency: null,
+      account_currency: null,
+      fx_rate: null,
+      pnl_unconverted: false,
+      open: true,
+      is_simulation: event.is_simulation,
+      asset_class: sizing.assetClass,
+      pip_size: sizing.pipSize,
+      pip_value: sizing.pipValue,
+      pips: null,
+      tick_size: sizing.tickSize,
+      tick_value: sizing.tickValue,
+      ticks: null,
+      initial_stop_loss: stopLoss,
+      stop_loss: stopLoss,
+      initial_take_profit: takeProfit,
+      take_profit: takeProfit,
+      matching_method: matchingMethod,
+      ...chargeColumns(charges),
+      broker_position_id: brokerPositionId,
+    });
+  };
+
+  // Average cost folds a same-side entry into the open position at the weighted price
+  const average = (
+    position: ReplayedPosition,
+    price: number,
+    quantity: number,
+    lots: number,
+    stopLoss: number | null,
+    takeProfit: number | null,
+    charges: Charges,
+  ) => {
+    const newQty = position.quantity + quantity;
+    Object.assign(position, chargeColumns(addCharges(chargesOf(position), charges)));
+    position.entry_price = (position.entry_price * position.quantity + price * quantity) / newQty;
+    position.quantity = newQty;
+    position.quantity_lots = Number((position.quantity_lots + lots).toFixed(8));
+    const sizing = getPositionSizing(position.symbol, newQty, findInstrument(position.symbol, instruments));
+    if (sizing.pipValue !== null) position.pip_value = sizing.pipValue;
+    if (sizing.tickValue !== null) position.tick_value = sizing.tickValue;
+    if (stopLoss !== null) {
+      position.stop_loss = stopLoss;
+      if (position.initial_stop_loss === null) position.initial_stop_loss = stopLoss;
+    }
+    if (takeProfit !== null) {
+      position.take_profit = takeProfit;
+      if (position.initial_take_profit === null) position.initial_take_profit = takeProfit;
+    }
+  };
+
+  const close = (
+    symbol: string,
+    price: number,
+    quantity: number,
+    lots: number,
+    event: TradeLogEvent,
+    closeSide: string | undefined,
+    reversalStop: number | null,
+    reversalTarget: number | null,
+    charges: Charges,
+  ) => {
+    const direction = matchingMethod === "lifo" ? -1 : 1;
+    const candidates = openFor(symbol, closeSide).sort(
+      (a, b) => direction * (new Date(a.entry_timestamp).getTime() - new Date(b.entry_timestamp).getTime()),
+    );
+
+    if (candidates.length === 0) {
+      unmatchedExits++;
+      return;
+    }
+
+    const instrument = findInstrument(symbol, instruments);
+    const assetClass = getAssetClass(symbol, instrument);
+    let remaining = quantity;
+
+    let pooledEntryPrice: number | null = null;
+    if (matchingMethod === "average") {
+      const pool = candidates.filter((p) => p.side === candidates[0].side);
+      const poolQty = pool.reduce((sum, p) => sum + p.quantity, 0);
+      if (poolQty > 0) pooledEntryPrice = pool.reduce((sum, p) => sum + p.entry_price * p.quantity, 0) / poolQty;
+    }
+
+    for (const position of candidates) {
+      if (remaining <= 0) break;
+      if (position.quantity <= 0) continue;
+
+      const closedQty = Math.min(remaining, position.quantity);
+      const entryPrice = pooledEntryPrice ?? position.entry_price;
+      const pnlResult = calculatePnL(position.side, entryPrice, price, closedQty, assetClass, symbol, instrument);
+      const carriedCharges = scaleCharges(chargesOf(position), closedQty / position.quantity);
+      const closedFields = {
+        entry_price: entryPrice,
+        exit_price: price,
+        exit_timestamp: event.timestamp,
+        pnl: pnlResult.pnl,
+        pnl_pct: pnlResult.pnlPct,
+        pnl_native: pnlResult.pnl,
+        pnl_currency: getQuoteCurrency(symbol, assetClass, instrument),
+        open: false,
+        // As receive-trade does, a closed position records the method that closed it
+        matching_method: matchingMethod,
+        pip_size: pnlResult.pipSize,
+        pip_value: pnlResult.pipValue,
+        pips: pnlResult.pips,
+        tick_size: pnlResult.tickSize,
+        tick_value: pnlResult.tickValue,
+        ticks: pnlResult.ticks,
+        ...chargeColumns(addCharges(carriedCharges, scaleCharges(charges, closedQty / quantity))),
+      };
+
+      if (closedQty >= position.quantity) {
+        Object.assign(position, closedFields);
+      } else {
+        const closedLots = Number(((closedQty / position.quantity) * position.quantity_lots).toFixed(8));
+        positions.push({
+          ...position,
+          ...closedFields,
+          quantity: closedQty,
+          quantity_lots: closedLots,
+          asset_class: assetClass,
+        });
+        Object.assign(position, chargeColumns(subtractCharges(chargesOf(position), carriedCharges)));
+        position.quantity = position.quantity - closedQty;
+        position.quantity_lots = Number((position.quantity_lots - closedLots).toFixed(8));
+      }
+
+      remaining -= closedQty;
+    }
+
+    const overClose = Number(remaining.toFixed(8));
+    if (overClose > 0) {
+      const reversalSide = candidates[0].side === "long" ? "short" : "long";
+      const reversalLots = lots ? Number(((overClose / quantity) * lots).toFixed(8)) : overClose;
+      open(
+        symbol,
+        reversalSide,
+        price,
+        overClose,
+        reversalLots,
+        event,
+        reversalStop,
+        reversalTarget,
+        scaleCharges(charges, overClose / quantity),
+      );
+    }
+  };
+
+  // FEE/FUNDING: shared by quantity across open positions, else the last closed one.
+  // Live position IDs are not stable across a rebuild, so position_id is ignored.
+  const charge = (symbol: string, charges: Charges, event: TradeLogEvent) => {
+    let targets = openFor(symbol);
+    if (targets.length === 0) {
+      const eventTime = new Date(event.timestamp).getTime();
+      const lastClosed = positions
+        .filter(
+          (p) =>
+            !p.open &&
+            p.account_id === accountId &&
+            p.symbol === symbol &&
+            new Date(p.exit_timestamp as string).getTime() <= eventTime,
+        )
+        .sort((a, b) => new Date(b.exit_timestamp as string).getTime() - new Date(a.exit_timestamp as string).getTime());
+      targets = lastClosed.slice(0, 1);
+    }
+
+    if (targets.length === 0) {
+      unattributedCharges++;
+      return;
+    }
+
+    const totalQty = targets.reduce((sum, p) => sum + p.quantity, 0);
+    for (const target of targets) {
+      const share = totalQty > 0 ? target.quantity / totalQty : 1 / targets.length;
+      Object.assign(target, chargeColumns(addCharges(chargesOf(target), scaleCharges(charges, share))));
+    }
+  };
+
+  for (const event of events) {
+    const symbol = event.symbol;
+    if (!symbol) continue;
+
+    accountId = event.account_id;
+    matchingMethod = methodFor(event);
+
+    const raw = event.raw || {};
+    const rawBrokerPositionId = raw.broker_position_id ?? raw.brokerPositionId;
+    brokerPositionId =
+      rawBrokerPositionId !== undefined && rawBrokerPositionId !== null && String(rawBrokerPositionId).trim() !== ""
+        ? String(rawBrokerPositionId).trim()
+        : null;
+    const price = event.price !== null ? Number(event.price) : null;
+    const quantity = Number(event.raw_quantity ?? event.quantity ?? 0);
+    const lots = Number(event.quantity_lots ?? quantity);
+    const stopLoss = parseOptionalPrice(raw.stop_loss ?? raw.stopLoss ?? raw.sl);
+    const takeProfit = parseOptionalPrice(raw.take_profit ?? raw.takeProfit ?? raw.tp);
+    const charges = parseCharges(event.event_type, raw) ?? NO_CHARGES;
+
+    switch (event.event_type) {
+      case "TRADE_ENTRY": {
+        const side = event.side === "long" || event.side === "short" ? event.side : null;
+        if (!side || price === null || quantity <= 0) break;
+
+        const opposingSide = side === "long" ? "short" : "long";
+        // A broker position ID adds to its own position whatever the matching method
+        const sameSide = matchingMethod === "average" || brokerPositionId ? openFor(symbol, side) : [];
+        if (openFor(symbol, opposingSide).length > 0) {
+          close(symbol, price, quantity, lots, event, opposingSide, stopLoss, takeProfit, charges);
+        } else if (sameSide.length > 0) {
+          average(sameSide[0], price, quantity, lots, stopLoss, takeProfit, charges);
+        } else {
+          open(symbol, side, price, quantity, lots, event, stopLoss, takeProfit, charges);
+        }
+        break;
+      }
+
+      case "TRADE_EXIT": {
+        if (price === null || quantity <= 0) break;
+        close(symbol, price, quantity, lots, event, undefined, null, null, charges);
+        break;
+      }
+
+      case "FEE":
+      case "FUNDING": {
+        if (hasCharges(charges)) charge(symbol, charges, event);
+        break;
+      }
+
+      case "TRADE_MODIFY": {
+        // Live position IDs are not stable across a rebuild, so modifications
+        // apply to every open position on the symbol.
+        for (const position of openFor(symbol)) {
+          if (stopLoss !== null) {
+            position.stop_loss = stopLoss;
+            if (position.initial_stop_loss === null) position.initial_stop_loss = stopLoss;
+          }
+          if (takeProfit !== null) {
+            position.take_profit = takeProfit;
+            if (position.initial_take_profit === null) position.initial_take_profit = takeProfit;
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  return { positions, unmatchedExits, unattributedCharges };
+}
+
+// Replay leaves PnL in the quote currency; convert closed positions to their
+// account currency at the exit-time rate, as receive-trade does on close
+async function convertReplayedPnL(
+  serviceClient: SupabaseClient,
+  userId: string,
+  positions: ReplayedPosition[],
+): Promise<void> {
+  const accountCurrencies = new Map<string, string>();
+
+  for (const position of positions) {
+    if (position.open || position.pnl_native === null || !position.pnl_currency || !position.exit_timestamp) continue;
+
+    const accountKey = position.account_id ?? "none";
+    let accountCurrency = accountCurrencies.get(accountKey);
+    if (!accountCurrency) {
+      accountCurrency = await resolveAccountCurrency(serviceClient, userId, position.account_id);
+      accountCurrencies.set(accountKey, accountCurrency);
+    }
+
+    const fxRate = await getFxRate(serviceClient, position.pnl_currency, accountCurrency, position.exit_timestamp);
+    Object.assign(
+      position,
+      fxColumns(applyFxRate(position.pnl_native, position.pnl_currency, accountCurrency, fxRate)),
+    );
+  }
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+interface ExistingPosition {
+  id: number;
+  account_id: string | null;
+  symbol: string;
+  side: string;
+  quantity: number;
+  entry_price: number;
+  entry_timestamp: string;
+  exit_price: number | null;
+  exit_timestamp: string | null;
+  pnl: number | null;
+  pnl_pct: number | null;
+  fees_total: number;
+  open: boolean;
+  matching_method: string | null;
+}
+
+/**
+ * The matching method stored positions record for a replayed event: the
+ * method that closed a position at the event's time, else the one a position
+ * opened at that time carries. null for events no stored position records.
+ */
+function recordedMethods(positions: ExistingPosition[]): (event: TradeLogEvent) => MatchingMethod | null {
+  const keyOf = (accountId: string | null, symbol: string, timestamp: string) =>
+    `${accountId ?? "none"}|${symbol}|${new Date(timestamp).getTime()}`;
+  const byExit = new Map<string, MatchingMethod>();
+  const byEntry = new Map<string, MatchingMethod>();
+
+  for (const p of positions) {
+    if (!p.matching_method) continue;
+    const method = normalizeMatchingMethod(p.matching_method);
+    byEntry.set(keyOf(p.account_id, p.symbol, p.entry_timestamp), method);
+    if (p.exit_timestamp) byExit.set(keyOf(p.account_id, p.symbol, p.exit_timestamp), method);
+  }
+
+  return (event) => {
+    if (!event.symbol) return null;
+    const key = keyOf(event.account_id, event.symbol, event.timestamp);
+    return byExit.get(key) ?? byEntry.get(key) ?? null;
+  };
+}
+
+interface PositionChange {
+  type: "changed" | "added" | "removed";
+  key: string;
+  position_id: number | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  pnl_delta: number;
+}
+
+// Positions are matched on identity, not on the values a rebuild may correct
+function positionKey(p: {
+  account_id: string | null;
+  symbol: string;
+  side: string;
+  entry_timestamp: string;
+  exit_timestamp: string | null;
+  quantity: number;
+}): string {
+  const entry = new Date(p.entry_timestamp).getTime();
+  const exit = p.exit_timestamp ? new Date(p.exit_timestamp).getTime() : "open";
+  return `${p.account_id ?? "none"}|${p.symbol}|${p.side}|${entry}|${exit}|${Number(Number(p.quantity).toFixed(8))}`;
+}
+
+function summarize(p: ExistingPosition | ReplayedPosition): Record<string, unknown> {
+  return {
+    account_id: p.account_id,
+    symbol: p.symbol,
+    side: p.side,
+    quantity: Number(p.quantity),
+    entry_price: Number(p.entry_price),
+    entry_timestamp: p.entry_timestamp,
+    exit_price: p.exit_price !== null ? Number(p.exit_price) : null,
+    exit_timestamp: p.exit_timestamp,
+    pnl: p.pnl !== null ? Number(p.pnl) : null,
+    pnl_pct: p.pnl_pct !== null ? Number(p.pnl_pct) : null,
+    fees_total: Number(p.fees_total),
+    open: p.open,
+    matching_method: p.matching_method,
+  };
+}
+
+function differs(a: number | null, b: number | null, tolerance: number): boolean {
+  if (a === null || b === null) return a !== b;
+  return Math.abs(Number(a) - Number(b)) > tolerance;
+}
+
+function diffPositions(
+  existing: ExistingPosition[],
+  replayed: ReplayedPosition[],
+): { changes: PositionChange[]; matches: Map<number, ReplayedPosition>; unchanged: number } {
+  const changes: PositionChange[] = [];
+  const matches = new Map<number, ReplayedPosition>();
+  const unmatchedReplayed = new Map<string, ReplayedPosition[]>();
+  let unchanged = 0;
+
+  for (const p of replayed) {
+    const key = positionKey(p);
+    unmatchedReplayed.set(key, [...(unmatchedReplayed.get(key) || []), p]);
+  }
+
+  for (const p of existing) {
+    const key = positionKey(p);
+    const candidates = unmatchedReplayed.get(key);
+    const match = candidates?.shift();
+
+    if (!match) {
+      changes.push({
+        type: "removed",
+        key,
+        position_id: p.id,
+        before: summarize(p),
+        after: null,
+        pnl_delta: -(Number(p.pnl) || 0),
+      });
+      continue;
+    }
+
+    matches.set(p.id, match);
+
+    if (
+      differs(p.pnl, match.pnl, 0.005) ||
+      differs(p.pnl_pct, match.pnl_pct, 0.005) ||
+      differs(p.fees_total, match.fees_total, 0.005) ||
+      differs(p.entry_price, match.entry_price, 1e-9) ||
+      differs(p.exit_price, match.exit_price, 1e-9) ||
+      (p.matching_method !== null && p.matching_method !== match.matching_method)
+    ) {
+      changes.push({
+        type: "changed",
+        key,
+        position_id: p.id,
+        before: summarize(p),
+        after: summarize(match),
+        pnl_delta: Math.round(((Number(match.pnl) || 0) - (Number(p.pnl) || 0)) * 100) / 100,
+      });
+    } else {
+      unchanged++;
+    }
+  }
+
+  for (const [key, leftovers] of unmatchedReplayed) {
+    for (const p of leftovers) {
+      changes.push({
+        type: "added",
+        key,
+        position_id: null,
+        before: null,
+        after: summarize(p),
+        pnl_delta: Number(p.pnl) || 0,
+      });
+    }
+  }
+
+  return { changes, matches, unchanged };
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+async function applyChanges(
+  serviceClient: SupabaseClient,
+  userId: string,
+  changes: PositionChange[],
+  matches: Map<number, ReplayedPosition>,
+  replayed: ReplayedPosition[],
+): Promise<{ updated: number; inserted: number; deleted: number; errors: string[] }> {
+  // Changed rows are updated in place so tags, screenshots and predictions stay attached
+  const updates = changes
+    .filter((c) => c.type === "changed")
+    .flatMap((change) => {
+      const replayedPosition = matches.get(change.position_id as number);
+      return replayedPosition ? [{ ...replayedPosition, id: change.position_id }] : [];
+    });
+
+  const removedIds = changes.filter((c) => c.type === "removed").map((c) => c.position_id as number);
+
+  const addedKeys = new Set(changes.filter((c) => c.type === "added").map((c) => c.key));
+  const matchedPositions = new Set(matches.values());
+  const inserts = replayed.filter((p) => !matchedPositions.has(p) && addedKeys.has(positionKey(p)));
+
+  // One transaction: a rebuild is applied whole or not at all
+  const { data, error } = await serviceClient.rpc("apply_position_rebuild", {
+    _user_id: userId,
+    _delete_ids: removedIds,
+    _updates: updates,
+    _inserts: inserts,
+  });
+
+  if (error) {
+    return { updated: 0, inserted: 0, deleted: 0, errors: [error.message] };
+  }
+  return { ...(data as { updated: number; inserted: number; deleted: number }), errors: [] };
+}
+
+// ============================================================================
+// PAGED FETCH
+// ============================================================================
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+type Page<T> = PromiseLike<{ data: T[] | null; error: { message: string } | null; count: number | null }>;
+
+/**
+ * Every row of a query, a page at a time. Throws if a page fails or the rows
+ * don't add up to the count taken with them: a rebuild applied from a partial
+ * history would delete every position it didn't get to.
+ */
+async function fetchAllPages<T>(what: string, page: (from: number, to: number) => Page<T>): Promise<T[]> {
+  const rows: T[] = [];
+  let expected: number | null = null;
+
+  for (let from = 0;; from += PAGE_SIZE) {
+    const { data, error, count } = await page(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch ${what}: ${error.message}`);
+    }
+    expected ??= count;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  if (expected === null || rows.length !== expected) {
+    throw new Error(`Fetched ${rows.length} of ${expected ?? "unknown"} ${what}; not rebuilding from an incomplete set`);
+  }
+  return rows;
+}
+
+// ============================================================================
+// MAIN REQUEST HANDLER
+// ============================================================================
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse("method_not_allowed", "Only POST requests are accepted", 405);
+  }
+
+  const nowIso = new Date().toISOString();
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      console.error("Missing environment variables");
+      return errorResponse("server_error", "Server configuration error", 500);
+    }
+
+    const serviceClient = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    // Admin-only
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse("unauthorized", "Missing authorization header", 401);
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await serviceClient.auth.getUser(token);
+
+    if (authError || !user) {
+      return errorResponse("unauthorized", "Invalid authentication", 401);
+    }
+
+    const limited = await enforceRateLimit(
+      serviceClient,
+      "rebuild-positions",
+      await rateLimitSubject(req, { userId: user.id }),
+      corsHeaders,
+    );
+    if (limited) return limited;
+
+    const { data: isAdmin } = await serviceClient.rpc("has_role", { _user_id: user.id, _role: "admin" });
+    if (!isAdmin) {
+      return errorResponse("forbidden", "Admin role required", 403);
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("invalid_request", "Invalid JSON body", 400);
+    }
+
+    const targetUserId = body.user_id as string | undefined;
+    if (!targetUserId) {
+      return errorResponse("invalid_request", "user_id is required", 400);
+    }
+
+    const from = body.from ? new Date(String(body.from)) : new Date(0);
+    const to = body.to ? new Date(String(body.to)) : new Date(nowIso);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      return errorResponse("invalid_request", "from/to must be valid dates with from <= to", 400);
+    }
+
+    // Dry run unless explicitly disabled
+    const dryRun = body.dry_run !== false;
+    // Re-matching closed history with the current method is opt-in; by default
+    // each event keeps the method its positions were recorded with
+    const rematch = body.rematch === true;
+
+    const { data: profile } = await serviceClient
+      .from("profiles")
+      .select("position_matching_method")
+      .eq("user_id", targetUserId)
+      .maybeSingle();
+
+    const matchingMethod = normalizeMatchingMethod(profile?.position_matching_method);
+
+    console.log(
+      `Rebuilding positions for ${targetUserId} (${from.toISOString()} - ${to.toISOString()}), dry_run=${dryRun}, rematch=${rematch}`,
+    );
+
+    // Replay the full history so positions opened before the window are in the
+    // right state, and closes after it are applied; only the window is compared.
+    // Every stored position is read too, for the matching methods it records.
+    let events: TradeLogEvent[];
+    let stored: ExistingPosition[];
+    try {
+      events = await fetchAllPages<TradeLogEvent>("trade_log events", (rangeFrom, rangeTo) =>
+        serviceClient
+          .from("trade_log")
+          .select(
+            "id, event_type, symbol, side, price, quantity, raw_quantity, quantity_lots, platform, timestamp, is_simulation, raw, account_id",
+            { count: "exact" },
+          )
+          .eq("user_id", targetUserId)
+          .in("event_type", ["TRADE_ENTRY", "TRADE_EXIT", "TRADE_MODIFY", "FEE", "FUNDING"])
+          .order("timestamp", { ascending: true })
+          .order("id", { ascending: true })
+          .range(rangeFrom, rangeTo)
+      );
+
+      stored = await fetchAllPages<ExistingPosition>("positions", (rangeFrom, rangeTo) =>
+        serviceClient
+          .from("positions")
+          .select(
+            "id, account_id, symbol, side, quantity, entry_price, entry_timestamp, exit_price, exit_timestamp, pnl, pnl_pct, fees_total, open, matching_method",
+            { count: "exact" },
+          )
+          .eq("user_id", targetUserId)
+          // Imported positions were never in trade_log; a replay can't rebuild them
+          .eq("source", "trade_log")
+          .order("id", { ascending: true })
+          .range(rangeFrom, rangeTo)
+      );
+    } catch (err) {
+      console.error("Rebuild fetch error:", err);
+      return errorResponse("server_error", err instanceof Error ? err.message : "Failed to fetch history", 500);
+    }
+
+    // Events no stored position records (never applied, or their positions
+    // were deleted) fall back to the current method
+    const recorded = recordedMethods(stored);
+    let unrecordedEvents = 0;
+    const methodFor = (event: TradeLogEvent): MatchingMethod => {
+      const method = rematch ? null : recorded(event);
+      if (method !== null) return method;
+      if (event.event_type === "TRADE_ENTRY" || event.event_type === "TRADE_EXIT") unrecordedEvents++;
+      return matchingMethod;
+    };
+
+    const { positions: allReplayed, unmatchedExits, unattributedCharges } = replayEvents(
+      events,
+      methodFor,
+      await loadInstruments(serviceClient),
+    );
+
+    const inWindow = (ts: string) => {
+      const t = new Date(ts).getTime();
+      return t >= from.getTime() && t <= to.getTime();
+    };
+    const existing = stored.filter((p) => inWindow(p.entry_timestamp));
+    const replayed = allReplayed.filter((p) => inWindow(p.entry_timestamp));
+    await convertReplayedPnL(serviceClient, targetUserId, replayed);
+
+    const { changes, matches, unchanged } = diffPositions(existing, replayed);
+
+    const pnlBefore = existing.reduce((sum, p) => sum + (Number(p.pnl) || 0), 0);
+    const pnlAfter = replayed.reduce((sum, p) => sum + (Number(p.pnl) || 0), 0);
+
+    const summary = {
+      events_replayed: events.length,
+      // Entries and exits matched with the current method rather than a recorded one
+      events_with_current_method: unrecordedEvents,
+      unmatched_exits: unmatchedExits,
+      unattributed_charges: unattributedCharges,
+      existing_positions: existing.length,
+      rebuilt_positions: replayed.length,
+      unchanged,
+      changed: changes.filter((c) => c.type === "changed").length,
+      added: changes.filter((c) => c.type === "added").length,
+      removed: changes.filter((c) => c.type === "removed").length,
+      pnl_before: Math.round(pnlBefore * 100) / 100,
+      pnl_after: Math.round(pnlAfter * 100) / 100,
+    };
+
+    let applied: Awaited<ReturnType<typeof applyChanges>> | null = null;
+    if (!dryRun && changes.length > 0) {
+      applied = await applyChanges(serviceClient, targetUserId, changes, matches, replayed);
+      console.log(
+        `Rebuild applied: ${applied.updated} updated, ${applied.inserted} inserted, ${applied.deleted} deleted`,
+      );
+
+      // Changed and inserted positions are pending; deletions flag the totals stale
+      try {
+        await updateMetrics(serviceClient, targetUserId);
+      } catch (err) {
+        console.error(`Failed to update metrics for ${targetUserId}:`, err);
+      }
+    }
+
+    const { error: auditError } = await serviceClient.from("position_rebuilds").insert({
+      admin_id: user.id,
+      user_id: targetUserId,
+      range_from: from.toISOString(),
+      range_to: to.toISOString(),
+      dry_run: dryRun,
+      summary: { ...summary, applied },
+    });
+
+    if (auditError) {
+      console.error("Failed to record rebuild audit:", auditError);
+    }
+
+    return jsonResponse({
+      success: !applied || applied.errors.length === 0,
+      status: dryRun ? "dry_run" : "rebuilt",
+      user_id: targetUserId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      matching_method: matchingMethod,
+      rematch,
+      summary,
+      applied,
+      changes,
+    });
+  } catch (error) {
+    console.error("Unhandled error:", error);
+    return errorResponse("server_error", error instanceof Error ? error.message : "Unknown error", 500);
+  }
+});
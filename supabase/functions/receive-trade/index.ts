@@ -1,25 +1,39 @@
 import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  type AssetClass,
+  type Charges,
+  type MatchingMethod,
+  type PnLResult,
+  NO_CHARGES,
+  addCharges,
+  calculatePnL,
+  chargeColumns,
+  chargesCost,
+  chargesOf,
+  getAssetClass,
+  getPipSize,
+  getPositionSizing,
+  getQuoteCurrency,
+  hasCharges,
+  normalizeMatchingMethod,
+  parseCharges,
+  scaleCharges,
+  subtractCharges,
+} from "../_shared/tradeMath.ts";
+import { applyFxRate, fxColumns, getFxRate, resolveAccountCurrency } from "../_shared/fxRates.ts";
+import { getInstrument } from "../_shared/instruments.ts";
+import { clientIp, enforceRateLimit, rateLimitSubject } from "../_shared/rateLimit.ts";
+import { authenticateApiKey } from "../_shared/apiKeys.ts";
+import { canonicalSymbol } from "../_shared/symbols.ts";
+import { translateBrokerEvent } from "../_shared/brokerAdapters.ts";
+import { updateMetrics } from "../_shared/tradeMetrics.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, Content-Type, x-api-key",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, Content-Type, x-api-key, x-signature, x-signature-timestamp",
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 };
 
-// ============================================================================
-// SYMBOL NORMALIZATION
-// ============================================================================
-
-function normalizeSymbol(raw: string | null | undefined): string | null {
-  if (!raw) return null;
-  return (
-    raw
-      .replace(/^[A-Z0-9_]+:/i, "")
-      .toUpperCase()
-      .trim() || null
-  );
-}
-
 // ============================================================================
 // SIDE NORMALIZATION
 // ============================================================================
@@ -32,231 +46,6 @@ function normalizeSide(raw: string | null | undefined): "long" | "short" | null
   return null;
 }
 
-// ============================================================================
-// ASSET CLASS DETECTION
-// ============================================================================
-
-type AssetClass = "forex" | "crypto" | "stock" | "index" | "metal" | "commodity";
-
-function getAssetClass(symbol: string): AssetClass {
-  const s = symbol.toUpperCase();
-
-  // Metals - XAU (Gold), XAG (Silver), XPT (Platinum), XPD (Palladium)
-  if (s.startsWith("XAU") || s.startsWith("XAG") || s.startsWith("XPT") || s.startsWith("XPD")) {
-    return "metal";
-  }
-
-  // Commodities - Oil, Natural Gas
-  const commodityPatterns = ["USOIL", "UKOIL", "WTICOUSD", "BCOUSD", "NGAS", "NATGAS", "BRENT", "WTI"];
-  if (commodityPatterns.some((p) => s.includes(p))) {
-    return "commodity";
-  }
-
-  // Indices - Major world indices
-  const indexPatterns = [
-    "SPX",
-    "SPX500",
-    "US500",
-    "NAS",
-    "NAS100",
-    "US100",
-    "NDX",
-    "USTEC",
-    "DJI",
-    "US30",
-    "DJ30",
-    "DAX",
-    "GER30",
-    "GER40",
-    "DE30",
-    "DE40",
-    "UK100",
-    "FTSE",
-    "JP225",
-    "JPN225",
-    "NIKKEI",
-    "AUS200",
-    "ASX200",
-    "FRA40",
-    "CAC40",
-    "EU50",
-    "EUSTX50",
-    "HK50",
-    "HSI",
-  ];
-  if (indexPatterns.some((p) => s.includes(p))) {
-    return "index";
-  }
-
-  // Crypto - ends with USDT, BTC, ETH or contains crypto base currencies
-  const cryptoBases = [
-    "BTC",
-    "ETH",
-    "XRP",
-    "LTC",
-    "ADA",
-    "DOT",
-    "SOL",
-    "DOGE",
-    "SHIB",
-    "AVAX",
-    "MATIC",
-    "LINK",
-    "UNI",
-    "ATOM",
-    "BNB",
-    "XLM",
-    "TRX",
-    "NEAR",
-    "APT",
-    "ARB",
-  ];
-  if (s.endsWith("USDT") || s.endsWith("BUSD") || s.endsWith("USDC")) {
-    return "crypto";
-  }
-  if (cryptoBases.some((c) => s.startsWith(c) && (s.endsWith("USD") || s.endsWith("USDT")))) {
-    return "crypto";
-  }
-
-  // Forex - exactly 6 letters of major/minor currency pairs
-  const forexCurrencies = [
-    "EUR",
-    "USD",
-    "GBP",
-    "JPY",
-    "AUD",
-    "NZD",
-    "CAD",
-    "CHF",
-    "SEK",
-    "NOK",
-    "DKK",
-    "SGD",
-    "HKD",
-    "ZAR",
-    "MXN",
-    "TRY",
-    "PLN",
-    "CZK",
-    "HUF",
-  ];
-  if (s.length === 6) {
-    const base = s.slice(0, 3);
-    const quote = s.slice(3, 6);
-    if (forexCurrencies.includes(base) && forexCurrencies.includes(quote)) {
-      return "forex";
-    }
-  }
-
-  return "stock";
-}
-
-// ============================================================================
-// PIP / TICK SIZE
-// ============================================================================
-
-function getPipSize(symbol: string): number {
-  const s = symbol.toUpperCase();
-  if (s.endsWith("JPY")) return 0.01;
-  if (s.startsWith("XAU")) return 0.1;
-  if (s.startsWith("XAG")) return 0.01;
-  return 0.0001;
-}
-
-function getTickSize(assetClass: AssetClass, symbol: string): number {
-  if (assetClass === "forex") return getPipSize(symbol);
-  if (assetClass === "metal") {
-    if (symbol.startsWith("XAU")) return 0.1;
-    if (symbol.startsWith("XAG")) return 0.01;
-    return 0.01;
-  }
-  if (assetClass === "index" || assetClass === "commodity") return 0.01;
-  return 0.01; // stocks, crypto
-}
-
-// ============================================================================
-// PNL CALCULATION - TradingView Accurate
-// ============================================================================
-
-interface PnLResult {
-  pnl: number;
-  pnlPct: number;
-  pipSize: number | null;
-  pipValue: number | null;
-  pips: number | null;
-  tickSize: number | null;
-  tickValue: number | null;
-  ticks: number | null;
-}
-
-function calculatePnL(
-  side: string,
-  entryPrice: number,
-  exitPrice: number,
-  quantity: number,
-  assetClass: AssetClass,
-  symbol?: string,
-): PnLResult {
-  const isLong = side === "long";
-  const priceDiff = isLong ? exitPrice - entryPrice : entryPrice - exitPrice;
-
-  let pnl = 0;
-  let pipSize: number | null = null;
-  let pipValuePerUnit: number | null = null;
-  let pips: number | null = null;
-  let tickSize: number | null = null;
-  let tickValuePerUnit: number | null = null;
-  let ticks: number | null = null;
-
-  // FOREX
-  if (assetClass === "forex") {
-    // Price difference (long or short already handled above)
-    pnl = priceDiff * quantity;
-    pnl = Math.round(pnl * 100) / 100; // round to cents
-
-    // TradingView-style metadata (optional)
-    pipSize = symbol?.endsWith("JPY") ? 0.01 : 0.0001;
-
-    pips = priceDiff / pipSize; // how many pips the move was
-    pipValuePerUnit = quantity * pipSize; // pip value per "pip"
-  }
-
-  // METALS
-  else if (assetClass === "metal") {
-    tickSize = symbol?.startsWith("XAU") ? 0.1 : 0.01;
-    tickValuePerUnit = 1; // 1 tick = 1 * quantity
-    ticks = priceDiff / tickSize;
-    pnl = Math.round(ticks * quantity * tickValuePerUnit * 100) / 100;
-  }
-
-  // INDICES / COMMODITIES
-  else if (assetClass === "index" || assetClass === "commodity") {
-    tickSize = 0.01;
-    tickValuePerUnit = 1;
-    ticks = priceDiff / tickSize;
-    pnl = Math.round(ticks * quantity * tickValuePerUnit * 100) / 100;
-  }
-
-  // CRYPTO / STOCK
-  else {
-    pnl = Math.round(priceDiff * quantity * 100) / 100;
-  }
-
-  const cost = entryPrice * quantity;
-  const pnlPct = cost > 0 ? Math.round((pnl / cost) * 10000) / 100 : 0;
-
-  return {
-    pnl,
-    pnlPct,
-    pipSize,
-    pipValue: pipValuePerUnit ? pipValuePerUnit * quantity : null,
-    pips,
-    tickSize,
-    tickValue: tickValuePerUnit ? tickValuePerUnit * quantity : null,
-    ticks,
-  };
-}
-
 // ============================================================================
 // TIMESTAMP NORMALIZATION
 // ============================================================================
@@ -277,6 +66,14 @@ function normalizeTimestamp(ts: unknown): string {
   return new Date().toISOString();
 }
 
+// Returns null when absent, NaN when present but not a positive number
+function parseOptionalPrice(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === "") return null;
+  const value = Number(raw);
+  if (isNaN(value) || value <= 0) return NaN;
+  return value;
+}
+
 // ============================================================================
 // JSON RESPONSE HELPER
 // ============================================================================
@@ -299,103 +96,515 @@ function errorResponse(status: string, reason: string, httpCode = 400): Response
 interface AuthResult {
   success: boolean;
   userId?: string;
+  signingSecret?: string | null;
+  requireSigned?: boolean;
+  matchingMethod?: MatchingMethod;
+  // Signed in with a user session rather than the webhook API key
+  viaSession?: boolean;
+  // Valid API key without the trades:write scope
+  forbidden?: boolean;
   error?: string;
 }
 
-async function authenticateRequest(serviceClient: SupabaseClient, apiKey: string | null): Promise<AuthResult> {
-  if (!apiKey) {
-    return { success: false, error: "Missing x-api-key header" };
-  }
-
+async function authenticateRequest(serviceClient: SupabaseClient, apiKey: string | null, ip: string | null): Promise<AuthResult> {
   console.log("Authenticating via API key...");
 
+  const keyResult = await authenticateApiKey(serviceClient, apiKey, "trades:write", ip);
+  if (!keyResult.success || !keyResult.userId) {
+    console.log("API key rejected:", keyResult.error);
+    return { success: false, forbidden: keyResult.forbidden, error: keyResult.error };
+  }
+
+  // Signing settings belong to the key; the matching method is per user
   const { data: profile, error } = await serviceClient
     .from("profiles")
-    .select("user_id")
-    .eq("api_key", apiKey)
+    .select("user_id, position_matching_method")
+    .eq("user_id", keyResult.userId)
     .maybeSingle();
 
-  if (error) {
-    console.error("API key lookup error:", error);
+  if (error || !profile) {
+    console.error("Profile lookup error:", error);
     return { success: false, error: "API key validation failed" };
   }
 
-  if (!profile) {
-    console.log("No profile found for API key");
-    return { success: false, error: "Invalid API key" };
+  console.log(`Authenticated user ${profile.user_id} with key ${keyResult.keyId}`);
+  return {
+    success: true,
+    userId: profile.user_id,
+    signingSecret: keyResult.signingSecret ?? null,
+    requireSigned: Boolean(keyResult.requireSigned),
+    matchingMethod: normalizeMatchingMethod(profile.position_matching_method),
+  };
+}
+
+// Signed-in users resubmitting dead letters from the app authenticate with their session
+async function authenticateSession(serviceClient: SupabaseClient, authHeader: string): Promise<AuthResult> {
+  const token = authHeader.replace("Bearer ", "");
+  const {
+    data: { user },
+    error: authError,
+  } = await serviceClient.auth.getUser(token);
+
+  if (authError || !user) {
+    return { success: false, error: "Invalid authentication" };
   }
 
-  console.log("Authenticated user:", profile.user_id);
-  return { success: true, userId: profile.user_id };
+  const { data: profile } = await serviceClient
+    .from("profiles")
+    .select("position_matching_method")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  return {
+    success: true,
+    userId: user.id,
+    signingSecret: null,
+    requireSigned: false,
+    matchingMethod: normalizeMatchingMethod(profile?.position_matching_method),
+    viaSession: true,
+  };
 }
 
 // ============================================================================
-// EVENT LOGGING
+// REQUEST SIGNING (HMAC-SHA256)
 // ============================================================================
 
-async function logEvent(
+// Signatures older or newer than this are rejected as stale
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Verify an optionally signed request.
+ *
+ * Signed requests carry `x-signature-timestamp` (unix seconds) and
+ * `x-signature` = hex HMAC-SHA256 of `${timestamp}.${rawBody}` keyed with the
+ * API key's signing secret. Unsigned requests are only accepted when the API key
+ * does not require signed mode. Each signature can be used once.
+ */
+async function verifyRequestSignature(
   serviceClient: SupabaseClient,
-  userId: string,
+  auth: AuthResult,
+  headers: Headers,
+  rawBody: string,
+): Promise<{ success: boolean; error?: string }> {
+  const signatureHeader = headers.get("x-signature");
+  const timestampHeader = headers.get("x-signature-timestamp");
+
+  if (!signatureHeader && !timestampHeader) {
+    if (auth.requireSigned) {
+      return { success: false, error: "This API key requires signed requests" };
+    }
+    return { success: true };
+  }
+
+  if (!signatureHeader || !timestampHeader) {
+    return { success: false, error: "Both x-signature and x-signature-timestamp headers are required" };
+  }
+
+  if (!auth.signingSecret) {
+    return { success: false, error: "No signing secret configured for this API key" };
+  }
+
+  const signedAt = Number(timestampHeader);
+  if (!Number.isFinite(signedAt)) {
+    return { success: false, error: "Invalid x-signature-timestamp" };
+  }
+
+  const ageSeconds = Math.abs(Date.now() / 1000 - signedAt);
+  if (ageSeconds > SIGNATURE_TOLERANCE_SECONDS) {
+    return { success: false, error: "Signature timestamp is outside the allowed window" };
+  }
+
+  const signature = signatureHeader.replace(/^sha256=/i, "").toLowerCase();
+  const expected = await hmacSha256Hex(auth.signingSecret, `${timestampHeader}.${rawBody}`);
+
+  if (!timingSafeEqual(signature, expected)) {
+    return { success: false, error: "Invalid signature" };
+  }
+
+  // Replay protection - a signature may only be accepted once
+  const { error: replayError } = await serviceClient.from("webhook_signatures").insert({
+    user_id: auth.userId,
+    signature,
+    signed_at: new Date(signedAt * 1000).toISOString(),
+  });
+
+  if (replayError) {
+    if (replayError.code === "23505") {
+      return { success: false, error: "Signature has already been used" };
+    }
+    console.error("Signature ledger error:", replayError);
+    return { success: false, error: "Signature validation failed" };
+  }
+
+  // Signatures outside the window can never verify again, so prune them
+  const cutoff = new Date(Date.now() - SIGNATURE_TOLERANCE_SECONDS * 2 * 1000).toISOString();
+  const { error: pruneError } = await serviceClient
+    .from("webhook_signatures")
+    .delete()
+    .eq("user_id", auth.userId)
+    .lt("signed_at", cutoff);
+
+  if (pruneError) {
+    console.error("Failed to prune old signatures:", pruneError);
+  }
+
+  return { success: true };
+}
+
+// ============================================================================
+// IDEMPOTENCY
+// ============================================================================
+
+const MAX_EVENT_ID_LENGTH = 200;
+
+/**
+ * Resolve the idempotency key for an event.
+ *
+ * Prefers a client-supplied `event_id`. Trade events without one fall back to a
+ * deterministic SHA-256 fingerprint of symbol/side/price/quantity/timestamp (plus
+ * the amounts for FEE/FUNDING), but only when the client sent its own timestamp -
+ * otherwise every retry would get a fresh "now" and never match.
+ */
+async function resolveEventId(
   eventType: string,
+  body: Record<string, unknown>,
   data: {
-    symbol?: string | null;
-    side?: string | null;
-    price?: number | null;
-    quantity?: number | null;
-    quantityLots?: number | null;
-    platform?: string | null;
-    timestamp?: string;
-    isSimulation?: boolean;
-    raw?: unknown;
-    pnl?: number | null;
-    pnlPct?: number | null;
+    symbol: string | null;
+    side: string | null;
+    price: number | null;
+    quantity: number | null;
+    timestamp: string;
+    charges: Charges;
   },
+): Promise<string | null> {
+  const clientEventId = body.event_id ?? body.eventId;
+  if (clientEventId !== undefined && clientEventId !== null && String(clientEventId).trim() !== "") {
+    return String(clientEventId).trim().slice(0, MAX_EVENT_ID_LENGTH);
+  }
+
+  const isChargeEvent = CHARGE_EVENT_TYPES.includes(eventType);
+  if (eventType !== "TRADE_ENTRY" && eventType !== "TRADE_EXIT" && !isChargeEvent) return null;
+  if (body.timestamp === undefined || body.timestamp === null) return null;
+
+  // The account is only appended when sent, so account-less fingerprints stay stable
+  const account = body.account_id ?? body.accountId ?? body.account;
+  const fingerprintSource = [eventType, data.symbol, data.side, data.price, data.quantity, data.timestamp]
+    .concat(account !== undefined && account !== null && account !== "" ? [String(account)] : [])
+    .concat(
+      isChargeEvent
+        ? [data.charges.commission, data.charges.swap, data.charges.funding, body.position_id ?? body.positionId ?? ""].map(String)
+        : [],
+    )
+    .join("|");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(fingerprintSource));
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+  return `fp_${hex}`;
+}
+
+interface LoggedEvent {
+  id: number;
+  result: Record<string, unknown> | null;
+}
+
+async function findLoggedEvent(
+  serviceClient: SupabaseClient,
+  userId: string,
+  eventId: string,
+): Promise<LoggedEvent | null> {
+  const { data, error } = await serviceClient
+    .from("trade_log")
+    .select("id, result")
+    .eq("user_id", userId)
+    .eq("event_id", eventId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Event lookup error:", error);
+    return null;
+  }
+
+  return data as LoggedEvent | null;
+}
+
+// Only successfully applied events are replayed; failed ones may be retried
+function isAppliedResult(result: Record<string, unknown> | null): result is Record<string, unknown> {
+  return !!result && result.success === true;
+}
+
+/**
+ * A logged event with no result yet has been claimed by a request that is
+ * still applying it. It is never re-applied: if that request died part way,
+ * the event may be partly applied and needs a position rebuild, not a retry.
+ */
+function isInProgress(event: LoggedEvent): boolean {
+  return event.result === null;
+}
+
+function duplicateResponse(eventId: string, result: Record<string, unknown>): Response {
+  console.log(`Duplicate event ${eventId}, returning original result`);
+  return jsonResponse({ ...result, duplicate: true, event_id: eventId });
+}
+
+function inProgressResponse(eventId: string): Response {
+  console.log(`Event ${eventId} is still being processed by another request`);
+  return errorResponse("duplicate_in_progress", `Event ${eventId} is already being processed, retry later`, 409);
+}
+
+// Positions created, closed or modified by an event, as reported in its result
+function linkedPositionIds(result: Record<string, unknown>): number[] | null {
+  if (Array.isArray(result.position_ids)) return result.position_ids as number[];
+  if (typeof result.position_id === "number") return [result.position_id];
+  return null;
+}
+
+async function recordEventResult(
+  serviceClient: SupabaseClient,
+  logId: number,
+  response: Response,
   nowIso: string,
 ): Promise<void> {
   try {
-    const assetClass = data.symbol ? getAssetClass(data.symbol) : null;
-    const pipSize = data.symbol ? getPipSize(data.symbol) : null;
-    const tickSize = assetClass && data.symbol ? getTickSize(assetClass, data.symbol) : null;
+    const result = await response.clone().json();
 
-    let pipValue: number | null = null;
-    let tickValue: number | null = null;
+    const { error } = await serviceClient
+      .from("trade_log")
+      .update({ result, processed_at: nowIso, position_ids: linkedPositionIds(result) })
+      .eq("id", logId);
 
-    if (assetClass === "forex" && data.quantity && pipSize) {
-      pipValue = data.quantity * pipSize;
+    if (error) {
+      console.error("Error recording event result:", error);
     }
-    if ((assetClass === "metal" || assetClass === "index" || assetClass === "commodity") && data.quantity) {
-      tickValue = data.quantity;
+  } catch (err) {
+    console.error("Failed to record event result:", err);
+  }
+}
+
+// ============================================================================
+// TRADING ACCOUNT RESOLUTION
+// ============================================================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function findAccountId(
+  serviceClient: SupabaseClient,
+  userId: string,
+  column: "id" | "external_account_id" | "is_default",
+  value: string | boolean,
+): Promise<string | null> {
+  const { data } = await serviceClient
+    .from("trading_accounts")
+    .select("id")
+    .eq("user_id", userId)
+    .eq(column, value)
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
+
+/**
+ * Resolve the trading account an event belongs to.
+ * Accepts our account ID or the broker's account number; unknown account
+ * numbers get an account on first use. Events without an account go to the
+ * user's default account, created if the user has none yet.
+ */
+async function resolveAccountId(
+  serviceClient: SupabaseClient,
+  userId: string,
+  rawAccount: unknown,
+): Promise<{ accountId?: string; error?: string }> {
+  const account = rawAccount !== undefined && rawAccount !== null ? String(rawAccount).trim() : "";
+
+  if (account && UUID_PATTERN.test(account)) {
+    const accountId = await findAccountId(serviceClient, userId, "id", account);
+    if (accountId) return { accountId };
+  }
+
+  const lookup: ["external_account_id" | "is_default", string | boolean] = account
+    ? ["external_account_id", account]
+    : ["is_default", true];
+
+  const existingId = await findAccountId(serviceClient, userId, ...lookup);
+  if (existingId) return { accountId: existingId };
+
+  const { data: created, error } = await serviceClient
+    .from("trading_accounts")
+    .insert(
+      account
+        ? { user_id: userId, name: account, external_account_id: account }
+        : { user_id: userId, name: "Main", is_default: true },
+    )
+    .select("id")
+    .single();
+
+  if (error) {
+    // Unique violation - a concurrent event created the same account first
+    if (error.code === "23505") {
+      const concurrentId = await findAccountId(serviceClient, userId, ...lookup);
+      if (concurrentId) return { accountId: concurrentId };
     }
+    console.error("Failed to create trading account:", error);
+    return { error: error.message };
+  }
 
-    const { error } = await serviceClient.from("trade_log").insert({
-      user_id: userId,
-      event_type: eventType,
-      symbol: data.symbol,
-      side: data.side,
-      price: data.price,
-      quantity: data.quantityLots,
-      raw_quantity: data.quantity,
-      quantity_lots: data.quantityLots,
-      platform: data.platform || "TradingView",
-      timestamp: data.timestamp || nowIso,
-      is_simulation: data.isSimulation || false,
-      raw: data.raw,
-      asset_class: assetClass,
-      pip_size: pipSize,
-      pip_value: pipValue,
-      tick_size: tickSize,
-      tick_value: tickValue,
-      pnl: data.pnl,
-      pnl_pct: data.pnlPct,
-    });
+  console.log(`Created trading account ${created.id} (${account || "default"}) for user ${userId}`);
+  return { accountId: created.id };
+}
+
+// ============================================================================
+// EVENT LOGGING
+// ============================================================================
+
+interface LogResult {
+  id: number | null;
+  // Another request already logged this event_id
+  conflict: boolean;
+}
+
+interface LogEventData {
+  symbol?: string | null;
+  side?: string | null;
+  price?: number | null;
+  quantity?: number | null;
+  quantityLots?: number | null;
+  platform?: string | null;
+  timestamp?: string;
+  isSimulation?: boolean;
+  raw?: unknown;
+  pnl?: number | null;
+  pnlPct?: number | null;
+  eventId?: string | null;
+  accountId?: string | null;
+}
+
+async function tradeLogColumns(
+  serviceClient: SupabaseClient,
+  userId: string,
+  eventType: string,
+  data: LogEventData,
+  nowIso: string,
+): Promise<Record<string, unknown>> {
+  const instrument = data.symbol ? await getInstrument(serviceClient, data.symbol) : null;
+  const sizing = data.symbol ? getPositionSizing(data.symbol, data.quantity || 0, instrument) : null;
+
+  return {
+    user_id: userId,
+    event_type: eventType,
+    symbol: data.symbol,
+    side: data.side,
+    price: data.price,
+    quantity: data.quantityLots,
+    raw_quantity: data.quantity,
+    quantity_lots: data.quantityLots,
+    platform: data.platform || "TradingView",
+    timestamp: data.timestamp || nowIso,
+    is_simulation: data.isSimulation || false,
+    raw: data.raw,
+    asset_class: sizing?.assetClass ?? null,
+    pip_size: data.symbol ? getPipSize(data.symbol, instrument) : null,
+    pip_value: data.quantity ? sizing?.pipValue ?? null : null,
+    tick_size: sizing?.tickSize ?? null,
+    tick_value: data.quantity ? sizing?.tickValue ?? null : null,
+    pnl: data.pnl,
+    pnl_pct: data.pnlPct,
+    event_id: data.eventId ?? null,
+    account_id: data.accountId ?? null,
+  };
+}
+
+async function logEvent(
+  serviceClient: SupabaseClient,
+  userId: string,
+  eventType: string,
+  data: LogEventData,
+  nowIso: string,
+): Promise<LogResult> {
+  try {
+    const { data: logRow, error } = await serviceClient
+      .from("trade_log")
+      .insert(await tradeLogColumns(serviceClient, userId, eventType, data, nowIso))
+      .select("id")
+      .single();
 
     if (error) {
+      // Unique violation on (user_id, event_id) - a concurrent retry got there first
+      if (error.code === "23505" && data.eventId) {
+        console.log(`Event ${data.eventId} already logged by another request`);
+        return { id: null, conflict: true };
+      }
       console.error("Error logging event:", error);
-    } else {
-      console.log(`Event logged: ${eventType} ${data.symbol || ""}`);
+      return { id: null, conflict: false };
     }
+
+    console.log(`Event logged: ${eventType} ${data.symbol || ""}`);
+    return { id: logRow.id, conflict: false };
   } catch (err) {
     console.error("Failed to log event:", err);
+    return { id: null, conflict: false };
+  }
+}
+
+/**
+ * Claim a previously failed trade_log row for a new attempt, overwriting it
+ * with the attempt's fields so the log (and position rebuilds replaying it)
+ * match what was applied even when the event was corrected before being
+ * resubmitted. The row is only taken while it still holds a recorded
+ * failure, so of two concurrent retries just one applies the event.
+ */
+async function claimFailedEvent(
+  serviceClient: SupabaseClient,
+  logId: number,
+  userId: string,
+  eventType: string,
+  data: LogEventData,
+  nowIso: string,
+): Promise<{ claimed: boolean; error?: string }> {
+  try {
+    const { data: claimed, error } = await serviceClient
+      .from("trade_log")
+      .update({
+        ...(await tradeLogColumns(serviceClient, userId, eventType, data, nowIso)),
+        result: null,
+        processed_at: null,
+      })
+      .eq("id", logId)
+      .eq("result->>success", "false")
+      .select("id");
+
+    if (error) {
+      console.error("Error claiming logged event:", error);
+      return { claimed: false, error: error.message };
+    }
+    return { claimed: (claimed || []).length > 0 };
+  } catch (err) {
+    console.error("Failed to claim logged event:", err);
+    return { claimed: false, error: err instanceof Error ? err.message : "Failed to claim logged event" };
   }
 }
 
@@ -403,38 +612,49 @@ async function logEvent(
 // TRADE ENTRY HANDLER
 // ============================================================================
 
-async function handleTradeEntry(
+interface EntryPayload {
+  symbol: string;
+  side: "long" | "short";
+  price: number;
+  quantity: number;
+  quantityLots?: number;
+  platform: string;
+  timestamp: string;
+  isSimulation: boolean;
+  stopLoss?: number | null;
+  takeProfit?: number | null;
+  matchingMethod: MatchingMethod;
+  accountId: string;
+  // Commission/swap/funding reported with the fill
+  charges?: Charges;
+  // MT4/MT5 ticket or cTrader position ID the broker assigned
+  brokerPositionId?: string | null;
+}
+
+interface OpenedPosition {
+  id: number;
+  side: "long" | "short";
+  quantity: number;
+  assetClass: AssetClass;
+  pipSize: number | null;
+  pipValue: number | null;
+  tickSize: number;
+  tickValue: number | null;
+}
+
+// Insert a new open position - shared by plain entries and reversals
+async function openPosition(
   serviceClient: SupabaseClient,
   userId: string,
-  payload: {
-    symbol: string;
-    side: "long" | "short";
-    price: number;
-    quantity: number;
-    quantityLots?: number;
-    platform: string;
-    timestamp: string;
-    isSimulation: boolean;
-  },
-  nowIso: string,
-): Promise<Response> {
+  payload: EntryPayload,
+  source: string,
+): Promise<{ position?: OpenedPosition; error?: string }> {
   const { symbol, side, price, quantity, quantityLots, platform, timestamp, isSimulation } = payload;
+  const stopLoss = payload.stopLoss ?? null;
+  const takeProfit = payload.takeProfit ?? null;
 
-  console.log("Processing TRADE_ENTRY:", { userId, symbol, side, price, quantity, quantityLots });
-
-  const assetClass = getAssetClass(symbol);
-  const pipSize = getPipSize(symbol);
-  const tickSize = getTickSize(assetClass, symbol);
-
-  let pipValue: number | null = null;
-  let tickValue: number | null = null;
-
-  if (assetClass === "forex") {
-    pipValue = quantity * pipSize;
-  }
-  if (assetClass === "metal" || assetClass === "index" || assetClass === "commodity") {
-    tickValue = quantity;
-  }
+  const instrument = await getInstrument(serviceClient, symbol);
+  const { assetClass, pipSize, pipValue, tickSize, tickValue } = getPositionSizing(symbol, quantity, instrument);
 
   console.log(`Asset class detected: ${assetClass}`);
 
@@ -452,77 +672,506 @@ async function handleTradeEntry(
       open: true,
       is_simulation: isSimulation,
       asset_class: assetClass,
-      pip_size: assetClass === "forex" ? pipSize : null,
+      pip_size: pipSize,
       pip_value: pipValue,
       tick_size: tickSize,
       tick_value: tickValue,
+      initial_stop_loss: stopLoss,
+      stop_loss: stopLoss,
+      initial_take_profit: takeProfit,
+      take_profit: takeProfit,
+      matching_method: payload.matchingMethod,
+      account_id: payload.accountId,
+      broker_position_id: payload.brokerPositionId ?? null,
+      ...chargeColumns(payload.charges ?? NO_CHARGES),
     })
     .select("id")
     .single();
 
   if (error) {
     console.error("Position insert error:", error);
-    return errorResponse("server_error", error.message, 500);
+    return { error: error.message };
   }
 
   console.log("Position created:", position.id);
 
-  return jsonResponse({
-    success: true,
-    status: "position_created",
-    position_id: position.id,
-    asset_class: assetClass,
-    pip_size: assetClass === "forex" ? pipSize : null,
-    pip_value: pipValue,
-    tick_size: tickSize,
-    tick_value: tickValue,
-  });
-}
-
-// ============================================================================
-// FIFO POSITION CLOSE HANDLER
-// ============================================================================
+  if (stopLoss !== null || takeProfit !== null) {
+    await recordRiskChange(serviceClient, userId, position.id, {
+      stopLoss,
+      takeProfit,
+      source,
+      timestamp,
+    });
+  }
 
-interface OpenPosition {
-  id: number;
-  symbol: string;
-  side: string;
-  quantity: number;
-  quantity_lots: number | null;
-  entry_price: number;
-  entry_timestamp: string;
-  platform: string;
-  is_simulation: boolean;
-  asset_class: string | null;
+  return {
+    position: {
+      id: position.id,
+      side,
+      quantity,
+      assetClass,
+      pipSize,
+      pipValue,
+      tickSize,
+      tickValue,
+    },
+  };
 }
 
-async function handleTradeExit(
+async function handleTradeEntry(
   serviceClient: SupabaseClient,
   userId: string,
-  payload: {
-    symbol: string;
-    price: number;
+  payload: EntryPayload,
+  nowIso: string,
+): Promise<Response> {
+  const { symbol, side, price, quantity, quantityLots } = payload;
+
+  console.log("Processing TRADE_ENTRY:", {
+    userId,
+    symbol,
+    side,
+    price,
+    quantity,
+    quantityLots,
+    stopLoss: payload.stopLoss,
+    takeProfit: payload.takeProfit,
+    brokerPositionId: payload.brokerPositionId,
+  });
+
+  if (payload.brokerPositionId) {
+    return await handleBrokerEntry(serviceClient, userId, payload, nowIso);
+  }
+
+  // An entry against an existing opposite-side position closes it first (using
+  // the user's matching method) and only the excess quantity opens a new position.
+  const opposingSide = side === "long" ? "short" : "long";
+  const { data: opposing, error: opposingError } = await serviceClient
+    .from("positions")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("account_id", payload.accountId)
+    .eq("symbol", symbol)
+    .eq("side", opposingSide)
+    .eq("open", true)
+    .limit(1);
+
+  if (opposingError) {
+    console.error("Fetch opposing positions error:", opposingError);
+    return errorResponse("server_error", opposingError.message, 500);
+  }
+
+  if (opposing && opposing.length > 0) {
+    console.log(`Entry ${side} ${symbol} offsets open ${opposingSide} position(s), routing through close handler`);
+    return await handleTradeExit(
+      serviceClient,
+      userId,
+      { ...payload, closeSide: opposingSide, reversalStopLoss: payload.stopLoss, reversalTakeProfit: payload.takeProfit },
+      nowIso,
+    );
+  }
+
+  if (payload.matchingMethod === "average") {
+    const { data: sameSide, error: sameSideError } = await serviceClient
+      .from("positions")
+      .select("id, quantity, quantity_lots, entry_price, initial_stop_loss, initial_take_profit, commission, swap, funding")
+      .eq("user_id", userId)
+      .eq("account_id", payload.accountId)
+      .eq("symbol", symbol)
+      .eq("side", side)
+      .eq("open", true)
+      .order("entry_timestamp", { ascending: true })
+      .limit(1);
+
+    if (sameSideError) {
+      console.error("Fetch same-side positions error:", sameSideError);
+      return errorResponse("server_error", sameSideError.message, 500);
+    }
+
+    if (sameSide && sameSide.length > 0) {
+      return await averageIntoPosition(serviceClient, userId, sameSide[0], payload, nowIso);
+    }
+  }
+
+  const { position, error } = await openPosition(serviceClient, userId, payload, "TRADE_ENTRY");
+
+  if (!position) {
+    return errorResponse("server_error", error || "Failed to create position", 500);
+  }
+
+  return positionCreatedResponse(position, payload);
+}
+
+function positionCreatedResponse(position: OpenedPosition, payload: EntryPayload): Response {
+  return jsonResponse({
+    success: true,
+    status: "position_created",
+    position_id: position.id,
+    ...(payload.brokerPositionId ? { broker_position_id: payload.brokerPositionId } : {}),
+    asset_class: position.assetClass,
+    pip_size: position.pipSize,
+    pip_value: position.pipValue,
+    tick_size: position.tickSize,
+    tick_value: position.tickValue,
+    stop_loss: payload.stopLoss ?? null,
+    take_profit: payload.takeProfit ?? null,
+  });
+}
+
+/**
+ * Entries carrying a broker position ID touch only that position: the same ID
+ * on the same side adds to it, on the other side reduces or reverses it
+ * (netting accounts), and a new ID always opens a position, even next to an
+ * opposite one (hedging accounts).
+ */
+async function handleBrokerEntry(
+  serviceClient: SupabaseClient,
+  userId: string,
+  payload: EntryPayload,
+  nowIso: string,
+): Promise<Response> {
+  const { data: linked, error: linkedError } = await serviceClient
+    .from("positions")
+    .select("id, side, quantity, quantity_lots, entry_price, initial_stop_loss, initial_take_profit, commission, swap, funding")
+    .eq("user_id", userId)
+    .eq("account_id", payload.accountId)
+    .eq("symbol", payload.symbol)
+    .eq("broker_position_id", payload.brokerPositionId)
+    .eq("open", true)
+    .limit(1);
+
+  if (linkedError) {
+    console.error("Fetch broker position error:", linkedError);
+    return errorResponse("server_error", linkedError.message, 500);
+  }
+
+  const existing = linked?.[0];
+
+  if (existing && existing.side === payload.side) {
+    return await averageIntoPosition(serviceClient, userId, existing, payload, nowIso);
+  }
+
+  if (existing) {
+    console.log(`Entry ${payload.side} ${payload.symbol} reduces broker position ${payload.brokerPositionId}`);
+    return await handleTradeExit(
+      serviceClient,
+      userId,
+      { ...payload, closeSide: existing.side, reversalStopLoss: payload.stopLoss, reversalTakeProfit: payload.takeProfit },
+      nowIso,
+    );
+  }
+
+  const { position, error } = await openPosition(serviceClient, userId, payload, "TRADE_ENTRY");
+
+  if (!position) {
+    return errorResponse("server_error", error || "Failed to create position", 500);
+  }
+
+  return positionCreatedResponse(position, payload);
+}
+
+// Average-cost accounting keeps one open position per symbol and side: a new
+// same-side entry is folded into it at the volume-weighted entry price.
+async function averageIntoPosition(
+  serviceClient: SupabaseClient,
+  userId: string,
+  existing: {
+    id: number;
+    quantity: number;
+    quantity_lots: number | null;
+    entry_price: number;
+    initial_stop_loss: number | null;
+    initial_take_profit: number | null;
+    commission: number;
+    swap: number;
+    funding: number;
+  },
+  payload: EntryPayload,
+  nowIso: string,
+): Promise<Response> {
+  const { symbol, price, quantity, quantityLots, timestamp } = payload;
+  const existingQty = Number(existing.quantity) || 0;
+  const existingLots = Number(existing.quantity_lots) || existingQty;
+
+  const newQty = existingQty + quantity;
+  const newLots = Number((existingLots + (quantityLots || quantity)).toFixed(8));
+  const averagePrice = (Number(existing.entry_price) * existingQty + price * quantity) / newQty;
+
+  const sizing = getPositionSizing(symbol, newQty, await getInstrument(serviceClient, symbol));
+  const stopLoss = payload.stopLoss ?? null;
+  const takeProfit = payload.takeProfit ?? null;
+
+  console.log(
+    `Averaging ${quantity} @ ${price} into position ${existing.id}: ${existingQty} -> ${newQty} units @ ${averagePrice}`,
+  );
+
+  const update: Record<string, unknown> = {
+    quantity: newQty,
+    quantity_lots: newLots,
+    entry_price: averagePrice,
+    updated_at: nowIso,
+    ...chargeColumns(addCharges(chargesOf(existing), payload.charges ?? NO_CHARGES)),
+  };
+
+  if (sizing.pipValue !== null) {
+    update.pip_value = sizing.pipValue;
+  }
+  if (sizing.tickValue !== null) {
+    update.tick_value = sizing.tickValue;
+  }
+  if (stopLoss !== null) {
+    update.stop_loss = stopLoss;
+    if (existing.initial_stop_loss === null) update.initial_stop_loss = stopLoss;
+  }
+  if (takeProfit !== null) {
+    update.take_profit = takeProfit;
+    if (existing.initial_take_profit === null) update.initial_take_profit = takeProfit;
+  }
+
+  const { error } = await serviceClient.from("positions").update(update).eq("id", existing.id);
+
+  if (error) {
+    console.error(`Failed to average into position ${existing.id}:`, error);
+    return errorResponse("server_error", error.message, 500);
+  }
+
+  if (stopLoss !== null || takeProfit !== null) {
+    await recordRiskChange(serviceClient, userId, existing.id, {
+      stopLoss,
+      takeProfit,
+      source: "TRADE_ENTRY",
+      timestamp,
+    });
+  }
+
+  return jsonResponse({
+    success: true,
+    status: "position_averaged",
+    position_id: existing.id,
+    asset_class: sizing.assetClass,
+    quantity: newQty,
+    entry_price: averagePrice,
+    matching_method: "average",
+    position_ids: [existing.id],
+  });
+}
+
+// ============================================================================
+// STOP-LOSS / TAKE-PROFIT TRACKING
+// ============================================================================
+
+async function recordRiskChange(
+  serviceClient: SupabaseClient,
+  userId: string,
+  positionId: number,
+  change: {
+    stopLoss: number | null;
+    takeProfit: number | null;
+    source: string;
+    timestamp: string;
+  },
+): Promise<void> {
+  const { error } = await serviceClient.from("position_risk_history").insert({
+    position_id: positionId,
+    user_id: userId,
+    stop_loss: change.stopLoss,
+    take_profit: change.takeProfit,
+    source: change.source,
+    changed_at: change.timestamp,
+  });
+
+  if (error) {
+    console.error(`Failed to record risk change for position ${positionId}:`, error);
+  }
+}
+
+async function handleTradeModify(
+  serviceClient: SupabaseClient,
+  userId: string,
+  payload: {
+    symbol: string;
+    positionId: number | null;
+    stopLoss: number | null;
+    takeProfit: number | null;
+    timestamp: string;
+    accountId: string;
+    brokerPositionId: string | null;
+  },
+  nowIso: string,
+): Promise<Response> {
+  const { symbol, positionId, stopLoss, takeProfit, timestamp, brokerPositionId } = payload;
+
+  console.log("Processing TRADE_MODIFY:", { userId, symbol, positionId, brokerPositionId, stopLoss, takeProfit });
+
+  let query = serviceClient
+    .from("positions")
+    .select("id, initial_stop_loss, initial_take_profit")
+    .eq("user_id", userId)
+    .eq("symbol", symbol)
+    .eq("open", true);
+
+  // An explicit position_id identifies the position; otherwise stay within the account
+  query = positionId !== null ? query.eq("id", positionId) : query.eq("account_id", payload.accountId);
+  if (brokerPositionId) {
+    query = query.eq("broker_position_id", brokerPositionId);
+  }
+
+  const { data: openPositions, error: fetchError } = await query;
+
+  if (fetchError) {
+    console.error("Fetch positions error:", fetchError);
+    return errorResponse("server_error", fetchError.message, 500);
+  }
+
+  if (!openPositions || openPositions.length === 0) {
+    return errorResponse("no_open_position", `No open position found for ${symbol}`, 404);
+  }
+
+  const modifiedIds: number[] = [];
+
+  for (const position of openPositions as Array<{
+    id: number;
+    initial_stop_loss: number | null;
+    initial_take_profit: number | null;
+  }>) {
+    const update: Record<string, unknown> = { updated_at: nowIso };
+
+    // The first stop/target we ever see for a position is its planned risk
+    if (stopLoss !== null) {
+      update.stop_loss = stopLoss;
+      if (position.initial_stop_loss === null) update.initial_stop_loss = stopLoss;
+    }
+    if (takeProfit !== null) {
+      update.take_profit = takeProfit;
+      if (position.initial_take_profit === null) update.initial_take_profit = takeProfit;
+    }
+
+    const { error: updateError } = await serviceClient.from("positions").update(update).eq("id", position.id);
+
+    if (updateError) {
+      console.error(`Failed to modify position ${position.id}:`, updateError);
+      continue;
+    }
+
+    await recordRiskChange(serviceClient, userId, position.id, {
+      stopLoss,
+      takeProfit,
+      source: "TRADE_MODIFY",
+      timestamp,
+    });
+    modifiedIds.push(position.id);
+  }
+
+  if (modifiedIds.length === 0) {
+    return errorResponse("modify_failed", "Failed to modify any positions", 500);
+  }
+
+  console.log(`Modified ${modifiedIds.length} positions for ${symbol}`);
+
+  return jsonResponse({
+    success: true,
+    status: "position_modified",
+    position_ids: modifiedIds,
+    stop_loss: stopLoss,
+    take_profit: takeProfit,
+  });
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+// Count newly closed or re-costed positions in the user's metrics. The event
+// is already applied, so a failure here is logged and left for the next update.
+async function refreshMetrics(serviceClient: SupabaseClient, userId: string): Promise<void> {
+  try {
+    await updateMetrics(serviceClient, userId);
+  } catch (err) {
+    console.error(`Failed to update metrics for ${userId}:`, err);
+  }
+}
+
+// ============================================================================
+// POSITION CLOSE HANDLER (FIFO / LIFO / AVERAGE COST)
+// ============================================================================
+
+interface OpenPosition {
+  id: number;
+  symbol: string;
+  side: string;
+  quantity: number;
+  quantity_lots: number | null;
+  entry_price: number;
+  entry_timestamp: string;
+  platform: string;
+  is_simulation: boolean;
+  asset_class: string | null;
+  initial_stop_loss: number | null;
+  stop_loss: number | null;
+  initial_take_profit: number | null;
+  take_profit: number | null;
+  commission: number;
+  swap: number;
+  funding: number;
+  broker_position_id: string | null;
+}
+
+async function handleTradeExit(
+  serviceClient: SupabaseClient,
+  userId: string,
+  payload: {
+    symbol: string;
+    price: number;
     quantity: number;
     quantityLots?: number;
     platform: string;
     timestamp: string;
     isSimulation: boolean;
+    matchingMethod: MatchingMethod;
+    accountId: string;
+    // Commission/swap/funding reported with the fill, shared across closed lots by quantity
+    charges?: Charges;
+    // Only close positions on this side (set when an opposite-side entry is offsetting)
+    closeSide?: "long" | "short";
+    reversalStopLoss?: number | null;
+    reversalTakeProfit?: number | null;
+    // Only close the position the broker identifies; reversals keep the ID
+    brokerPositionId?: string | null;
   },
   nowIso: string,
 ): Promise<Response> {
-  const { symbol, price: exitPrice, quantity: exitQuantity, quantityLots: exitLots, timestamp } = payload;
-
-  console.log("Processing TRADE_EXIT:", { userId, symbol, exitPrice, exitQuantity, exitLots });
+  const { symbol, price: exitPrice, quantity: exitQuantity, quantityLots: exitLots, timestamp, matchingMethod } = payload;
+
+  console.log("Processing TRADE_EXIT:", {
+    userId,
+    symbol,
+    exitPrice,
+    exitQuantity,
+    exitLots,
+    matchingMethod,
+    brokerPositionId: payload.brokerPositionId,
+  });
 
-  const { data: openPositions, error: fetchError } = await serviceClient
+  let openQuery = serviceClient
     .from("positions")
     .select(
-      "id, symbol, side, quantity, quantity_lots, entry_price, entry_timestamp, platform, is_simulation, asset_class",
+      "id, symbol, side, quantity, quantity_lots, entry_price, entry_timestamp, platform, is_simulation, asset_class, initial_stop_loss, stop_loss, initial_take_profit, take_profit, commission, swap, funding, broker_position_id",
     )
     .eq("user_id", userId)
+    .eq("account_id", payload.accountId)
     .eq("symbol", symbol)
-    .eq("open", true)
-    .order("entry_timestamp", { ascending: true });
+    .eq("open", true);
+
+  if (payload.closeSide) {
+    openQuery = openQuery.eq("side", payload.closeSide);
+  }
+  if (payload.brokerPositionId) {
+    openQuery = openQuery.eq("broker_position_id", payload.brokerPositionId);
+  }
+
+  // LIFO closes the newest lot first; FIFO and average cost close the oldest first
+  const { data: openPositions, error: fetchError } = await openQuery.order("entry_timestamp", {
+    ascending: matchingMethod !== "lifo",
+  });
 
   if (fetchError) {
     console.error("Fetch positions error:", fetchError);
@@ -531,20 +1180,50 @@ async function handleTradeExit(
 
   if (!openPositions || openPositions.length === 0) {
     console.log("No open positions found for symbol:", symbol);
-    return errorResponse("no_open_position", `No open position found for ${symbol}`, 404);
+    const reason = payload.brokerPositionId
+      ? `No open position found for ${symbol} with broker position ${payload.brokerPositionId}`
+      : `No open position found for ${symbol}`;
+    return errorResponse("no_open_position", reason, 404);
+  }
+
+  const instrument = await getInstrument(serviceClient, symbol);
+  const assetClass = getAssetClass(symbol, instrument);
+
+  // PnL comes out in the quote currency; convert at the exit-time rate
+  const pnlCurrency = getQuoteCurrency(symbol, assetClass, instrument);
+  const accountCurrency = await resolveAccountCurrency(serviceClient, userId, payload.accountId);
+  const fxRate = await getFxRate(serviceClient, pnlCurrency, accountCurrency, timestamp);
+  if (fxRate === null) {
+    console.warn(`No ${pnlCurrency}/${accountCurrency} rate at ${timestamp}, PnL left in ${pnlCurrency}`);
   }
 
-  const assetClass = getAssetClass(symbol);
   let remainingQuantity = exitQuantity;
   let totalPnL = 0;
+  let totalPnLNative = 0;
   let totalPnLPct = 0;
-  const closedPositions: Array<{ id: number; pnl: number; pnlPct: number; quantity: number }> = [];
+  let totalFees = 0;
+  const exitCharges = payload.charges ?? NO_CHARGES;
+  const closedPositions: Array<{ id: number; pnl: number; pnlPct: number; quantity: number; feesTotal: number }> = [];
   let partialCloseCount = 0;
+  let failedCloseCount = 0;
 
   // PnL metadata for response
   let lastPnLResult: PnLResult | null = null;
 
-  console.log(`Found ${openPositions.length} open positions for ${symbol}, closing ${remainingQuantity} units (FIFO)`);
+  // Average cost: every lot closes at the pooled entry price of the open lots on
+  // that side (normally a single row, since averaged entries are merged)
+  let pooledEntryPrice: number | null = null;
+  if (matchingMethod === "average") {
+    const pool = (openPositions as OpenPosition[]).filter((p) => p.side === openPositions[0].side);
+    const poolQty = pool.reduce((sum, p) => sum + (Number(p.quantity) || 0), 0);
+    if (poolQty > 0) {
+      pooledEntryPrice = pool.reduce((sum, p) => sum + Number(p.entry_price) * (Number(p.quantity) || 0), 0) / poolQty;
+    }
+  }
+
+  console.log(
+    `Found ${openPositions.length} open positions for ${symbol}, closing ${remainingQuantity} units (${matchingMethod.toUpperCase()})`,
+  );
 
   for (const position of openPositions as OpenPosition[]) {
     if (remainingQuantity <= 0) break;
@@ -557,23 +1236,29 @@ async function handleTradeExit(
       continue;
     }
 
+    const entryPrice = pooledEntryPrice ?? position.entry_price;
+
     if (remainingQuantity >= positionQty) {
       // ========================================
       // FULL CLOSE
       // ========================================
-      const pnlResult = calculatePnL(position.side, position.entry_price, exitPrice, positionQty, assetClass, symbol);
+      const pnlResult = calculatePnL(position.side, entryPrice, exitPrice, positionQty, assetClass, symbol, instrument);
       lastPnLResult = pnlResult;
+      const conversion = applyFxRate(pnlResult.pnl, pnlCurrency, accountCurrency, fxRate);
+      const charges = addCharges(chargesOf(position), scaleCharges(exitCharges, positionQty / exitQuantity));
 
       console.log(
-        `Closing FULL position ${position.id}: qty=${positionQty}, entry=${position.entry_price}, exit=${exitPrice}, pnl=${pnlResult.pnl}`,
+        `Closing FULL position ${position.id}: qty=${positionQty}, entry=${entryPrice}, exit=${exitPrice}, pnl=${pnlResult.pnl}`,
       );
 
       const { error: updateError } = await serviceClient
         .from("positions")
         .update({
+          entry_price: entryPrice,
           exit_price: exitPrice,
           exit_timestamp: timestamp,
-          pnl: pnlResult.pnl,
+          matching_method: matchingMethod,
+          ...fxColumns(conversion),
           pnl_pct: pnlResult.pnlPct,
           open: false,
           updated_at: nowIso,
@@ -583,18 +1268,28 @@ async function handleTradeExit(
           tick_size: pnlResult.tickSize,
           tick_value: pnlResult.tickValue,
           ticks: pnlResult.ticks,
+          ...chargeColumns(charges),
         })
         .eq("id", position.id);
 
       if (updateError) {
         console.error(`Failed to close position ${position.id}:`, updateError);
+        failedCloseCount++;
         continue;
       }
 
       remainingQuantity -= positionQty;
-      totalPnL += pnlResult.pnl;
+      totalPnL += conversion.pnl;
+      totalPnLNative += pnlResult.pnl;
       totalPnLPct += pnlResult.pnlPct;
-      closedPositions.push({ id: position.id, pnl: pnlResult.pnl, pnlPct: pnlResult.pnlPct, quantity: positionQty });
+      totalFees += chargesCost(charges);
+      closedPositions.push({
+        id: position.id,
+        pnl: conversion.pnl,
+        pnlPct: pnlResult.pnlPct,
+        quantity: positionQty,
+        feesTotal: chargesCost(charges),
+      });
     } else {
       // ========================================
       // PARTIAL CLOSE
@@ -602,13 +1297,19 @@ async function handleTradeExit(
       const closedQty = remainingQuantity;
       const remainingPosQty = positionQty - closedQty;
 
-      const pnlResult = calculatePnL(position.side, position.entry_price, exitPrice, closedQty, assetClass, symbol);
+      const pnlResult = calculatePnL(position.side, entryPrice, exitPrice, closedQty, assetClass, symbol, instrument);
       lastPnLResult = pnlResult;
+      const conversion = applyFxRate(pnlResult.pnl, pnlCurrency, accountCurrency, fxRate);
 
       // Calculate proportional lots with precision
       const closedLots = Number(((closedQty / positionQty) * positionLots).toFixed(8));
       const remainingLots = Number((positionLots - closedLots).toFixed(8));
 
+      // The closed portion takes its share of the position's costs plus this fill's
+      const carriedCharges = scaleCharges(chargesOf(position), closedQty / positionQty);
+      const remainingCharges = subtractCharges(chargesOf(position), carriedCharges);
+      const charges = addCharges(carriedCharges, scaleCharges(exitCharges, closedQty / exitQuantity));
+
       console.log(
         `PARTIAL close position ${position.id}: closing ${closedQty} units (${closedLots} lots), remaining ${remainingPosQty} units, pnl=${pnlResult.pnl}`,
       );
@@ -620,11 +1321,13 @@ async function handleTradeExit(
           quantity: remainingPosQty,
           quantity_lots: remainingLots,
           updated_at: nowIso,
+          ...chargeColumns(remainingCharges),
         })
         .eq("id", position.id);
 
       if (updateError) {
         console.error(`Failed to update position ${position.id}:`, updateError);
+        failedCloseCount++;
         continue;
       }
 
@@ -638,11 +1341,12 @@ async function handleTradeExit(
           side: position.side,
           quantity: closedQty,
           quantity_lots: closedLots,
-          entry_price: position.entry_price,
+          entry_price: entryPrice,
           entry_timestamp: position.entry_timestamp,
           exit_price: exitPrice,
           exit_timestamp: timestamp,
-          pnl: pnlResult.pnl,
+          matching_method: matchingMethod,
+          ...fxColumns(conversion),
           pnl_pct: pnlResult.pnlPct,
           open: false,
           is_simulation: position.is_simulation,
@@ -653,6 +1357,13 @@ async function handleTradeExit(
           tick_size: pnlResult.tickSize,
           tick_value: pnlResult.tickValue,
           ticks: pnlResult.ticks,
+          initial_stop_loss: position.initial_stop_loss,
+          stop_loss: position.stop_loss,
+          initial_take_profit: position.initial_take_profit,
+          take_profit: position.take_profit,
+          account_id: payload.accountId,
+          broker_position_id: position.broker_position_id,
+          ...chargeColumns(charges),
         })
         .select("id")
         .single();
@@ -660,12 +1371,20 @@ async function handleTradeExit(
       if (insertError) {
         console.error("Failed to create closed portion:", insertError);
       } else if (closedPos) {
-        closedPositions.push({ id: closedPos.id, pnl: pnlResult.pnl, pnlPct: pnlResult.pnlPct, quantity: closedQty });
+        closedPositions.push({
+          id: closedPos.id,
+          pnl: conversion.pnl,
+          pnlPct: pnlResult.pnlPct,
+          quantity: closedQty,
+          feesTotal: chargesCost(charges),
+        });
       }
 
       remainingQuantity = 0;
-      totalPnL += pnlResult.pnl;
+      totalPnL += conversion.pnl;
+      totalPnLNative += pnlResult.pnl;
       totalPnLPct += pnlResult.pnlPct;
+      totalFees += chargesCost(charges);
       partialCloseCount++;
     }
   }
@@ -674,11 +1393,55 @@ async function handleTradeExit(
     return errorResponse("close_failed", "Failed to close any positions", 500);
   }
 
+  // ========================================
+  // REVERSAL - over-close opens the opposite side
+  // ========================================
+  let reversal: OpenedPosition | null = null;
+  const overCloseQuantity = Number(remainingQuantity.toFixed(8));
+
+  // Never reverse when a close failed - the leftover would be unclosed quantity, not excess
+  if (overCloseQuantity > 0 && failedCloseCount === 0) {
+    const closedSide = (openPositions as OpenPosition[])[0].side;
+    const reversalSide = closedSide === "long" ? "short" : "long";
+    const reversalLots = exitLots ? Number(((overCloseQuantity / exitQuantity) * exitLots).toFixed(8)) : overCloseQuantity;
+
+    console.log(`Over-close of ${overCloseQuantity} units, reversing into ${reversalSide} ${symbol}`);
+
+    const { position, error } = await openPosition(
+      serviceClient,
+      userId,
+      {
+        symbol,
+        side: reversalSide,
+        price: exitPrice,
+        quantity: overCloseQuantity,
+        quantityLots: reversalLots,
+        platform: payload.platform,
+        timestamp,
+        isSimulation: payload.isSimulation,
+        stopLoss: payload.reversalStopLoss,
+        takeProfit: payload.reversalTakeProfit,
+        matchingMethod,
+        accountId: payload.accountId,
+        charges: scaleCharges(exitCharges, overCloseQuantity / exitQuantity),
+        brokerPositionId: payload.brokerPositionId,
+      },
+      "REVERSAL",
+    );
+
+    if (position) {
+      reversal = position;
+    } else {
+      console.error("Failed to open reversal position:", error);
+    }
+  }
+
   const roundedTotalPnL = Math.round(totalPnL * 100) / 100;
+  const roundedNetPnL = Math.round((totalPnL - totalFees) * 100) / 100;
   const avgPnLPct = closedPositions.length > 0 ? Math.round((totalPnLPct / closedPositions.length) * 100) / 100 : 0;
 
   console.log(
-    `Exit complete: ${closedPositions.length} positions closed, ${partialCloseCount} partial, total PnL: ${roundedTotalPnL}`,
+    `Exit complete: ${closedPositions.length} positions closed, ${partialCloseCount} partial, total PnL: ${roundedTotalPnL}, net: ${roundedNetPnL}`,
   );
 
   // ========================================
@@ -695,7 +1458,7 @@ async function handleTradeExit(
           .single();
 
         if (positionData && positionData.entry_price && positionData.exit_price && positionData.pnl !== null) {
-          const isHit = positionData.pnl > 0;
+          const isHit = (positionData.net_pnl ?? positionData.pnl) > 0;
           const predictionStatus = isHit ? "hit" : "missed";
           
           // Map asset class to prediction asset_type
@@ -706,6 +1469,7 @@ async function handleTradeExit(
             "index": "stock",
             "metal": "futures",
             "commodity": "futures",
+            "futures": "futures",
           };
           const predictionAssetType = assetTypeMap[positionData.asset_class || "stock"] || "stock";
 
@@ -738,11 +1502,22 @@ async function handleTradeExit(
     }
   }
 
+  if (closedPositions.length > 0) {
+    await refreshMetrics(serviceClient, userId);
+  }
+
   const responseData: Record<string, unknown> = {
     success: true,
     asset_class: assetClass,
     pnl: roundedTotalPnL,
     pnl_pct: avgPnLPct,
+    fees_total: Math.round(totalFees * 100) / 100,
+    net_pnl: roundedNetPnL,
+    currency: fxRate === null ? pnlCurrency : accountCurrency,
+    pnl_native: Math.round(totalPnLNative * 100) / 100,
+    pnl_currency: pnlCurrency,
+    fx_rate: fxRate,
+    matching_method: matchingMethod,
   };
 
   // Add pip/tick metadata from last result
@@ -766,47 +1541,894 @@ async function handleTradeExit(
     responseData.positions = closedPositions;
   }
 
+  if (reversal) {
+    responseData.status = "position_reversed";
+    responseData.reversal = {
+      position_id: reversal.id,
+      side: reversal.side,
+      quantity: reversal.quantity,
+    };
+  } else if (overCloseQuantity > 0) {
+    responseData.unmatched_quantity = overCloseQuantity;
+  }
+
+  // Every position this event touched, for linking the trade_log row
+  responseData.position_ids = [...closedPositions.map((p) => p.id), ...(reversal ? [reversal.id] : [])];
+
   return jsonResponse(responseData);
 }
 
 // ============================================================================
-// USER ACTIVITY HANDLER
+// FEE / FUNDING HANDLER
 // ============================================================================
 
-async function handleUserActivity(
+// Costs reported separately from fills: late commissions, overnight swaps and
+// perpetual funding payments
+const CHARGE_EVENT_TYPES = ["FEE", "FUNDING"];
+
+interface ChargeTarget {
+  id: number;
+  quantity: number;
+  open: boolean;
+  commission: number;
+  swap: number;
+  funding: number;
+}
+
+/**
+ * Attribute a FEE/FUNDING event to positions:
+ * - an explicit position_id gets the whole amount
+ * - otherwise it is shared by quantity across open positions on the symbol
+ *   (only the broker's position, when the event names one)
+ * - with nothing open, it lands on the most recently closed position (e.g. a
+ *   commission the broker reports after the close)
+ */
+async function handleChargeEvent(
   serviceClient: SupabaseClient,
   userId: string,
+  eventType: string,
   payload: {
-    platform: string;
-    isActive: boolean;
+    symbol: string;
+    positionId: number | null;
+    charges: Charges;
     timestamp: string;
+    accountId: string;
+    brokerPositionId: string | null;
   },
+  nowIso: string,
 ): Promise<Response> {
-  const { platform, isActive, timestamp } = payload;
+  const { symbol, positionId, charges, timestamp } = payload;
 
-  let normalizedPlatform = platform;
-  if (platform.toLowerCase().includes("tradingview")) {
-    normalizedPlatform = "TradingView";
-  }
+  console.log(`Processing ${eventType}:`, { userId, symbol, positionId, charges });
 
-  console.log("Processing USER_ACTIVITY:", { userId, platform: normalizedPlatform, isActive });
-
-  const { error } = await serviceClient.from("user_activity").insert({
-    user_id: userId,
-    platform: normalizedPlatform,
-    is_active: isActive,
-    timestamp: timestamp,
-  });
+  const columns = "id, quantity, open, commission, swap, funding";
+  let targets: ChargeTarget[] = [];
 
-  if (error) {
-    console.error("Activity insert error:", error);
-    return errorResponse("server_error", error.message, 500);
-  }
+  if (positionId !== null) {
+    const { data, error } = await serviceClient
+      .from("positions")
+      .select(columns)
+      .eq("user_id", userId)
+      .eq("id", positionId)
+      .eq("symbol", symbol);
+
+    if (error) {
+      console.error("Fetch position error:", error);
+      return errorResponse("server_error", error.message, 500);
+    }
+    targets = (data || []) as ChargeTarget[];
+  } else {
+    let openQuery = serviceClient
+      .from("positions")
+      .select(columns)
+      .eq("user_id", userId)
+      .eq("account_id", payload.accountId)
+      .eq("symbol", symbol)
+      .eq("open", true);
+
+    if (payload.brokerPositionId) {
+      openQuery = openQuery.eq("broker_position_id", payload.brokerPositionId);
+    }
+
+    const { data: openPositions, error: openError } = await openQuery;
+
+    if (openError) {
+      console.error("Fetch positions error:", openError);
+      return errorResponse("server_error", openError.message, 500);
+    }
+    targets = (openPositions || []) as ChargeTarget[];
+
+    if (targets.length === 0) {
+      const { data: lastClosed, error: closedError } = await serviceClient
+        .from("positions")
+        .select(columns)
+        .eq("user_id", userId)
+        .eq("account_id", payload.accountId)
+        .eq("symbol", symbol)
+        .eq("open", false)
+        .lte("exit_timestamp", timestamp)
+        .order("exit_timestamp", { ascending: false })
+        .limit(1);
+
+      if (closedError) {
+        console.error("Fetch closed positions error:", closedError);
+        return errorResponse("server_error", closedError.message, 500);
+      }
+      targets = (lastClosed || []) as ChargeTarget[];
+    }
+  }
+
+  if (targets.length === 0) {
+    return errorResponse("no_position", `No position found for ${symbol} to attribute ${eventType}`, 404);
+  }
+
+  const totalQty = targets.reduce((sum, p) => sum + (Number(p.quantity) || 0), 0);
+  const updatedIds: number[] = [];
+
+  for (const target of targets) {
+    const share = totalQty > 0 ? (Number(target.quantity) || 0) / totalQty : 1 / targets.length;
+    const update: Record<string, unknown> = {
+      ...chargeColumns(addCharges(chargesOf(target), scaleCharges(charges, share))),
+      updated_at: nowIso,
+    };
+
+    // Net PnL of a closed position changed, so its metrics need recalculating
+    if (!target.open) update.metrics_calculated_at = null;
+
+    const { error } = await serviceClient.from("positions").update(update).eq("id", target.id);
+
+    if (error) {
+      console.error(`Failed to apply ${eventType} to position ${target.id}:`, error);
+      continue;
+    }
+    updatedIds.push(target.id);
+  }
+
+  if (updatedIds.length === 0) {
+    return errorResponse("charge_failed", `Failed to apply ${eventType} to any position`, 500);
+  }
+
+  if (targets.some((t) => !t.open)) {
+    await refreshMetrics(serviceClient, userId);
+  }
+
+  return jsonResponse({
+    success: true,
+    status: "charges_applied",
+    position_ids: updatedIds,
+    commission: charges.commission,
+    swap: charges.swap,
+    funding: charges.funding,
+    fees_total: chargesCost(charges),
+  });
+}
+
+// ============================================================================
+// USER ACTIVITY HANDLER
+// ============================================================================
+
+async function handleUserActivity(
+  serviceClient: SupabaseClient,
+  userId: string,
+  payload: {
+    platform: string;
+    isActive: boolean;
+    timestamp: string;
+  },
+): Promise<Response> {
+  const { platform, isActive, timestamp } = payload;
+
+  let normalizedPlatform = platform;
+  if (platform.toLowerCase().includes("tradingview")) {
+    normalizedPlatform = "TradingView";
+  }
+
+  console.log("Processing USER_ACTIVITY:", { userId, platform: normalizedPlatform, isActive });
+
+  const { error } = await serviceClient.from("user_activity").insert({
+    user_id: userId,
+    platform: normalizedPlatform,
+    is_active: isActive,
+    timestamp: timestamp,
+  });
+
+  if (error) {
+    console.error("Activity insert error:", error);
+    return errorResponse("server_error", error.message, 500);
+  }
 
   console.log("Activity recorded");
   return jsonResponse({ success: true, status: "activity_logged" });
 }
 
+// ============================================================================
+// EVENT ROUTER
+// ============================================================================
+
+interface NormalizedEvent {
+  symbol: string | null;
+  side: "long" | "short" | null;
+  price: number | null;
+  quantity: number | null;
+  quantityLots: number | null;
+  platform: string;
+  timestamp: string;
+  isSimulation: boolean;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  charges: Charges;
+  // Resolved for trade events only
+  accountId: string | null;
+  brokerPositionId: string | null;
+}
+
+// Events that touch positions and so belong to a trading account
+const TRADE_EVENT_TYPES = ["TRADE_ENTRY", "TRADE_EXIT", "TRADE_MODIFY", ...CHARGE_EVENT_TYPES];
+
+async function routeEvent(
+  serviceClient: SupabaseClient,
+  userId: string,
+  matchingMethod: MatchingMethod,
+  eventType: string,
+  body: Record<string, unknown>,
+  event: NormalizedEvent,
+  nowIso: string,
+): Promise<Response> {
+  const {
+    symbol,
+    side,
+    price,
+    quantity,
+    quantityLots,
+    platform,
+    timestamp,
+    isSimulation,
+    stopLoss,
+    takeProfit,
+    charges,
+    brokerPositionId,
+  } = event;
+  const accountId = event.accountId as string;
+
+  switch (eventType) {
+    case "TRADE_ENTRY": {
+      if (!symbol || !side || price === null || quantity === null) {
+        return errorResponse("invalid_request", "TRADE_ENTRY requires symbol, side, price, and quantity", 400);
+      }
+
+      return await handleTradeEntry(
+        serviceClient,
+        userId,
+        {
+          symbol,
+          side,
+          price,
+          quantity,
+          quantityLots: quantityLots || quantity,
+          platform,
+          timestamp,
+          isSimulation,
+          stopLoss,
+          takeProfit,
+          matchingMethod,
+          accountId,
+          charges,
+          brokerPositionId,
+        },
+        nowIso,
+      );
+    }
+
+    case "TRADE_EXIT": {
+      if (!symbol || price === null || quantity === null) {
+        return errorResponse("invalid_request", "TRADE_EXIT requires symbol, price, and quantity", 400);
+      }
+
+      return await handleTradeExit(
+        serviceClient,
+        userId,
+        {
+          symbol,
+          price,
+          quantity,
+          quantityLots: quantityLots || quantity,
+          platform,
+          timestamp,
+          isSimulation,
+          matchingMethod,
+          accountId,
+          charges,
+          brokerPositionId,
+        },
+        nowIso,
+      );
+    }
+
+    case "TRADE_MODIFY": {
+      if (!symbol) {
+        return errorResponse("invalid_request", "TRADE_MODIFY requires symbol", 400);
+      }
+      if (stopLoss === null && takeProfit === null) {
+        return errorResponse("invalid_request", "TRADE_MODIFY requires stop_loss or take_profit", 400);
+      }
+
+      const rawPositionId = body.position_id ?? body.positionId;
+      const positionId = rawPositionId !== undefined && rawPositionId !== null ? Number(rawPositionId) : null;
+      if (positionId !== null && !Number.isInteger(positionId)) {
+        return errorResponse("invalid_request", "position_id must be an integer", 400);
+      }
+
+      return await handleTradeModify(
+        serviceClient,
+        userId,
+        { symbol, positionId, stopLoss, takeProfit, timestamp, accountId, brokerPositionId },
+        nowIso,
+      );
+    }
+
+    case "FEE":
+    case "FUNDING": {
+      if (!symbol) {
+        return errorResponse("invalid_request", `${eventType} requires symbol`, 400);
+      }
+      if (!hasCharges(charges)) {
+        return errorResponse("invalid_request", `${eventType} requires a non-zero amount, commission, swap or funding`, 400);
+      }
+
+      const rawPositionId = body.position_id ?? body.positionId;
+      const positionId = rawPositionId !== undefined && rawPositionId !== null ? Number(rawPositionId) : null;
+      if (positionId !== null && !Number.isInteger(positionId)) {
+        return errorResponse("invalid_request", "position_id must be an integer", 400);
+      }
+
+      return await handleChargeEvent(
+        serviceClient,
+        userId,
+        eventType,
+        { symbol, positionId, charges, timestamp, accountId, brokerPositionId },
+        nowIso,
+      );
+    }
+
+    case "USER_ACTIVITY": {
+      const activityData = (body.data as Record<string, unknown>) || body;
+      const activityPlatform = (activityData.platform as string) || platform;
+      const isActive = activityData.is_active !== undefined ? Boolean(activityData.is_active) : true;
+      const activityTimestamp = normalizeTimestamp(activityData.timestamp || body.timestamp);
+
+      return await handleUserActivity(serviceClient, userId, {
+        platform: activityPlatform,
+        isActive,
+        timestamp: activityTimestamp,
+      });
+    }
+
+    default: {
+      console.log("Unknown event type:", eventType);
+      return errorResponse("unknown_event_type", `Unknown event type: ${eventType}`, 400);
+    }
+  }
+}
+
+// ============================================================================
+// DEAD-LETTER QUEUE
+// ============================================================================
+
+// What the pipeline resolved for an event before it succeeded or failed
+interface EventTrace {
+  eventType: string | null;
+  eventId: string | null;
+  accountId: string | null;
+  logId: number | null;
+  // Set when the event is a resubmission of this dead letter
+  deadLetterId: string | null;
+}
+
+/**
+ * Whether a failed event goes to the dead-letter queue. Concurrent duplicates
+ * are still being applied by another request, and activity pings have nothing
+ * to fix.
+ */
+function isDeadLetter(response: Response, trace: EventTrace): boolean {
+  if (response.ok || response.status === 409) return false;
+  return trace.eventType !== "USER_ACTIVITY";
+}
+
+async function findDeadLetterId(
+  serviceClient: SupabaseClient,
+  userId: string,
+  trace: EventTrace,
+): Promise<string | null> {
+  if (trace.deadLetterId) return trace.deadLetterId;
+  if (!trace.eventId) return null;
+
+  const { data } = await serviceClient
+    .from("trade_dead_letters")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("event_id", trace.eventId)
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
+
+async function recordDeadLetter(
+  serviceClient: SupabaseClient,
+  userId: string,
+  body: Record<string, unknown>,
+  trace: EventTrace,
+  response: Response,
+  nowIso: string,
+): Promise<void> {
+  try {
+    const result = await response.clone().json();
+    // Early validation failures know less than later ones; keep what an earlier attempt found
+    const failure = {
+      ...(trace.accountId ? { account_id: trace.accountId } : {}),
+      ...(trace.logId !== null ? { trade_log_id: trace.logId } : {}),
+      ...(trace.eventId ? { event_id: trace.eventId } : {}),
+      event_type: trace.eventType,
+      payload: body,
+      error_status: String(result.status ?? "error"),
+      error_reason: String(result.reason ?? result.error ?? "Unknown error"),
+      http_status: response.status,
+      status: "pending",
+      last_failed_at: nowIso,
+    };
+
+    const existingId = await findDeadLetterId(serviceClient, userId, trace);
+    if (existingId) {
+      const { data: existing } = await serviceClient
+        .from("trade_dead_letters")
+        .select("attempts")
+        .eq("id", existingId)
+        .single();
+
+      const { error } = await serviceClient
+        .from("trade_dead_letters")
+        .update({ ...failure, attempts: (existing?.attempts ?? 0) + 1, resolved_at: null })
+        .eq("id", existingId);
+
+      if (error) console.error("Error updating dead letter:", error);
+      return;
+    }
+
+    const { error } = await serviceClient
+      .from("trade_dead_letters")
+      .insert({ ...failure, user_id: userId });
+
+    if (error) {
+      console.error("Error recording dead letter:", error);
+    } else {
+      console.log(`Dead-lettered ${trace.eventType ?? "event"}: ${failure.error_reason}`);
+    }
+  } catch (err) {
+    console.error("Failed to record dead letter:", err);
+  }
+}
+
+// A retry or resubmission went through - the queued failure is settled
+async function resolveDeadLetters(
+  serviceClient: SupabaseClient,
+  userId: string,
+  body: Record<string, unknown>,
+  trace: EventTrace,
+  nowIso: string,
+): Promise<void> {
+  if (trace.deadLetterId) {
+    const { error } = await serviceClient
+      .from("trade_dead_letters")
+      .update({
+        status: "resolved",
+        resolved_at: nowIso,
+        payload: body,
+        ...(trace.logId !== null ? { trade_log_id: trace.logId } : {}),
+      })
+      .eq("id", trace.deadLetterId);
+
+    if (error) console.error("Error resolving dead letter:", error);
+  }
+
+  if (trace.eventId) {
+    const { error } = await serviceClient
+      .from("trade_dead_letters")
+      .update({ status: "resolved", resolved_at: nowIso })
+      .eq("user_id", userId)
+      .eq("event_id", trace.eventId)
+      .eq("status", "pending");
+
+    if (error) console.error("Error resolving dead letters:", error);
+  }
+}
+
+// ============================================================================
+// SINGLE EVENT PIPELINE
+// ============================================================================
+
+/**
+ * Normalize, validate, dedupe, log and apply one event, noting what was
+ * resolved along the way in `trace` for the dead-letter queue.
+ */
+async function applyEvent(
+  serviceClient: SupabaseClient,
+  userId: string,
+  matchingMethod: MatchingMethod,
+  body: Record<string, unknown>,
+  nowIso: string,
+  trace: EventTrace,
+): Promise<Response> {
+  const rawType = body.type ?? body.event_type;
+  const eventType = rawType ? String(rawType).toUpperCase() : null;
+
+  if (!eventType) {
+    return errorResponse("invalid_request", "Missing type or event_type field", 400);
+  }
+  trace.eventType = eventType;
+
+  // Normalize symbol
+  const rawSymbol = body.symbol as string | undefined;
+  const symbol = canonicalSymbol(rawSymbol);
+
+  // Normalize side
+  const rawSide = body.side as string | undefined;
+  const side = normalizeSide(rawSide);
+
+  // Validate and extract quantity
+  let quantity: number | null = null;
+  if (body.quantity !== undefined && body.quantity !== null) {
+    quantity = Number(body.quantity);
+    if (isNaN(quantity) || quantity <= 0) {
+      return errorResponse("invalid_quantity", "Quantity must be a positive number", 400);
+    }
+  }
+
+  // Extract quantity_lots
+  let quantityLots: number | null = null;
+  if (body.quantity_lots !== undefined && body.quantity_lots !== null) {
+    quantityLots = Number(body.quantity_lots);
+    if (isNaN(quantityLots)) quantityLots = quantity;
+  } else {
+    quantityLots = quantity;
+  }
+
+  // Extract price with validation
+  let price: number | null = null;
+  if (body.price !== undefined && body.price !== null) {
+    price = Number(body.price);
+    if (isNaN(price) || price <= 0) {
+      return errorResponse("invalid_price", "Price must be a positive number", 400);
+    }
+  }
+
+  // Optional planned stop-loss / take-profit
+  const stopLoss = parseOptionalPrice(body.stop_loss ?? body.stopLoss ?? body.sl);
+  if (Number.isNaN(stopLoss)) {
+    return errorResponse("invalid_price", "stop_loss must be a positive number", 400);
+  }
+
+  const takeProfit = parseOptionalPrice(body.take_profit ?? body.takeProfit ?? body.tp);
+  if (Number.isNaN(takeProfit)) {
+    return errorResponse("invalid_price", "take_profit must be a positive number", 400);
+  }
+
+  // Commission, swap and funding carried by fills and FEE/FUNDING events
+  const charges = parseCharges(eventType, body);
+  if (!charges) {
+    return errorResponse("invalid_charges", "commission, swap, funding and amount must be numbers", 400);
+  }
+
+  const timestamp = normalizeTimestamp(body.timestamp);
+  const platform = (body.platform as string) || "TradingView";
+  const isSimulation = Boolean(body.is_simulation || body.isSimulation);
+  const rawBrokerPositionId = body.broker_position_id ?? body.brokerPositionId;
+  const brokerPositionId =
+    rawBrokerPositionId !== undefined && rawBrokerPositionId !== null && String(rawBrokerPositionId).trim() !== ""
+      ? String(rawBrokerPositionId).trim()
+      : null;
+
+  // Idempotency: replay the original result for events we already applied
+  const eventId = await resolveEventId(eventType, body, { symbol, side, price, quantity, timestamp, charges });
+  trace.eventId = eventId;
+  const existingEvent = eventId ? await findLoggedEvent(serviceClient, userId, eventId) : null;
+
+  if (eventId && existingEvent) {
+    if (isAppliedResult(existingEvent.result)) return duplicateResponse(eventId, existingEvent.result);
+    if (isInProgress(existingEvent)) return inProgressResponse(eventId);
+  }
+
+  // Trade events are tagged with the trading account they belong to
+  let accountId: string | null = null;
+  if (TRADE_EVENT_TYPES.includes(eventType)) {
+    const accountResult = await resolveAccountId(serviceClient, userId, body.account_id ?? body.accountId ?? body.account);
+    if (!accountResult.accountId) {
+      return errorResponse("server_error", accountResult.error || "Failed to resolve trading account", 500);
+    }
+    accountId = accountResult.accountId;
+    trace.accountId = accountId;
+  }
+
+  // Log every event (a retry of a recorded failure reuses its trade_log row)
+  const logData: LogEventData = {
+    symbol,
+    side,
+    price,
+    quantity,
+    quantityLots,
+    platform,
+    timestamp,
+    isSimulation,
+    raw: body,
+    eventId,
+    accountId,
+  };
+  let logId = existingEvent?.id ?? null;
+  if (existingEvent && eventId) {
+    const claim = await claimFailedEvent(serviceClient, existingEvent.id, userId, eventType, logData, nowIso);
+    if (claim.error) {
+      return errorResponse("server_error", claim.error, 500);
+    }
+    if (!claim.claimed) {
+      // Another retry claimed the failure first
+      return inProgressResponse(eventId);
+    }
+  } else {
+    const logResult = await logEvent(serviceClient, userId, eventType, logData, nowIso);
+
+    if (logResult.conflict && eventId) {
+      const concurrentEvent = await findLoggedEvent(serviceClient, userId, eventId);
+      if (concurrentEvent && isAppliedResult(concurrentEvent.result)) {
+        return duplicateResponse(eventId, concurrentEvent.result);
+      }
+      return inProgressResponse(eventId);
+    }
+
+    logId = logResult.id;
+  }
+  trace.logId = logId;
+
+  const response = await routeEvent(
+    serviceClient,
+    userId,
+    matchingMethod,
+    eventType,
+    body,
+    {
+      symbol,
+      side,
+      price,
+      quantity,
+      quantityLots,
+      platform,
+      timestamp,
+      isSimulation,
+      stopLoss,
+      takeProfit,
+      charges,
+      accountId,
+      brokerPositionId,
+    },
+    nowIso,
+  );
+
+  if (logId !== null) {
+    await recordEventResult(serviceClient, logId, response, nowIso);
+  }
+
+  return response;
+}
+
+/**
+ * Apply one event and keep the dead-letter queue in step with the outcome.
+ * Shared by single-event requests, batch requests and resubmissions.
+ */
+async function processEvent(
+  serviceClient: SupabaseClient,
+  userId: string,
+  matchingMethod: MatchingMethod,
+  body: Record<string, unknown>,
+  nowIso: string,
+  deadLetterId: string | null = null,
+): Promise<Response> {
+  // MT4/MT5 and cTrader post their own shapes; from here on they are ordinary events
+  const translation = translateBrokerEvent(body);
+  if (translation?.ignored) {
+    console.log("Ignored broker payload:", translation.ignored);
+    return jsonResponse({ success: true, status: "ignored", reason: translation.ignored });
+  }
+  const event = translation?.event ?? body;
+
+  const trace: EventTrace = { eventType: null, eventId: null, accountId: null, logId: null, deadLetterId };
+  const response = translation?.error
+    ? errorResponse("invalid_broker_payload", translation.error, 400)
+    : await applyEvent(serviceClient, userId, matchingMethod, event, nowIso, trace);
+
+  if (response.ok) {
+    await resolveDeadLetters(serviceClient, userId, event, trace, nowIso);
+  } else if (isDeadLetter(response, trace)) {
+    await recordDeadLetter(serviceClient, userId, event, trace, response, nowIso);
+  }
+
+  return response;
+}
+
+// ============================================================================
+// BATCH HANDLER
+// ============================================================================
+
+const MAX_BATCH_SIZE = 500;
+
+interface BatchEventResult {
+  index: number;
+  http_status: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Apply a batch of events strictly in timestamp order.
+ *
+ * Events are processed one at a time so FIFO matching sees every earlier entry.
+ * A batch is not atomic: the first event that fails halts it, events before it
+ * stay applied and the rest are reported as skipped, each with its own result.
+ * Every event must carry an event_id, so the client can fix the failed event
+ * and resubmit the whole batch - events already applied dedupe.
+ */
+async function handleBatch(
+  serviceClient: SupabaseClient,
+  userId: string,
+  matchingMethod: MatchingMethod,
+  events: unknown[],
+  nowIso: string,
+): Promise<Response> {
+  if (events.length === 0) {
+    return errorResponse("invalid_request", "Batch contains no events", 400);
+  }
+
+  if (events.length > MAX_BATCH_SIZE) {
+    return errorResponse("batch_too_large", `Batch exceeds ${MAX_BATCH_SIZE} events`, 413);
+  }
+
+  const missingIds: number[] = [];
+  const keyed = events.map((event, index) => {
+    const body = event && typeof event === "object" && !Array.isArray(event) ? (event as Record<string, unknown>) : null;
+    // Broker payloads carry their time and deal IDs under their own field names
+    const translated = body ? translateBrokerEvent(body)?.event ?? body : null;
+    const eventId = translated?.event_id ?? translated?.eventId;
+    if (translated && (eventId === undefined || eventId === null || String(eventId).trim() === "")) {
+      missingIds.push(index);
+    }
+    return { index, event, sortKey: new Date(normalizeTimestamp(translated?.timestamp)).getTime() };
+  });
+
+  // Without an event_id a resubmitted batch would apply those events twice
+  if (missingIds.length > 0) {
+    return jsonResponse(
+      {
+        success: false,
+        status: "missing_event_id",
+        reason: `Every event in a batch needs an event_id; missing at index ${missingIds.join(", ")}`,
+        indexes: missingIds,
+      },
+      400,
+    );
+  }
+
+  // Stable sort by event timestamp; ties keep their submitted order
+  const ordered = keyed.sort((a, b) => a.sortKey - b.sortKey || a.index - b.index);
+
+  console.log(`Processing batch of ${ordered.length} events in timestamp order`);
+
+  const results: BatchEventResult[] = [];
+  let applied = 0;
+  let rejected = 0;
+  let skipped = 0;
+  let haltReason: string | null = null;
+
+  for (const { index, event } of ordered) {
+    if (haltReason) {
+      results.push({ index, http_status: 0, success: false, status: "skipped", reason: haltReason });
+      skipped++;
+      continue;
+    }
+
+    if (!event || typeof event !== "object" || Array.isArray(event)) {
+      results.push({ index, http_status: 400, success: false, status: "invalid_request", reason: "Event must be an object" });
+      rejected++;
+      haltReason = `Halted after event ${index} failed: Event must be an object`;
+      continue;
+    }
+
+    const response = await processEvent(serviceClient, userId, matchingMethod, event as Record<string, unknown>, nowIso);
+    const result = (await response.json()) as Record<string, unknown>;
+    results.push({ index, http_status: response.status, ...result });
+
+    if (response.ok) {
+      applied++;
+    } else {
+      // Later events may depend on this one (an exit on its entry), so stop here
+      rejected++;
+      haltReason = `Halted after event ${index} failed: ${result.reason ?? result.status ?? "error"}`;
+      console.error(haltReason);
+    }
+  }
+
+  // Report in submission order so clients can zip results with their input
+  results.sort((a, b) => a.index - b.index);
+
+  console.log(`Batch complete: ${applied} applied, ${rejected} rejected, ${skipped} skipped`);
+
+  return jsonResponse({
+    success: rejected === 0 && skipped === 0,
+    status: haltReason ? "batch_halted" : "batch_processed",
+    total: events.length,
+    applied,
+    rejected,
+    skipped,
+    results,
+  });
+}
+
+// ============================================================================
+// DEAD-LETTER RESUBMISSION
+// ============================================================================
+
+/**
+ * Re-run a dead-lettered event, optionally with corrected fields in `event`.
+ * The event keeps its original event_id, so it reuses the failed trade_log row
+ * and later webhook retries of the original dedupe against the outcome.
+ */
+async function handleResubmit(
+  serviceClient: SupabaseClient,
+  userId: string,
+  matchingMethod: MatchingMethod,
+  body: Record<string, unknown>,
+  nowIso: string,
+): Promise<Response> {
+  const deadLetterId = String(body.dead_letter_id);
+
+  const { data: letter, error } = await serviceClient
+    .from("trade_dead_letters")
+    .select("id, status, event_id, trade_log_id, payload")
+    .eq("id", deadLetterId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    return errorResponse("server_error", error.message, 500);
+  }
+  if (!letter) {
+    return errorResponse("not_found", `Dead letter ${deadLetterId} not found`, 404);
+  }
+  if (letter.status !== "pending") {
+    return errorResponse("already_settled", `Dead letter ${deadLetterId} is already ${letter.status}`, 409);
+  }
+
+  const edited = body.event;
+  if (edited !== undefined && (!edited || typeof edited !== "object" || Array.isArray(edited))) {
+    return errorResponse("invalid_request", "event must be an object", 400);
+  }
+
+  // Events logged without an id get one now so the retry reuses their log row
+  let eventId: string | null = letter.event_id;
+  if (!eventId && letter.trade_log_id !== null) {
+    eventId = `dlq_${letter.id}`;
+    await serviceClient.from("trade_log").update({ event_id: eventId }).eq("id", letter.trade_log_id).is("event_id", null);
+  }
+
+  const event = { ...((edited ?? letter.payload) as Record<string, unknown>) };
+  delete event.eventId;
+  if (eventId) {
+    event.event_id = eventId;
+  } else {
+    delete event.event_id;
+  }
+
+  console.log(`Resubmitting dead letter ${deadLetterId}`);
+  const response = await processEvent(serviceClient, userId, matchingMethod, event, nowIso, letter.id);
+  const result = (await response.json()) as Record<string, unknown>;
+
+  return jsonResponse({ ...result, dead_letter_id: letter.id }, response.status);
+}
+
 // ============================================================================
 // MAIN REQUEST HANDLER
 // ============================================================================
@@ -836,153 +2458,73 @@ Deno.serve(async (req: Request) => {
       auth: { autoRefreshToken: false, persistSession: false },
     });
 
+    // Every request counts against its IP before any key is looked up, so a
+    // flood of made-up keys is turned away without touching api_keys
+    const ipLimited = await enforceRateLimit(serviceClient, "receive-trade-ip", await rateLimitSubject(req), corsHeaders);
+    if (ipLimited) return ipLimited;
+
     const apiKey = req.headers.get("x-api-key");
-    const authResult = await authenticateRequest(serviceClient, apiKey);
+    const authHeader = req.headers.get("Authorization");
+    const authResult =
+      !apiKey && authHeader
+        ? await authenticateSession(serviceClient, authHeader)
+        : await authenticateRequest(serviceClient, apiKey, clientIp(req));
+
+    if (authResult.success && authResult.userId) {
+      // Valid keys also get their own budget
+      const limited = await enforceRateLimit(
+        serviceClient,
+        "receive-trade",
+        await rateLimitSubject(req, { apiKey: authResult.viaSession ? null : apiKey, userId: authResult.userId }),
+        corsHeaders,
+      );
+      if (limited) return limited;
+    }
 
     if (!authResult.success || !authResult.userId) {
       console.log("Authentication failed:", authResult.error);
+      if (authResult.forbidden) {
+        return errorResponse("forbidden", authResult.error || "API key not permitted", 403);
+      }
       return errorResponse("unauthorized", authResult.error || "Authentication failed", 401);
     }
 
     const userId = authResult.userId;
+    const matchingMethod = authResult.matchingMethod || "fifo";
+
+    // Read the raw body first - signatures are computed over the exact bytes sent
+    const rawBody = await req.text();
+
+    const signatureResult = await verifyRequestSignature(serviceClient, authResult, req.headers, rawBody);
+    if (!signatureResult.success) {
+      console.log("Signature verification failed:", signatureResult.error);
+      return errorResponse("invalid_signature", signatureResult.error || "Signature verification failed", 401);
+    }
 
     let body: Record<string, unknown>;
     try {
-      body = await req.json();
+      body = JSON.parse(rawBody);
     } catch {
       return errorResponse("invalid_request", "Invalid JSON body", 400);
     }
 
     console.log("Received payload:", JSON.stringify(body));
 
-    const rawType = body.type ?? body.event_type;
-    const eventType = rawType ? String(rawType).toUpperCase() : null;
-
-    if (!eventType) {
-      return errorResponse("invalid_request", "Missing type or event_type field", 400);
-    }
-
-    // Normalize symbol
-    const rawSymbol = body.symbol as string | undefined;
-    const symbol = normalizeSymbol(rawSymbol);
-
-    // Normalize side
-    const rawSide = body.side as string | undefined;
-    const side = normalizeSide(rawSide);
-
-    // Validate and extract quantity
-    let quantity: number | null = null;
-    if (body.quantity !== undefined && body.quantity !== null) {
-      quantity = Number(body.quantity);
-      if (isNaN(quantity) || quantity <= 0) {
-        return errorResponse("invalid_quantity", "Quantity must be a positive number", 400);
+    // Sessions only drive the dead-letter page; trades arrive with the API key
+    if (authResult.viaSession) {
+      if (!body || Array.isArray(body) || typeof body.dead_letter_id !== "string") {
+        return errorResponse("invalid_request", "Signed-in requests must resubmit a dead_letter_id", 400);
       }
+      return await handleResubmit(serviceClient, userId, matchingMethod, body, nowIso);
     }
 
-    // Extract quantity_lots
-    let quantityLots: number | null = null;
-    if (body.quantity_lots !== undefined && body.quantity_lots !== null) {
-      quantityLots = Number(body.quantity_lots);
-      if (isNaN(quantityLots)) quantityLots = quantity;
-    } else {
-      quantityLots = quantity;
-    }
-
-    // Extract price with validation
-    let price: number | null = null;
-    if (body.price !== undefined && body.price !== null) {
-      price = Number(body.price);
-      if (isNaN(price) || price <= 0) {
-        return errorResponse("invalid_price", "Price must be a positive number", 400);
-      }
+    // Batch mode: a top-level array or { events: [...] }
+    if (Array.isArray(body) || Array.isArray(body.events)) {
+      const events = Array.isArray(body) ? body : (body.events as unknown[]);
+      return await handleBatch(serviceClient, userId, matchingMethod, events, nowIso);
     }
 
-    const timestamp = normalizeTimestamp(body.timestamp);
-    const platform = (body.platform as string) || "TradingView";
-    const isSimulation = Boolean(body.is_simulation || body.isSimulation);
-
-    // Log every event
-    await logEvent(
-      serviceClient,
-      userId,
-      eventType,
-      {
-        symbol,
-        side,
-        price,
-        quantity,
-        quantityLots,
-        platform,
-        timestamp,
-        isSimulation,
-        raw: body,
-      },
-      nowIso,
-    );
-
-    // Route to appropriate handler
-    switch (eventType) {
-      case "TRADE_ENTRY": {
-        if (!symbol || !side || price === null || quantity === null) {
-          return errorResponse("invalid_request", "TRADE_ENTRY requires symbol, side, price, and quantity", 400);
-        }
-
-        return await handleTradeEntry(
-          serviceClient,
-          userId,
-          {
-            symbol,
-            side,
-            price,
-            quantity,
-            quantityLots: quantityLots || quantity,
-            platform,
-            timestamp,
-            isSimulation,
-          },
-          nowIso,
-        );
-      }
-
-      case "TRADE_EXIT": {
-        if (!symbol || price === null || quantity === null) {
-          return errorResponse("invalid_request", "TRADE_EXIT requires symbol, price, and quantity", 400);
-        }
-
-        return await handleTradeExit(
-          serviceClient,
-          userId,
-          {
-            symbol,
-            price,
-            quantity,
-            quantityLots: quantityLots || quantity,
-            platform,
-            timestamp,
-            isSimulation,
-          },
-          nowIso,
-        );
-      }
-
-      case "USER_ACTIVITY": {
-        const activityData = (body.data as Record<string, unknown>) || body;
-        const activityPlatform = (activityData.platform as string) || platform;
-        const isActive = activityData.is_active !== undefined ? Boolean(activityData.is_active) : true;
-        const activityTimestamp = normalizeTimestamp(activityData.timestamp || body.timestamp);
-
-        return await handleUserActivity(serviceClient, userId, {
-          platform: activityPlatform,
-          isActive,
-          timestamp: activityTimestamp,
-        });
-      }
-
-      default: {
-        console.log("Unknown event type:", eventType);
-        return errorResponse("unknown_event_type", `Unknown event type: ${eventType}`, 400);
-      }
-    }
+    return await processEvent(serviceClient, userId, matchingMethod, body, nowIso);
   } catch (error) {
     console.error("Unhandled error:", error);
     return errorResponse("server_error", error instanceof Error ? error.message : "Unknown error", 500);
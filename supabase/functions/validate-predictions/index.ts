@@ -1,4 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.86.2";
+import { enforceRateLimit, rateLimitSubject } from "../_shared/rateLimit.ts";
+import { type BarResolution, MINUTE_BARS, pricePath } from "../_shared/pricePath.ts";
+import { polygonTicker } from "../_shared/symbols.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,9 +16,49 @@ interface Prediction {
   current_price: number;
   target_price: number;
   expiry_timestamp: string;
+  created_at: string;
+  timeframe_code: string | null;
+  last_price_check: string | null;
   status: string;
 }
 
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Mirrors the timeframe options in src/components/predictions/TimeframePills.tsx
+const TIMEFRAME_MS: Record<string, number> = {
+  "1h": HOUR_MS,
+  "4h": 4 * HOUR_MS,
+  "1d": DAY_MS,
+  "1w": 7 * DAY_MS,
+  "1m": 30 * DAY_MS,
+};
+
+// Bar size for predictions up to each length, finest first, so a whole
+// prediction fits in a few hundred bars
+const RESOLUTIONS: Array<{ upTo: number; resolution: BarResolution }> = [
+  { upTo: HOUR_MS, resolution: MINUTE_BARS },
+  { upTo: 4 * HOUR_MS, resolution: { multiplier: 5, timespan: "minute", ms: 5 * MINUTE_MS } },
+  { upTo: DAY_MS, resolution: { multiplier: 15, timespan: "minute", ms: 15 * MINUTE_MS } },
+  { upTo: 7 * DAY_MS, resolution: { multiplier: 1, timespan: "hour", ms: HOUR_MS } },
+  { upTo: 31 * DAY_MS, resolution: { multiplier: 4, timespan: "hour", ms: 4 * HOUR_MS } },
+  { upTo: Infinity, resolution: { multiplier: 1, timespan: "day", ms: DAY_MS } },
+];
+
+// Polygon's delayed plans publish bars about 15 minutes late. An expired
+// prediction waits this long for bars up to its expiry before it is missed,
+// then is missed anyway, since a quiet market may never print them.
+const EXPIRY_GRACE_MS = 30 * MINUTE_MS;
+
+function barResolution(prediction: Prediction): BarResolution {
+  // Custom timeframes go by their actual length
+  const length =
+    TIMEFRAME_MS[prediction.timeframe_code ?? ""] ??
+    new Date(prediction.expiry_timestamp).getTime() - new Date(prediction.created_at).getTime();
+  return RESOLUTIONS.find((r) => length <= r.upTo)!.resolution;
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -28,6 +71,10 @@ Deno.serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Normally run by cron; anyone else calling it is throttled by IP
+    const limited = await enforceRateLimit(supabase, "validate-predictions", await rateLimitSubject(req), corsHeaders);
+    if (limited) return limited;
+
     // Fetch active predictions that haven't expired
     const now = new Date().toISOString();
     const { data: predictions, error: fetchError } = await supabase
@@ -50,17 +97,17 @@ Deno.serve(async (req) => {
       errors: 0,
     };
 
-    for (const prediction of predictions || []) {
+    for (const prediction of (predictions || []) as Prediction[]) {
       try {
         const expiryTime = new Date(prediction.expiry_timestamp).getTime();
         const nowTime = Date.now();
+        const expired = nowTime >= expiryTime;
 
-        // Check if prediction has expired
-        if (nowTime >= expiryTime) {
-          // Mark as missed (expired predictions that didn't hit are missed)
+        const markMissed = async (fields: Record<string, unknown> = {}) => {
           await supabase
             .from("predictions")
             .update({
+              ...fields,
               status: "missed",
               resolved_at: now,
             })
@@ -68,61 +115,73 @@ Deno.serve(async (req) => {
 
           results.expired++;
           console.log(`Prediction ${prediction.id} MISSED (expired without hitting target)`);
-          continue;
-        }
+        };
 
-        // Fetch current price from Polygon
         if (!polygonApiKey) {
           console.log("No Polygon API key configured, skipping price check");
+          if (expired) await markMissed();
+          continue;
+        }
+
+        const ticker = polygonTicker(prediction.asset, prediction.asset_type);
+        if (!ticker) {
+          console.log(`No Polygon ticker for ${prediction.asset} (${prediction.asset_type}), skipping`);
+          if (expired) await markMissed();
           continue;
         }
 
-        const ticker = formatPolygonTicker(prediction.asset, prediction.asset_type);
-        const priceData = await fetchCurrentPrice(ticker, polygonApiKey);
+        // Walk the price path since the last check, up to expiry
+        const windowStart = new Date(prediction.last_price_check ?? prediction.created_at).getTime();
+        const windowEnd = Math.min(nowTime, expiryTime);
+        const path = await pricePath(ticker, barResolution(prediction), windowStart, windowEnd, expired, polygonApiKey);
 
-        if (!priceData) {
-          console.log(`Could not fetch price for ${prediction.asset}`);
+        if (!path) {
+          console.log(`Could not fetch bars for ${prediction.asset}`);
           continue;
         }
 
-        const currentPrice = priceData.price;
-        const entryPrice = prediction.current_price;
         const targetPrice = prediction.target_price;
-        const direction = prediction.direction;
-
-        // Update last checked price
-        await supabase
-          .from("predictions")
-          .update({
-            last_price_check: now,
-            last_checked_price: currentPrice,
-          })
-          .eq("id", prediction.id);
-
-        // Check if target is hit
-        let isHit = false;
-
-        if (direction === "long") {
-          // For long: price touches or exceeds target
-          isHit = currentPrice >= targetPrice;
-        } else {
-          // For short: price touches or goes below target
-          isHit = currentPrice <= targetPrice;
-        }
+        const hitBar = path.bars.find((bar) =>
+          prediction.direction === "long" ? bar.h >= targetPrice : bar.l <= targetPrice
+        );
+
+        const lastBar = path.bars[path.bars.length - 1];
+        const progress = lastBar
+          ? {
+              last_price_check: new Date(path.reachedAt).toISOString(),
+              last_checked_price: lastBar.c,
+            }
+          : {};
+
+        // Missed only once the path reaches expiry (no whole minute bar is
+        // left before it) or the grace for late bars has run out
+        const settled = path.reachedAt + MINUTE_MS > expiryTime || nowTime >= expiryTime + EXPIRY_GRACE_MS;
+
+        if (hitBar) {
+          // A bar that opens through the target (a gap) fills at its open
+          const gapped = prediction.direction === "long" ? hitBar.o >= targetPrice : hitBar.o <= targetPrice;
+          const resolvedPrice = gapped ? hitBar.o : targetPrice;
+          const hitTimestamp = new Date(hitBar.t).toISOString();
 
-        if (isHit) {
           await supabase
             .from("predictions")
             .update({
+              ...progress,
               status: "hit",
               resolved_at: now,
-              resolved_price: currentPrice,
-              hit_timestamp: now,
+              resolved_price: resolvedPrice,
+              hit_timestamp: hitTimestamp,
             })
             .eq("id", prediction.id);
 
           results.hit++;
-          console.log(`Prediction ${prediction.id} HIT at ${currentPrice}`);
+          console.log(
+            `Prediction ${prediction.id} HIT at ${resolvedPrice} (bar at ${hitTimestamp})`
+          );
+        } else if (expired && settled) {
+          await markMissed(progress);
+        } else if (lastBar) {
+          await supabase.from("predictions").update(progress).eq("id", prediction.id);
         }
 
         results.checked++;
@@ -149,47 +208,3 @@ Deno.serve(async (req) => {
     );
   }
 });
-
-function formatPolygonTicker(symbol: string, assetType: string): string {
-  const cleanSymbol = symbol.toUpperCase().replace(/[^A-Z0-9]/g, "");
-
-  switch (assetType) {
-    case "crypto":
-      return `X:${cleanSymbol}USD`;
-    case "forex":
-      const forexClean = symbol.replace("/", "");
-      return `C:${forexClean}`;
-    case "commodity":
-      if (cleanSymbol === "GOLD") return "C:XAUUSD";
-      return cleanSymbol;
-    default:
-      return cleanSymbol;
-  }
-}
-
-async function fetchCurrentPrice(
-  ticker: string,
-  apiKey: string
-): Promise<{ price: number } | null> {
-  try {
-    // Use previous close endpoint for simplicity
-    const url = `https://api.polygon.io/v2/aggs/ticker/${ticker}/prev?apiKey=${apiKey}`;
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      console.error(`Polygon API error for ${ticker}: ${response.status}`);
-      return null;
-    }
-
-    const data = await response.json();
-
-    if (data.results && data.results.length > 0) {
-      return { price: data.results[0].c }; // Close price
-    }
-
-    return null;
-  } catch (error) {
-    console.error(`Error fetching price for ${ticker}:`, error);
-    return null;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- Idempotent event ingestion: trade_log doubles as the dedupe ledger
+ALTER TABLE public.trade_log ADD COLUMN IF NOT EXISTS event_id text;
+ALTER TABLE public.trade_log ADD COLUMN IF NOT EXISTS result jsonb;
+ALTER TABLE public.trade_log ADD COLUMN IF NOT EXISTS processed_at timestamptz;
+
+-- One row per client event ID (or derived fingerprint) per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trade_log_user_event_id
+ON public.trade_log (user_id, event_id)
+WHERE event_id IS NOT NULL;
@@ -0,0 +1,49 @@
+-- Optional HMAC-SHA256 request signing for the receive-trade webhook
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS signing_secret text,
+ADD COLUMN IF NOT EXISTS require_signed_requests boolean NOT NULL DEFAULT false;
+
+-- Ledger of accepted signatures for replay protection
+CREATE TABLE public.webhook_signatures (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  signature text NOT NULL UNIQUE,
+  signed_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.webhook_signatures ENABLE ROW LEVEL SECURITY;
+
+-- Only the edge function (service role) reads or writes the ledger
+CREATE POLICY "Service role full access"
+ON public.webhook_signatures
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_webhook_signatures_user_signed_at ON public.webhook_signatures(user_id, signed_at);
+
+-- Create function to regenerate the signing secret for a user
+CREATE OR REPLACE FUNCTION public.regenerate_signing_secret(target_user_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_secret text;
+BEGIN
+  IF auth.uid() != target_user_id THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  new_secret := 'whsec_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  UPDATE public.profiles
+  SET signing_secret = new_secret, updated_at = now()
+  WHERE user_id = target_user_id;
+
+  RETURN new_secret;
+END;
+$$;
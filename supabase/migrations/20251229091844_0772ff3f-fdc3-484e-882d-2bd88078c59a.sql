@@ -0,0 +1,34 @@
+-- Planned stop-loss / take-profit on positions (initial = planned risk, latest = current order)
+ALTER TABLE public.positions ADD COLUMN IF NOT EXISTS initial_stop_loss numeric;
+ALTER TABLE public.positions ADD COLUMN IF NOT EXISTS stop_loss numeric;
+ALTER TABLE public.positions ADD COLUMN IF NOT EXISTS initial_take_profit numeric;
+ALTER TABLE public.positions ADD COLUMN IF NOT EXISTS take_profit numeric;
+
+-- History of stop/target changes from TRADE_ENTRY and TRADE_MODIFY events
+CREATE TABLE public.position_risk_history (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  position_id bigint NOT NULL REFERENCES public.positions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  stop_loss numeric,
+  take_profit numeric,
+  source text NOT NULL,
+  changed_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.position_risk_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own risk history"
+ON public.position_risk_history
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+ON public.position_risk_history
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_position_risk_history_position_id ON public.position_risk_history(position_id, changed_at);
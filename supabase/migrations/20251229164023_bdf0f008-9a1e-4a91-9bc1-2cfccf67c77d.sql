@@ -0,0 +1,4 @@
+-- Link each trade_log event to every position it closed or opened (e.g. both sides of a reversal)
+ALTER TABLE public.trade_log ADD COLUMN IF NOT EXISTS position_ids bigint[];
+
+CREATE INDEX IF NOT EXISTS idx_trade_log_position_ids ON public.trade_log USING gin (position_ids);
@@ -0,0 +1,28 @@
+-- Audit trail for admin position rebuilds (dry runs and applied rebuilds)
+CREATE TABLE public.position_rebuilds (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  admin_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  range_from timestamptz NOT NULL,
+  range_to timestamptz NOT NULL,
+  dry_run boolean NOT NULL DEFAULT true,
+  summary jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.position_rebuilds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view position rebuilds"
+ON public.position_rebuilds
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Service role full access"
+ON public.position_rebuilds
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_position_rebuilds_user_id ON public.position_rebuilds(user_id, created_at DESC);
@@ -0,0 +1,23 @@
+-- Lot-matching method used when closing positions (webhook and CSV order import)
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS position_matching_method text NOT NULL DEFAULT 'fifo'
+  CHECK (position_matching_method IN ('fifo', 'lifo', 'average'));
+
+-- Method that produced each position; NULL for manually entered positions
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS matching_method text
+  CHECK (matching_method IN ('fifo', 'lifo', 'average'));
+
+-- Webhook and CSV positions created before this setting existed were all FIFO-matched
+UPDATE public.positions
+SET matching_method = 'fifo'
+WHERE matching_method IS NULL
+  AND (
+    platform = 'CSV Import'
+    OR EXISTS (
+      SELECT 1 FROM public.trade_log t
+      WHERE t.user_id = positions.user_id
+        AND t.symbol = positions.symbol
+        AND t.event_type IN ('TRADE_ENTRY', 'TRADE_EXIT')
+    )
+  );
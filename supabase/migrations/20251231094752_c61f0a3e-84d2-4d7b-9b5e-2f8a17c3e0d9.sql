@@ -0,0 +1,92 @@
+-- Trading accounts: a user can trade several accounts (live, prop, demo) side by side
+CREATE TABLE public.trading_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  account_type text NOT NULL DEFAULT 'live' CHECK (account_type IN ('live', 'prop', 'demo')),
+  broker text,
+  -- Account number as reported by the broker/platform (webhook events, CSV account column)
+  external_account_id text,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, external_account_id)
+);
+
+-- At most one default account per user
+CREATE UNIQUE INDEX idx_trading_accounts_default ON public.trading_accounts(user_id) WHERE is_default;
+
+-- Enable RLS
+ALTER TABLE public.trading_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own trading accounts"
+ON public.trading_accounts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own trading accounts"
+ON public.trading_accounts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own trading accounts"
+ON public.trading_accounts
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own trading accounts"
+ON public.trading_accounts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+ON public.trading_accounts
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_trading_accounts_updated_at
+BEFORE UPDATE ON public.trading_accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Tag positions, events and exchange connections with their account
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.trading_accounts(id) ON DELETE SET NULL;
+ALTER TABLE public.trade_log
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.trading_accounts(id) ON DELETE SET NULL;
+ALTER TABLE public.exchange_connections
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.trading_accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_positions_account_id ON public.positions(account_id);
+CREATE INDEX IF NOT EXISTS idx_trade_log_account_id ON public.trade_log(account_id);
+
+-- Metrics: one row per account plus the all-accounts row (account_id NULL)
+ALTER TABLE public.user_trading_metrics
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.trading_accounts(id) ON DELETE CASCADE;
+ALTER TABLE public.user_trading_metrics DROP CONSTRAINT IF EXISTS user_trading_metrics_user_id_key;
+ALTER TABLE public.user_trading_metrics
+  ADD CONSTRAINT user_trading_metrics_user_account_key UNIQUE NULLS NOT DISTINCT (user_id, account_id);
+
+-- Backfill: every existing user with trading data gets a default "Main" account
+INSERT INTO public.trading_accounts (user_id, name, is_default)
+SELECT DISTINCT user_id, 'Main', true
+FROM (
+  SELECT user_id FROM public.positions
+  UNION SELECT user_id FROM public.trade_log
+  UNION SELECT user_id FROM public.exchange_connections
+) AS u
+WHERE user_id IS NOT NULL;
+
+UPDATE public.positions p SET account_id = a.id
+FROM public.trading_accounts a
+WHERE a.user_id = p.user_id AND a.is_default AND p.account_id IS NULL;
+
+UPDATE public.trade_log t SET account_id = a.id
+FROM public.trading_accounts a
+WHERE a.user_id = t.user_id AND a.is_default AND t.account_id IS NULL;
+
+UPDATE public.exchange_connections e SET account_id = a.id
+FROM public.trading_accounts a
+WHERE a.user_id = e.user_id AND a.is_default AND e.account_id IS NULL;
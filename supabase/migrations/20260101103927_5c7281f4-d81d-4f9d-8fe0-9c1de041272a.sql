@@ -0,0 +1,27 @@
+-- Trading costs attributed to each position.
+-- commission is always a cost; swap and funding are signed as brokers report
+-- them (negative = paid by the trader, positive = received).
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS commission numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS swap numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS funding numeric NOT NULL DEFAULT 0;
+
+-- Anything recorded in fees_total so far was a commission
+UPDATE public.positions
+SET commission = fees_total
+WHERE fees_total IS NOT NULL AND fees_total <> 0;
+
+UPDATE public.positions SET fees_total = 0 WHERE fees_total IS NULL;
+
+ALTER TABLE public.positions
+  ALTER COLUMN fees_total SET NOT NULL;
+
+COMMENT ON COLUMN public.positions.fees_total IS
+  'Net trading cost: commission - swap - funding. pnl is gross; net_pnl = pnl - fees_total.';
+
+-- Net PnL after commissions, swaps and funding; NULL while the position is open
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS net_pnl numeric GENERATED ALWAYS AS (pnl - fees_total) STORED;
+
+-- CSV imports used to store net PnL in pnl with no commission breakdown. Their
+-- fees_total is 0, so net_pnl equals pnl and nothing is double-counted.
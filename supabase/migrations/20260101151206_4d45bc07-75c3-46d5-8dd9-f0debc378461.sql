@@ -0,0 +1,23 @@
+-- Currency PnL is reported in. Accounts without their own currency use the profile's.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS base_currency text NOT NULL DEFAULT 'USD'
+  CHECK (base_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.trading_accounts
+  ADD COLUMN IF NOT EXISTS base_currency text
+  CHECK (base_currency ~ '^[A-Z]{3}$');
+
+-- pnl is in account_currency. pnl_native is the same PnL in the instrument's
+-- quote currency (pnl_currency), converted at fx_rate as of the exit timestamp.
+-- fx_rate is NULL when no rate was available; pnl is then left unconverted
+-- and account_currency equals pnl_currency.
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS pnl_native numeric,
+  ADD COLUMN IF NOT EXISTS pnl_currency text,
+  ADD COLUMN IF NOT EXISTS account_currency text,
+  ADD COLUMN IF NOT EXISTS fx_rate numeric;
+
+-- Existing closed positions were never converted
+UPDATE public.positions
+SET pnl_native = pnl
+WHERE pnl IS NOT NULL AND pnl_native IS NULL;
@@ -0,0 +1,104 @@
+-- Instrument contract specifications. Symbols matching a row use its specs for
+-- asset class, tick sizing, PnL multiplier, quote currency and volatility;
+-- anything unmatched falls back to the built-in symbol heuristics.
+CREATE TABLE public.instruments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  symbol text NOT NULL UNIQUE,
+  description text,
+  -- Regex tested against the upper-case symbol with any exchange prefix removed
+  pattern text NOT NULL,
+  -- Higher priority wins when several patterns match
+  priority integer NOT NULL DEFAULT 0,
+  asset_class text NOT NULL
+    CHECK (asset_class IN ('forex', 'crypto', 'stock', 'index', 'metal', 'commodity', 'futures')),
+  tick_size numeric NOT NULL CHECK (tick_size > 0),
+  -- Value of one tick for one contract, in quote_currency
+  tick_value numeric NOT NULL CHECK (tick_value > 0),
+  -- PnL per contract = price move * contract_multiplier
+  contract_multiplier numeric NOT NULL DEFAULT 1 CHECK (contract_multiplier > 0),
+  pip_size numeric CHECK (pip_size > 0),
+  quote_currency text NOT NULL DEFAULT 'USD' CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  -- Typical daily move as a fraction of price, used for risk estimates
+  daily_volatility numeric CHECK (daily_volatility > 0),
+  -- {"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}
+  -- days are the weekdays (0 = Sunday) a session opens; close before open means it ends the next day
+  trading_hours jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.instruments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view instruments"
+ON public.instruments
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can create instruments"
+ON public.instruments
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update instruments"
+ON public.instruments
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete instruments"
+ON public.instruments
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Service role full access"
+ON public.instruments
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_instruments_updated_at
+BEFORE UPDATE ON public.instruments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Common futures. The pattern matches the root alone, with a contract month
+-- (ESZ4, ESH2025) or as a continuous contract (ES1!).
+INSERT INTO public.instruments
+  (symbol, description, pattern, asset_class, tick_size, tick_value, contract_multiplier, pip_size, quote_currency, daily_volatility, trading_hours)
+SELECT
+  symbol,
+  description,
+  '^' || symbol || '([FGHJKMNQUVXZ][0-9]{1,4}|[0-9]!)?$',
+  'futures',
+  tick_size,
+  tick_value,
+  contract_multiplier,
+  pip_size,
+  quote_currency,
+  daily_volatility,
+  trading_hours::jsonb
+FROM (VALUES
+  ('ES',   'E-mini S&P 500',          0.25,      12.5,    50,       NULL::numeric, 'USD', 0.012, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('MES',  'Micro E-mini S&P 500',    0.25,      1.25,    5,        NULL,          'USD', 0.012, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('NQ',   'E-mini Nasdaq-100',       0.25,      5,       20,       NULL,          'USD', 0.015, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('MNQ',  'Micro E-mini Nasdaq-100', 0.25,      0.5,     2,        NULL,          'USD', 0.015, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('YM',   'E-mini Dow',              1,         5,       5,        NULL,          'USD', 0.011, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('MYM',  'Micro E-mini Dow',        1,         0.5,     0.5,      NULL,          'USD', 0.011, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('RTY',  'E-mini Russell 2000',     0.1,       5,       50,       NULL,          'USD', 0.016, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('M2K',  'Micro E-mini Russell 2000', 0.1,     0.5,     5,        NULL,          'USD', 0.016, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('CL',   'Crude Oil',               0.01,      10,      1000,     NULL,          'USD', 0.025, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('MCL',  'Micro Crude Oil',         0.01,      1,       100,      NULL,          'USD', 0.025, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('NG',   'Natural Gas',             0.001,     10,      10000,    NULL,          'USD', 0.04,  '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('GC',   'Gold',                    0.1,       10,      100,      NULL,          'USD', 0.012, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('MGC',  'Micro Gold',              0.1,       1,       10,       NULL,          'USD', 0.012, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('SI',   'Silver',                  0.005,     25,      5000,     NULL,          'USD', 0.02,  '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('HG',   'Copper',                  0.0005,    12.5,    25000,    NULL,          'USD', 0.015, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('ZB',   '30-Year T-Bond',          0.03125,   31.25,   1000,     NULL,          'USD', 0.008, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('ZN',   '10-Year T-Note',          0.015625,  15.625,  1000,     NULL,          'USD', 0.005, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('6E',   'Euro FX',                 0.00005,   6.25,    125000,   0.0001,        'USD', 0.006, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('6B',   'British Pound',           0.0001,    6.25,    62500,    0.0001,        'USD', 0.006, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('6J',   'Japanese Yen',            0.0000005, 6.25,    12500000, 0.000001,      'USD', 0.007, '{"timezone": "America/Chicago", "days": [0, 1, 2, 3, 4], "open": "17:00", "close": "16:00"}'),
+  ('FESX', 'Euro Stoxx 50',           1,         10,      10,       NULL,          'EUR', 0.013, '{"timezone": "Europe/Berlin", "days": [1, 2, 3, 4, 5], "open": "01:10", "close": "22:00"}')
+) AS seed(symbol, description, tick_size, tick_value, contract_multiplier, pip_size, quote_currency, daily_volatility, trading_hours);
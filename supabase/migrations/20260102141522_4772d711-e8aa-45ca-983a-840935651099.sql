@@ -0,0 +1,154 @@
+-- Request budgets per edge function. Each caller (API key, user or IP) may
+-- make max_requests calls per fixed window of window_seconds.
+CREATE TABLE public.rate_limit_budgets (
+  function_name text PRIMARY KEY,
+  max_requests integer NOT NULL CHECK (max_requests > 0),
+  window_seconds integer NOT NULL CHECK (window_seconds > 0),
+  enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.rate_limit_budgets (function_name, max_requests, window_seconds) VALUES
+  ('receive-trade', 120, 60),
+  ('market-data', 60, 60),
+  ('exchange-connect', 10, 60),
+  ('calculate-trade-metrics', 10, 60),
+  ('rebuild-positions', 10, 60),
+  ('validate-predictions', 6, 60);
+
+-- Request counts per caller and window. Only written through check_rate_limit.
+CREATE TABLE public.rate_limit_counters (
+  function_name text NOT NULL,
+  subject text NOT NULL,
+  window_start timestamptz NOT NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (function_name, subject, window_start)
+);
+
+-- Rejected requests, one row per caller and window, for the admin view.
+-- API keys are stored as a hash; user_id is set when the caller is known.
+CREATE TABLE public.rate_limit_hits (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  function_name text NOT NULL,
+  subject text NOT NULL,
+  subject_type text NOT NULL CHECK (subject_type IN ('api_key', 'user', 'ip')),
+  user_id uuid,
+  ip text,
+  window_start timestamptz NOT NULL,
+  rejected_count integer NOT NULL DEFAULT 1,
+  first_hit_at timestamptz NOT NULL DEFAULT now(),
+  last_hit_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (function_name, subject, window_start)
+);
+
+CREATE INDEX idx_rate_limit_hits_last_hit ON public.rate_limit_hits(last_hit_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.rate_limit_budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view rate limit budgets"
+ON public.rate_limit_budgets
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update rate limit budgets"
+ON public.rate_limit_budgets
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view rate limit hits"
+ON public.rate_limit_hits
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Service role full access"
+ON public.rate_limit_budgets
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role full access"
+ON public.rate_limit_counters
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role full access"
+ON public.rate_limit_hits
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_rate_limit_budgets_updated_at
+BEFORE UPDATE ON public.rate_limit_budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Count one request against the caller's budget for a function. Rejections
+-- are recorded in rate_limit_hits. Functions without an enabled budget are
+-- unlimited (request_limit is NULL).
+CREATE OR REPLACE FUNCTION public.check_rate_limit(
+  _function_name text,
+  _subject text,
+  _subject_type text,
+  _user_id uuid DEFAULT NULL,
+  _ip text DEFAULT NULL
+)
+RETURNS TABLE (allowed boolean, request_limit integer, remaining integer, retry_after integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _budget public.rate_limit_budgets%ROWTYPE;
+  _window_start timestamptz;
+  _count integer;
+BEGIN
+  SELECT * INTO _budget
+  FROM public.rate_limit_budgets
+  WHERE function_name = _function_name AND enabled;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT true, NULL::integer, NULL::integer, 0;
+    RETURN;
+  END IF;
+
+  _window_start := to_timestamp(floor(extract(epoch FROM now()) / _budget.window_seconds) * _budget.window_seconds);
+
+  INSERT INTO public.rate_limit_counters AS c (function_name, subject, window_start, request_count)
+  VALUES (_function_name, _subject, _window_start, 1)
+  ON CONFLICT (function_name, subject, window_start)
+  DO UPDATE SET request_count = c.request_count + 1
+  RETURNING c.request_count INTO _count;
+
+  -- Expired windows are only needed briefly; prune them now and then
+  IF random() < 0.01 THEN
+    DELETE FROM public.rate_limit_counters WHERE window_start < now() - interval '1 day';
+  END IF;
+
+  IF _count <= _budget.max_requests THEN
+    RETURN QUERY SELECT true, _budget.max_requests, _budget.max_requests - _count, 0;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.rate_limit_hits AS h (function_name, subject, subject_type, user_id, ip, window_start)
+  VALUES (_function_name, _subject, _subject_type, _user_id, _ip, _window_start)
+  ON CONFLICT (function_name, subject, window_start)
+  DO UPDATE SET rejected_count = h.rejected_count + 1, last_hit_at = now();
+
+  RETURN QUERY SELECT
+    false,
+    _budget.max_requests,
+    0,
+    GREATEST(1, ceil(extract(epoch FROM (_window_start + make_interval(secs => _budget.window_seconds) - now()))))::integer;
+END;
+$$;
+
+-- Edge functions call this with the service role; clients must not be able to
+-- burn other callers' budgets
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(text, text, text, uuid, text) FROM PUBLIC, anon, authenticated;
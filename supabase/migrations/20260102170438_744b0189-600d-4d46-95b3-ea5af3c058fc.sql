@@ -0,0 +1,59 @@
+-- Trade events receive-trade could not apply (validation errors, no open
+-- position to close, server errors), kept so the user can fix and resubmit or
+-- discard them. One row per event_id; a repeat failure bumps attempts.
+CREATE TABLE public.trade_dead_letters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id uuid REFERENCES public.trading_accounts(id) ON DELETE SET NULL,
+  trade_log_id bigint REFERENCES public.trade_log(id) ON DELETE SET NULL,
+  event_type text,
+  event_id text,
+  -- Event body as submitted (or as last edited and resubmitted)
+  payload jsonb NOT NULL,
+  -- status/reason/HTTP code of the last failed attempt
+  error_status text NOT NULL,
+  error_reason text NOT NULL,
+  http_status integer NOT NULL,
+  attempts integer NOT NULL DEFAULT 1,
+  -- resolved: a later attempt applied the event
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved', 'discarded')),
+  last_failed_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, event_id)
+);
+
+CREATE INDEX idx_trade_dead_letters_pending ON public.trade_dead_letters(user_id, last_failed_at DESC)
+WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE public.trade_dead_letters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own dead letters"
+ON public.trade_dead_letters
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own dead letters"
+ON public.trade_dead_letters
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own dead letters"
+ON public.trade_dead_letters
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+ON public.trade_dead_letters
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_trade_dead_letters_updated_at
+BEFORE UPDATE ON public.trade_dead_letters
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,9 @@
+-- Broker-assigned position identifier (MT5 position ID, MT4 ticket, cTrader
+-- position ID). Events carrying one close and modify exactly that position
+-- instead of being matched by FIFO/LIFO.
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS broker_position_id text;
+
+CREATE INDEX IF NOT EXISTS idx_positions_broker_position_id
+ON public.positions (user_id, account_id, broker_position_id)
+WHERE broker_position_id IS NOT NULL;
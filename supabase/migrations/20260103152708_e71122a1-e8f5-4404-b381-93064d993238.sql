@@ -0,0 +1,164 @@
+-- Named, scoped API keys. A user can hold several keys (one per device or
+-- integration) and revoke them individually. Only a SHA-256 hash of each key
+-- is stored; the plaintext is returned once, when the key is created.
+CREATE TABLE public.api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  key_hash text NOT NULL UNIQUE,
+  -- Leading characters of the key, shown so users can tell keys apart
+  key_prefix text NOT NULL,
+  scopes text[] NOT NULL DEFAULT ARRAY['trades:write']
+    CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['trades:write', 'metrics:read', 'predictions:read']),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  last_used_at timestamptz,
+  last_used_ip text,
+  request_count bigint NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_api_keys_user_id ON public.api_keys(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API keys"
+ON public.api_keys
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Renaming and revoking happen from the app; keys are created through create_api_key
+CREATE POLICY "Users can update their own API keys"
+ON public.api_keys
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+ON public.api_keys
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Hex SHA-256 of a key, matching what the edge functions compute
+CREATE OR REPLACE FUNCTION public.hash_api_key(raw_key text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(extensions.digest(raw_key, 'sha256'), 'hex')
+$$;
+
+-- Create a named key and return its plaintext. This is the only time the
+-- plaintext is available.
+CREATE OR REPLACE FUNCTION public.create_api_key(
+  target_user_id uuid,
+  key_name text,
+  key_scopes text[] DEFAULT ARRAY['trades:write'],
+  key_expires_at timestamptz DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_key text;
+BEGIN
+  IF auth.uid() != target_user_id THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF key_expires_at IS NOT NULL AND key_expires_at <= now() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  new_key := public.generate_api_key();
+
+  INSERT INTO public.api_keys (user_id, name, key_hash, key_prefix, scopes, expires_at)
+  VALUES (target_user_id, trim(key_name), public.hash_api_key(new_key), left(new_key, 11), key_scopes, key_expires_at);
+
+  RETURN new_key;
+END;
+$$;
+
+-- Count one authenticated request against a key. Called by edge functions
+-- with the service role.
+CREATE OR REPLACE FUNCTION public.record_api_key_use(_key_id uuid, _ip text DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.api_keys
+  SET request_count = request_count + 1,
+      last_used_at = now(),
+      last_used_ip = COALESCE(_ip, last_used_ip)
+  WHERE id = _key_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_api_key_use(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- The Chrome extension still reads profiles.api_key, so that key is mirrored
+-- into api_keys. Regenerating it swaps the hash on the same row, keeping its
+-- name and usage history; a revoked extension key becomes active again.
+CREATE OR REPLACE FUNCTION public.sync_profile_api_key()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.api_key IS NOT NULL THEN
+    IF NEW.api_key IS NULL THEN
+      UPDATE public.api_keys
+      SET revoked_at = COALESCE(revoked_at, now())
+      WHERE key_hash = public.hash_api_key(OLD.api_key);
+      RETURN NEW;
+    END IF;
+
+    UPDATE public.api_keys
+    SET key_hash = public.hash_api_key(NEW.api_key),
+        key_prefix = left(NEW.api_key, 11),
+        revoked_at = NULL
+    WHERE key_hash = public.hash_api_key(OLD.api_key);
+
+    IF FOUND THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF NEW.api_key IS NOT NULL THEN
+    INSERT INTO public.api_keys (user_id, name, key_hash, key_prefix, scopes)
+    VALUES (
+      NEW.user_id,
+      'Chrome extension',
+      public.hash_api_key(NEW.api_key),
+      left(NEW.api_key, 11),
+      ARRAY['trades:write', 'metrics:read', 'predictions:read']
+    )
+    ON CONFLICT (key_hash) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profile_api_key
+AFTER INSERT OR UPDATE OF api_key ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_profile_api_key();
+
+-- Existing keys keep working with every scope
+INSERT INTO public.api_keys (user_id, name, key_hash, key_prefix, scopes)
+SELECT
+  user_id,
+  'Chrome extension',
+  public.hash_api_key(api_key),
+  left(api_key, 11),
+  ARRAY['trades:write', 'metrics:read', 'predictions:read']
+FROM public.profiles
+WHERE api_key IS NOT NULL
+ON CONFLICT (key_hash) DO NOTHING;
@@ -0,0 +1,8 @@
+-- How a position's estimated_risk was derived: 'stop' from the distance to its
+-- initial stop loss, 'volatility' from notional times typical daily volatility
+ALTER TABLE public.positions
+ADD COLUMN IF NOT EXISTS risk_method text CHECK (risk_method IN ('stop', 'volatility'));
+
+-- Share of trades whose R-multiple comes from a real stop (0-100)
+ALTER TABLE public.user_trading_metrics
+ADD COLUMN IF NOT EXISTS stop_based_percentage numeric;
@@ -0,0 +1,7 @@
+-- Volatility-based risk now prefers a 14-day ATR from price_cache; 'volatility'
+-- remains for positions that fell back to the static table
+ALTER TABLE public.positions
+DROP CONSTRAINT IF EXISTS positions_risk_method_check;
+
+ALTER TABLE public.positions
+ADD CONSTRAINT positions_risk_method_check CHECK (risk_method IN ('stop', 'atr', 'volatility'));
@@ -0,0 +1,16 @@
+-- Extended performance statistics, recomputed with the rest of the row.
+-- Ratios use R-multiples; expectancy and drawdown are in account currency.
+ALTER TABLE public.user_trading_metrics
+ADD COLUMN IF NOT EXISTS profit_factor numeric,
+ADD COLUMN IF NOT EXISTS expectancy numeric,
+ADD COLUMN IF NOT EXISTS sharpe_ratio numeric,
+ADD COLUMN IF NOT EXISTS sortino_ratio numeric,
+ADD COLUMN IF NOT EXISTS daily_sharpe_ratio numeric,
+ADD COLUMN IF NOT EXISTS daily_sortino_ratio numeric,
+ADD COLUMN IF NOT EXISTS max_drawdown numeric,
+ADD COLUMN IF NOT EXISTS max_drawdown_pct numeric,
+ADD COLUMN IF NOT EXISTS max_drawdown_start_at timestamp with time zone,
+ADD COLUMN IF NOT EXISTS max_drawdown_end_at timestamp with time zone,
+ADD COLUMN IF NOT EXISTS recovery_factor numeric,
+ADD COLUMN IF NOT EXISTS avg_win_loss_ratio numeric,
+ADD COLUMN IF NOT EXISTS max_consecutive_losses integer NOT NULL DEFAULT 0;
@@ -0,0 +1,52 @@
+-- Running totals behind user_trading_metrics, so a closed position updates the
+-- metrics without re-reading the user's whole history. One row for all
+-- accounts (account_id NULL) plus one per account. The totals document is
+-- owned by the edge functions; version guards concurrent updates.
+CREATE TABLE public.user_trading_metric_totals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  account_id uuid REFERENCES public.trading_accounts(id) ON DELETE CASCADE,
+  totals jsonb NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  -- Set when counted positions are deleted; the next update re-aggregates
+  stale boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT user_trading_metric_totals_user_account_key UNIQUE NULLS NOT DISTINCT (user_id, account_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.user_trading_metric_totals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access"
+ON public.user_trading_metric_totals
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Deleting positions cannot be subtracted from running totals
+CREATE OR REPLACE FUNCTION public.flag_metric_totals_stale()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.user_trading_metric_totals
+  SET stale = true
+  WHERE user_id IN (SELECT DISTINCT user_id FROM deleted_positions);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER flag_metric_totals_stale_on_delete
+AFTER DELETE ON public.positions
+REFERENCING OLD TABLE AS deleted_positions
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.flag_metric_totals_stale();
+
+-- Closed positions waiting to be scored and counted
+CREATE INDEX IF NOT EXISTS idx_positions_metrics_pending
+ON public.positions(user_id)
+WHERE open = false AND metrics_calculated_at IS NULL;
@@ -0,0 +1,108 @@
+-- Cumulative net PnL in account currency, for equity curves
+ALTER TABLE public.user_trading_metrics
+ADD COLUMN IF NOT EXISTS total_net_pnl numeric;
+
+-- End-of-day copies of user_trading_metrics, one per user, account (NULL for
+-- all accounts) and day. Edge functions write today's row whenever metrics
+-- change and backfill past days when they rebuild; the nightly job below
+-- carries the latest values forward through days without trades.
+CREATE TABLE public.user_trading_metric_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  account_id uuid REFERENCES public.trading_accounts(id) ON DELETE CASCADE,
+  snapshot_date date NOT NULL,
+  total_verified_trades integer NOT NULL DEFAULT 0,
+  total_wins integer NOT NULL DEFAULT 0,
+  total_losses integer NOT NULL DEFAULT 0,
+  total_breakeven integer NOT NULL DEFAULT 0,
+  win_rate numeric,
+  average_r numeric,
+  total_r numeric,
+  positive_r_percentage numeric,
+  r_variance numeric,
+  stop_based_percentage numeric,
+  accuracy_score numeric,
+  is_verified boolean NOT NULL DEFAULT false,
+  total_net_pnl numeric,
+  profit_factor numeric,
+  expectancy numeric,
+  sharpe_ratio numeric,
+  sortino_ratio numeric,
+  daily_sharpe_ratio numeric,
+  daily_sortino_ratio numeric,
+  max_drawdown numeric,
+  max_drawdown_pct numeric,
+  max_drawdown_start_at timestamptz,
+  max_drawdown_end_at timestamptz,
+  recovery_factor numeric,
+  avg_win_loss_ratio numeric,
+  max_consecutive_losses integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT user_trading_metric_snapshots_user_account_date_key
+    UNIQUE NULLS NOT DISTINCT (user_id, account_id, snapshot_date)
+);
+
+CREATE INDEX idx_user_trading_metric_snapshots_user_date
+ON public.user_trading_metric_snapshots(user_id, snapshot_date DESC);
+
+-- Enable RLS
+ALTER TABLE public.user_trading_metric_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own metric snapshots"
+ON public.user_trading_metric_snapshots
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role full access"
+ON public.user_trading_metric_snapshots
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Copy every metrics row into a snapshot for the given day, keeping any
+-- snapshot already written for it
+CREATE OR REPLACE FUNCTION public.snapshot_trading_metrics(_snapshot_date date DEFAULT current_date)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inserted integer;
+BEGIN
+  INSERT INTO public.user_trading_metric_snapshots (
+    user_id, account_id, snapshot_date,
+    total_verified_trades, total_wins, total_losses, total_breakeven,
+    win_rate, average_r, total_r, positive_r_percentage, r_variance,
+    stop_based_percentage, accuracy_score, is_verified, total_net_pnl,
+    profit_factor, expectancy, sharpe_ratio, sortino_ratio,
+    daily_sharpe_ratio, daily_sortino_ratio, max_drawdown, max_drawdown_pct,
+    max_drawdown_start_at, max_drawdown_end_at, recovery_factor,
+    avg_win_loss_ratio, max_consecutive_losses
+  )
+  SELECT
+    user_id, account_id, _snapshot_date,
+    total_verified_trades, total_wins, total_losses, total_breakeven,
+    win_rate, average_r, total_r, positive_r_percentage, r_variance,
+    stop_based_percentage, accuracy_score, is_verified, total_net_pnl,
+    profit_factor, expectancy, sharpe_ratio, sortino_ratio,
+    daily_sharpe_ratio, daily_sortino_ratio, max_drawdown, max_drawdown_pct,
+    max_drawdown_start_at, max_drawdown_end_at, recovery_factor,
+    avg_win_loss_ratio, max_consecutive_losses
+  FROM public.user_trading_metrics
+  ON CONFLICT ON CONSTRAINT user_trading_metric_snapshots_user_account_date_key DO NOTHING;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.snapshot_trading_metrics(date) FROM PUBLIC, anon, authenticated;
+
+-- Shortly before midnight UTC, so the snapshot is dated the day it describes
+SELECT cron.schedule(
+  'snapshot-trading-metrics',
+  '55 23 * * *',
+  $$SELECT public.snapshot_trading_metrics()$$
+);
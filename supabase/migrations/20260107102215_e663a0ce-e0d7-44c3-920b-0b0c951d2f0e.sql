@@ -0,0 +1,5 @@
+-- How the accuracy score breaks down: points and input for each component
+-- (average R, positive R share, consistency). Kept from the first trade,
+-- while accuracy_score itself needs 30+.
+ALTER TABLE public.user_trading_metrics
+ADD COLUMN IF NOT EXISTS accuracy_breakdown jsonb;
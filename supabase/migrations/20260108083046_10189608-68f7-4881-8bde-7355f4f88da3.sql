@@ -0,0 +1,22 @@
+-- 95% confidence intervals: Wilson for win rate, bootstrap for average R
+ALTER TABLE public.user_trading_metrics
+ADD COLUMN IF NOT EXISTS win_rate_ci_low numeric,
+ADD COLUMN IF NOT EXISTS win_rate_ci_high numeric,
+ADD COLUMN IF NOT EXISTS average_r_ci_low numeric,
+ADD COLUMN IF NOT EXISTS average_r_ci_high numeric,
+-- Graded verification: 0 unverified, 1 verified, 2 established, 3 proven.
+-- Higher tiers need more verified trades and narrower intervals.
+ADD COLUMN IF NOT EXISTS verification_tier smallint NOT NULL DEFAULT 0,
+-- Accuracy score from the pessimistic end of the intervals, for ranking
+ADD COLUMN IF NOT EXISTS ranking_score numeric;
+
+-- Rows keep their binary verification until their next recalculation
+UPDATE public.user_trading_metrics
+SET verification_tier = 1
+WHERE is_verified = true AND total_verified_trades >= 30;
+
+-- Leaderboard order: tier first, then ranking score within a tier
+DROP INDEX IF EXISTS public.idx_user_trading_metrics_verified;
+CREATE INDEX idx_user_trading_metrics_ranking
+ON public.user_trading_metrics(verification_tier DESC, ranking_score DESC NULLS LAST)
+WHERE is_verified = true AND total_verified_trades >= 30 AND account_id IS NULL;
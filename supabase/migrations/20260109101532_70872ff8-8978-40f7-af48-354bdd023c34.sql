@@ -0,0 +1,178 @@
+-- Integrity flags on trades and accounts, raised when verified metrics look
+-- gamed. Trade-level flags (simulated, below minimum notional, wash cluster)
+-- exclude the position from metrics; deletions after close and wash clusters
+-- also flag the account, suspending its verification until an admin
+-- resolves them.
+CREATE TABLE public.trade_integrity_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  -- No foreign keys: flags outlive the positions, trade log rows and
+  -- accounts they describe, and deleting those is what raises some of them
+  account_id uuid,
+  position_id bigint,
+  trade_log_id bigint,
+  flag_type text NOT NULL CHECK (
+    flag_type IN ('deleted_after_close', 'below_min_notional', 'simulated_trade', 'wash_cluster')
+  ),
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  detected_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  resolved_by uuid,
+  resolution_note text,
+  CONSTRAINT trade_integrity_flags_position_type_key UNIQUE (position_id, flag_type)
+);
+
+CREATE INDEX idx_trade_integrity_flags_open
+ON public.trade_integrity_flags(user_id, detected_at DESC)
+WHERE resolved_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.trade_integrity_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own integrity flags"
+ON public.trade_integrity_flags
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view integrity flags"
+ON public.trade_integrity_flags
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Service role full access"
+ON public.trade_integrity_flags
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Positions excluded from metrics by an unresolved trade-level flag
+ALTER TABLE public.positions
+ADD COLUMN IF NOT EXISTS integrity_excluded boolean NOT NULL DEFAULT false;
+
+-- Whether the user has unresolved account-level flags; is_verified is false while set
+ALTER TABLE public.user_trading_metrics
+ADD COLUMN IF NOT EXISTS integrity_flagged boolean NOT NULL DEFAULT false;
+
+-- Closed positions deleted by their owner. Edge functions (rebuild-positions)
+-- delete as the service role, with no auth.uid(), and are not flagged.
+CREATE OR REPLACE FUNCTION public.flag_deleted_closed_positions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.trade_integrity_flags (user_id, account_id, position_id, flag_type, details)
+  SELECT
+    user_id, account_id, id, 'deleted_after_close',
+    jsonb_build_object(
+      'symbol', symbol,
+      'side', side,
+      'net_pnl', net_pnl,
+      'r_multiple', r_multiple,
+      'exit_timestamp', exit_timestamp
+    )
+  FROM deleted_positions
+  WHERE open = false AND exit_timestamp IS NOT NULL
+  ON CONFLICT (position_id, flag_type) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER flag_deleted_closed_positions_on_delete
+AFTER DELETE ON public.positions
+REFERENCING OLD TABLE AS deleted_positions
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.flag_deleted_closed_positions();
+
+-- Exit events deleted by their owner: rebuilding positions without them
+-- would quietly drop the closed trades
+CREATE OR REPLACE FUNCTION public.flag_deleted_trade_exits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.trade_integrity_flags (user_id, account_id, trade_log_id, flag_type, details)
+  SELECT
+    user_id, account_id, id, 'deleted_after_close',
+    jsonb_build_object(
+      'symbol', symbol,
+      'side', side,
+      'pnl', pnl,
+      'position_ids', position_ids,
+      'timestamp', "timestamp"
+    )
+  FROM deleted_trade_log
+  WHERE event_type = 'TRADE_EXIT';
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER flag_deleted_trade_exits_on_delete
+AFTER DELETE ON public.trade_log
+REFERENCING OLD TABLE AS deleted_trade_log
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.flag_deleted_trade_exits();
+
+-- Admin review. Resolving a flag puts its position back into the metrics
+-- unless another flag still holds it out; the user's metrics pick the
+-- change up on their next update.
+CREATE OR REPLACE FUNCTION public.resolve_integrity_flag(_flag_id uuid, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _flag public.trade_integrity_flags%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resolve integrity flags';
+  END IF;
+
+  UPDATE public.trade_integrity_flags
+  SET resolved_at = now(), resolved_by = auth.uid(), resolution_note = _note
+  WHERE id = _flag_id AND resolved_at IS NULL
+  RETURNING * INTO _flag;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF _flag.position_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.trade_integrity_flags
+    WHERE position_id = _flag.position_id AND resolved_at IS NULL
+  ) THEN
+    -- Unscored positions are counted again; their R-multiple forces a re-aggregation
+    UPDATE public.positions
+    SET integrity_excluded = false, metrics_calculated_at = NULL
+    WHERE id = _flag.position_id AND integrity_excluded;
+  END IF;
+
+  UPDATE public.user_trading_metric_totals
+  SET stale = true
+  WHERE user_id = _flag.user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_integrity_flag(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_integrity_flag(uuid, text) TO authenticated;
+
+-- Simulated trades were counted before these checks; send them back through
+-- scoring so they are flagged and the totals re-aggregated without them
+UPDATE public.positions
+SET metrics_calculated_at = NULL
+WHERE is_simulation = true AND open = false AND metrics_calculated_at IS NOT NULL;
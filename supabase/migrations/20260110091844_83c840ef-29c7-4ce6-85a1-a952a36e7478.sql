@@ -0,0 +1,114 @@
+-- Where a position came from. Rebuilds replay trade_log, so they must only
+-- touch positions built from it; CSV imports are inserted directly.
+ALTER TABLE public.positions
+  ADD COLUMN source text NOT NULL DEFAULT 'trade_log' CHECK (source IN ('trade_log', 'csv_import'));
+
+-- Existing imports: the order importer tags its rows by platform, and rows
+-- from the position CSV upload have no trade_log event at their entry time
+UPDATE public.positions p
+SET source = 'csv_import'
+WHERE p.platform = 'CSV Import'
+   OR NOT EXISTS (
+     SELECT 1
+     FROM public.trade_log t
+     WHERE t.user_id = p.user_id
+       AND t.timestamp = p.entry_timestamp
+       AND t.event_type IN ('TRADE_ENTRY', 'TRADE_EXIT')
+   );
+
+-- Apply a position rebuild as one transaction: delete removed positions,
+-- update changed ones in place (so tags, screenshots and predictions stay
+-- attached) and insert added ones. Only trade_log positions are touched, and
+-- if any row is missing the whole rebuild is rolled back.
+CREATE OR REPLACE FUNCTION public.apply_position_rebuild(
+  _user_id uuid,
+  _delete_ids bigint[],
+  _updates jsonb,
+  _inserts jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted integer;
+  _updated integer;
+  _inserted integer;
+BEGIN
+  DELETE FROM public.positions
+  WHERE user_id = _user_id AND source = 'trade_log' AND id = ANY(_delete_ids);
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+
+  IF _deleted <> coalesce(cardinality(_delete_ids), 0) THEN
+    RAISE EXCEPTION 'Expected to delete % positions, found %', coalesce(cardinality(_delete_ids), 0), _deleted;
+  END IF;
+
+  UPDATE public.positions p
+  SET account_id = r.account_id,
+      symbol = r.symbol,
+      platform = r.platform,
+      side = r.side,
+      quantity = r.quantity,
+      quantity_lots = r.quantity_lots,
+      entry_price = r.entry_price,
+      entry_timestamp = r.entry_timestamp,
+      exit_price = r.exit_price,
+      exit_timestamp = r.exit_timestamp,
+      pnl = r.pnl,
+      pnl_pct = r.pnl_pct,
+      pnl_native = r.pnl_native,
+      pnl_currency = r.pnl_currency,
+      account_currency = r.account_currency,
+      fx_rate = r.fx_rate,
+      open = r.open,
+      is_simulation = r.is_simulation,
+      asset_class = r.asset_class,
+      pip_size = r.pip_size,
+      pip_value = r.pip_value,
+      pips = r.pips,
+      tick_size = r.tick_size,
+      tick_value = r.tick_value,
+      ticks = r.ticks,
+      initial_stop_loss = r.initial_stop_loss,
+      stop_loss = r.stop_loss,
+      initial_take_profit = r.initial_take_profit,
+      take_profit = r.take_profit,
+      matching_method = r.matching_method,
+      commission = r.commission,
+      swap = r.swap,
+      funding = r.funding,
+      fees_total = r.fees_total,
+      broker_position_id = r.broker_position_id,
+      updated_at = now(),
+      metrics_calculated_at = NULL
+  FROM jsonb_populate_recordset(NULL::public.positions, coalesce(_updates, '[]'::jsonb)) r
+  WHERE p.id = r.id AND p.user_id = _user_id AND p.source = 'trade_log';
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+
+  IF _updated <> jsonb_array_length(coalesce(_updates, '[]'::jsonb)) THEN
+    RAISE EXCEPTION 'Expected to update % positions, found %', jsonb_array_length(coalesce(_updates, '[]'::jsonb)), _updated;
+  END IF;
+
+  INSERT INTO public.positions (
+    user_id, account_id, symbol, platform, side, quantity, quantity_lots, entry_price, entry_timestamp,
+    exit_price, exit_timestamp, pnl, pnl_pct, pnl_native, pnl_currency, account_currency, fx_rate, open,
+    is_simulation, asset_class, pip_size, pip_value, pips, tick_size, tick_value, ticks, initial_stop_loss,
+    stop_loss, initial_take_profit, take_profit, matching_method, commission, swap, funding, fees_total,
+    broker_position_id
+  )
+  SELECT
+    _user_id, r.account_id, r.symbol, r.platform, r.side, r.quantity, r.quantity_lots, r.entry_price, r.entry_timestamp,
+    r.exit_price, r.exit_timestamp, r.pnl, r.pnl_pct, r.pnl_native, r.pnl_currency, r.account_currency, r.fx_rate, r.open,
+    r.is_simulation, r.asset_class, r.pip_size, r.pip_value, r.pips, r.tick_size, r.tick_value, r.ticks, r.initial_stop_loss,
+    r.stop_loss, r.initial_take_profit, r.take_profit, r.matching_method, r.commission, r.swap, r.funding, r.fees_total,
+    r.broker_position_id
+  FROM jsonb_populate_recordset(NULL::public.positions, coalesce(_inserts, '[]'::jsonb)) r;
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+  RETURN jsonb_build_object('updated', _updated, 'inserted', _inserted, 'deleted', _deleted);
+END;
+$$;
+
+-- Only rebuild-positions, with the service role, applies rebuilds
+REVOKE EXECUTE ON FUNCTION public.apply_position_rebuild(uuid, bigint[], jsonb, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,6 @@
+-- receive-trade counts every request against the caller's IP before
+-- authenticating it, so floods of bad API keys stop at the rate limiter.
+-- Generous enough for several EAs behind one address.
+INSERT INTO public.rate_limit_budgets (function_name, max_requests, window_seconds) VALUES
+  ('receive-trade-ip', 600, 60)
+ON CONFLICT (function_name) DO NOTHING;
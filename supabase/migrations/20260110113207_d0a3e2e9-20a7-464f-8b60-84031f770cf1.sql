@@ -0,0 +1,77 @@
+-- Request signing moves from the user onto each API key, so signed mode can
+-- be enforced for the keys that need it without breaking the others.
+ALTER TABLE public.api_keys
+  ADD COLUMN signing_secret text,
+  ADD COLUMN require_signed_requests boolean NOT NULL DEFAULT false;
+
+-- Existing keys keep their owner's settings
+UPDATE public.api_keys k
+SET signing_secret = p.signing_secret,
+    require_signed_requests = p.require_signed_requests
+FROM public.profiles p
+WHERE p.user_id = k.user_id
+  AND (p.signing_secret IS NOT NULL OR p.require_signed_requests);
+
+DROP FUNCTION IF EXISTS public.regenerate_signing_secret(uuid);
+
+ALTER TABLE public.profiles
+  DROP COLUMN IF EXISTS signing_secret,
+  DROP COLUMN IF EXISTS require_signed_requests;
+
+-- Create or replace the signing secret of one of the caller's keys
+CREATE OR REPLACE FUNCTION public.regenerate_api_key_signing_secret(_key_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_secret text;
+BEGIN
+  new_secret := 'whsec_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  UPDATE public.api_keys
+  SET signing_secret = new_secret
+  WHERE id = _key_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  RETURN new_secret;
+END;
+$$;
+
+-- Turn signed mode on or off for one of the caller's keys. It can only be
+-- required once the key has a secret to sign with.
+CREATE OR REPLACE FUNCTION public.set_api_key_require_signed(_key_id uuid, _required boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _secret text;
+BEGIN
+  SELECT signing_secret INTO _secret
+  FROM public.api_keys
+  WHERE id = _key_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF _required AND _secret IS NULL THEN
+    RAISE EXCEPTION 'Generate a signing secret for this key first';
+  END IF;
+
+  UPDATE public.api_keys
+  SET require_signed_requests = _required
+  WHERE id = _key_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.regenerate_api_key_signing_secret(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_api_key_require_signed(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.regenerate_api_key_signing_secret(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_api_key_require_signed(uuid, boolean) TO authenticated;
@@ -0,0 +1,35 @@
+-- Clients may only rename and revoke their keys. Hashes, scopes, signing
+-- settings and usage stats change through the RPCs and the service role.
+DROP POLICY IF EXISTS "Users can update their own API keys" ON public.api_keys;
+
+CREATE POLICY "Users can update their own API keys"
+ON public.api_keys
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON public.api_keys FROM anon, authenticated;
+GRANT UPDATE (name, revoked_at) ON public.api_keys TO authenticated;
+
+-- Revoking is final for clients. The Chrome extension key sync reactivates
+-- its own key as the table owner, so it is not affected.
+CREATE OR REPLACE FUNCTION public.prevent_api_key_reactivation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+     AND OLD.revoked_at IS NOT NULL
+     AND NEW.revoked_at IS DISTINCT FROM OLD.revoked_at THEN
+    RAISE EXCEPTION 'A revoked API key cannot be reactivated';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_api_key_reactivation
+BEFORE UPDATE OF revoked_at ON public.api_keys
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_api_key_reactivation();
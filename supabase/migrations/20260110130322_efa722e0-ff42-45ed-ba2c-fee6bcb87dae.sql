@@ -0,0 +1,46 @@
+-- Expectancy in R as its own statistic, alongside expectancy in account
+-- currency. Stored totals are rebuilt (their schema changed), which also
+-- corrects max_drawdown_pct to the deepest percentage fall.
+ALTER TABLE public.user_trading_metrics
+ADD COLUMN IF NOT EXISTS expectancy_r numeric;
+
+ALTER TABLE public.user_trading_metric_snapshots
+ADD COLUMN IF NOT EXISTS expectancy_r numeric;
+
+-- Copy every metrics row into a snapshot for the given day, keeping any
+-- snapshot already written for it
+CREATE OR REPLACE FUNCTION public.snapshot_trading_metrics(_snapshot_date date DEFAULT current_date)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inserted integer;
+BEGIN
+  INSERT INTO public.user_trading_metric_snapshots (
+    user_id, account_id, snapshot_date,
+    total_verified_trades, total_wins, total_losses, total_breakeven,
+    win_rate, average_r, total_r, positive_r_percentage, r_variance,
+    stop_based_percentage, accuracy_score, is_verified, total_net_pnl,
+    profit_factor, expectancy, expectancy_r, sharpe_ratio, sortino_ratio,
+    daily_sharpe_ratio, daily_sortino_ratio, max_drawdown, max_drawdown_pct,
+    max_drawdown_start_at, max_drawdown_end_at, recovery_factor,
+    avg_win_loss_ratio, max_consecutive_losses
+  )
+  SELECT
+    user_id, account_id, _snapshot_date,
+    total_verified_trades, total_wins, total_losses, total_breakeven,
+    win_rate, average_r, total_r, positive_r_percentage, r_variance,
+    stop_based_percentage, accuracy_score, is_verified, total_net_pnl,
+    profit_factor, expectancy, expectancy_r, sharpe_ratio, sortino_ratio,
+    daily_sharpe_ratio, daily_sortino_ratio, max_drawdown, max_drawdown_pct,
+    max_drawdown_start_at, max_drawdown_end_at, recovery_factor,
+    avg_win_loss_ratio, max_consecutive_losses
+  FROM public.user_trading_metrics
+  ON CONFLICT ON CONSTRAINT user_trading_metric_snapshots_user_account_date_key DO NOTHING;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
@@ -0,0 +1,50 @@
+-- create_api_key returns a plaintext key, so only a signed-in user may call
+-- it, only for themselves, and only with the scopes the app knows about
+CREATE OR REPLACE FUNCTION public.create_api_key(
+  target_user_id uuid,
+  key_name text,
+  key_scopes text[] DEFAULT ARRAY['trades:write'],
+  key_expires_at timestamptz DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_key text;
+BEGIN
+  -- auth.uid() is NULL for anonymous callers, which != would let through
+  IF auth.uid() IS NULL OR auth.uid() IS DISTINCT FROM target_user_id THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF key_scopes IS NULL
+    OR cardinality(key_scopes) = 0
+    OR NOT key_scopes <@ ARRAY['trades:write', 'metrics:read', 'predictions:read']
+  THEN
+    RAISE EXCEPTION 'Unknown API key scope';
+  END IF;
+
+  IF key_expires_at IS NOT NULL AND key_expires_at <= now() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  new_key := public.generate_api_key();
+
+  INSERT INTO public.api_keys (user_id, name, key_hash, key_prefix, scopes, expires_at)
+  VALUES (
+    target_user_id,
+    trim(key_name),
+    public.hash_api_key(new_key),
+    left(new_key, 11),
+    ARRAY(SELECT DISTINCT unnest(key_scopes)),
+    key_expires_at
+  );
+
+  RETURN new_key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_api_key(uuid, text, text[], timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_api_key(uuid, text, text[], timestamptz) TO authenticated;
@@ -0,0 +1,38 @@
+-- Balance an account started from, so drawdown can be given as a percentage
+-- of the account rather than of cumulative PnL
+ALTER TABLE public.trading_accounts
+ADD COLUMN starting_balance numeric CHECK (starting_balance IS NULL OR starting_balance > 0);
+
+-- Running totals carry the balances they were built with; any change to the
+-- user's balances, including the all-accounts sum, needs a re-aggregation
+CREATE OR REPLACE FUNCTION public.flag_metric_totals_stale_on_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _user_id := OLD.user_id;
+  ELSE
+    _user_id := NEW.user_id;
+  END IF;
+
+  UPDATE public.user_trading_metric_totals
+  SET stale = true
+  WHERE user_id = _user_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER flag_metric_totals_stale_on_balance
+AFTER INSERT OR DELETE OR UPDATE OF starting_balance ON public.trading_accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.flag_metric_totals_stale_on_balance();
+
+-- Percentages stored so far were of peak cumulative PnL. No account has a
+-- balance yet, so they all become null; the next update rebuilds the totals.
+UPDATE public.user_trading_metrics SET max_drawdown_pct = NULL WHERE max_drawdown_pct IS NOT NULL;
+UPDATE public.user_trading_metric_snapshots SET max_drawdown_pct = NULL WHERE max_drawdown_pct IS NOT NULL;